@@ -0,0 +1,45 @@
+/**
+ * Import a Move publish/upgrade into a deployment manifest
+ *
+ *   npm run import-deployment -- <network> [output-file]
+ *
+ * Reads the `one client publish` / `one client upgrade` output (default
+ * src/Move/OneValleyMove/deployOutput.txt), validates it and writes
+ * src/config/deployments/<network>.json, which networks.ts loads.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  buildDeploymentManifest,
+  validateDeploymentManifest,
+  type DeploymentManifest,
+} from '../src/config/deployment.js';
+
+const NETWORKS = ['devnet', 'testnet', 'mainnet', 'localnet'] as const;
+
+const [network, outputFile = 'src/Move/OneValleyMove/deployOutput.txt'] = process.argv.slice(2);
+
+if (!NETWORKS.includes(network as any)) {
+  console.error(`Usage: npm run import-deployment -- <${NETWORKS.join('|')}> [output-file]`);
+  process.exit(1);
+}
+
+const manifestPath = resolve('src/config/deployments', `${network}.json`);
+const previous: DeploymentManifest | undefined = existsSync(manifestPath)
+  ? JSON.parse(readFileSync(manifestPath, 'utf8'))
+  : undefined;
+
+const manifest = buildDeploymentManifest(network as DeploymentManifest['network'], readFileSync(outputFile, 'utf8'), previous);
+const problems = validateDeploymentManifest(manifest, manifest.network);
+
+if (problems.length > 0) {
+  console.error(`❌ ${outputFile} is not a usable ${network} deployment:`);
+  problems.forEach(problem => console.error(`   - ${problem}`));
+  process.exit(1);
+}
+
+writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+console.log(`✅ Wrote ${manifestPath}`);
+console.log(`   Package: ${manifest.package_id} (v${manifest.package_version})`);
+Object.entries(manifest.objects).forEach(([struct, object]) => console.log(`   ${struct}: ${object.object_id}`));
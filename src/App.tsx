@@ -3,6 +3,9 @@ import { IRefPhaserGame, PhaserGame } from './PhaserGame';
 import { ConnectModal, useCurrentAccount, useSignAndExecuteTransaction } from '@onelabs/dapp-kit';
 import { CreditCard, CreditCardFront, CreditCardNumber, CreditCardName, CreditCardFlipper, CreditCardLogo, CreditCardBack, CreditCardChip } from './components/ui/shadcn-io/credit-card';
 import WalletBridgeService from './services/WalletBridgeService';
+import { LOCAL_LEDGER_CONFIG } from './services/LocalLedger';
+import { CHAIN_BACKEND } from './config/contracts';
+import { getActiveNetwork, loadActiveNetwork } from './config/networks';
 import OneChainTestMint from './components/OneChainTestMint';
 
 function App() {
@@ -11,12 +14,31 @@ function App() {
     const [gameStarted, setGameStarted] = useState(false);
     const [isConnectModalOpen, setIsConnectModalOpen] = useState(false);
     const [showTestPanel, setShowTestPanel] = useState(false);
+    const [networkReady, setNetworkReady] = useState(false);
+    const [networkError, setNetworkError] = useState<string | null>(null);
 
     const phaserRef = useRef(null);
 
+    // The local chain backend plays as the local ledger account, no wallet needed
+    const isLocalChain = CHAIN_BACKEND === 'local';
+    const accountAddress = isLocalChain ? LOCAL_LEDGER_CONFIG.PLAYER_ADDRESS : currentAccount?.address;
+
+    // Localnet reads its package and object IDs from the publish output first
+    useEffect(() => {
+        loadActiveNetwork()
+            .then(() => setNetworkReady(true))
+            .catch(error => {
+                console.error('Failed to load network profile:', error);
+                setNetworkError(error instanceof Error ? error.message : String(error));
+            });
+    }, []);
+
     // Initialize wallet bridge when account connects
     useEffect(() => {
-        if (currentAccount && signAndExecuteTransactionAsync) {
+        if (isLocalChain) {
+            WalletBridgeService.getInstance().initializeLocal();
+            console.log('Wallet bridge initialized with the local ledger account');
+        } else if (currentAccount && signAndExecuteTransactionAsync) {
             console.log('Initializing wallet bridge for account:', currentAccount.address);
 
             // Initialize the wallet bridge with the connected wallet
@@ -60,7 +82,7 @@ function App() {
             walletBridge.disconnect();
             console.log('Wallet bridge disconnected');
         }
-    }, [currentAccount, signAndExecuteTransactionAsync]);
+    }, [isLocalChain, currentAccount, signAndExecuteTransactionAsync]);
 
     const handleStartGame = () => {
         setGameStarted(true);
@@ -68,7 +90,7 @@ function App() {
 
     return (
         <div id="app" className='w-full'>
-            {!currentAccount ? (
+            {!accountAddress ? (
                 <div className="main-menu flex flex-col items-center justify-center">
                     <div className="absolute z-[-1] bg-[url('/assets/bg.webp')] w-screen h-screen bg-cover bg-center opacity-[0.7]"></div>
                     <h1 className="pixelfont text-[5rem] text-[white]">OneValley</h1>
@@ -111,7 +133,7 @@ function App() {
                         <CreditCardFlipper>
                             <CreditCardFront safeArea={50} className="bg-[#F2F2F2] text-[#909090]">
 
-                                <CreditCardNumber truncateLength={10}>{currentAccount.address}</CreditCardNumber>
+                                <CreditCardNumber truncateLength={10}>{accountAddress}</CreditCardNumber>
                             </CreditCardFront>
                             <CreditCardBack safeArea={20} className="bg-[#F2F2F2] text-[#909090] flex flex-col items-center justify-center border border-[black] border-[40px]">
                                 <img src="/assets/onechain.png" alt="OneChain Logo" className="w-1/2 mb-[6rem]" />
@@ -119,7 +141,9 @@ function App() {
                             </CreditCardBack>
                         </CreditCardFlipper>
                     </CreditCard>
-                    <button className="retroButton" onClick={handleStartGame}>
+                    <p className='text-[white]'>Network: {getActiveNetwork().label}</p>
+                    {networkError && <p className='text-[#ff6b6b]'>{networkError}</p>}
+                    <button className="retroButton" onClick={handleStartGame} disabled={!networkReady}>
                         Start Game
                     </button>
 
@@ -0,0 +1,302 @@
+/// Marketplace module for OneValley GameFi project
+/// Players list items at a fixed OCT price; buyers pay the exact price and the
+/// marketplace keeps a fee, sending the rest to the seller
+module one_valley_gamefi::marketplace {
+    use one::balance::{Self, Balance};
+    use one::clock::Clock;
+    use one::coin::{Self, Coin};
+    use one::event;
+    use one::oct::OCT;
+
+    // === Constants ===
+    // Keep in sync with MARKETPLACE_CONFIG in src/config/contracts.ts
+    const FEE_BPS: u64 = 250; // 2.5%
+    const BPS_DENOMINATOR: u64 = 10_000;
+    const MIN_LISTING_PRICE: u64 = 10;
+    const MAX_LISTING_PRICE: u64 = 1_000_000;
+    const LISTING_DURATION_MS: u64 = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+    // === Errors ===
+    const EPriceTooLow: u64 = 0;
+    const EPriceTooHigh: u64 = 1;
+    const ENotSeller: u64 = 2;
+    const EListingExpired: u64 = 3;
+    const EIncorrectPayment: u64 = 4;
+    const ENotAdmin: u64 = 5;
+
+    // === Structs ===
+
+    /// Shared marketplace that collects fees and tracks totals
+    public struct Marketplace has key {
+        id: UID,
+        admin: address,
+        fees: Balance<OCT>,
+        active_listings: u64,
+        total_sales: u64,
+        total_volume: u64,
+    }
+
+    /// An item for sale. Shared so any player can buy it; the item is
+    /// wrapped until the listing is purchased or cancelled
+    public struct Listing<T: key + store> has key {
+        id: UID,
+        item: T,
+        /// ID of the wrapped item
+        item_id: ID,
+        seller: address,
+        /// Price in MIST
+        price: u64,
+        listed_at: u64,
+        expires_at: u64,
+    }
+
+    // === Events ===
+
+    /// Event emitted when an item is listed
+    public struct ItemListed has copy, drop {
+        listing_id: ID,
+        item_id: ID,
+        seller: address,
+        price: u64,
+        listed_at: u64,
+        expires_at: u64,
+    }
+
+    /// Event emitted when a listing is purchased
+    public struct ItemSold has copy, drop {
+        listing_id: ID,
+        item_id: ID,
+        seller: address,
+        buyer: address,
+        price: u64,
+        fee: u64,
+        sold_at: u64,
+    }
+
+    /// Event emitted when the seller takes a listing down
+    public struct ListingCancelled has copy, drop {
+        listing_id: ID,
+        item_id: ID,
+        seller: address,
+        cancelled_at: u64,
+    }
+
+    /// Event emitted when the seller changes a listing's price
+    public struct ListingPriceUpdated has copy, drop {
+        listing_id: ID,
+        seller: address,
+        old_price: u64,
+        new_price: u64,
+        updated_at: u64,
+    }
+
+    // === Public Functions ===
+
+    /// Initialize the module by sharing the Marketplace
+    fun init(ctx: &mut TxContext) {
+        let marketplace = Marketplace {
+            id: object::new(ctx),
+            admin: ctx.sender(),
+            fees: balance::zero(),
+            active_listings: 0,
+            total_sales: 0,
+            total_volume: 0,
+        };
+        transfer::share_object(marketplace);
+    }
+
+    /// List `item` for `price` MIST. The listing is shared and expires
+    /// after LISTING_DURATION_MS
+    public fun list_item<T: key + store>(
+        marketplace: &mut Marketplace,
+        item: T,
+        price: u64,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ): ID {
+        assert_valid_price(price);
+
+        let listed_at = clock.timestamp_ms();
+        let listing = Listing {
+            id: object::new(ctx),
+            item_id: object::id(&item),
+            item,
+            seller: ctx.sender(),
+            price,
+            listed_at,
+            expires_at: listed_at + LISTING_DURATION_MS,
+        };
+        let listing_id = object::id(&listing);
+
+        event::emit(ItemListed {
+            listing_id,
+            item_id: listing.item_id,
+            seller: listing.seller,
+            price,
+            listed_at,
+            expires_at: listing.expires_at,
+        });
+
+        marketplace.active_listings = marketplace.active_listings + 1;
+        transfer::share_object(listing);
+        listing_id
+    }
+
+    /// Buy a listing with a coin worth exactly its price. The fee stays in
+    /// the marketplace, the rest goes to the seller
+    public fun purchase_item<T: key + store>(
+        marketplace: &mut Marketplace,
+        listing: Listing<T>,
+        mut payment: Coin<OCT>,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ): T {
+        let now = clock.timestamp_ms();
+        assert!(now < listing.expires_at, EListingExpired);
+        assert!(payment.value() == listing.price, EIncorrectPayment);
+
+        let listing_id = object::id(&listing);
+        let Listing { id, item, item_id, seller, price, listed_at: _, expires_at: _ } = listing;
+        object::delete(id);
+
+        let fee = calculate_fee(price);
+        marketplace.fees.join(coin::into_balance(payment.split(fee, ctx)));
+        transfer::public_transfer(payment, seller);
+
+        marketplace.active_listings = marketplace.active_listings - 1;
+        marketplace.total_sales = marketplace.total_sales + 1;
+        marketplace.total_volume = marketplace.total_volume + price;
+
+        event::emit(ItemSold {
+            listing_id,
+            item_id,
+            seller,
+            buyer: ctx.sender(),
+            price,
+            fee,
+            sold_at: now,
+        });
+
+        item
+    }
+
+    /// Take a listing down and get the item back. Only the seller can cancel;
+    /// expired listings can still be cancelled
+    public fun cancel_listing<T: key + store>(
+        marketplace: &mut Marketplace,
+        listing: Listing<T>,
+        clock: &Clock,
+        ctx: &TxContext
+    ): T {
+        assert!(listing.seller == ctx.sender(), ENotSeller);
+
+        let listing_id = object::id(&listing);
+        let Listing { id, item, item_id, seller, price: _, listed_at: _, expires_at: _ } = listing;
+        object::delete(id);
+
+        marketplace.active_listings = marketplace.active_listings - 1;
+
+        event::emit(ListingCancelled {
+            listing_id,
+            item_id,
+            seller,
+            cancelled_at: clock.timestamp_ms(),
+        });
+
+        item
+    }
+
+    /// Change the price of an active listing. Only the seller can update it;
+    /// the expiry stays the same
+    public fun update_price<T: key + store>(
+        listing: &mut Listing<T>,
+        new_price: u64,
+        clock: &Clock,
+        ctx: &TxContext
+    ) {
+        assert!(listing.seller == ctx.sender(), ENotSeller);
+        let now = clock.timestamp_ms();
+        assert!(now < listing.expires_at, EListingExpired);
+        assert_valid_price(new_price);
+
+        let old_price = listing.price;
+        listing.price = new_price;
+
+        event::emit(ListingPriceUpdated {
+            listing_id: object::id(listing),
+            seller: listing.seller,
+            old_price,
+            new_price,
+            updated_at: now,
+        });
+    }
+
+    // === View Functions ===
+
+    /// Fee the marketplace keeps when a listing sells for `price`
+    public fun calculate_fee(price: u64): u64 {
+        price * FEE_BPS / BPS_DENOMINATOR
+    }
+
+    /// Get listing seller
+    public fun listing_seller<T: key + store>(listing: &Listing<T>): address {
+        listing.seller
+    }
+
+    /// Get listing price
+    public fun listing_price<T: key + store>(listing: &Listing<T>): u64 {
+        listing.price
+    }
+
+    /// Get the ID of the listed item
+    public fun listing_item_id<T: key + store>(listing: &Listing<T>): ID {
+        listing.item_id
+    }
+
+    /// Get listing expiry timestamp
+    public fun listing_expires_at<T: key + store>(listing: &Listing<T>): u64 {
+        listing.expires_at
+    }
+
+    /// Get marketplace active listings
+    public fun marketplace_active_listings(marketplace: &Marketplace): u64 {
+        marketplace.active_listings
+    }
+
+    /// Get marketplace total sales
+    public fun marketplace_total_sales(marketplace: &Marketplace): u64 {
+        marketplace.total_sales
+    }
+
+    /// Get marketplace total volume
+    public fun marketplace_total_volume(marketplace: &Marketplace): u64 {
+        marketplace.total_volume
+    }
+
+    /// Get fees collected and not yet withdrawn
+    public fun marketplace_fees(marketplace: &Marketplace): u64 {
+        marketplace.fees.value()
+    }
+
+    // === Admin Functions ===
+
+    /// Withdraw the collected fees
+    public fun withdraw_fees(marketplace: &mut Marketplace, ctx: &mut TxContext): Coin<OCT> {
+        assert!(marketplace.admin == ctx.sender(), ENotAdmin);
+        let amount = marketplace.fees.value();
+        coin::take(&mut marketplace.fees, amount, ctx)
+    }
+
+    // === Private Functions ===
+
+    fun assert_valid_price(price: u64) {
+        assert!(price >= MIN_LISTING_PRICE, EPriceTooLow);
+        assert!(price <= MAX_LISTING_PRICE, EPriceTooHigh);
+    }
+
+    // === Test Functions ===
+    #[test_only]
+    public fun init_for_testing(ctx: &mut TxContext) {
+        init(ctx);
+    }
+}
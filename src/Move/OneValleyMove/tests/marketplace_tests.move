@@ -0,0 +1,267 @@
+#[test_only]
+module one_valley_gamefi::marketplace_tests {
+    use one::clock::{Self, Clock};
+    use one::coin::{Self, Coin};
+    use one::oct::OCT;
+    use one::test_scenario::{Self as ts, Scenario};
+    use one_valley_gamefi::marketplace::{Self, Marketplace, Listing};
+
+    // === Constants ===
+    const ADMIN: address = @0xAD;
+    const SELLER: address = @0x5E;
+    const BUYER: address = @0xB0;
+
+    const PRICE: u64 = 1_000;
+    const LISTING_DURATION_MS: u64 = 30 * 24 * 60 * 60 * 1000;
+
+    // === Structs ===
+
+    /// Stand-in for a game item
+    public struct TestItem has key, store {
+        id: UID,
+    }
+
+    // === Helpers ===
+
+    /// Publish the marketplace and create the shared clock
+    fun setup(): (Scenario, Clock) {
+        let mut scenario = ts::begin(ADMIN);
+        marketplace::init_for_testing(scenario.ctx());
+        let clock = clock::create_for_testing(scenario.ctx());
+        (scenario, clock)
+    }
+
+    /// List a fresh TestItem as SELLER and return its ID
+    fun list_test_item(scenario: &mut Scenario, clock: &Clock, price: u64): ID {
+        scenario.next_tx(SELLER);
+        let mut market = scenario.take_shared<Marketplace>();
+        let item = TestItem { id: object::new(scenario.ctx()) };
+        let item_id = object::id(&item);
+        marketplace::list_item(&mut market, item, price, clock, scenario.ctx());
+        ts::return_shared(market);
+        item_id
+    }
+
+    /// Buy the only listing as BUYER with a coin worth `amount`
+    fun purchase(scenario: &mut Scenario, clock: &Clock, amount: u64): TestItem {
+        scenario.next_tx(BUYER);
+        let mut market = scenario.take_shared<Marketplace>();
+        let listing = scenario.take_shared<Listing<TestItem>>();
+        let payment = coin::mint_for_testing<OCT>(amount, scenario.ctx());
+        let item = marketplace::purchase_item(&mut market, listing, payment, clock, scenario.ctx());
+        ts::return_shared(market);
+        item
+    }
+
+    fun destroy_item(item: TestItem) {
+        let TestItem { id } = item;
+        object::delete(id);
+    }
+
+    // === Tests ===
+
+    #[test]
+    fun test_list_item_wraps_item_in_shared_listing() {
+        let (mut scenario, clock) = setup();
+        let item_id = list_test_item(&mut scenario, &clock, PRICE);
+
+        scenario.next_tx(BUYER);
+        let listing = scenario.take_shared<Listing<TestItem>>();
+        assert!(marketplace::listing_seller(&listing) == SELLER);
+        assert!(marketplace::listing_price(&listing) == PRICE);
+        assert!(marketplace::listing_item_id(&listing) == item_id);
+        assert!(marketplace::listing_expires_at(&listing) == LISTING_DURATION_MS);
+        ts::return_shared(listing);
+
+        let market = scenario.take_shared<Marketplace>();
+        assert!(marketplace::marketplace_active_listings(&market) == 1);
+        ts::return_shared(market);
+
+        clock.destroy_for_testing();
+        scenario.end();
+    }
+
+    #[test]
+    fun test_purchase_pays_seller_and_collects_fee() {
+        let (mut scenario, clock) = setup();
+        let item_id = list_test_item(&mut scenario, &clock, PRICE);
+
+        let item = purchase(&mut scenario, &clock, PRICE);
+        assert!(object::id(&item) == item_id);
+        destroy_item(item);
+
+        // 2.5% of 1000 stays in the marketplace, the seller gets the rest
+        scenario.next_tx(SELLER);
+        let proceeds = scenario.take_from_address<Coin<OCT>>(SELLER);
+        assert!(proceeds.value() == 975);
+        ts::return_to_address(SELLER, proceeds);
+
+        let market = scenario.take_shared<Marketplace>();
+        assert!(marketplace::marketplace_fees(&market) == 25);
+        assert!(marketplace::marketplace_active_listings(&market) == 0);
+        assert!(marketplace::marketplace_total_sales(&market) == 1);
+        assert!(marketplace::marketplace_total_volume(&market) == PRICE);
+        ts::return_shared(market);
+
+        clock.destroy_for_testing();
+        scenario.end();
+    }
+
+    #[test]
+    fun test_fee_rounds_down() {
+        assert!(marketplace::calculate_fee(10) == 0);
+        assert!(marketplace::calculate_fee(39) == 0);
+        assert!(marketplace::calculate_fee(40) == 1);
+        assert!(marketplace::calculate_fee(1_000_000) == 25_000);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = marketplace::EIncorrectPayment)]
+    fun test_purchase_with_wrong_amount_fails() {
+        let (mut scenario, clock) = setup();
+        list_test_item(&mut scenario, &clock, PRICE);
+
+        let item = purchase(&mut scenario, &clock, PRICE - 1);
+        destroy_item(item);
+
+        clock.destroy_for_testing();
+        scenario.end();
+    }
+
+    #[test]
+    #[expected_failure(abort_code = marketplace::EListingExpired)]
+    fun test_purchase_after_expiry_fails() {
+        let (mut scenario, mut clock) = setup();
+        list_test_item(&mut scenario, &clock, PRICE);
+
+        clock.set_for_testing(LISTING_DURATION_MS);
+        let item = purchase(&mut scenario, &clock, PRICE);
+        destroy_item(item);
+
+        clock.destroy_for_testing();
+        scenario.end();
+    }
+
+    #[test]
+    #[expected_failure(abort_code = marketplace::EPriceTooLow)]
+    fun test_list_below_min_price_fails() {
+        let (mut scenario, clock) = setup();
+        list_test_item(&mut scenario, &clock, 9);
+
+        clock.destroy_for_testing();
+        scenario.end();
+    }
+
+    #[test]
+    #[expected_failure(abort_code = marketplace::EPriceTooHigh)]
+    fun test_list_above_max_price_fails() {
+        let (mut scenario, clock) = setup();
+        list_test_item(&mut scenario, &clock, 1_000_001);
+
+        clock.destroy_for_testing();
+        scenario.end();
+    }
+
+    #[test]
+    fun test_cancel_listing_returns_item() {
+        let (mut scenario, mut clock) = setup();
+        let item_id = list_test_item(&mut scenario, &clock, PRICE);
+
+        // Sellers can take down expired listings too
+        clock.set_for_testing(LISTING_DURATION_MS + 1);
+        scenario.next_tx(SELLER);
+        let mut market = scenario.take_shared<Marketplace>();
+        let listing = scenario.take_shared<Listing<TestItem>>();
+        let item = marketplace::cancel_listing(&mut market, listing, &clock, scenario.ctx());
+        assert!(object::id(&item) == item_id);
+        assert!(marketplace::marketplace_active_listings(&market) == 0);
+        ts::return_shared(market);
+        destroy_item(item);
+
+        clock.destroy_for_testing();
+        scenario.end();
+    }
+
+    #[test]
+    #[expected_failure(abort_code = marketplace::ENotSeller)]
+    fun test_cancel_by_other_player_fails() {
+        let (mut scenario, clock) = setup();
+        list_test_item(&mut scenario, &clock, PRICE);
+
+        scenario.next_tx(BUYER);
+        let mut market = scenario.take_shared<Marketplace>();
+        let listing = scenario.take_shared<Listing<TestItem>>();
+        let item = marketplace::cancel_listing(&mut market, listing, &clock, scenario.ctx());
+        ts::return_shared(market);
+        destroy_item(item);
+
+        clock.destroy_for_testing();
+        scenario.end();
+    }
+
+    #[test]
+    fun test_update_price() {
+        let (mut scenario, clock) = setup();
+        list_test_item(&mut scenario, &clock, PRICE);
+
+        scenario.next_tx(SELLER);
+        let mut listing = scenario.take_shared<Listing<TestItem>>();
+        marketplace::update_price(&mut listing, 2_000, &clock, scenario.ctx());
+        assert!(marketplace::listing_price(&listing) == 2_000);
+        ts::return_shared(listing);
+
+        let item = purchase(&mut scenario, &clock, 2_000);
+        destroy_item(item);
+
+        clock.destroy_for_testing();
+        scenario.end();
+    }
+
+    #[test]
+    #[expected_failure(abort_code = marketplace::ENotSeller)]
+    fun test_update_price_by_other_player_fails() {
+        let (mut scenario, clock) = setup();
+        list_test_item(&mut scenario, &clock, PRICE);
+
+        scenario.next_tx(BUYER);
+        let mut listing = scenario.take_shared<Listing<TestItem>>();
+        marketplace::update_price(&mut listing, 2_000, &clock, scenario.ctx());
+        ts::return_shared(listing);
+
+        clock.destroy_for_testing();
+        scenario.end();
+    }
+
+    #[test]
+    fun test_admin_withdraws_fees() {
+        let (mut scenario, clock) = setup();
+        list_test_item(&mut scenario, &clock, PRICE);
+        destroy_item(purchase(&mut scenario, &clock, PRICE));
+
+        scenario.next_tx(ADMIN);
+        let mut market = scenario.take_shared<Marketplace>();
+        let fees = marketplace::withdraw_fees(&mut market, scenario.ctx());
+        assert!(fees.value() == 25);
+        assert!(marketplace::marketplace_fees(&market) == 0);
+        ts::return_shared(market);
+        coin::burn_for_testing(fees);
+
+        clock.destroy_for_testing();
+        scenario.end();
+    }
+
+    #[test]
+    #[expected_failure(abort_code = marketplace::ENotAdmin)]
+    fun test_withdraw_fees_by_other_player_fails() {
+        let (mut scenario, clock) = setup();
+
+        scenario.next_tx(SELLER);
+        let mut market = scenario.take_shared<Marketplace>();
+        let fees = marketplace::withdraw_fees(&mut market, scenario.ctx());
+        ts::return_shared(market);
+        coin::burn_for_testing(fees);
+
+        clock.destroy_for_testing();
+        scenario.end();
+    }
+}
@@ -2,35 +2,51 @@
  * OneChain Contract Configuration
  *
  * Contract addresses and configuration for deployed OneChain Move contracts
- * Used by marketplace and trading services for blockchain integration
+ * Used by marketplace and trading services for blockchain integration.
+ * Addresses and URLs follow the active network profile (networks.ts).
  */
 
-// OneValley Move contract addresses (deployed on testnet)
-export const ONECHAIN_CONTRACTS = {
-  PACKAGE_ID: '0x525e26fd3ff5142603b76fa2eafdf021af6e3f43dd5758ef02288ad96c6e5636',
-  GAME_CUSTODIAN: '0xc9d37f75e935f7239fbbba53e3d05ae8114d0bb5b04b8b2063678f8a7fe952a5',
-  ITEM_FORGE: '0xee37342c10bcffda4ffb89e6b148e026a7987c3d69bc6f41c91fbec0dcb32ef3',
-  // MARKETPLACE: Will be deployed separately as part of the marketplace module
-  MARKETPLACE: '0x7b8c9d0e1f2a3b4c5d6e7f8a9b0c1d2e3f4a5b6c7d8e9f0a1b2c3d4e5f6a7b8c', // Placeholder
-} as const;
+import { getActiveNetwork } from './networks';
 
-// Move module targets
+// OneValley Move contract addresses on the active network (see networks.ts)
+export const ONECHAIN_CONTRACTS = {
+  get PACKAGE_ID() { return getActiveNetwork().package_id; },
+  // Struct and event types keep the address of the first published version after upgrades
+  get ORIGINAL_PACKAGE_ID() { return getActiveNetwork().original_package_id || getActiveNetwork().package_id; },
+  get GAME_CUSTODIAN() { return getActiveNetwork().custodian_id; },
+  get ITEM_FORGE() { return getActiveNetwork().forge_id ?? ''; },
+  get MARKETPLACE() { return getActiveNetwork().marketplace_id ?? ''; },
+};
+
+// Move module targets for calls (latest package version)
 export const ONECHAIN_MODULES = {
-  LOCK: `${ONECHAIN_CONTRACTS.PACKAGE_ID}::lock`,
-  ITEMS: `${ONECHAIN_CONTRACTS.PACKAGE_ID}::items`,
-  TRADING: `${ONECHAIN_CONTRACTS.PACKAGE_ID}::trading`,
-  MARKETPLACE: `${ONECHAIN_CONTRACTS.PACKAGE_ID}::marketplace`,
-  FORGE: `${ONECHAIN_CONTRACTS.PACKAGE_ID}::forge`,
-} as const;
+  get LOCK() { return `${ONECHAIN_CONTRACTS.PACKAGE_ID}::lock`; },
+  get ITEMS() { return `${ONECHAIN_CONTRACTS.PACKAGE_ID}::items`; },
+  get TRADING() { return `${ONECHAIN_CONTRACTS.PACKAGE_ID}::trading`; },
+  get MARKETPLACE() { return `${ONECHAIN_CONTRACTS.PACKAGE_ID}::marketplace`; },
+  get FORGE() { return `${ONECHAIN_CONTRACTS.PACKAGE_ID}::forge`; },
+};
+
+// Move modules as they appear in struct and event types (original package version)
+export const ONECHAIN_TYPE_MODULES = {
+  get LOCK() { return `${ONECHAIN_CONTRACTS.ORIGINAL_PACKAGE_ID}::lock`; },
+  get ITEMS() { return `${ONECHAIN_CONTRACTS.ORIGINAL_PACKAGE_ID}::items`; },
+  get TRADING() { return `${ONECHAIN_CONTRACTS.ORIGINAL_PACKAGE_ID}::trading`; },
+  get MARKETPLACE() { return `${ONECHAIN_CONTRACTS.ORIGINAL_PACKAGE_ID}::marketplace`; },
+};
 
 // OneChain network configuration
 export const ONECHAIN_NETWORK = {
-  NETWORK: 'testnet',
-  RPC_URL: 'https://rpc-testnet.onelabs.cc:443',
-  WEBSOCKET_URL: 'wss://rpc-testnet.onelabs.cc:443',
-  EXPLORER_URL: 'https://explorer.testnet.sui.io',
-  ONESCAN_URL: 'https://onescan.cc/testnet/transactionBlocksDetail',
-} as const;
+  get NETWORK() { return getActiveNetwork().network; },
+  get RPC_URL() { return getActiveNetwork().rpc_url; },
+  get WEBSOCKET_URL() { return getActiveNetwork().websocket_url; },
+  get EXPLORER_URL() { return getActiveNetwork().explorer_url; },
+  get ONESCAN_URL() { return getActiveNetwork().onescan_url; },
+};
+
+// Chain backend: 'rpc' talks to ONECHAIN_NETWORK, 'local' runs on the in-memory LocalLedger
+export const CHAIN_BACKEND: 'rpc' | 'local' =
+  process.env.NEXT_PUBLIC_CHAIN_BACKEND === 'local' ? 'local' : 'rpc';
 
 // Gas configuration
 export const GAS_CONFIG = {
@@ -40,7 +56,7 @@ export const GAS_CONFIG = {
   CANCEL_LISTING_GAS: 10000000, // 0.01 SUI
 } as const;
 
-// Marketplace configuration
+// Marketplace configuration (enforced on chain by marketplace.move)
 export const MARKETPLACE_CONFIG = {
   FEE_RATE: 0.025, // 2.5% marketplace fee
   MIN_LISTING_PRICE: 10, // Minimum price in smallest currency unit
@@ -50,23 +66,24 @@ export const MARKETPLACE_CONFIG = {
 
 // Event types to listen for
 export const EVENT_TYPES = {
-  ITEM_LISTED: `${ONECHAIN_MODULES.MARKETPLACE}::ItemListed`,
-  ITEM_SOLD: `${ONECHAIN_MODULES.MARKETPLACE}::ItemSold`,
-  LISTING_CANCELLED: `${ONECHAIN_MODULES.MARKETPLACE}::ListingCancelled`,
-  ESCROW_CREATED: `${ONECHAIN_MODULES.TRADING}::EscrowCreated`,
-  TRADE_COMPLETED: `${ONECHAIN_MODULES.TRADING}::TradeCompleted`,
-  ITEM_LOCKED: `${ONECHAIN_MODULES.LOCK}::ItemLocked`,
-  ITEM_UNLOCKED: `${ONECHAIN_MODULES.LOCK}::ItemUnlocked`,
-} as const;
+  get ITEM_LISTED() { return `${ONECHAIN_TYPE_MODULES.MARKETPLACE}::ItemListed`; },
+  get ITEM_SOLD() { return `${ONECHAIN_TYPE_MODULES.MARKETPLACE}::ItemSold`; },
+  get LISTING_CANCELLED() { return `${ONECHAIN_TYPE_MODULES.MARKETPLACE}::ListingCancelled`; },
+  get LISTING_PRICE_UPDATED() { return `${ONECHAIN_TYPE_MODULES.MARKETPLACE}::ListingPriceUpdated`; },
+  get ESCROW_CREATED() { return `${ONECHAIN_TYPE_MODULES.TRADING}::EscrowCreated`; },
+  get TRADE_COMPLETED() { return `${ONECHAIN_TYPE_MODULES.TRADING}::TradeCompleted`; },
+  get ITEM_LOCKED() { return `${ONECHAIN_TYPE_MODULES.LOCK}::ItemLocked`; },
+  get ITEM_UNLOCKED() { return `${ONECHAIN_TYPE_MODULES.LOCK}::ItemUnlocked`; },
+};
 
 // Object types for filtering
 export const OBJECT_TYPES = {
-  GAME_ITEM: `${ONECHAIN_MODULES.ITEMS}::GameItem`,
-  LOCKED_ITEM: `${ONECHAIN_MODULES.LOCK}::LockedItem`,
-  LISTING: `${ONECHAIN_MODULES.MARKETPLACE}::Listing`,
-  ESCROW: `${ONECHAIN_MODULES.TRADING}::TradeEscrow`,
-  KIOSK: `${ONECHAIN_MODULES.MARKETPLACE}::PlayerKiosk`,
-} as const;
+  get GAME_ITEM() { return `${ONECHAIN_TYPE_MODULES.ITEMS}::GameItem`; },
+  get LOCKED_ITEM() { return `${ONECHAIN_TYPE_MODULES.LOCK}::LockedItem`; },
+  get LISTING() { return `${ONECHAIN_TYPE_MODULES.MARKETPLACE}::Listing`; },
+  get ESCROW() { return `${ONECHAIN_TYPE_MODULES.TRADING}::TradeEscrow`; },
+  get KIOSK() { return `${ONECHAIN_TYPE_MODULES.MARKETPLACE}::PlayerKiosk`; },
+};
 
 // Contract function names
 export const CONTRACT_FUNCTIONS = {
@@ -103,17 +120,17 @@ export const ERROR_CODES = {
   NETWORK_ERROR: 'NETWORK_ERROR',
 } as const;
 
-// Helper functions
+// Helper functions (explorer URLs are empty on networks without an explorer)
 export function getTransactionUrl(digest: string): string {
-  return `${ONECHAIN_NETWORK.ONESCAN_URL}?digest=${digest}`;
+  return ONECHAIN_NETWORK.ONESCAN_URL ? `${ONECHAIN_NETWORK.ONESCAN_URL}?digest=${digest}` : '';
 }
 
 export function getAddressUrl(address: string): string {
-  return `${ONECHAIN_NETWORK.EXPLORER_URL}/address/${address}`;
+  return ONECHAIN_NETWORK.EXPLORER_URL ? `${ONECHAIN_NETWORK.EXPLORER_URL}/address/${address}` : '';
 }
 
 export function getObjectUrl(objectId: string): string {
-  return `${ONECHAIN_NETWORK.EXPLORER_URL}/object/${objectId}`;
+  return ONECHAIN_NETWORK.EXPLORER_URL ? `${ONECHAIN_NETWORK.EXPLORER_URL}/object/${objectId}` : '';
 }
 
 export function formatSuiAmount(amount: number): string {
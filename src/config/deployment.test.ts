@@ -0,0 +1,99 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import {
+  buildDeploymentManifest,
+  getManifestProfileFields,
+  validateDeploymentManifest
+} from './deployment';
+import { EVENT_TYPES, OBJECT_TYPES, ONECHAIN_MODULES } from './contracts';
+import { getActiveNetwork, updateNetworkProfile } from './networks';
+
+const PUBLISH_OUTPUT = readFileSync('src/Move/OneValleyMove/deployOutput.txt', 'utf8');
+const ORIGINAL_PACKAGE = '0x525e26fd3ff5142603b76fa2eafdf021af6e3f43dd5758ef02288ad96c6e5636';
+const UPGRADED_PACKAGE = '0x99';
+
+function upgradeOutput(upgradeCapId: string): string {
+  return JSON.stringify({
+    digest: 'UpgradeDigest',
+    transaction: { data: { sender: '0xabc' } },
+    objectChanges: [
+      { type: 'mutated', objectId: upgradeCapId, objectType: '0x2::package::UpgradeCap', owner: { AddressOwner: '0xabc' } },
+      {
+        type: 'created',
+        objectId: '0x77',
+        objectType: `${UPGRADED_PACKAGE}::marketplace::Marketplace`,
+        owner: { Shared: { initial_shared_version: 5 } }
+      },
+      { type: 'published', packageId: UPGRADED_PACKAGE, version: '2', modules: ['items', 'lock', 'marketplace', 'trading'] }
+    ]
+  });
+}
+
+describe('buildDeploymentManifest', () => {
+  it('reads the package and shared objects from the CLI publish table', () => {
+    const manifest = buildDeploymentManifest('testnet', PUBLISH_OUTPUT);
+
+    expect(manifest.package_id).toBe(ORIGINAL_PACKAGE);
+    expect(manifest.original_package_id).toBe(ORIGINAL_PACKAGE);
+    expect(manifest.package_version).toBe(1);
+    expect(manifest.modules).toEqual(['items', 'lock', 'trading']);
+    expect(manifest.upgrade_cap_id).toBe('0x07913e97eb0a6ac4dbec28df6ac48e577582b11c9f74913c107eef0de84eddd8');
+    expect(manifest.objects['trading::GameCustodian']).toMatchObject({
+      object_id: '0xc9d37f75e935f7239fbbba53e3d05ae8114d0bb5b04b8b2063678f8a7fe952a5',
+      owner: 'shared'
+    });
+    expect(manifest.objects['items::ItemForge'].owner).toBe('address');
+    expect(validateDeploymentManifest(manifest, 'testnet')).toEqual([]);
+  });
+
+  it('keeps the original package and existing objects across an upgrade', () => {
+    const published = buildDeploymentManifest('testnet', PUBLISH_OUTPUT);
+    const upgraded = buildDeploymentManifest('testnet', upgradeOutput(published.upgrade_cap_id!), published);
+
+    expect(upgraded.package_id).toBe(UPGRADED_PACKAGE);
+    expect(upgraded.original_package_id).toBe(ORIGINAL_PACKAGE);
+    expect(upgraded.package_version).toBe(2);
+    expect(upgraded.upgrade_cap_id).toBe(published.upgrade_cap_id);
+    expect(Object.keys(upgraded.objects)).toEqual(['trading::GameCustodian', 'items::ItemForge', 'marketplace::Marketplace']);
+    expect(validateDeploymentManifest(upgraded, 'testnet')).toEqual([]);
+  });
+
+  it('needs the current manifest to import an upgrade', () => {
+    expect(() => buildDeploymentManifest('testnet', upgradeOutput('0x1'))).toThrow(/upgrade/);
+  });
+});
+
+describe('validateDeploymentManifest', () => {
+  const manifest = buildDeploymentManifest('testnet', PUBLISH_OUTPUT);
+
+  it('reports every missing required object and a network mismatch', () => {
+    expect(validateDeploymentManifest({ ...manifest, objects: {} }, 'mainnet')).toEqual([
+      'manifest is for testnet, not mainnet',
+      'required object trading::GameCustodian is missing',
+      'required object items::ItemForge is missing'
+    ]);
+  });
+
+  it('rejects an upgrade that lost its original package', () => {
+    const problems = validateDeploymentManifest({ ...manifest, package_id: UPGRADED_PACKAGE, package_version: 2, original_package_id: UPGRADED_PACKAGE }, 'testnet');
+    expect(problems).toContain('package_version 2 is an upgrade but package_id is the original package');
+  });
+
+  it('requires shared objects to be shared', () => {
+    const custodian = { ...manifest.objects['trading::GameCustodian'], owner: 'address' as const };
+    const problems = validateDeploymentManifest({ ...manifest, objects: { ...manifest.objects, 'trading::GameCustodian': custodian } }, 'testnet');
+    expect(problems).toEqual(['trading::GameCustodian must be shared, found address']);
+  });
+});
+
+describe('upgraded network profile', () => {
+  it('calls the latest package but builds types from the original one', () => {
+    const published = buildDeploymentManifest('testnet', PUBLISH_OUTPUT);
+    const upgraded = buildDeploymentManifest('testnet', upgradeOutput(published.upgrade_cap_id!), published);
+    updateNetworkProfile(getActiveNetwork().network, getManifestProfileFields(upgraded));
+
+    expect(ONECHAIN_MODULES.MARKETPLACE).toBe(`${UPGRADED_PACKAGE}::marketplace`);
+    expect(EVENT_TYPES.ITEM_LISTED).toBe(`${ORIGINAL_PACKAGE}::marketplace::ItemListed`);
+    expect(OBJECT_TYPES.GAME_ITEM).toBe(`${ORIGINAL_PACKAGE}::items::GameItem`);
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * OneValley Deployment Manifests
+ *
+ * Turns the output of `one client publish` / `one client upgrade` (either the
+ * table the CLI prints or its `--json` output) into a typed manifest: the
+ * package ID, its UpgradeCap and the objects created at publish time, keyed
+ * by struct (`trading::GameCustodian`). Manifests live in
+ * src/config/deployments/<network>.json and networks.ts loads them into the
+ * network profiles. Regenerate one with `npm run import-deployment`.
+ *
+ * Only types are imported here so the importer script can run this file
+ * outside the Next.js build.
+ */
+
+import type { NetworkName, NetworkProfile } from './networks';
+
+export const DEPLOYMENT_MANIFEST_VERSION = 1;
+
+export type DeploymentObjectOwner = 'shared' | 'address' | 'object' | 'immutable';
+
+export interface DeploymentObject {
+  object_id: string;
+  object_type: string;
+  owner: DeploymentObjectOwner;
+}
+
+export interface DeploymentManifest {
+  version: number;
+  network: NetworkName;
+  package_id: string; // Latest package version: call targets
+  original_package_id: string; // First version: struct and event types keep this address
+  package_version: number;
+  modules: string[];
+  upgrade_cap_id?: string;
+  transaction_digest: string;
+  sender?: string;
+  objects: Record<string, DeploymentObject>;
+}
+
+// Objects every deployment must have, and where they go in the network profile
+export const REQUIRED_DEPLOYMENT_OBJECTS: Record<string, { owner: DeploymentObjectOwner; field: keyof NetworkProfile }> = {
+  'trading::GameCustodian': { owner: 'shared', field: 'custodian_id' },
+  'items::ItemForge': { owner: 'address', field: 'forge_id' },
+};
+
+// Objects picked up when the package publishes them
+export const OPTIONAL_DEPLOYMENT_OBJECTS: Record<string, { owner: DeploymentObjectOwner; field: keyof NetworkProfile }> = {
+  'marketplace::Marketplace': { owner: 'shared', field: 'marketplace_id' },
+};
+
+const UPGRADE_CAP_TYPE = '0x2::package::UpgradeCap';
+
+/**
+ * What a publish or upgrade transaction changed, independent of output format
+ */
+export interface DeploymentTransaction {
+  digest: string;
+  sender?: string;
+  published?: { package_id: string; version: number; modules: string[] };
+  created: DeploymentObject[];
+  mutated: DeploymentObject[];
+}
+
+// ===== Parsing =====
+
+function parseJsonOwner(owner: unknown): DeploymentObjectOwner {
+  if (owner === 'Immutable') return 'immutable';
+  if (owner && typeof owner === 'object') {
+    if ('Shared' in owner) return 'shared';
+    if ('ObjectOwner' in owner) return 'object';
+  }
+  return 'address';
+}
+
+function parseTableOwner(owner: string): DeploymentObjectOwner {
+  if (owner.startsWith('Shared')) return 'shared';
+  if (owner.startsWith('Immutable')) return 'immutable';
+  if (owner.startsWith('Object')) return 'object';
+  return 'address';
+}
+
+function parseJsonOutput(output: any): DeploymentTransaction {
+  const changes: any[] = output.objectChanges ?? [];
+  const toObject = (change: any): DeploymentObject => ({
+    object_id: change.objectId,
+    object_type: change.objectType,
+    owner: parseJsonOwner(change.owner),
+  });
+  const published = changes.find(change => change.type === 'published');
+
+  return {
+    digest: output.digest ?? '',
+    sender: output.transaction?.data?.sender,
+    published: published && {
+      package_id: published.packageId,
+      version: Number(published.version),
+      modules: published.modules ?? [],
+    },
+    created: changes.filter(change => change.type === 'created').map(toObject),
+    mutated: changes.filter(change => change.type === 'mutated').map(toObject),
+  };
+}
+
+/**
+ * The "Object Changes" table: blocks of `Key: value` lines, one block per
+ * object, grouped under "Created Objects:", "Mutated Objects:", ...
+ */
+function parseTableOutput(output: string): DeploymentTransaction {
+  const result: DeploymentTransaction = { digest: '', created: [], mutated: [] };
+  const changesStart = output.indexOf('Object Changes');
+  const lines = (changesStart === -1 ? output : output.slice(changesStart)).split('\n');
+
+  result.digest = output.match(/Transaction Digest:\s*(\S+)/)?.[1] ?? '';
+  result.sender = output.match(/Sender:\s*(0x[0-9a-fA-F]+)/)?.[1];
+
+  let section = '';
+  let block: Record<string, string> | null = null;
+
+  const flush = () => {
+    if (!block) return;
+    if (section === 'Published Objects' && block.PackageID) {
+      result.published = {
+        package_id: block.PackageID,
+        version: Number(block.Version),
+        modules: (block.Modules ?? '').split(',').map(name => name.trim()).filter(Boolean),
+      };
+    } else if (block.ObjectID && block.ObjectType) {
+      const object = { object_id: block.ObjectID, object_type: block.ObjectType, owner: parseTableOwner(block.Owner ?? '') };
+      if (section === 'Created Objects') result.created.push(object);
+      if (section === 'Mutated Objects') result.mutated.push(object);
+    }
+    block = null;
+  };
+
+  for (const rawLine of lines) {
+    // Strip the box drawing around each line
+    const line = rawLine.replace(/[│┌└─╭╮╰╯├┤]/g, '').trim();
+    if (!line) continue;
+
+    const heading = line.match(/^(\w[\w ]* Objects):$/);
+    if (heading) {
+      flush();
+      section = heading[1];
+      continue;
+    }
+
+    const field = line.match(/^(\w+):\s*(.*)$/);
+    if (!field) continue;
+    if (field[1] === 'ObjectID' || field[1] === 'PackageID') flush();
+    block = block ?? {};
+    block[field[1]] = field[2].trim();
+  }
+  flush();
+
+  return result;
+}
+
+/**
+ * Parse publish/upgrade output, in CLI table or `--json` form
+ */
+export function parseDeploymentOutput(output: string): DeploymentTransaction {
+  const trimmed = output.trim();
+  return trimmed.startsWith('{') ? parseJsonOutput(JSON.parse(trimmed)) : parseTableOutput(output);
+}
+
+// ===== Manifest =====
+
+function structKey(objectType: string): string {
+  // 0x525e…::trading::GameCustodian<T> -> trading::GameCustodian
+  return objectType.replace(/<.*$/, '').split('::').slice(1).join('::');
+}
+
+/**
+ * Build the manifest for a deployment. For an upgrade pass the network's
+ * current manifest: the package moves on but the shared objects stay.
+ */
+export function buildDeploymentManifest(
+  network: NetworkName,
+  output: string,
+  previous?: DeploymentManifest,
+): DeploymentManifest {
+  const transaction = parseDeploymentOutput(output);
+  if (!transaction.published) {
+    throw new Error('Deployment output has no published package; was the transaction successful?');
+  }
+
+  const isUpgrade = transaction.published.version > 1;
+  if (isUpgrade && !previous) {
+    throw new Error(`Package version ${transaction.published.version} is an upgrade; the ${network} manifest it upgrades is required`);
+  }
+
+  const originalPackageId = isUpgrade ? previous!.original_package_id : transaction.published.package_id;
+  const objects: Record<string, DeploymentObject> = isUpgrade ? { ...previous!.objects } : {};
+
+  // Publish creates the UpgradeCap, upgrade mutates it
+  const upgradeCap = [...transaction.created, ...transaction.mutated].find(object => object.object_type === UPGRADE_CAP_TYPE);
+  const upgradeCapId = upgradeCap?.object_id ?? previous?.upgrade_cap_id;
+
+  const packageIds = [originalPackageId, transaction.published.package_id];
+  for (const object of transaction.created) {
+    if (packageIds.includes(object.object_type.split('::')[0])) {
+      objects[structKey(object.object_type)] = object;
+    }
+  }
+
+  return {
+    version: DEPLOYMENT_MANIFEST_VERSION,
+    network,
+    package_id: transaction.published.package_id,
+    original_package_id: originalPackageId,
+    package_version: transaction.published.version,
+    modules: transaction.published.modules,
+    upgrade_cap_id: upgradeCapId,
+    transaction_digest: transaction.digest,
+    sender: transaction.sender,
+    objects,
+  };
+}
+
+/**
+ * Problems that make a manifest unusable on `network`; empty when it is fine
+ */
+export function validateDeploymentManifest(manifest: DeploymentManifest, network: NetworkName): string[] {
+  const problems: string[] = [];
+  const isObjectId = (id: unknown) => typeof id === 'string' && /^0x[0-9a-fA-F]{1,64}$/.test(id);
+
+  if (manifest.version !== DEPLOYMENT_MANIFEST_VERSION) {
+    problems.push(`unsupported manifest version ${manifest.version}`);
+  }
+  if (manifest.network !== network) {
+    problems.push(`manifest is for ${manifest.network}, not ${network}`);
+  }
+  if (!isObjectId(manifest.package_id)) {
+    problems.push('package_id is missing or malformed');
+  }
+  if (!isObjectId(manifest.original_package_id)) {
+    problems.push('original_package_id is missing or malformed');
+  }
+  // Version 1 is the original package; every upgrade gets a new address
+  const isUpgrade = manifest.package_version > 1;
+  if (isUpgrade === (manifest.package_id === manifest.original_package_id)) {
+    problems.push(isUpgrade
+      ? `package_version ${manifest.package_version} is an upgrade but package_id is the original package`
+      : 'package_id and original_package_id differ but package_version is 1');
+  }
+
+  const packageIds = [manifest.original_package_id, manifest.package_id];
+  for (const [struct, required] of Object.entries(REQUIRED_DEPLOYMENT_OBJECTS)) {
+    const object = manifest.objects?.[struct];
+    if (!object) {
+      problems.push(`required object ${struct} is missing`);
+      continue;
+    }
+    if (!isObjectId(object.object_id)) {
+      problems.push(`${struct} has a malformed object_id`);
+    }
+    if (!packageIds.includes(object.object_type.split('::')[0])) {
+      problems.push(`${struct} belongs to another package (${object.object_type})`);
+    }
+    if (object.owner !== required.owner) {
+      problems.push(`${struct} must be ${required.owner}, found ${object.owner}`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Validated manifest from its JSON, throwing with every problem found
+ */
+export function loadDeploymentManifest(network: NetworkName, json: unknown): DeploymentManifest {
+  const manifest = (typeof json === 'string' ? JSON.parse(json) : json) as DeploymentManifest;
+  const problems = validateDeploymentManifest(manifest, network);
+  if (problems.length > 0) {
+    throw new Error(`Invalid ${network} deployment manifest: ${problems.join('; ')}`);
+  }
+  return manifest;
+}
+
+/**
+ * Profile fields (package and object IDs) a manifest provides
+ */
+export function getManifestProfileFields(manifest: DeploymentManifest): Partial<NetworkProfile> {
+  const fields: Partial<Record<keyof NetworkProfile, string>> = {
+    package_id: manifest.package_id,
+    original_package_id: manifest.original_package_id,
+  };
+  const mapped = { ...REQUIRED_DEPLOYMENT_OBJECTS, ...OPTIONAL_DEPLOYMENT_OBJECTS };
+
+  for (const [struct, { field }] of Object.entries(mapped)) {
+    const object = manifest.objects[struct];
+    if (object) fields[field] = object.object_id;
+  }
+  return fields as Partial<NetworkProfile>;
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { isNetworkSelectable, loadActiveNetwork, setActiveNetwork } from './networks';
+
+describe('network selection', () => {
+  it('offers deployed networks and localnet only', () => {
+    expect(isNetworkSelectable('testnet')).toBe(true);
+    expect(isNetworkSelectable('localnet')).toBe(true);
+    // Devnet has no ItemForge, mainnet no package
+    expect(isNetworkSelectable('devnet')).toBe(false);
+    expect(isNetworkSelectable('mainnet')).toBe(false);
+  });
+
+  it('refuses to load a network the game is not deployed on', async () => {
+    setActiveNetwork('mainnet');
+    await expect(loadActiveNetwork()).rejects.toThrow('OneValley is not deployed on Mainnet');
+
+    setActiveNetwork('testnet');
+    await expect(loadActiveNetwork()).resolves.toMatchObject({ network: 'testnet' });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * OneChain Network Profiles
+ *
+ * Runtime registry of the networks the game can talk to. The active profile
+ * is the network picked in the settings menu (remembered in localStorage),
+ * else NEXT_PUBLIC_ONECHAIN_NETWORK, else testnet. contracts.ts reads package
+ * and object IDs, RPC and explorer URLs from the active profile, so every
+ * service follows it.
+ *
+ * Package and object IDs come from the deployment manifests in
+ * ./deployments (see deployment.ts). The localnet profile has no manifest:
+ * loadActiveNetwork() builds one from the `one client publish` output served
+ * at LOCALNET_PUBLISH_OUTPUT_URL.
+ */
+
+import { getFullnodeUrl } from '@onelabs/sui/client';
+import type { OneChainConfig } from '@/types/onechain';
+import { buildDeploymentManifest, getManifestProfileFields, loadDeploymentManifest } from './deployment';
+import testnetDeployment from './deployments/testnet.json';
+
+export type NetworkName = OneChainConfig['network'];
+
+export interface NetworkProfile extends OneChainConfig {
+  label: string;
+  original_package_id?: string; // First published version; struct and event types keep its address. Defaults to package_id
+  marketplace_id?: string;
+  websocket_url: string;
+  explorer_url: string; // Empty when the network has no public explorer
+  onescan_url: string;
+}
+
+export const NETWORK_STORAGE_KEY = 'onevalley-network';
+
+export const LOCALNET_PUBLISH_OUTPUT_URL =
+  process.env.NEXT_PUBLIC_LOCALNET_PUBLISH_OUTPUT_URL || '/localnet/deployOutput.txt';
+
+const NETWORK_PROFILES: Record<NetworkName, NetworkProfile> = {
+  devnet: {
+    network: 'devnet',
+    label: 'Devnet',
+    // Published before deployment manifests; no publish output was kept
+    package_id: '0x9d3d2c56c66134068a6be7ded289cf1915939f0b65a46483d3414a6da5f3ef89',
+    custodian_id: '0xf70caa11d1b82cfeeef2f5385e4798d95f1f829dd3dcf81535af5ce7e24d24cd',
+    rpc_url: getFullnodeUrl('devnet'),
+    websocket_url: 'wss://rpc-devnet.onelabs.cc:443',
+    explorer_url: 'https://explorer.devnet.sui.io',
+    onescan_url: 'https://onescan.cc/devnet/transactionBlocksDetail',
+  },
+  testnet: {
+    network: 'testnet',
+    label: 'Testnet',
+    // From deployments/testnet.json
+    package_id: '',
+    custodian_id: '',
+    rpc_url: getFullnodeUrl('testnet'),
+    websocket_url: 'wss://rpc-testnet.onelabs.cc:443',
+    explorer_url: 'https://explorer.testnet.sui.io',
+    onescan_url: 'https://onescan.cc/testnet/transactionBlocksDetail',
+  },
+  mainnet: {
+    network: 'mainnet',
+    label: 'Mainnet',
+    // Not deployed to mainnet yet
+    package_id: '',
+    custodian_id: '',
+    rpc_url: getFullnodeUrl('mainnet'),
+    websocket_url: 'wss://rpc-mainnet.onelabs.cc:443',
+    explorer_url: 'https://explorer.sui.io',
+    onescan_url: 'https://onescan.cc/mainnet/transactionBlocksDetail',
+  },
+  localnet: {
+    network: 'localnet',
+    label: 'Localnet',
+    // Built from the publish output by loadActiveNetwork()
+    package_id: '',
+    custodian_id: '',
+    rpc_url: process.env.NEXT_PUBLIC_LOCALNET_RPC_URL || getFullnodeUrl('localnet'),
+    websocket_url: process.env.NEXT_PUBLIC_LOCALNET_WEBSOCKET_URL || 'ws://127.0.0.1:9000',
+    explorer_url: '',
+    onescan_url: '',
+  },
+};
+
+// Deployment manifests shipped with the game, validated at startup
+const DEPLOYMENT_MANIFESTS: Partial<Record<NetworkName, unknown>> = {
+  testnet: testnetDeployment,
+};
+
+for (const [name, manifest] of Object.entries(DEPLOYMENT_MANIFESTS) as [NetworkName, unknown][]) {
+  Object.assign(NETWORK_PROFILES[name], getManifestProfileFields(loadDeploymentManifest(name, manifest)));
+}
+
+export const NETWORK_ORDER: NetworkName[] = ['devnet', 'testnet', 'mainnet', 'localnet'];
+
+let activeNetwork: NetworkName | null = null;
+
+export function isNetworkName(value: unknown): value is NetworkName {
+  return typeof value === 'string' && value in NETWORK_PROFILES;
+}
+
+function resolveInitialNetwork(): NetworkName {
+  // A remembered pick may name a network the game has since stopped supporting
+  const stored = typeof window !== 'undefined' ? window.localStorage?.getItem(NETWORK_STORAGE_KEY) : null;
+  if (isNetworkName(stored) && isNetworkSelectable(stored)) return stored;
+
+  const configured = process.env.NEXT_PUBLIC_ONECHAIN_NETWORK;
+  return isNetworkName(configured) ? configured : 'testnet';
+}
+
+export function getNetworkProfile(name: NetworkName): NetworkProfile {
+  return NETWORK_PROFILES[name];
+}
+
+export function getNetworkProfiles(): NetworkProfile[] {
+  return NETWORK_ORDER.map(name => NETWORK_PROFILES[name]);
+}
+
+export function getActiveNetwork(): NetworkProfile {
+  if (!activeNetwork) {
+    activeNetwork = resolveInitialNetwork();
+  }
+  return NETWORK_PROFILES[activeNetwork];
+}
+
+/**
+ * Select and remember a network. Services and wallet connections are set up
+ * for the network active at startup, so callers reload the game afterwards.
+ */
+export function setActiveNetwork(name: NetworkName): void {
+  activeNetwork = name;
+  if (typeof window !== 'undefined') {
+    window.localStorage?.setItem(NETWORK_STORAGE_KEY, name);
+  }
+}
+
+/**
+ * Override fields of a profile, e.g. IDs from a fresh publish
+ */
+export function updateNetworkProfile(name: NetworkName, changes: Partial<Omit<NetworkProfile, 'network'>>): NetworkProfile {
+  NETWORK_PROFILES[name] = { ...NETWORK_PROFILES[name], ...changes };
+  return NETWORK_PROFILES[name];
+}
+
+/**
+ * A profile is usable once the OneValley package and its required objects
+ * (the custodian and the item forge) are known
+ */
+export function isNetworkDeployed(profile: NetworkProfile): boolean {
+  return profile.package_id !== '' && profile.custodian_id !== '' && !!profile.forge_id;
+}
+
+/**
+ * Networks the player can switch to: deployed ones, and localnet, whose IDs
+ * are loaded when the game starts on it
+ */
+export function isNetworkSelectable(name: NetworkName): boolean {
+  return name === 'localnet' || isNetworkDeployed(NETWORK_PROFILES[name]);
+}
+
+/**
+ * Make sure the active profile has its IDs; for localnet they are loaded
+ * from the publish output on first use. Throws for networks the game is
+ * not deployed on
+ */
+export async function loadActiveNetwork(): Promise<NetworkProfile> {
+  const profile = getActiveNetwork();
+  if (isNetworkDeployed(profile)) {
+    return profile;
+  }
+  if (profile.network !== 'localnet') {
+    throw new Error(`OneValley is not deployed on ${profile.label}`);
+  }
+
+  const response = await fetch(LOCALNET_PUBLISH_OUTPUT_URL);
+  if (!response.ok) {
+    throw new Error(`Could not load the localnet publish output from ${LOCALNET_PUBLISH_OUTPUT_URL} (${response.status})`);
+  }
+  const manifest = loadDeploymentManifest('localnet', buildDeploymentManifest('localnet', await response.text()));
+  return updateNetworkProfile('localnet', getManifestProfileFields(manifest));
+}
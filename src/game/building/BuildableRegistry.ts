@@ -0,0 +1,333 @@
+/**
+ * Buildable Registry
+ *
+ * Structures the player can place on the farm in build mode, what they
+ * cost and how they collide. Collider rects are in tile-local pixels,
+ * like the collision objects of the map tileset, and are turned with the
+ * structure's rotation. Textures are drawn at runtime by
+ * createBuildableTextures().
+ *
+ * Farm equipment reaches the tiles around it: sprinklers water the crops
+ * in their coverage every morning and scarecrows keep crows off them.
+ * Chests and cooking stations open a UIScene panel when clicked.
+ */
+
+export const BUILD_TILE_SIZE = 16;
+
+export type BuildableId =
+    | 'fence'
+    | 'path'
+    | 'sprinkler'
+    | 'quality_sprinkler'
+    | 'iridium_sprinkler'
+    | 'scarecrow'
+    | 'chest'
+    | 'cooking_station'
+    | 'flower_bed'
+    | 'lamp_post';
+
+// ground: bare ground or existing paths; farmland: tilled soil; any: either
+export type PlacementSurface = 'ground' | 'farmland' | 'any';
+
+export interface ColliderRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export type CoverageEffect = 'water' | 'protect';
+
+// cross: the 4 orthogonal neighbours; square: every tile within radius; circle: within radius tiles of the centre
+export interface Coverage {
+    effect: CoverageEffect;
+    shape: 'cross' | 'square' | 'circle';
+    radius: number; // Tiles
+}
+
+export interface BuildCost {
+    itemId: string;
+    count: number;
+}
+
+export interface Buildable {
+    id: BuildableId;
+    displayName: string;
+    texture: string;
+    cost: BuildCost[];     // Refunded in full when the structure is removed
+    collider?: ColliderRect;
+    coverage?: Coverage;
+    rotations: 1 | 2 | 4;  // Distinct quarter turns
+    surface: PlacementSurface;
+    depth: number;
+}
+
+export const BUILDABLES: Record<BuildableId, Buildable> = {
+    fence: {
+        id: 'fence',
+        displayName: 'Fence',
+        texture: 'build_fence',
+        cost: [{ itemId: 'wood', count: 2 }],
+        collider: { x: 0, y: 6, width: 16, height: 5 },
+        rotations: 2,
+        surface: 'ground',
+        depth: 25
+    },
+    path: {
+        id: 'path',
+        displayName: 'Stone Path',
+        texture: 'build_path',
+        cost: [{ itemId: 'stone', count: 1 }],
+        rotations: 1,
+        surface: 'ground',
+        depth: -4
+    },
+    sprinkler: {
+        id: 'sprinkler',
+        displayName: 'Sprinkler',
+        texture: 'build_sprinkler',
+        cost: [{ itemId: 'iron_ore', count: 1 }, { itemId: 'stone', count: 2 }],
+        coverage: { effect: 'water', shape: 'cross', radius: 1 },
+        rotations: 1,
+        surface: 'any',
+        depth: 12
+    },
+    quality_sprinkler: {
+        id: 'quality_sprinkler',
+        displayName: 'Quality Sprinkler',
+        texture: 'build_quality_sprinkler',
+        cost: [{ itemId: 'iron_ore', count: 3 }, { itemId: 'stone', count: 4 }],
+        coverage: { effect: 'water', shape: 'square', radius: 1 },
+        rotations: 1,
+        surface: 'any',
+        depth: 12
+    },
+    iridium_sprinkler: {
+        id: 'iridium_sprinkler',
+        displayName: 'Iridium Sprinkler',
+        texture: 'build_iridium_sprinkler',
+        cost: [{ itemId: 'iron_ore', count: 5 }, { itemId: 'crystal_01a', count: 1 }],
+        coverage: { effect: 'water', shape: 'square', radius: 2 },
+        rotations: 1,
+        surface: 'any',
+        depth: 12
+    },
+    scarecrow: {
+        id: 'scarecrow',
+        displayName: 'Scarecrow',
+        texture: 'build_scarecrow',
+        cost: [{ itemId: 'wood', count: 4 }, { itemId: 'wheat', count: 1 }],
+        collider: { x: 6, y: 11, width: 4, height: 5 },
+        coverage: { effect: 'protect', shape: 'circle', radius: 8 },
+        rotations: 1,
+        surface: 'any',
+        depth: 26
+    },
+    chest: {
+        id: 'chest',
+        displayName: 'Chest',
+        texture: 'build_chest',
+        cost: [{ itemId: 'wood', count: 8 }],
+        collider: { x: 1, y: 4, width: 14, height: 11 },
+        rotations: 4,
+        surface: 'ground',
+        depth: 15
+    },
+    cooking_station: {
+        id: 'cooking_station',
+        displayName: 'Cooking Station',
+        texture: 'build_cooking_station',
+        cost: [{ itemId: 'stone', count: 6 }, { itemId: 'iron_ore', count: 2 }, { itemId: 'wood', count: 2 }],
+        collider: { x: 1, y: 3, width: 14, height: 12 },
+        rotations: 1,
+        surface: 'ground',
+        depth: 15
+    },
+    flower_bed: {
+        id: 'flower_bed',
+        displayName: 'Flower Bed',
+        texture: 'build_flower_bed',
+        cost: [{ itemId: 'wood', count: 1 }, { itemId: 'seeds_carrot', count: 1 }],
+        rotations: 1,
+        surface: 'ground',
+        depth: 11
+    },
+    lamp_post: {
+        id: 'lamp_post',
+        displayName: 'Lamp Post',
+        texture: 'build_lamp_post',
+        cost: [{ itemId: 'iron_ore', count: 1 }, { itemId: 'wood', count: 2 }],
+        collider: { x: 5, y: 10, width: 6, height: 6 },
+        rotations: 1,
+        surface: 'ground',
+        depth: 26
+    }
+};
+
+export const BUILD_ORDER: BuildableId[] = [
+    'fence',
+    'path',
+    'sprinkler',
+    'quality_sprinkler',
+    'iridium_sprinkler',
+    'scarecrow',
+    'chest',
+    'cooking_station',
+    'flower_bed',
+    'lamp_post'
+];
+
+export function getBuildable(id: string): Buildable | undefined {
+    return BUILDABLES[id as BuildableId];
+}
+
+/**
+ * Turn a tile-local collider rect clockwise by rotation quarter turns
+ */
+export function rotateCollider(rect: ColliderRect, rotation: number): ColliderRect {
+    let rotated = { ...rect };
+    for (let i = 0; i < ((rotation % 4) + 4) % 4; i++) {
+        rotated = {
+            x: BUILD_TILE_SIZE - (rotated.y + rotated.height),
+            y: rotated.x,
+            width: rotated.height,
+            height: rotated.width
+        };
+    }
+    return rotated;
+}
+
+/**
+ * Tiles a structure at (x, y) reaches, not counting its own tile
+ */
+export function getCoveredTiles(coverage: Coverage, x: number, y: number): { x: number; y: number }[] {
+    const tiles: { x: number; y: number }[] = [];
+    const { shape, radius } = coverage;
+
+    for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+            if (dx === 0 && dy === 0) continue;
+
+            const inShape = shape === 'cross'
+                ? Math.abs(dx) + Math.abs(dy) <= radius && (dx === 0 || dy === 0)
+                : shape === 'square' || dx * dx + dy * dy <= radius * radius;
+            if (inShape) {
+                tiles.push({ x: x + dx, y: y + dy });
+            }
+        }
+    }
+    return tiles;
+}
+
+/**
+ * Draw structure textures (no-op for textures that already exist)
+ */
+export function createBuildableTextures(scene: Phaser.Scene): void {
+    const draw = (key: string, paint: (g: Phaser.GameObjects.Graphics) => void) => {
+        if (scene.textures.exists(key)) return;
+        const graphics = scene.make.graphics({ x: 0, y: 0 }, false);
+        paint(graphics);
+        graphics.generateTexture(key, BUILD_TILE_SIZE, BUILD_TILE_SIZE);
+        graphics.destroy();
+    };
+
+    draw('build_fence', g => {
+        g.fillStyle(0x8b5a2b);
+        g.fillRect(1, 3, 3, 12);
+        g.fillRect(12, 3, 3, 12);
+        g.fillStyle(0xb07a45);
+        g.fillRect(0, 6, 16, 2);
+        g.fillRect(0, 10, 16, 2);
+    });
+
+    draw('build_path', g => {
+        g.fillStyle(0x9a9186);
+        g.fillRect(0, 0, 16, 16);
+        g.fillStyle(0xb8afa3);
+        g.fillRect(1, 1, 6, 6);
+        g.fillRect(9, 2, 6, 5);
+        g.fillRect(2, 9, 5, 6);
+        g.fillRect(9, 9, 6, 6);
+    });
+
+    draw('build_sprinkler', g => {
+        g.fillStyle(0x6d7680);
+        g.fillRect(5, 9, 6, 5);
+        g.fillStyle(0x9aa3ad);
+        g.fillRect(7, 4, 2, 6);
+        g.fillStyle(0x4a90d9);
+        g.fillCircle(8, 4, 2);
+    });
+
+    draw('build_quality_sprinkler', g => {
+        g.fillStyle(0xb0793a);
+        g.fillRect(4, 9, 8, 5);
+        g.fillStyle(0xd9a55a);
+        g.fillRect(7, 4, 2, 6);
+        g.fillStyle(0x4a90d9);
+        g.fillCircle(5, 4, 2);
+        g.fillCircle(11, 4, 2);
+    });
+
+    draw('build_iridium_sprinkler', g => {
+        g.fillStyle(0x5b3f8c);
+        g.fillRect(4, 9, 8, 5);
+        g.fillStyle(0x9b6fd6);
+        g.fillRect(7, 3, 2, 7);
+        g.fillStyle(0x6ec6ff);
+        g.fillCircle(4, 4, 2);
+        g.fillCircle(8, 2, 2);
+        g.fillCircle(12, 4, 2);
+    });
+
+    draw('build_scarecrow', g => {
+        g.fillStyle(0x8b5a2b);
+        g.fillRect(7, 4, 2, 12);
+        g.fillRect(2, 7, 12, 2);
+        g.fillStyle(0x4f7a3a);
+        g.fillRect(5, 6, 6, 5);
+        g.fillStyle(0xf2c94c);
+        g.fillCircle(8, 3, 3);
+        g.fillStyle(0x6b4f2a);
+        g.fillRect(4, 0, 8, 2);
+    });
+
+    draw('build_chest', g => {
+        g.fillStyle(0x8b5a2b);
+        g.fillRect(1, 4, 14, 11);
+        g.fillStyle(0xb07a45);
+        g.fillRect(1, 4, 14, 4);
+        g.fillStyle(0xf2c94c);
+        g.fillRect(7, 7, 2, 3);
+    });
+
+    draw('build_cooking_station', g => {
+        g.fillStyle(0x7a7a7a);
+        g.fillRect(1, 5, 14, 10);
+        g.fillStyle(0x3d3d3d);
+        g.fillRect(2, 3, 12, 3);
+        g.fillStyle(0xe67e22);
+        g.fillRect(5, 10, 6, 4);
+        g.fillStyle(0xf2c94c);
+        g.fillRect(7, 11, 2, 2);
+    });
+
+    draw('build_flower_bed', g => {
+        g.fillStyle(0x6b4f2a);
+        g.fillRect(1, 8, 14, 7);
+        g.fillStyle(0xe85d75);
+        g.fillCircle(4, 7, 2);
+        g.fillStyle(0xf2c94c);
+        g.fillCircle(8, 6, 2);
+        g.fillStyle(0x9b6fd6);
+        g.fillCircle(12, 7, 2);
+    });
+
+    draw('build_lamp_post', g => {
+        g.fillStyle(0x3d3d3d);
+        g.fillRect(7, 3, 2, 12);
+        g.fillRect(5, 13, 6, 2);
+        g.fillStyle(0xffe39a);
+        g.fillRect(5, 0, 6, 4);
+    });
+}
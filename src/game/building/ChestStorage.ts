@@ -0,0 +1,76 @@
+import type { SavedChest } from '@/services/SaveGameService';
+import { CHEST_SIZE, ItemStack } from '../inventory/Inventory';
+import { FarmLayout } from './FarmLayout';
+
+/**
+ * Chest Storage
+ *
+ * Contents of every placed storage chest, keyed by the chest's tile.
+ * UIScene opens a chest by handing its slot array to the inventory model,
+ * so the arrays kept here are always up to date.
+ */
+export class ChestStorage {
+    private chests: Map<string, (ItemStack | null)[]> = new Map();
+
+    /**
+     * The chest's slots, creating an empty chest if there is none yet
+     */
+    public open(x: number, y: number): (ItemStack | null)[] {
+        const key = FarmLayout.key(x, y);
+        let slots = this.chests.get(key);
+        if (!slots) {
+            slots = new Array(CHEST_SIZE).fill(null);
+            this.chests.set(key, slots);
+        }
+        return slots;
+    }
+
+    public has(x: number, y: number): boolean {
+        return this.chests.has(FarmLayout.key(x, y));
+    }
+
+    public isEmpty(x: number, y: number): boolean {
+        return (this.chests.get(FarmLayout.key(x, y)) ?? []).every(stack => !stack);
+    }
+
+    public remove(x: number, y: number): void {
+        this.chests.delete(FarmLayout.key(x, y));
+    }
+
+    public serialize(): SavedChest[] {
+        return Array.from(this.chests.entries()).map(([key, slots]) => {
+            const [x, y] = key.split(',').map(Number);
+            return {
+                x,
+                y,
+                slots: slots
+                    .map((stack, index) => ({ stack, index }))
+                    .filter(({ stack }) => !!stack)
+                    .map(({ stack, index }) => ({
+                        index,
+                        itemId: stack!.itemId,
+                        itemType: stack!.itemType,
+                        count: stack!.count,
+                        instanceId: stack!.instanceId
+                    }))
+            };
+        });
+    }
+
+    public restore(saved: SavedChest[]): void {
+        this.chests.clear();
+        saved.forEach(chest => {
+            const slots = this.open(chest.x, chest.y);
+            chest.slots
+                .filter(entry => Number.isInteger(entry.index) && entry.index >= 0 && entry.index < slots.length && entry.count > 0)
+                .forEach(entry => {
+                    slots[entry.index] = {
+                        itemId: entry.itemId,
+                        itemType: entry.itemType ?? 'item',
+                        count: entry.count,
+                        instanceId: entry.instanceId
+                    };
+                });
+        });
+    }
+}
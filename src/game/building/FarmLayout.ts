@@ -0,0 +1,75 @@
+import { BUILDABLES, BuildableId, CoverageEffect, getCoveredTiles } from './BuildableRegistry';
+
+/**
+ * Farm Layout
+ *
+ * Structures the player has placed, one per tile. FarmScene validates
+ * placements against the map, draws the structures and builds their
+ * colliders; this class only keeps track of what stands where.
+ */
+
+export interface Placement {
+    buildableId: BuildableId;
+    x: number; // Tile coordinates
+    y: number;
+    rotation: number; // Clockwise quarter turns
+}
+
+export class FarmLayout {
+    private placements: Map<string, Placement> = new Map();
+
+    public static key(x: number, y: number): string {
+        return `${x},${y}`;
+    }
+
+    public get(x: number, y: number): Placement | undefined {
+        return this.placements.get(FarmLayout.key(x, y));
+    }
+
+    public isOccupied(x: number, y: number): boolean {
+        return this.placements.has(FarmLayout.key(x, y));
+    }
+
+    public place(placement: Placement): void {
+        this.placements.set(FarmLayout.key(placement.x, placement.y), { ...placement });
+    }
+
+    public remove(x: number, y: number): Placement | undefined {
+        const placement = this.get(x, y);
+        this.placements.delete(FarmLayout.key(x, y));
+        return placement;
+    }
+
+    /**
+     * All placements, optionally only those of one buildable
+     */
+    public getAll(buildableId?: BuildableId): Placement[] {
+        return Array.from(this.placements.values())
+            .filter(placement => !buildableId || placement.buildableId === buildableId)
+            .map(placement => ({ ...placement }));
+    }
+
+    /**
+     * Keys of every tile reached by equipment with the given effect
+     */
+    public getCoverage(effect: CoverageEffect): Set<string> {
+        const covered = new Set<string>();
+        this.placements.forEach(placement => {
+            const coverage = BUILDABLES[placement.buildableId].coverage;
+            if (coverage?.effect !== effect) return;
+
+            getCoveredTiles(coverage, placement.x, placement.y)
+                .forEach(tile => covered.add(FarmLayout.key(tile.x, tile.y)));
+        });
+        return covered;
+    }
+
+    public serialize(): Placement[] {
+        return this.getAll();
+    }
+
+    public restore(placements: Placement[]): void {
+        this.placements.clear();
+        placements.forEach(placement => this.place(placement));
+    }
+}
@@ -0,0 +1,67 @@
+import { BuffEffect, BuffType } from './DishRegistry';
+
+/**
+ * Buff Tracker
+ *
+ * Timed effects from eaten dishes, measured in in-game minutes so they
+ * pause while the game isn't running. One buff of each type is active at
+ * a time: eating another dish with the same buff replaces it when it is
+ * at least as strong, otherwise only the remaining time is extended.
+ */
+
+export interface ActiveBuff {
+    type: BuffType;
+    amount: number;
+    sourceItemId: string;
+    expiresAt: number; // Total game minutes
+}
+
+export class BuffTracker {
+    private buffs: Map<BuffType, ActiveBuff> = new Map();
+
+    public apply(effect: BuffEffect, sourceItemId: string, now: number): ActiveBuff {
+        const current = this.buffs.get(effect.type);
+        const expiresAt = now + effect.durationMinutes;
+
+        const buff: ActiveBuff = current && current.expiresAt > now && current.amount > effect.amount
+            ? { ...current, expiresAt: Math.max(current.expiresAt, expiresAt) }
+            : { type: effect.type, amount: effect.amount, sourceItemId, expiresAt };
+
+        this.buffs.set(effect.type, buff);
+        return { ...buff };
+    }
+
+    public getActive(now: number): ActiveBuff[] {
+        return Array.from(this.buffs.values())
+            .filter(buff => buff.expiresAt > now)
+            .map(buff => ({ ...buff }));
+    }
+
+    /**
+     * Drop buffs that have run out; returns them
+     */
+    public expire(now: number): ActiveBuff[] {
+        const expired = Array.from(this.buffs.values()).filter(buff => buff.expiresAt <= now);
+        expired.forEach(buff => this.buffs.delete(buff.type));
+        return expired;
+    }
+
+    public getSpeedMultiplier(now: number): number {
+        const buff = this.buffs.get('speed');
+        return buff && buff.expiresAt > now ? buff.amount : 1;
+    }
+
+    public getHarvestBonus(now: number): number {
+        const buff = this.buffs.get('harvest');
+        return buff && buff.expiresAt > now ? buff.amount : 0;
+    }
+
+    public serialize(): ActiveBuff[] {
+        return Array.from(this.buffs.values()).map(buff => ({ ...buff }));
+    }
+
+    public restore(buffs: ActiveBuff[]): void {
+        this.buffs.clear();
+        buffs.forEach(buff => this.buffs.set(buff.type, { ...buff }));
+    }
+}
@@ -0,0 +1,139 @@
+import { RARITY_LEVELS, RarityLevel } from '@/types/onechain';
+
+/**
+ * Dish Registry
+ *
+ * Meals cooked at a cooking station from farm produce and fish. Eating a
+ * dish from the item bar restores energy and health and may grant a timed
+ * buff. Cooking recipes live in assets/data/cooking.json next to the
+ * crafting recipes; dish textures are drawn at runtime by
+ * createDishTextures().
+ */
+
+export type BuffType = 'speed' | 'harvest';
+
+export interface BuffEffect {
+    type: BuffType;
+    amount: number;          // speed: movement multiplier; harvest: extra crops per harvest
+    durationMinutes: number; // In-game minutes
+}
+
+export interface Dish {
+    id: string;
+    displayName: string;
+    description: string;
+    rarity: RarityLevel;
+    basePrice: number;
+    energy: number;
+    health: number;
+    buff?: BuffEffect;
+    colors: [number, number]; // Food and garnish colors for the generated texture
+}
+
+export const BUFF_INFO: Record<BuffType, { label: string; icon: string }> = {
+    speed: { label: 'Speed', icon: '👟' },
+    harvest: { label: 'Bountiful Harvest', icon: '🌾' }
+};
+
+export const DISHES: Record<string, Dish> = {
+    carrot_soup: {
+        id: 'carrot_soup',
+        displayName: 'Carrot Soup',
+        description: 'A warm, hearty soup. Restores plenty of energy.',
+        rarity: RARITY_LEVELS.COMMON,
+        basePrice: 45,
+        energy: 60,
+        health: 10,
+        colors: [0xe67e22, 0x4f7a3a]
+    },
+    fried_egg: {
+        id: 'fried_egg',
+        displayName: 'Fried Egg',
+        description: 'Simple and filling.',
+        rarity: RARITY_LEVELS.COMMON,
+        basePrice: 30,
+        energy: 40,
+        health: 15,
+        colors: [0xffffff, 0xf2c94c]
+    },
+    grilled_fish: {
+        id: 'grilled_fish',
+        displayName: 'Grilled Fish',
+        description: 'Smoky fish straight off the fire. Restores health.',
+        rarity: RARITY_LEVELS.COMMON,
+        basePrice: 60,
+        energy: 40,
+        health: 30,
+        colors: [0xb07a45, 0xf2c94c]
+    },
+    pancakes: {
+        id: 'pancakes',
+        displayName: 'Pancakes',
+        description: 'A sweet stack that puts a spring in your step.',
+        rarity: RARITY_LEVELS.RARE,
+        basePrice: 120,
+        energy: 50,
+        health: 10,
+        buff: { type: 'speed', amount: 1.25, durationMinutes: 240 },
+        colors: [0xd9a066, 0x8b5a2b]
+    },
+    fish_stew: {
+        id: 'fish_stew',
+        displayName: 'Fish Stew',
+        description: 'A rich stew that restores health and energy.',
+        rarity: RARITY_LEVELS.RARE,
+        basePrice: 140,
+        energy: 80,
+        health: 40,
+        colors: [0xf5e6c8, 0xe67e22]
+    },
+    farmers_lunch: {
+        id: 'farmers_lunch',
+        displayName: "Farmer's Lunch",
+        description: 'A farmhand favourite. Every harvest yields an extra crop for a while.',
+        rarity: RARITY_LEVELS.RARE,
+        basePrice: 150,
+        energy: 60,
+        health: 20,
+        buff: { type: 'harvest', amount: 1, durationMinutes: 360 },
+        colors: [0xf2c94c, 0xe85d75]
+    },
+    anglers_feast: {
+        id: 'anglers_feast',
+        displayName: "Angler's Feast",
+        description: 'A celebration of the catch. Fully energizing and quick on your feet.',
+        rarity: RARITY_LEVELS.EPIC,
+        basePrice: 400,
+        energy: 100,
+        health: 50,
+        buff: { type: 'speed', amount: 1.4, durationMinutes: 360 },
+        colors: [0x4a90d9, 0xf2c94c]
+    }
+};
+
+export function getDish(itemId: string): Dish | undefined {
+    return DISHES[itemId];
+}
+
+const TEXTURE_SIZE = 32;
+
+/**
+ * Draw dish textures (no-op for textures that already exist)
+ */
+export function createDishTextures(scene: Phaser.Scene): void {
+    Object.values(DISHES).forEach(dish => {
+        if (scene.textures.exists(dish.id)) return;
+
+        const [food, garnish] = dish.colors;
+        const graphics = scene.make.graphics({ x: 0, y: 0 }, false);
+        graphics.fillStyle(0xdddddd);
+        graphics.fillEllipse(16, 20, 28, 14);
+        graphics.fillStyle(food);
+        graphics.fillEllipse(16, 17, 20, 10);
+        graphics.fillStyle(garnish);
+        graphics.fillCircle(12, 15, 2);
+        graphics.fillCircle(19, 16, 2);
+        graphics.generateTexture(dish.id, TEXTURE_SIZE, TEXTURE_SIZE);
+        graphics.destroy();
+    });
+}
@@ -0,0 +1,210 @@
+/**
+ * Recipe Registry
+ *
+ * Shaped and shapeless crafting recipes loaded from assets/data/recipes.json.
+ * Matching works on the UIScene crafting grid contents (item ids + stack
+ * counts) and reports exactly how much to consume from each grid cell.
+ */
+
+export interface RecipeIngredient {
+    itemId: string;
+    count: number;
+}
+
+export interface RecipeOutput {
+    itemId: string;
+    itemType: string;
+    count: number;
+}
+
+interface RecipeBase {
+    id: string;
+    name: string;
+    output: RecipeOutput;
+}
+
+export interface ShapedRecipe extends RecipeBase {
+    type: 'shaped';
+    pattern: string[]; // Rows of key characters; spaces are empty cells
+    key: Record<string, RecipeIngredient>;
+}
+
+export interface ShapelessRecipe extends RecipeBase {
+    type: 'shapeless';
+    ingredients: RecipeIngredient[];
+}
+
+export type CraftingRecipe = ShapedRecipe | ShapelessRecipe;
+
+export interface CraftingGridCell {
+    itemId: string;
+    count: number;
+}
+
+export interface RecipeMatch {
+    recipe: CraftingRecipe;
+    consumption: number[]; // Amount to remove from each grid cell, by index
+}
+
+export class RecipeRegistry {
+    private recipes: CraftingRecipe[];
+
+    constructor(recipes: CraftingRecipe[] = []) {
+        this.recipes = recipes;
+    }
+
+    /**
+     * Build a registry from the parsed recipes.json document
+     * Throws when the document does not describe valid recipes
+     */
+    static fromJSON(data: unknown, gridSize: number = 3): RecipeRegistry {
+        const recipes = (data as { recipes?: unknown })?.recipes;
+        if (!Array.isArray(recipes)) {
+            throw new Error('Recipe data must contain a "recipes" array');
+        }
+
+        const seen = new Set<string>();
+        const parsed = recipes.map((raw: any, index: number): CraftingRecipe => {
+            const label = raw?.id ?? `#${index}`;
+            if (typeof raw?.id !== 'string' || !raw.id) throw new Error(`Recipe ${label} is missing an id`);
+            if (seen.has(raw.id)) throw new Error(`Duplicate recipe id ${raw.id}`);
+            seen.add(raw.id);
+
+            const output = RecipeRegistry.parseOutput(raw.output, label);
+            const name = typeof raw.name === 'string' ? raw.name : raw.id;
+
+            if (raw.type === 'shaped') {
+                const pattern = raw.pattern;
+                if (!Array.isArray(pattern) || pattern.length === 0 || pattern.length > gridSize
+                    || pattern.some((row: unknown) => typeof row !== 'string' || row.length > gridSize)) {
+                    throw new Error(`Recipe ${label} has an invalid pattern`);
+                }
+
+                const key: Record<string, RecipeIngredient> = {};
+                const symbols = new Set(pattern.join('').replace(/ /g, ''));
+                if (symbols.size === 0) throw new Error(`Recipe ${label} has an empty pattern`);
+                symbols.forEach(symbol => {
+                    key[symbol] = RecipeRegistry.parseIngredient(raw.key?.[symbol], `${label} key "${symbol}"`);
+                });
+
+                return { id: raw.id, name, type: 'shaped', pattern, key, output };
+            }
+
+            if (raw.type === 'shapeless') {
+                if (!Array.isArray(raw.ingredients) || raw.ingredients.length === 0) {
+                    throw new Error(`Recipe ${label} has no ingredients`);
+                }
+                const ingredients = raw.ingredients.map((ingredient: unknown, i: number) =>
+                    RecipeRegistry.parseIngredient(ingredient, `${label} ingredient ${i}`)
+                );
+                return { id: raw.id, name, type: 'shapeless', ingredients, output };
+            }
+
+            throw new Error(`Recipe ${label} has unknown type ${raw.type}`);
+        });
+
+        return new RecipeRegistry(parsed);
+    }
+
+    private static parseIngredient(raw: any, label: string): RecipeIngredient {
+        if (typeof raw?.itemId !== 'string' || !raw.itemId) throw new Error(`Recipe ${label} is missing an itemId`);
+        const count = raw.count ?? 1;
+        if (!Number.isInteger(count) || count < 1) throw new Error(`Recipe ${label} has an invalid count`);
+        return { itemId: raw.itemId, count };
+    }
+
+    private static parseOutput(raw: any, label: string): RecipeOutput {
+        const { itemId, count } = RecipeRegistry.parseIngredient(raw, `${label} output`);
+        return { itemId, count, itemType: typeof raw.itemType === 'string' ? raw.itemType : 'crafted' };
+    }
+
+    public getAll(): CraftingRecipe[] {
+        return [...this.recipes];
+    }
+
+    /**
+     * Find the first recipe satisfied by the grid (row-major, `width` columns)
+     */
+    public match(grid: (CraftingGridCell | null)[], width: number = 3): RecipeMatch | null {
+        for (const recipe of this.recipes) {
+            const consumption = recipe.type === 'shaped'
+                ? this.matchShaped(recipe, grid, width)
+                : this.matchShapeless(recipe, grid);
+            if (consumption) {
+                return { recipe, consumption };
+            }
+        }
+        return null;
+    }
+
+    private matchShaped(recipe: ShapedRecipe, grid: (CraftingGridCell | null)[], width: number): number[] | null {
+        const height = Math.ceil(grid.length / width);
+        const occupied = grid
+            .map((cell, index) => (cell ? index : -1))
+            .filter(index => index >= 0);
+        if (occupied.length === 0) return null;
+
+        // Bounding box of the placed items
+        const minRow = Math.min(...occupied.map(i => Math.floor(i / width)));
+        const minCol = Math.min(...occupied.map(i => i % width));
+
+        // Bounding box of the pattern
+        const rows = recipe.pattern;
+        const patternWidth = Math.max(...rows.map(row => row.length));
+        const firstCol = Math.min(...rows.map(row => {
+            const idx = row.search(/\S/);
+            return idx === -1 ? patternWidth : idx;
+        }));
+        const firstRow = rows.findIndex(row => row.trim().length > 0);
+
+        const consumption = new Array(grid.length).fill(0);
+
+        for (let r = 0; r < height; r++) {
+            for (let c = 0; c < width; c++) {
+                const cell = grid[r * width + c];
+                const patternRow = rows[r - minRow + firstRow];
+                const symbol = patternRow?.[c - minCol + firstCol] ?? ' ';
+
+                if (symbol === ' ') {
+                    if (cell) return null;
+                    continue;
+                }
+
+                const ingredient = recipe.key[symbol];
+                if (!cell || cell.itemId !== ingredient.itemId || cell.count < ingredient.count) {
+                    return null;
+                }
+                consumption[r * width + c] = ingredient.count;
+            }
+        }
+
+        // Every pattern symbol must have landed inside the grid
+        const required = rows.join('').replace(/ /g, '').length;
+        const used = consumption.filter(amount => amount > 0).length;
+        return used === required ? consumption : null;
+    }
+
+    private matchShapeless(recipe: ShapelessRecipe, grid: (CraftingGridCell | null)[]): number[] | null {
+        const consumption = new Array(grid.length).fill(0);
+        const wanted = new Map<string, number>();
+        recipe.ingredients.forEach(({ itemId, count }) => {
+            wanted.set(itemId, (wanted.get(itemId) ?? 0) + count);
+        });
+
+        // No unrelated items may be in the grid
+        if (grid.some(cell => cell && !wanted.has(cell.itemId))) return null;
+
+        for (const [itemId, count] of wanted) {
+            let remaining = count;
+            grid.forEach((cell, index) => {
+                if (!cell || cell.itemId !== itemId || remaining === 0) return;
+                const take = Math.min(cell.count, remaining);
+                consumption[index] = take;
+                remaining -= take;
+            });
+            if (remaining > 0) return null;
+        }
+
+        return consumption;
+    }
+}
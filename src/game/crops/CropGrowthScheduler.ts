@@ -0,0 +1,126 @@
+import { CropSpeciesId, getCropSpecies, getMatureStage, getStageForProgress, isInSeason } from './CropRegistry';
+import type { Season } from '../time/GameClock';
+
+export interface Crop {
+    x: number;
+    y: number;
+    growthStage: number; // Index into the species' stageSprites (0 = seed)
+    type: CropSpeciesId;
+    plantedTime: number; // Epoch ms
+    growthProgress: number; // Watered growth time accumulated, in ms
+    lastWateredTime: number | null;
+    hydrationMs: number | null; // How long the last watering lasts; null = the species' waterIntervalMs
+    lastUpdateTime: number;
+    wilted: boolean;
+}
+
+export interface CropGrowthChange {
+    cropKey: string;
+    stageChanged: boolean;
+    wiltedChanged: boolean;
+}
+
+export function isCropMature(crop: Crop): boolean {
+    return crop.growthStage >= getMatureStage(getCropSpecies(crop.type));
+}
+
+/**
+ * Advances crops over time.
+ * Crops only grow while hydrated; once a watering wears off they wait,
+ * and if left thirsty for too long they wilt until watered again.
+ * Crops that are out of season stay dormant: they neither grow nor wilt.
+ */
+export class CropGrowthScheduler {
+    /**
+     * Create a freshly planted crop
+     */
+    public createCrop(x: number, y: number, type: CropSpeciesId, now: number): Crop {
+        return {
+            x,
+            y,
+            growthStage: 0,
+            type,
+            plantedTime: now,
+            growthProgress: 0,
+            lastWateredTime: null,
+            hydrationMs: null,
+            lastUpdateTime: now,
+            wilted: false
+        };
+    }
+
+    /**
+     * Advance every crop up to `now` and report which ones changed visually
+     */
+    public update(crops: Map<string, Crop>, now: number, season: Season): CropGrowthChange[] {
+        const changes: CropGrowthChange[] = [];
+
+        crops.forEach((crop, cropKey) => {
+            const previousStage = crop.growthStage;
+            const previousWilted = crop.wilted;
+
+            this.advance(crop, now, isInSeason(getCropSpecies(crop.type), season));
+
+            const stageChanged = crop.growthStage !== previousStage;
+            const wiltedChanged = crop.wilted !== previousWilted;
+            if (stageChanged || wiltedChanged) {
+                changes.push({ cropKey, stageChanged, wiltedChanged });
+            }
+        });
+
+        return changes;
+    }
+
+    /**
+     * Water a crop: settle growth so far, then start a new hydration window.
+     * A longer window that is still running (e.g. from a sprinkler) is kept.
+     */
+    public water(crop: Crop, now: number, season: Season, hydrationMs: number = getCropSpecies(crop.type).waterIntervalMs): void {
+        this.advance(crop, now, isInSeason(getCropSpecies(crop.type), season));
+        const hydratedUntil = Math.max(this.getHydratedUntil(crop), now + hydrationMs);
+        crop.lastWateredTime = now;
+        crop.hydrationMs = hydratedUntil - now;
+        crop.wilted = false;
+    }
+
+    /**
+     * Whether the crop's last watering has worn off
+     */
+    public isThirsty(crop: Crop, now: number): boolean {
+        return now >= this.getHydratedUntil(crop);
+    }
+
+    private getHydratedUntil(crop: Crop): number {
+        if (crop.lastWateredTime === null) return Number.NEGATIVE_INFINITY;
+        return crop.lastWateredTime + (crop.hydrationMs ?? getCropSpecies(crop.type).waterIntervalMs);
+    }
+
+    private advance(crop: Crop, now: number, inSeason: boolean): void {
+        const from = crop.lastUpdateTime;
+        if (now <= from) return;
+
+        if (!inSeason) {
+            crop.lastUpdateTime = now;
+            return;
+        }
+
+        const species = getCropSpecies(crop.type);
+        const hydratedUntil = this.getHydratedUntil(crop);
+
+        if (!crop.wilted) {
+            const wateredTime = Math.max(0, Math.min(now, hydratedUntil) - from);
+            crop.growthProgress = Math.min(species.growthDurationMs, crop.growthProgress + wateredTime);
+            crop.growthStage = getStageForProgress(species, crop.growthProgress);
+        }
+
+        // Mature crops no longer need water
+        if (!isCropMature(crop)) {
+            const thirstySince = crop.lastWateredTime !== null ? hydratedUntil : crop.plantedTime;
+            if (now - thirstySince >= species.wiltAfterMs) {
+                crop.wilted = true;
+            }
+        }
+
+        crop.lastUpdateTime = now;
+    }
+}
@@ -0,0 +1,121 @@
+/**
+ * Crop Registry
+ *
+ * Data-driven definitions for every plantable crop species.
+ * FarmScene and CropGrowthScheduler read growth, watering and yield
+ * rules from here instead of hard-coding them per crop.
+ */
+
+import type { Season } from '../time/GameClock';
+
+export type CropSpeciesId = 'carrot' | 'wheat' | 'corn';
+
+export interface CropSpecies {
+    id: CropSpeciesId;
+    displayName: string;
+    description: string;
+    seasons: Season[];        // Seasons in which the crop can be planted and grows
+    seedItemId: string;       // Inventory item that plants this species
+    packetColor: number;      // Seed packet texture colour
+    stageSprites: string[];   // One texture per growth stage; the last stage is mature
+    tint?: number;            // Applied to shared sprites so species stay distinguishable
+    growthDurationMs: number; // Watered time needed to go from seed to mature
+    waterIntervalMs: number;  // How long one watering keeps the crop hydrated
+    wiltAfterMs: number;      // Time spent thirsty before the crop wilts and stops growing
+    yield: { min: number; max: number };
+    mintStats: number[];      // Stats used when the harvest is minted as an NFT
+    energy: number;           // Restored when the harvest is eaten from the item bar
+}
+
+const CARROT_SPRITES = ['carrot_stage1', 'carrot_stage2', 'carrot_stage3'];
+
+export const CROP_SPECIES: Record<CropSpeciesId, CropSpecies> = {
+    carrot: {
+        id: 'carrot',
+        seedItemId: 'seeds_carrot',
+        packetColor: 0xff8c1a,
+        displayName: 'Carrot',
+        description: 'Freshly harvested carrot from OneValley farm',
+        seasons: ['spring', 'fall'],
+        stageSprites: CARROT_SPRITES,
+        growthDurationMs: 2 * 60 * 1000,
+        waterIntervalMs: 60 * 1000,
+        wiltAfterMs: 90 * 1000,
+        yield: { min: 1, max: 2 },
+        mintStats: [5, 10],
+        energy: 15,
+    },
+    wheat: {
+        id: 'wheat',
+        seedItemId: 'seeds_wheat',
+        packetColor: 0xd9b45a,
+        displayName: 'Wheat',
+        description: 'Golden wheat harvested from OneValley farm',
+        seasons: ['summer', 'fall'],
+        stageSprites: CARROT_SPRITES,
+        tint: 0xf5deb3,
+        growthDurationMs: 3 * 60 * 1000,
+        waterIntervalMs: 90 * 1000,
+        wiltAfterMs: 120 * 1000,
+        yield: { min: 2, max: 3 },
+        mintStats: [8, 12],
+        energy: 8,
+    },
+    corn: {
+        id: 'corn',
+        seedItemId: 'seeds_corn',
+        packetColor: 0xf2d230,
+        displayName: 'Corn',
+        description: 'Sweet corn harvested from OneValley farm',
+        seasons: ['summer'],
+        stageSprites: CARROT_SPRITES,
+        tint: 0xffe066,
+        growthDurationMs: 4 * 60 * 1000,
+        waterIntervalMs: 60 * 1000,
+        wiltAfterMs: 90 * 1000,
+        yield: { min: 1, max: 3 },
+        mintStats: [12, 8],
+        energy: 20,
+    },
+};
+
+export function getCropSpecies(id: string): CropSpecies {
+    return CROP_SPECIES[id as CropSpeciesId] ?? CROP_SPECIES.carrot;
+}
+
+export function isCropSpecies(id: string): id is CropSpeciesId {
+    return id in CROP_SPECIES;
+}
+
+/**
+ * Species planted by a seed packet item, if the item is a seed packet
+ */
+export function getSpeciesForSeed(itemId: string): CropSpecies | undefined {
+    return Object.values(CROP_SPECIES).find(species => species.seedItemId === itemId);
+}
+
+export function isInSeason(species: CropSpecies, season: Season): boolean {
+    return species.seasons.includes(season);
+}
+
+/**
+ * Species that can be planted in the given season
+ */
+export function getPlantableSpecies(season: Season): CropSpecies[] {
+    return Object.values(CROP_SPECIES).filter(species => isInSeason(species, season));
+}
+
+export function getMatureStage(species: CropSpecies): number {
+    return species.stageSprites.length - 1;
+}
+
+/**
+ * Growth stage reached after the given amount of watered growth time
+ */
+export function getStageForProgress(species: CropSpecies, progressMs: number): number {
+    const matureStage = getMatureStage(species);
+    if (matureStage <= 0) return 0;
+
+    const msPerStage = species.growthDurationMs / matureStage;
+    return Math.min(matureStage, Math.floor(progressMs / msPerStage));
+}
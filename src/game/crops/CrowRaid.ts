@@ -0,0 +1,29 @@
+/**
+ * Crow Raids
+ *
+ * Some mornings crows descend on a farm with enough unguarded crops and
+ * eat a few of them. Crops within a scarecrow's reach are never touched,
+ * so a small or well-guarded farm is safe.
+ */
+
+export const CROW_RAID_MIN_CROPS = 8;  // Unprotected crops needed to attract crows
+export const CROW_RAID_CHANCE = 0.35;  // Chance of a raid on a morning with enough crops
+export const CROW_RAID_MAX_EATEN = 3;
+
+/**
+ * Roll this morning's raid; returns the keys of the crops the crows ate
+ */
+export function rollCrowRaid(unprotectedCropKeys: string[], random: () => number = Math.random): string[] {
+    if (unprotectedCropKeys.length < CROW_RAID_MIN_CROPS) return [];
+    if (random() >= CROW_RAID_CHANCE) return [];
+
+    const remaining = [...unprotectedCropKeys];
+    const count = 1 + Math.floor(random() * CROW_RAID_MAX_EATEN);
+    const eaten: string[] = [];
+
+    for (let i = 0; i < count && remaining.length > 0; i++) {
+        const [cropKey] = remaining.splice(Math.floor(random() * remaining.length), 1);
+        eaten.push(cropKey);
+    }
+    return eaten;
+}
@@ -1,32 +1,44 @@
 import Phaser from 'phaser';
+import { ENEMY_STATS, EnemyStats, EnemyType } from './EnemyStats';
+
+/**
+ * Enemy behaviour states
+ * idle/wander until the target comes within aggro range, then chase;
+ * in attack range the enemy telegraphs (tint + pulse) before lunging.
+ * Enemies with a flee threshold run away once badly hurt.
+ */
+export type EnemyState = 'idle' | 'wander' | 'chase' | 'telegraph' | 'attack' | 'flee' | 'dead';
+
+const LEASH_MULTIPLIER = 1.5; // Chasers give up beyond aggroRadius * LEASH_MULTIPLIER
+const TELEGRAPH_TINT = 0xffe066;
 
 export class Enemy extends Phaser.Physics.Arcade.Sprite {
+    private stats: EnemyStats;
     private maxHp: number;
     private currentHp: number;
-    private damage: number;
-    private moveSpeed: number;
-    private enemyType: 'skeleton' | 'slime';
+    private enemyType: EnemyType;
     private isDead: boolean = false;
+    private behaviorState: EnemyState = 'idle';
+    private stateUntil: number = 0;
+    private nextAttackAt: number = 0;
+    private target?: Phaser.GameObjects.Sprite;
     private moveTimer?: Phaser.Time.TimerEvent;
     private currentMoveDirection: { x: number; y: number } = { x: 0, y: 0 };
+    private lungeDirection: Phaser.Math.Vector2 = new Phaser.Math.Vector2();
 
     constructor(
         scene: Phaser.Scene,
         x: number,
         y: number,
-        texture: string,
-        enemyType: 'skeleton' | 'slime',
-        hp: number,
-        damage: number,
-        moveSpeed: number
+        enemyType: EnemyType,
+        stats: EnemyStats = ENEMY_STATS[enemyType]
     ) {
-        super(scene, x, y, texture);
-        
+        super(scene, x, y, stats.texture);
+
         this.enemyType = enemyType;
-        this.maxHp = hp;
-        this.currentHp = hp;
-        this.damage = damage;
-        this.moveSpeed = moveSpeed;
+        this.stats = stats;
+        this.maxHp = stats.hp;
+        this.currentHp = stats.hp;
 
         // Add to scene
         scene.add.existing(this);
@@ -34,7 +46,7 @@ export class Enemy extends Phaser.Physics.Arcade.Sprite {
 
         // Set up physics body
         this.setCollideWorldBounds(true);
-        
+
         // Adjust body size and scale based on enemy type
         if (enemyType === 'skeleton') {
             this.setScale(1.2); // Make skeleton 2x bigger
@@ -49,8 +61,15 @@ export class Enemy extends Phaser.Physics.Arcade.Sprite {
         this.startAI();
     }
 
+    /**
+     * Sprite this enemy notices, chases and attacks (the player)
+     */
+    public setTarget(target: Phaser.GameObjects.Sprite): void {
+        this.target = target;
+    }
+
     private startAI(): void {
-        // Random movement AI
+        // Idle/wander direction changes while nothing has caught the enemy's attention
         this.moveTimer = this.scene.time.addEvent({
             delay: Phaser.Math.Between(1000, 3000),
             callback: this.changeDirection,
@@ -62,7 +81,7 @@ export class Enemy extends Phaser.Physics.Arcade.Sprite {
     }
 
     private changeDirection(): void {
-        if (this.isDead) return;
+        if (this.behaviorState !== 'idle' && this.behaviorState !== 'wander') return;
 
         // Random direction or stand still
         const directions = [
@@ -74,25 +93,26 @@ export class Enemy extends Phaser.Physics.Arcade.Sprite {
         ];
 
         this.currentMoveDirection = Phaser.Utils.Array.GetRandom(directions);
-        
-        // Update animation based on movement
+        this.behaviorState = this.currentMoveDirection.x === 0 && this.currentMoveDirection.y === 0 ? 'idle' : 'wander';
+        this.playMovement(this.currentMoveDirection.x, this.currentMoveDirection.y);
+    }
+
+    private playMovement(dx: number, dy: number): void {
+        const moving = dx !== 0 || dy !== 0;
+
         if (this.enemyType === 'skeleton') {
-            if (this.currentMoveDirection.x === 0 && this.currentMoveDirection.y === 0) {
+            if (!moving) {
                 this.play('skeleton-idle-down', true);
-            } else if (this.currentMoveDirection.y > 0) {
+            } else if (Math.abs(dx) > Math.abs(dy)) {
+                this.play('skeleton-walk-side', true);
+                this.setFlipX(dx < 0);
+            } else if (dy > 0) {
                 this.play('skeleton-walk-down', true);
-            } else if (this.currentMoveDirection.y < 0) {
-                this.play('skeleton-walk-up', true);
             } else {
-                this.play('skeleton-walk-side', true);
-                this.setFlipX(this.currentMoveDirection.x < 0);
+                this.play('skeleton-walk-up', true);
             }
         } else if (this.enemyType === 'slime') {
-            if (this.currentMoveDirection.x === 0 && this.currentMoveDirection.y === 0) {
-                this.play('slime-idle', true);
-            } else {
-                this.play('slime-jump', true);
-            }
+            this.play(moving ? 'slime-jump' : 'slime-idle', true);
         }
     }
 
@@ -109,11 +129,20 @@ export class Enemy extends Phaser.Physics.Arcade.Sprite {
 
         if (this.currentHp <= 0) {
             this.die();
+            return;
+        }
+
+        // Getting hit always draws attention, unless it's time to run
+        if (this.shouldFlee()) {
+            this.enterState('flee');
+        } else if (this.behaviorState === 'idle' || this.behaviorState === 'wander') {
+            this.enterState('chase');
         }
     }
 
     private die(): void {
         this.isDead = true;
+        this.behaviorState = 'dead';
         this.setVelocity(0, 0);
 
         // Stop AI
@@ -134,26 +163,146 @@ export class Enemy extends Phaser.Physics.Arcade.Sprite {
         });
     }
 
+    /**
+     * Fade out and remove without dying (e.g. night waves at dawn)
+     */
+    public retreat(): void {
+        if (this.isDead) return;
+
+        this.isDead = true;
+        this.behaviorState = 'dead';
+        this.setVelocity(0, 0);
+        this.moveTimer?.remove();
+
+        this.scene.tweens.add({
+            targets: this,
+            alpha: 0,
+            duration: 800,
+            onComplete: () => this.destroy()
+        });
+    }
+
     public getDamage(): number {
-        return this.damage;
+        return this.stats.damage;
     }
 
     public getIsDead(): boolean {
         return this.isDead;
     }
 
+    public getEnemyType(): EnemyType {
+        return this.enemyType;
+    }
+
+    public getBehaviorState(): EnemyState {
+        return this.behaviorState;
+    }
+
+    /**
+     * Only a lunge hurts; touching an enemy otherwise is safe
+     */
+    public isAttacking(): boolean {
+        return this.behaviorState === 'attack';
+    }
+
+    private shouldFlee(): boolean {
+        return this.stats.fleeHpRatio > 0 && this.currentHp <= this.maxHp * this.stats.fleeHpRatio;
+    }
+
+    private enterState(state: EnemyState, durationMs: number = 0): void {
+        if (this.behaviorState === 'telegraph' && state !== 'telegraph') {
+            this.clearTint();
+        }
+
+        this.behaviorState = state;
+        this.stateUntil = this.scene.time.now + durationMs;
+
+        if (state === 'telegraph') {
+            this.setVelocity(0, 0);
+            this.setTint(TELEGRAPH_TINT);
+            this.scene.tweens.add({
+                targets: this,
+                scaleX: this.scaleX * 1.15,
+                scaleY: this.scaleY * 0.85,
+                duration: durationMs / 2,
+                yoyo: true
+            });
+        } else if (state === 'idle' || state === 'wander') {
+            this.changeDirection();
+        }
+    }
+
     preUpdate(time: number, delta: number): void {
         super.preUpdate(time, delta);
 
-        if (!this.isDead) {
-            // Move in current direction
-            this.setVelocity(
-                this.currentMoveDirection.x * this.moveSpeed,
-                this.currentMoveDirection.y * this.moveSpeed
-            );
+        if (this.isDead) return;
+
+        const distance = this.target?.active
+            ? Phaser.Math.Distance.Between(this.x, this.y, this.target.x, this.target.y)
+            : Infinity;
+        const leash = this.stats.aggroRadius * LEASH_MULTIPLIER;
+
+        switch (this.behaviorState) {
+            case 'idle':
+            case 'wander':
+                if (distance <= this.stats.aggroRadius) {
+                    this.enterState(this.shouldFlee() ? 'flee' : 'chase');
+                    return;
+                }
+                this.setVelocity(
+                    this.currentMoveDirection.x * this.stats.moveSpeed,
+                    this.currentMoveDirection.y * this.stats.moveSpeed
+                );
+                break;
+
+            case 'chase':
+                if (distance > leash) {
+                    this.enterState('wander');
+                    return;
+                }
+                if (distance <= this.stats.attackRange && time >= this.nextAttackAt) {
+                    this.enterState('telegraph', this.stats.telegraphMs);
+                    return;
+                }
+                this.moveRelativeToTarget(this.stats.chaseSpeed, 1);
+                break;
+
+            case 'telegraph':
+                this.setVelocity(0, 0);
+                if (time >= this.stateUntil) {
+                    // Lunge at where the target is now
+                    this.lungeDirection.set(this.target!.x - this.x, this.target!.y - this.y).normalize();
+                    this.enterState('attack', this.stats.lungeMs);
+                }
+                break;
+
+            case 'attack':
+                this.setVelocity(this.lungeDirection.x * this.stats.lungeSpeed, this.lungeDirection.y * this.stats.lungeSpeed);
+                if (time >= this.stateUntil) {
+                    this.nextAttackAt = time + this.stats.attackCooldownMs;
+                    this.enterState(this.shouldFlee() ? 'flee' : 'chase');
+                }
+                break;
+
+            case 'flee':
+                if (distance > leash) {
+                    this.enterState('wander');
+                    return;
+                }
+                this.moveRelativeToTarget(this.stats.chaseSpeed, -1);
+                break;
         }
     }
 
+    // Move towards (1) or away from (-1) the target
+    private moveRelativeToTarget(speed: number, sign: 1 | -1): void {
+        if (!this.target) return;
+
+        const direction = new Phaser.Math.Vector2(this.target.x - this.x, this.target.y - this.y).normalize().scale(sign);
+        this.setVelocity(direction.x * speed, direction.y * speed);
+        this.playMovement(direction.x, direction.y);
+    }
+
     destroy(fromScene?: boolean): void {
         if (this.moveTimer) {
             this.moveTimer.remove();
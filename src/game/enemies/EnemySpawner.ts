@@ -0,0 +1,175 @@
+import Phaser from 'phaser';
+import { EventBus } from '../EventBus';
+import { GameTime, GAME_CLOCK_EVENTS, MINUTES_PER_DAY, MINUTES_PER_HOUR } from '../time/GameClock';
+import { Enemy } from './Enemy';
+import { EnemyType } from './EnemyStats';
+
+/**
+ * Enemy Spawner
+ *
+ * Keeps the designated spawn zones populated during the day and sends
+ * waves into them at night. Wave enemies retreat at dawn. Spawned enemies
+ * are pushed into the scene's shared enemies array (colliders and attack
+ * checks iterate that array) and removed from it when destroyed.
+ */
+
+export interface SpawnZone {
+    id: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    types: EnemyType[];
+    maxAlive: number; // Daytime population
+}
+
+export const SPAWN_ZONES: SpawnZone[] = [
+    { id: 'east_field', x: 560, y: 160, width: 140, height: 180, types: ['slime', 'skeleton'], maxAlive: 2 },
+    { id: 'south_meadow', x: 420, y: 440, width: 140, height: 120, types: ['skeleton', 'slime'], maxAlive: 2 },
+    { id: 'west_hollow', x: 200, y: 500, width: 120, height: 100, types: ['slime'], maxAlive: 1 }
+];
+
+export const NIGHT_WAVE_HOURS = [20, 23, 2];
+export const MAX_ALIVE_ENEMIES = 14;
+
+const ZONE_REFILL_MS = 30000;  // One enemy per under-populated zone per interval
+const MIN_PLAYER_DISTANCE = 140; // Never spawn right next to the player
+
+export interface WaveEntry {
+    type: EnemyType;
+    count: number;
+}
+
+/**
+ * Night waves grow with the number of days played
+ */
+export function getNightWave(dayNumber: number): WaveEntry[] {
+    return [
+        { type: 'slime', count: 2 + Math.floor(dayNumber / 2) },
+        { type: 'skeleton', count: 1 + Math.floor(dayNumber / 3) }
+    ];
+}
+
+export class EnemySpawner {
+    private scene: Phaser.Scene;
+    private enemies: Enemy[];
+    private getTarget: () => Phaser.GameObjects.Sprite;
+    private zoneEnemies: Map<string, Set<Enemy>> = new Map();
+    private waveEnemies: Set<Enemy> = new Set();
+    private lastWaveHour: number = -1;
+    private refillTimer?: Phaser.Time.TimerEvent;
+
+    constructor(scene: Phaser.Scene, enemies: Enemy[], getTarget: () => Phaser.GameObjects.Sprite) {
+        this.scene = scene;
+        this.enemies = enemies;
+        this.getTarget = getTarget;
+        SPAWN_ZONES.forEach(zone => this.zoneEnemies.set(zone.id, new Set()));
+    }
+
+    /**
+     * Populate every zone and start listening to the game clock
+     */
+    public start(): void {
+        SPAWN_ZONES.forEach(zone => {
+            for (let i = 0; i < zone.maxAlive; i++) {
+                this.spawnInZone(zone, Phaser.Utils.Array.GetRandom(zone.types));
+            }
+        });
+
+        this.refillTimer = this.scene.time.addEvent({
+            delay: ZONE_REFILL_MS,
+            callback: this.refillZones,
+            callbackScope: this,
+            loop: true
+        });
+
+        EventBus.on(GAME_CLOCK_EVENTS.TIME_CHANGED, this.handleTimeChanged, this);
+        EventBus.on(GAME_CLOCK_EVENTS.DAY_STARTED, this.handleDayStarted, this);
+
+        this.scene.events.once(Phaser.Scenes.Events.SHUTDOWN, () => this.stop());
+    }
+
+    public stop(): void {
+        this.refillTimer?.remove();
+        EventBus.off(GAME_CLOCK_EVENTS.TIME_CHANGED, this.handleTimeChanged, this);
+        EventBus.off(GAME_CLOCK_EVENTS.DAY_STARTED, this.handleDayStarted, this);
+    }
+
+    public spawnWave(entries: WaveEntry[]): Enemy[] {
+        const spawned: Enemy[] = [];
+
+        entries.forEach(({ type, count }) => {
+            for (let i = 0; i < count; i++) {
+                const zones = SPAWN_ZONES.filter(zone => zone.types.includes(type));
+                const enemy = this.spawnInZone(Phaser.Utils.Array.GetRandom(zones), type, false);
+                if (!enemy) return;
+                this.waveEnemies.add(enemy);
+                spawned.push(enemy);
+            }
+        });
+
+        return spawned;
+    }
+
+    private handleTimeChanged(time: GameTime): void {
+        const hourIndex = Math.floor(time.totalMinutes / MINUTES_PER_HOUR);
+        if (!NIGHT_WAVE_HOURS.includes(time.hour) || hourIndex === this.lastWaveHour) return;
+
+        this.lastWaveHour = hourIndex;
+        const dayNumber = Math.floor(time.totalMinutes / MINUTES_PER_DAY) + 1;
+        const spawned = this.spawnWave(getNightWave(dayNumber));
+        if (spawned.length > 0) {
+            EventBus.emit('enemy-wave-spawned', { count: spawned.length, time });
+        }
+    }
+
+    // Night is over: surviving wave enemies fade away
+    private handleDayStarted(): void {
+        this.waveEnemies.forEach(enemy => enemy.retreat());
+        this.waveEnemies.clear();
+    }
+
+    private refillZones(): void {
+        SPAWN_ZONES.forEach(zone => {
+            if (this.zoneEnemies.get(zone.id)!.size < zone.maxAlive) {
+                this.spawnInZone(zone, Phaser.Utils.Array.GetRandom(zone.types));
+            }
+        });
+    }
+
+    private spawnInZone(zone: SpawnZone, type: EnemyType, trackInZone: boolean = true): Enemy | null {
+        if (this.enemies.length >= MAX_ALIVE_ENEMIES) return null;
+
+        const target = this.getTarget();
+        let x = 0;
+        let y = 0;
+        for (let attempt = 0; attempt < 5; attempt++) {
+            x = Phaser.Math.Between(zone.x, zone.x + zone.width);
+            y = Phaser.Math.Between(zone.y, zone.y + zone.height);
+            if (!target || Phaser.Math.Distance.Between(x, y, target.x, target.y) >= MIN_PLAYER_DISTANCE) break;
+        }
+        if (target && Phaser.Math.Distance.Between(x, y, target.x, target.y) < MIN_PLAYER_DISTANCE) return null;
+
+        const enemy = new Enemy(this.scene, x, y, type);
+        if (target) {
+            enemy.setTarget(target);
+        }
+
+        this.enemies.push(enemy);
+        if (trackInZone) {
+            this.zoneEnemies.get(zone.id)!.add(enemy);
+        }
+
+        // Keep the shared array (and zone counts) free of destroyed enemies
+        enemy.once(Phaser.GameObjects.Events.DESTROY, () => {
+            const index = this.enemies.indexOf(enemy);
+            if (index !== -1) {
+                this.enemies.splice(index, 1);
+            }
+            this.zoneEnemies.get(zone.id)?.delete(enemy);
+            this.waveEnemies.delete(enemy);
+        });
+
+        return enemy;
+    }
+}
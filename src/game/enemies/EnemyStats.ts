@@ -0,0 +1,53 @@
+/**
+ * Enemy Stats
+ *
+ * Per-type combat and behaviour tuning read by Enemy and EnemySpawner.
+ */
+
+export type EnemyType = 'skeleton' | 'slime';
+
+export interface EnemyStats {
+    texture: string;
+    hp: number;
+    damage: number;
+    moveSpeed: number;        // Wandering speed
+    chaseSpeed: number;       // Speed while pursuing the player
+    aggroRadius: number;      // Distance at which the player is noticed
+    attackRange: number;      // Distance at which the enemy winds up an attack
+    telegraphMs: number;      // Wind-up before the lunge, so the player can react
+    lungeSpeed: number;
+    lungeMs: number;
+    attackCooldownMs: number;
+    fleeHpRatio: number;      // Runs away below this share of max HP (0 = never flees)
+}
+
+export const ENEMY_STATS: Record<EnemyType, EnemyStats> = {
+    skeleton: {
+        texture: 'skeleton',
+        hp: 30,
+        damage: 10,
+        moveSpeed: 50,
+        chaseSpeed: 70,
+        aggroRadius: 160,
+        attackRange: 36,
+        telegraphMs: 450,
+        lungeSpeed: 220,
+        lungeMs: 220,
+        attackCooldownMs: 1400,
+        fleeHpRatio: 0
+    },
+    slime: {
+        texture: 'slime',
+        hp: 20,
+        damage: 5,
+        moveSpeed: 30,
+        chaseSpeed: 45,
+        aggroRadius: 120,
+        attackRange: 44,
+        telegraphMs: 650,
+        lungeSpeed: 180,
+        lungeMs: 300,
+        attackCooldownMs: 1800,
+        fleeHpRatio: 0.3
+    }
+};
@@ -0,0 +1,193 @@
+import { RARITY_LEVELS, RarityLevel } from '@/types/onechain';
+import type { Season } from '../time/GameClock';
+
+/**
+ * Fish Registry
+ *
+ * Every fish that can be caught, and when and where it bites. Which fish
+ * takes the bait is a weighted roll among the species in season, active
+ * at the current hour and living at the cast location. Fish reuse the
+ * consumable fish sprites and are added to the item catalog, so they can
+ * be eaten, sold and minted like any other item.
+ */
+
+// shallows: water next to the shore; deep: water surrounded by water
+export type FishingLocation = 'shallows' | 'deep';
+
+export interface FishSpecies {
+    id: string;
+    displayName: string;
+    description: string;
+    rarity: RarityLevel;
+    basePrice: number;
+    energy: number;
+    sprite: string;         // Path relative to assets/items
+    seasons: Season[];
+    hours: [number, number]; // Active from the first hour until the second; wraps past midnight
+    locations: FishingLocation[];
+    weight: number;         // Relative chance among the fish that can bite
+    difficulty: number;     // 0-1: faster reel marker and a smaller catch zone
+}
+
+const ALL_SEASONS: Season[] = ['spring', 'summer', 'fall', 'winter'];
+
+export const FISH_SPECIES: Record<string, FishSpecies> = {
+    fish_carp: {
+        id: 'fish_carp',
+        displayName: 'Carp',
+        description: 'A common pond fish that bites at any hour.',
+        rarity: RARITY_LEVELS.COMMON,
+        basePrice: 30,
+        energy: 20,
+        sprite: 'consumables/fish_01a.png',
+        seasons: ALL_SEASONS,
+        hours: [0, 24],
+        locations: ['shallows', 'deep'],
+        weight: 8,
+        difficulty: 0.15
+    },
+    fish_sunfish: {
+        id: 'fish_sunfish',
+        displayName: 'Sunfish',
+        description: 'Basks in the warm shallows on sunny days.',
+        rarity: RARITY_LEVELS.COMMON,
+        basePrice: 35,
+        energy: 20,
+        sprite: 'consumables/fish_01b.png',
+        seasons: ['spring', 'summer'],
+        hours: [6, 19],
+        locations: ['shallows'],
+        weight: 10,
+        difficulty: 0.2
+    },
+    fish_perch: {
+        id: 'fish_perch',
+        displayName: 'Perch',
+        description: 'A hardy fish that stays active in the cold months.',
+        rarity: RARITY_LEVELS.COMMON,
+        basePrice: 40,
+        energy: 25,
+        sprite: 'consumables/fish_01c.png',
+        seasons: ['fall', 'winter'],
+        hours: [6, 20],
+        locations: ['shallows', 'deep'],
+        weight: 10,
+        difficulty: 0.25
+    },
+    fish_trout: {
+        id: 'fish_trout',
+        displayName: 'Rainbow Trout',
+        description: 'Its scales shimmer with every color of the summer sky.',
+        rarity: RARITY_LEVELS.RARE,
+        basePrice: 80,
+        energy: 35,
+        sprite: 'consumables/fish_01d.png',
+        seasons: ['summer'],
+        hours: [6, 19],
+        locations: ['shallows'],
+        weight: 4,
+        difficulty: 0.4
+    },
+    fish_bass: {
+        id: 'fish_bass',
+        displayName: 'Largemouth Bass',
+        description: 'A strong fighter that lurks in deep water.',
+        rarity: RARITY_LEVELS.RARE,
+        basePrice: 90,
+        energy: 35,
+        sprite: 'consumables/fish_01c.png',
+        seasons: ['summer', 'fall'],
+        hours: [6, 19],
+        locations: ['deep'],
+        weight: 4,
+        difficulty: 0.45
+    },
+    fish_catfish: {
+        id: 'fish_catfish',
+        displayName: 'Catfish',
+        description: 'Feeds on the bottom after dark.',
+        rarity: RARITY_LEVELS.RARE,
+        basePrice: 100,
+        energy: 40,
+        sprite: 'consumables/fish_01e.png',
+        seasons: ['spring', 'fall'],
+        hours: [18, 2],
+        locations: ['deep'],
+        weight: 4,
+        difficulty: 0.5
+    },
+    fish_eel: {
+        id: 'fish_eel',
+        displayName: 'Eel',
+        description: 'Slithers out of the deep as evening falls.',
+        rarity: RARITY_LEVELS.EPIC,
+        basePrice: 220,
+        energy: 50,
+        sprite: 'consumables/fish_01e.png',
+        seasons: ['spring', 'fall'],
+        hours: [16, 2],
+        locations: ['deep'],
+        weight: 1.5,
+        difficulty: 0.65
+    },
+    fish_sturgeon: {
+        id: 'fish_sturgeon',
+        displayName: 'Sturgeon',
+        description: 'An ancient fish prized for its roe.',
+        rarity: RARITY_LEVELS.EPIC,
+        basePrice: 260,
+        energy: 50,
+        sprite: 'consumables/fish_01d.png',
+        seasons: ['summer', 'winter'],
+        hours: [6, 19],
+        locations: ['deep'],
+        weight: 1.5,
+        difficulty: 0.7
+    },
+    fish_legend: {
+        id: 'fish_legend',
+        displayName: 'Legend',
+        description: 'The king of the valley waters. Few have seen it, fewer have caught it.',
+        rarity: RARITY_LEVELS.LEGENDARY,
+        basePrice: 1000,
+        energy: 100,
+        sprite: 'consumables/fish_01b.png',
+        seasons: ['spring'],
+        hours: [6, 20],
+        locations: ['deep'],
+        weight: 0.3,
+        difficulty: 0.9
+    }
+};
+
+export function getFishSpecies(itemId: string): FishSpecies | undefined {
+    return FISH_SPECIES[itemId];
+}
+
+export function isFishActive(fish: FishSpecies, hour: number): boolean {
+    const [start, end] = fish.hours;
+    return start <= end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+/**
+ * Fish that can bite in this season, hour and location
+ */
+export function getAvailableFish(season: Season, hour: number, location: FishingLocation): FishSpecies[] {
+    return Object.values(FISH_SPECIES).filter(fish =>
+        fish.seasons.includes(season) && isFishActive(fish, hour) && fish.locations.includes(location));
+}
+
+/**
+ * Pick the fish that takes the bait
+ */
+export function rollFish(season: Season, hour: number, location: FishingLocation, random: () => number = Math.random): FishSpecies {
+    const candidates = getAvailableFish(season, hour, location);
+    const total = candidates.reduce((sum, fish) => sum + fish.weight, 0);
+
+    let roll = random() * total;
+    for (const fish of candidates) {
+        roll -= fish.weight;
+        if (roll < 0) return fish;
+    }
+    return candidates[candidates.length - 1] ?? FISH_SPECIES.fish_carp;
+}
@@ -0,0 +1,150 @@
+import { FishSpecies } from './FishRegistry';
+
+/**
+ * Fishing Session
+ *
+ * One cast of the rod, from waiting for a bite to the catch. Once a fish
+ * bites the player has a moment to hook it; reeling is a timing game where
+ * a marker sweeps across the line and every press has to land inside the
+ * catch zone. Harder fish move the marker faster and shrink the zone.
+ * FarmScene drives the session and UIScene draws getView().
+ */
+
+export type FishingPhase = 'waiting' | 'bite' | 'reeling' | 'caught' | 'escaped';
+
+export type FishingPressResult = 'too-early' | 'hooked' | 'hit' | 'miss' | null;
+
+export interface FishingView {
+    phase: FishingPhase;
+    fish: FishSpecies | null;  // Only revealed once caught
+    marker: number;            // 0-1 along the reel bar
+    zoneStart: number;
+    zoneEnd: number;
+    hits: number;
+    misses: number;
+}
+
+export const BITE_DELAY_MS = { min: 1500, max: 5000 };
+export const BITE_WINDOW_MS = 1000; // Time to hook a biting fish
+export const HITS_TO_CATCH = 3;
+export const MISSES_TO_ESCAPE = 3;
+
+export class FishingSession {
+    private phase: FishingPhase = 'waiting';
+    private timerMs: number;
+    private marker: number = 0;
+    private direction: 1 | -1 = 1;
+    private zoneStart: number = 0;
+    private hits: number = 0;
+    private misses: number = 0;
+
+    constructor(private readonly fish: FishSpecies, private readonly random: () => number = Math.random) {
+        this.timerMs = BITE_DELAY_MS.min + random() * (BITE_DELAY_MS.max - BITE_DELAY_MS.min);
+    }
+
+    public getPhase(): FishingPhase {
+        return this.phase;
+    }
+
+    public getFish(): FishSpecies {
+        return this.fish;
+    }
+
+    public isOver(): boolean {
+        return this.phase === 'caught' || this.phase === 'escaped';
+    }
+
+    public update(deltaMs: number): void {
+        switch (this.phase) {
+            case 'waiting':
+                this.timerMs -= deltaMs;
+                if (this.timerMs <= 0) {
+                    this.phase = 'bite';
+                    this.timerMs = BITE_WINDOW_MS;
+                }
+                break;
+            case 'bite':
+                this.timerMs -= deltaMs;
+                if (this.timerMs <= 0) {
+                    this.phase = 'escaped';
+                }
+                break;
+            case 'reeling': {
+                // Ping-pong across the bar
+                this.marker += this.direction * this.getMarkerSpeed() * (deltaMs / 1000);
+                if (this.marker >= 1 || this.marker <= 0) {
+                    this.marker = Math.min(1, Math.max(0, this.marker));
+                    this.direction = this.direction === 1 ? -1 : 1;
+                }
+                break;
+            }
+        }
+    }
+
+    /**
+     * The player pressed the use key
+     */
+    public press(): FishingPressResult {
+        switch (this.phase) {
+            case 'waiting':
+                // Reeling in before a bite scares the fish off
+                this.phase = 'escaped';
+                return 'too-early';
+            case 'bite':
+                this.phase = 'reeling';
+                this.placeZone();
+                return 'hooked';
+            case 'reeling':
+                if (this.marker >= this.zoneStart && this.marker <= this.zoneStart + this.getZoneWidth()) {
+                    this.hits++;
+                    if (this.hits >= HITS_TO_CATCH) {
+                        this.phase = 'caught';
+                    } else {
+                        this.placeZone();
+                    }
+                    return 'hit';
+                }
+                this.misses++;
+                if (this.misses >= MISSES_TO_ESCAPE) {
+                    this.phase = 'escaped';
+                }
+                return 'miss';
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Give up on the cast (player moved away, got hurt, ...)
+     */
+    public cancel(): void {
+        if (!this.isOver()) {
+            this.phase = 'escaped';
+        }
+    }
+
+    public getView(): FishingView {
+        return {
+            phase: this.phase,
+            fish: this.phase === 'caught' ? this.fish : null,
+            marker: this.marker,
+            zoneStart: this.zoneStart,
+            zoneEnd: this.zoneStart + this.getZoneWidth(),
+            hits: this.hits,
+            misses: this.misses
+        };
+    }
+
+    // Full sweeps per second
+    private getMarkerSpeed(): number {
+        return 0.6 + this.fish.difficulty * 1.2;
+    }
+
+    private getZoneWidth(): number {
+        return 0.35 - this.fish.difficulty * 0.2;
+    }
+
+    private placeZone(): void {
+        this.zoneStart = this.random() * (1 - this.getZoneWidth());
+    }
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { Inventory, ItemStack } from './Inventory';
+
+const MAX = 99; // Wood uses the default stack limit
+
+function wood(count: number): ItemStack {
+    return { itemId: 'wood', itemType: 'material', count };
+}
+
+function counts(inventory: Inventory, container: 'itembar' | 'backpack' | 'chest'): (number | null)[] {
+    return Array.from({ length: inventory.getSize(container) }, (_, index) => inventory.getSlot(container, index)?.count ?? null);
+}
+
+describe('Inventory.add', () => {
+    it('tops up existing stacks before filling empty slots and returns the leftover', () => {
+        const inventory = new Inventory(2, 2);
+        inventory.setSlot('backpack', 1, wood(90));
+
+        const leftover = inventory.add('wood', 'material', 9 + MAX * 3 + 5);
+
+        expect(counts(inventory, 'backpack')).toEqual([MAX, MAX]);
+        expect(counts(inventory, 'itembar')).toEqual([MAX, MAX]);
+        expect(leftover).toBe(5);
+    });
+
+    it('keeps new items out of locked slots, even onto a matching stack', () => {
+        const inventory = new Inventory(1, 3);
+        inventory.setSlot('itembar', 0, { itemId: 'tool_hoe', itemType: 'tool', count: 1 });
+        inventory.setSlot('backpack', 2, wood(10));
+        inventory.setUnlockedSize('backpack', 1);
+
+        expect(inventory.add('wood', 'material', 150)).toBe(150 - MAX);
+        expect(counts(inventory, 'backpack')).toEqual([MAX, null, 10]);
+        expect(inventory.findEmptySlot('backpack')).toBe(-1);
+    });
+});
+
+describe('Inventory.move', () => {
+    it('merges matching stacks across containers up to the limit', () => {
+        const inventory = new Inventory(1, 1);
+        inventory.setSlot('itembar', 0, wood(80));
+        inventory.setSlot('backpack', 0, wood(50));
+
+        inventory.move('itembar', 0, 'backpack', 0);
+
+        expect(counts(inventory, 'itembar')).toEqual([31]);
+        expect(counts(inventory, 'backpack')).toEqual([MAX]);
+    });
+
+    it('swaps different items across containers', () => {
+        const inventory = new Inventory(1, 1);
+        inventory.setSlot('itembar', 0, wood(5));
+        inventory.setSlot('backpack', 0, { itemId: 'stone', itemType: 'material', count: 7 });
+
+        inventory.move('backpack', 0, 'itembar', 0);
+
+        expect(inventory.getSlot('itembar', 0)).toMatchObject({ itemId: 'stone', count: 7 });
+        expect(inventory.getSlot('backpack', 0)).toMatchObject({ itemId: 'wood', count: 5 });
+    });
+
+    it('refuses to move into a locked slot or swap anything into one', () => {
+        const inventory = new Inventory(1, 2);
+        inventory.setSlot('itembar', 0, wood(5));
+        inventory.setSlot('backpack', 1, { itemId: 'stone', itemType: 'material', count: 7 });
+        inventory.setUnlockedSize('backpack', 1);
+
+        inventory.move('itembar', 0, 'backpack', 1);
+        inventory.move('backpack', 1, 'itembar', 0);
+
+        expect(inventory.getSlot('itembar', 0)).toMatchObject({ itemId: 'wood', count: 5 });
+        expect(inventory.getSlot('backpack', 1)).toMatchObject({ itemId: 'stone', count: 7 });
+    });
+
+    it('still lets items be taken out of a locked slot', () => {
+        const inventory = new Inventory(1, 2);
+        inventory.setSlot('backpack', 1, wood(7));
+        inventory.setUnlockedSize('backpack', 1);
+
+        inventory.move('backpack', 1, 'backpack', 0);
+        expect(counts(inventory, 'backpack')).toEqual([7, null]);
+
+        inventory.setSlot('backpack', 1, wood(3));
+        expect(inventory.pickUp('backpack', 1)).toBe(true);
+        expect(inventory.place('backpack', 1)).toBe(0);
+        expect(inventory.place('backpack', 0)).toBe(3);
+        expect(counts(inventory, 'backpack')).toEqual([10, null]);
+    });
+});
+
+describe('Inventory gather and transfer', () => {
+    it('gathers matching items from the rest of the container into one slot', () => {
+        const inventory = new Inventory(1, 4);
+        inventory.setSlot('backpack', 0, wood(60));
+        inventory.setSlot('backpack', 1, { itemId: 'stone', itemType: 'material', count: 4 });
+        inventory.setSlot('backpack', 2, wood(30));
+        inventory.setSlot('backpack', 3, wood(20));
+        inventory.setSlot('itembar', 0, wood(5));
+
+        inventory.gather('backpack', 0);
+
+        expect(counts(inventory, 'backpack')).toEqual([MAX, 4, null, 11]);
+        expect(counts(inventory, 'itembar')).toEqual([5]);
+    });
+
+    it('transfers a slot into the open chest and leaves what does not fit', () => {
+        const inventory = new Inventory(1, 1);
+        const chest: (ItemStack | null)[] = [wood(90), { itemId: 'stone', itemType: 'material', count: 1 }];
+        inventory.setChest(chest);
+        inventory.setSlot('itembar', 0, wood(20));
+
+        expect(inventory.transfer('itembar', 0, ['chest'])).toBe(9);
+
+        expect(counts(inventory, 'itembar')).toEqual([11]);
+        expect(chest[0]?.count).toBe(MAX);
+    });
+});
+
+describe('Inventory held stack', () => {
+    it('splits half a stack, rounding up, and places it on an empty or matching slot', () => {
+        const inventory = new Inventory(3, 0);
+        inventory.setSlot('itembar', 0, wood(7));
+        inventory.setSlot('itembar', 2, { itemId: 'stone', itemType: 'material', count: 1 });
+
+        expect(inventory.split('itembar', 0)).toBe(true);
+        expect(inventory.getHeld()?.count).toBe(4);
+        expect(inventory.split('itembar', 0)).toBe(false);
+
+        expect(inventory.place('itembar', 2)).toBe(0);
+        expect(inventory.place('itembar', 1, 1)).toBe(1);
+        expect(inventory.place('itembar', 0)).toBe(3);
+
+        expect(counts(inventory, 'itembar')).toEqual([6, 1, 1]);
+        expect(inventory.getHeld()).toBeNull();
+    });
+});
@@ -0,0 +1,427 @@
+import type { SavedInventory, SavedInventorySlot } from '@/services/SaveGameService';
+import { getItemMaxStack } from '../items/ItemCatalog';
+import { createItemInstanceId, hasDurability } from '../items/ToolDurability';
+
+/**
+ * Inventory
+ *
+ * Phaser-free model of the item bar, backpack and the stack held on the
+ * cursor. UIScene renders slots from this model and re-renders on change
+ * events; other systems (FarmScene, NPC trade, marketplace) modify the
+ * inventory through it instead of touching slot sprites.
+ *
+ * Slots past a container's unlocked size (backpack slots still to be
+ * earned by levelling) accept no new items, but anything already in
+ * them can still be taken out.
+ *
+ * Every tool and weapon stack carries an instance id, given when the
+ * stack first enters the inventory and kept wherever it moves, so each
+ * copy keeps its own wear and tier.
+ *
+ * The 'chest' container is the storage chest the player has open, if any.
+ * Its slot array is shared with the chest's owner, so every change made
+ * through the inventory lands in the chest directly.
+ */
+
+export type InventoryContainer = 'itembar' | 'backpack' | 'chest';
+
+export interface ItemStack {
+    itemId: string;
+    itemType: string;
+    count: number;
+    instanceId?: string; // Tools and weapons only
+}
+
+export interface InventoryChange {
+    container: InventoryContainer | 'held';
+    index: number; // -1 for the held stack
+}
+
+export type InventoryListener = (change: InventoryChange) => void;
+
+export const ITEM_BAR_SIZE = 8;
+export const BACKPACK_SIZE = 25;
+export const CHEST_SIZE = 20;
+
+/**
+ * Stack limit from the item catalog (tools and weapons never stack)
+ */
+export function getMaxStackSize(itemId: string): number {
+    return getItemMaxStack(itemId);
+}
+
+export class Inventory {
+    private containers: Record<InventoryContainer, (ItemStack | null)[]>;
+    private unlocked: Record<InventoryContainer, number>;
+    private held: ItemStack | null = null;
+    private listeners = new Set<InventoryListener>();
+
+    constructor(itemBarSize: number = ITEM_BAR_SIZE, backpackSize: number = BACKPACK_SIZE) {
+        this.containers = {
+            itembar: new Array(itemBarSize).fill(null),
+            backpack: new Array(backpackSize).fill(null),
+            chest: []
+        };
+        this.unlocked = { itembar: itemBarSize, backpack: backpackSize, chest: 0 };
+    }
+
+    // ===== EVENTS =====
+
+    public subscribe(listener: InventoryListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private emit(container: InventoryContainer | 'held', index: number = -1): void {
+        this.listeners.forEach(listener => listener({ container, index }));
+    }
+
+    // ===== QUERIES =====
+
+    public getSize(container: InventoryContainer): number {
+        return this.containers[container].length;
+    }
+
+    public getSlot(container: InventoryContainer, index: number): ItemStack | null {
+        const stack = this.containers[container][index];
+        return stack ? { ...stack } : null;
+    }
+
+    public getHeld(): ItemStack | null {
+        return this.held ? { ...this.held } : null;
+    }
+
+    /**
+     * Total count of an item across the item bar and backpack
+     */
+    public countItem(itemId: string): number {
+        return (['itembar', 'backpack'] as InventoryContainer[])
+            .flatMap(container => this.containers[container])
+            .reduce((total, stack) => total + (stack?.itemId === itemId ? stack.count : 0), 0);
+    }
+
+    public findEmptySlot(container: InventoryContainer): number {
+        return this.containers[container].findIndex((stack, index) => !stack && this.isUnlocked(container, index));
+    }
+
+    public getUnlockedSize(container: InventoryContainer): number {
+        return this.unlocked[container];
+    }
+
+    public isUnlocked(container: InventoryContainer, index: number): boolean {
+        return index < this.unlocked[container];
+    }
+
+    /**
+     * Change how many slots (from the start of the container) accept items
+     */
+    public setUnlockedSize(container: InventoryContainer, size: number): void {
+        const previous = this.unlocked[container];
+        this.unlocked[container] = Math.min(Math.max(Math.floor(size), 0), this.containers[container].length);
+
+        for (let index = Math.min(previous, this.unlocked[container]); index < Math.max(previous, this.unlocked[container]); index++) {
+            this.emit(container, index);
+        }
+    }
+
+    /**
+     * Open a chest's slots as the 'chest' container, or close it with null
+     */
+    public setChest(slots: (ItemStack | null)[] | null): void {
+        const previousSize = this.containers.chest.length;
+        this.containers.chest = slots ?? [];
+        this.unlocked.chest = this.containers.chest.length;
+
+        for (let index = 0; index < Math.max(previousSize, this.containers.chest.length); index++) {
+            this.emit('chest', index);
+        }
+    }
+
+    // ===== SLOT OPERATIONS =====
+
+    /**
+     * Replace a slot's contents outright (starter items, restores)
+     */
+    public setSlot(container: InventoryContainer, index: number, stack: ItemStack | null): void {
+        if (!this.isValidIndex(container, index)) {
+            console.warn(`Invalid ${container} slot index: ${index}`);
+            return;
+        }
+
+        this.containers[container][index] = stack && stack.count > 0 ? this.withInstance(stack) : null;
+        this.emit(container, index);
+    }
+
+    /**
+     * Add items, topping up existing stacks before filling empty slots
+     * Returns how many items did not fit
+     */
+    public add(itemId: string, itemType: string, count: number, order: InventoryContainer[] = ['itembar', 'backpack']): number {
+        const maxStack = getMaxStackSize(itemId);
+        let remaining = count;
+
+        for (const container of order) {
+            this.containers[container].forEach((stack, index) => {
+                if (remaining <= 0 || !stack || stack.itemId !== itemId || stack.count >= maxStack) return;
+                if (!this.isUnlocked(container, index)) return;
+                const added = Math.min(maxStack - stack.count, remaining);
+                stack.count += added;
+                remaining -= added;
+                this.emit(container, index);
+            });
+        }
+
+        for (const container of order) {
+            this.containers[container].forEach((stack, index) => {
+                if (remaining <= 0 || stack || !this.isUnlocked(container, index)) return;
+                const added = Math.min(maxStack, remaining);
+                this.containers[container][index] = this.withInstance({ itemId, itemType, count: added });
+                remaining -= added;
+                this.emit(container, index);
+            });
+        }
+
+        return remaining;
+    }
+
+    /**
+     * Add a whole stack, keeping its instance id (a tool back from a trade slot)
+     * Returns how many items did not fit
+     */
+    public addStack(stack: ItemStack, order: InventoryContainer[] = ['itembar', 'backpack']): number {
+        if (!stack.instanceId) return this.add(stack.itemId, stack.itemType, stack.count, order);
+
+        for (const container of order) {
+            const index = this.findEmptySlot(container);
+            if (index === -1) continue;
+            this.containers[container][index] = { ...stack };
+            this.emit(container, index);
+            return 0;
+        }
+        return stack.count;
+    }
+
+    /**
+     * Remove up to `count` items from one slot; returns how many were removed
+     */
+    public removeAt(container: InventoryContainer, index: number, count: number): number {
+        const stack = this.containers[container][index];
+        if (!stack || count <= 0) return 0;
+
+        const removed = Math.min(stack.count, count);
+        stack.count -= removed;
+        if (stack.count <= 0) {
+            this.containers[container][index] = null;
+        }
+        this.emit(container, index);
+        return removed;
+    }
+
+    /**
+     * Remove `count` of an item from anywhere; nothing is removed if there are not enough
+     */
+    public remove(itemId: string, count: number): boolean {
+        if (this.countItem(itemId) < count) return false;
+
+        let remaining = count;
+        for (const container of ['itembar', 'backpack'] as InventoryContainer[]) {
+            this.containers[container].forEach((stack, index) => {
+                if (remaining <= 0 || stack?.itemId !== itemId) return;
+                remaining -= this.removeAt(container, index, remaining);
+            });
+        }
+        return true;
+    }
+
+    /**
+     * Move a slot onto another: same items merge up to the stack limit, different items swap
+     */
+    public move(from: InventoryContainer, fromIndex: number, to: InventoryContainer, toIndex: number): void {
+        if (from === to && fromIndex === toIndex) return;
+
+        const source = this.containers[from][fromIndex];
+        const target = this.containers[to][toIndex];
+        if (!source || !this.isUnlocked(to, toIndex)) return;
+
+        if (target && target.itemId === source.itemId) {
+            const moved = Math.min(getMaxStackSize(target.itemId) - target.count, source.count);
+            if (moved <= 0) return;
+            target.count += moved;
+            source.count -= moved;
+            if (source.count <= 0) this.containers[from][fromIndex] = null;
+        } else {
+            // A swap would put the target's items into a locked slot
+            if (target && !this.isUnlocked(from, fromIndex)) return;
+            this.containers[to][toIndex] = source;
+            this.containers[from][fromIndex] = target;
+        }
+
+        this.emit(from, fromIndex);
+        this.emit(to, toIndex);
+    }
+
+    /**
+     * Quick-move a whole slot into other containers, topping up stacks first
+     * Returns how many items moved; whatever doesn't fit stays put
+     */
+    public transfer(from: InventoryContainer, index: number, to: InventoryContainer[]): number {
+        const stack = this.containers[from][index];
+        if (!stack) return 0;
+
+        const leftover = this.addStack(stack, to.filter(container => container !== from));
+        const moved = stack.count - leftover;
+        if (moved > 0) {
+            this.removeAt(from, index, moved);
+        }
+        return moved;
+    }
+
+    /**
+     * Pull matching items from the rest of the container into one slot, up to the stack limit
+     */
+    public gather(container: InventoryContainer, index: number): void {
+        const target = this.containers[container][index];
+        if (!target || !this.isUnlocked(container, index)) return;
+
+        const maxStack = getMaxStackSize(target.itemId);
+        this.containers[container].forEach((stack, otherIndex) => {
+            if (otherIndex === index || !stack || stack.itemId !== target.itemId || target.count >= maxStack) return;
+            const moved = Math.min(maxStack - target.count, stack.count);
+            target.count += moved;
+            stack.count -= moved;
+            if (stack.count <= 0) this.containers[container][otherIndex] = null;
+            this.emit(container, otherIndex);
+        });
+        this.emit(container, index);
+    }
+
+    // ===== HELD STACK OPERATIONS =====
+
+    public setHeld(stack: ItemStack | null): void {
+        this.held = stack && stack.count > 0 ? this.withInstance(stack) : null;
+        this.emit('held');
+    }
+
+    /**
+     * Remove items from the held stack (e.g. placed into a crafting or trade slot)
+     */
+    public takeFromHeld(count: number): ItemStack | null {
+        if (!this.held || count <= 0) return null;
+
+        const taken = Math.min(this.held.count, count);
+        const stack = { ...this.held, count: taken };
+        this.held.count -= taken;
+        if (this.held.count <= 0) this.held = null;
+        this.emit('held');
+        return stack;
+    }
+
+    /**
+     * Pick up `count` items (default the whole stack) onto an empty cursor
+     */
+    public pickUp(container: InventoryContainer, index: number, count?: number): boolean {
+        const stack = this.containers[container][index];
+        if (this.held || !stack) return false;
+
+        const taken = Math.min(count ?? stack.count, stack.count);
+        this.held = { ...stack, count: taken };
+        this.removeAt(container, index, taken);
+        this.emit('held');
+        return true;
+    }
+
+    /**
+     * Pick up half a stack, rounding up
+     */
+    public split(container: InventoryContainer, index: number): boolean {
+        const stack = this.containers[container][index];
+        return !!stack && this.pickUp(container, index, Math.ceil(stack.count / 2));
+    }
+
+    /**
+     * Put `count` held items (default all) into an empty or matching slot
+     * Returns how many were placed
+     */
+    public place(container: InventoryContainer, index: number, count?: number): number {
+        const stack = this.containers[container][index];
+        if (!this.held || !this.isUnlocked(container, index)) return 0;
+        if (stack && stack.itemId !== this.held.itemId) return 0;
+
+        const current = stack ? stack.count : 0;
+        const placed = Math.min(count ?? this.held.count, this.held.count, getMaxStackSize(this.held.itemId) - current);
+        if (placed <= 0) return 0;
+
+        this.containers[container][index] = { ...(stack ?? this.held), count: current + placed };
+        this.takeFromHeld(placed);
+        this.emit(container, index);
+        return placed;
+    }
+
+    /**
+     * Exchange the held stack with a slot's contents
+     */
+    public swapHeld(container: InventoryContainer, index: number): void {
+        if (!this.held || !this.isUnlocked(container, index)) return;
+
+        const stack = this.containers[container][index];
+        this.containers[container][index] = this.held;
+        this.held = stack;
+        this.emit(container, index);
+        this.emit('held');
+    }
+
+    // ===== SERIALIZATION =====
+
+    public serialize(): SavedInventory {
+        const collect = (container: InventoryContainer): SavedInventorySlot[] => this.containers[container]
+            .map((stack, index) => ({ stack, index }))
+            .filter(({ stack }) => !!stack)
+            .map(({ stack, index }) => ({
+                index,
+                itemId: stack!.itemId,
+                itemType: stack!.itemType,
+                count: stack!.count,
+                instanceId: stack!.instanceId
+            }));
+
+        return {
+            itemBar: collect('itembar'),
+            backpack: collect('backpack')
+        };
+    }
+
+    public restore(snapshot: SavedInventory): void {
+        const fill = (container: InventoryContainer, entries: SavedInventorySlot[]) => {
+            this.containers[container].fill(null);
+            entries
+                .filter(entry => this.isValidIndex(container, entry.index) && entry.count > 0)
+                .forEach(entry => {
+                    this.containers[container][entry.index] = this.withInstance({
+                        itemId: entry.itemId,
+                        itemType: entry.itemType ?? 'item',
+                        count: entry.count,
+                        instanceId: entry.instanceId
+                    });
+                });
+            this.containers[container].forEach((_, index) => this.emit(container, index));
+        };
+
+        fill('itembar', snapshot.itemBar);
+        fill('backpack', snapshot.backpack);
+    }
+
+    /**
+     * Copy of a stack, with a fresh instance id if it is a tool or weapon without one
+     */
+    private withInstance(stack: ItemStack): ItemStack {
+        return hasDurability(stack.itemId) && !stack.instanceId
+            ? { ...stack, instanceId: createItemInstanceId(stack.itemId) }
+            : { ...stack };
+    }
+
+    private isValidIndex(container: InventoryContainer, index: number): boolean {
+        return Number.isInteger(index) && index >= 0 && index < this.containers[container].length;
+    }
+}
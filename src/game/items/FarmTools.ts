@@ -0,0 +1,197 @@
+import { CROP_SPECIES } from '../crops/CropRegistry';
+
+/**
+ * Farm Tools
+ *
+ * Item-bar tools that decide what the "use item" key does in FarmScene.
+ * There is no tool artwork in the asset packs, so tool and seed packet
+ * textures are drawn at runtime by createFarmItemTextures().
+ */
+
+export type FarmToolAction = 'till' | 'water' | 'cut' | 'mine' | 'fish';
+
+export interface FarmTool {
+    itemId: string;
+    displayName: string;
+    action: FarmToolAction;
+}
+
+export const FARM_TOOLS: Record<string, FarmTool> = {
+    tool_hoe: { itemId: 'tool_hoe', displayName: 'Hoe', action: 'till' },
+    tool_watering_can: { itemId: 'tool_watering_can', displayName: 'Watering Can', action: 'water' },
+    tool_axe: { itemId: 'tool_axe', displayName: 'Axe', action: 'cut' },
+    tool_pickaxe: { itemId: 'tool_pickaxe', displayName: 'Pickaxe', action: 'mine' },
+    tool_fishing_rod: { itemId: 'tool_fishing_rod', displayName: 'Fishing Rod', action: 'fish' }
+};
+
+export const WATERING_CAN_CAPACITY = 10;
+
+export function getFarmTool(itemId: string): FarmTool | undefined {
+    return FARM_TOOLS[itemId];
+}
+
+const TEXTURE_SIZE = 32;
+
+/**
+ * Draw tool and seed packet textures (no-op for textures that already exist)
+ */
+export function createFarmItemTextures(scene: Phaser.Scene): void {
+    const draw = (key: string, paint: (g: Phaser.GameObjects.Graphics) => void) => {
+        if (scene.textures.exists(key)) return;
+        const graphics = scene.make.graphics({ x: 0, y: 0 }, false);
+        paint(graphics);
+        graphics.generateTexture(key, TEXTURE_SIZE, TEXTURE_SIZE);
+        graphics.destroy();
+    };
+
+    draw('tool_hoe', g => {
+        g.lineStyle(4, 0x8b5a2b);
+        g.lineBetween(8, 28, 22, 8);
+        g.fillStyle(0x9aa3ad);
+        g.fillRect(18, 4, 10, 5);
+    });
+
+    draw('tool_watering_can', g => {
+        g.fillStyle(0x4a90d9);
+        g.fillRoundedRect(6, 12, 16, 14, 3);
+        g.lineStyle(3, 0x4a90d9);
+        g.lineBetween(22, 18, 29, 10);
+        g.lineStyle(2, 0x2f5f8f);
+        g.strokeCircle(14, 11, 5);
+    });
+
+    draw('tool_axe', g => {
+        g.lineStyle(4, 0x8b5a2b);
+        g.lineBetween(10, 28, 20, 6);
+        g.fillStyle(0x9aa3ad);
+        g.fillTriangle(16, 4, 28, 8, 18, 16);
+    });
+
+    draw('tool_pickaxe', g => {
+        g.lineStyle(4, 0x8b5a2b);
+        g.lineBetween(16, 28, 16, 8);
+        g.lineStyle(4, 0x9aa3ad);
+        g.lineBetween(5, 12, 16, 6);
+        g.lineBetween(16, 6, 27, 12);
+    });
+
+    draw('tool_fishing_rod', g => {
+        g.lineStyle(3, 0x8b5a2b);
+        g.lineBetween(6, 28, 26, 4);
+        g.lineStyle(1, 0xdddddd);
+        g.lineBetween(26, 4, 27, 22);
+        g.fillStyle(0xe74c3c);
+        g.fillCircle(27, 24, 2);
+    });
+
+    // Bobber floating on the water while fishing
+    draw('fishing_bobber', g => {
+        g.fillStyle(0xffffff);
+        g.fillCircle(16, 18, 4);
+        g.fillStyle(0xe74c3c);
+        g.fillRect(12, 14, 9, 4);
+    });
+
+    draw('wood', g => {
+        g.fillStyle(0x8b5a2b);
+        g.fillRect(4, 10, 24, 12);
+        g.fillStyle(0xd9a066);
+        g.fillCircle(26, 16, 6);
+        g.lineStyle(1, 0x6b4f2a);
+        g.strokeCircle(26, 16, 3);
+    });
+
+    draw('stone', g => {
+        g.fillStyle(0x8d8d8d);
+        g.fillCircle(13, 18, 8);
+        g.fillStyle(0xa9a9a9);
+        g.fillCircle(20, 15, 7);
+    });
+
+    draw('iron_ore', g => {
+        g.fillStyle(0x6e6258);
+        g.fillCircle(16, 17, 10);
+        g.fillStyle(0xc98b5a);
+        g.fillCircle(12, 14, 3);
+        g.fillCircle(20, 19, 3);
+        g.fillCircle(17, 11, 2);
+    });
+
+    // Resource nodes placed in the world
+    draw('node_rock', g => {
+        g.fillStyle(0x7a7a7a);
+        g.fillEllipse(16, 20, 28, 20);
+        g.fillStyle(0x9a9a9a);
+        g.fillEllipse(13, 16, 16, 10);
+    });
+
+    draw('node_ore', g => {
+        g.fillStyle(0x6e6258);
+        g.fillEllipse(16, 20, 28, 20);
+        g.fillStyle(0xc98b5a);
+        g.fillCircle(10, 18, 3);
+        g.fillCircle(19, 14, 3);
+        g.fillCircle(22, 22, 2);
+    });
+
+    draw('node_rubble', g => {
+        g.fillStyle(0x8d8d8d);
+        g.fillCircle(9, 26, 3);
+        g.fillCircle(16, 27, 4);
+        g.fillCircle(23, 26, 3);
+    });
+
+    draw('node_stump', g => {
+        g.fillStyle(0x6b4f2a);
+        g.fillRect(9, 18, 14, 12);
+        g.fillStyle(0xd9a066);
+        g.fillEllipse(16, 18, 14, 6);
+        g.lineStyle(1, 0x8b5a2b);
+        g.strokeEllipse(16, 18, 7, 3);
+    });
+
+    draw('egg', g => {
+        g.fillStyle(0xfff4e0);
+        g.fillEllipse(16, 17, 16, 22);
+        g.fillStyle(0xffffff);
+        g.fillEllipse(13, 12, 4, 6);
+    });
+
+    draw('milk', g => {
+        g.fillStyle(0xffffff);
+        g.fillRect(9, 10, 14, 18);
+        g.fillRect(12, 4, 8, 6);
+        g.fillStyle(0x4f8fd6);
+        g.fillRect(9, 16, 14, 5);
+        g.fillStyle(0xd94f4f);
+        g.fillRect(11, 3, 10, 2);
+    });
+
+    draw('wool', g => {
+        g.fillStyle(0xf2efe6);
+        g.fillCircle(11, 18, 7);
+        g.fillCircle(21, 18, 7);
+        g.fillCircle(16, 12, 7);
+        g.lineStyle(1, 0xc9c2b0);
+        g.strokeCircle(16, 16, 4);
+    });
+
+    Object.values(CROP_SPECIES).forEach(species => {
+        draw(species.seedItemId, g => {
+            g.fillStyle(0xf3e5c0);
+            g.fillRect(7, 4, 18, 24);
+            g.fillStyle(species.packetColor);
+            g.fillRect(9, 10, 14, 12);
+            g.lineStyle(2, 0x6b4f2a);
+            g.strokeRect(7, 4, 18, 24);
+        });
+
+        // Collected harvest
+        draw(species.id, g => {
+            g.fillStyle(species.packetColor);
+            g.fillEllipse(16, 19, 14, 20);
+            g.fillStyle(0x4caf50);
+            g.fillTriangle(12, 4, 16, 11, 20, 4);
+        });
+    });
+}
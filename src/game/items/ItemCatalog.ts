@@ -0,0 +1,326 @@
+import { ITEM_TYPES, ItemType, RARITY_LEVELS, RarityLevel } from '@/types/onechain';
+import { DISHES } from '../cooking/DishRegistry';
+import { CROP_SPECIES } from '../crops/CropRegistry';
+import { FISH_SPECIES } from '../fishing/FishRegistry';
+import { FARM_TOOLS } from './FarmTools';
+
+/**
+ * Item Catalog
+ *
+ * Single source of truth for every item sprite key: display name,
+ * marketplace category, game/on-chain type, rarity, price, stacking and
+ * mint stats. FarmScene preloads item sprites from this catalog and
+ * UIScene, AutoMintService and the inventory look items up here.
+ */
+
+export type ItemCategory = 'Weapons' | 'Armors' | 'Misc' | 'Consumables' | 'Tools' | 'Seeds';
+
+export type GameItemType = 'weapon' | 'armor' | 'consumable' | 'misc' | 'tool' | 'seed';
+
+export interface ItemSprite {
+    key: string;
+    path?: string; // Relative to assets/items; omitted for textures generated at runtime
+}
+
+export interface ItemCatalogEntry {
+    id: string;
+    displayName: string;
+    description: string;
+    category: ItemCategory;
+    type: GameItemType;
+    chainType: ItemType;
+    rarity: RarityLevel;
+    basePrice: number;
+    maxStack: number;
+    stats: number[];
+    sprite: ItemSprite;
+    energy: number; // Restored when eaten from the item bar; 0 for inedible items
+}
+
+export const DEFAULT_MAX_STACK = 99;
+
+const CHAIN_TYPES: Record<GameItemType, ItemType> = {
+    weapon: ITEM_TYPES.WEAPON,
+    armor: ITEM_TYPES.ARMOR,
+    consumable: ITEM_TYPES.CONSUMABLE,
+    misc: ITEM_TYPES.RESOURCE,
+    tool: ITEM_TYPES.WEAPON, // Tools wear like weapons and mint as on-chain Weapons
+    seed: ITEM_TYPES.RESOURCE
+};
+
+const DEFAULT_STATS: Record<GameItemType, number[]> = {
+    weapon: [25, 10, 5],
+    armor: [10, 25, 8],
+    consumable: [5, 5, 15],
+    misc: [8, 8, 8],
+    tool: [15, 10, 5],
+    seed: [5, 5, 5]
+};
+
+interface ItemFamily {
+    label: string;
+    folder: string;
+    category: ItemCategory;
+    type: GameItemType;
+    description: string;
+    basePrice: number;
+    rarity: RarityLevel;
+    maxStack: number;
+    variants: string[];
+    energy?: number;
+}
+
+// Sprite families from the item asset packs; series 02/03 variants are rarer and pricier
+const ITEM_FAMILIES: ItemFamily[] = [
+    { label: 'Sword', folder: 'weapons', category: 'Weapons', type: 'weapon', description: 'A sharp blade for fending off monsters.', basePrice: 250, rarity: RARITY_LEVELS.EPIC, maxStack: 1, variants: ['01a', '01b', '01c', '01d', '01e', '02a', '02b', '02c', '02d', '02e'] },
+    { label: 'Bow', folder: 'weapons', category: 'Weapons', type: 'weapon', description: 'A ranged weapon strung for the hunt.', basePrice: 220, rarity: RARITY_LEVELS.EPIC, maxStack: 1, variants: ['01a', '01b', '01d', '01e', '02a', '02b', '02d', '02e'] },
+    { label: 'Arrow', folder: 'weapons', category: 'Weapons', type: 'misc', description: 'Ammunition for bows.', basePrice: 15, rarity: RARITY_LEVELS.COMMON, maxStack: DEFAULT_MAX_STACK, variants: ['01a', '01b', '02a', '02b'] },
+    { label: 'Shield', folder: 'weapons', category: 'Weapons', type: 'armor', description: 'Sturdy protection held in the off hand.', basePrice: 200, rarity: RARITY_LEVELS.RARE, maxStack: 1, variants: ['01a', '01b', '02a', '02b'] },
+    { label: 'Staff', folder: 'weapons', category: 'Weapons', type: 'weapon', description: 'A staff humming with arcane energy.', basePrice: 300, rarity: RARITY_LEVELS.EPIC, maxStack: 1, variants: ['01a', '01b'] },
+    { label: 'Spellbook', folder: 'weapons', category: 'Weapons', type: 'weapon', description: 'A tome of battle incantations.', basePrice: 320, rarity: RARITY_LEVELS.EPIC, maxStack: 1, variants: ['01a', '01b'] },
+    { label: 'Helmet', folder: 'armors', category: 'Armors', type: 'armor', description: 'Headgear that softens incoming blows.', basePrice: 200, rarity: RARITY_LEVELS.RARE, maxStack: 1, variants: ['01a', '01b', '01c', '01d', '01e', '02a', '02b', '02c', '02d', '02e'] },
+    { label: 'Book', folder: 'misc', category: 'Misc', type: 'misc', description: 'An old book full of valley lore.', basePrice: 90, rarity: RARITY_LEVELS.COMMON, maxStack: DEFAULT_MAX_STACK, variants: ['01a', '01b', '02a', '02b'] },
+    { label: 'Coin', folder: 'misc', category: 'Misc', type: 'misc', description: 'Currency accepted across the valley.', basePrice: 10, rarity: RARITY_LEVELS.COMMON, maxStack: DEFAULT_MAX_STACK, variants: ['01a', '01b', '02a', '02b'] },
+    { label: 'Crystal', folder: 'misc', category: 'Misc', type: 'misc', description: 'A crystal that glows faintly in the dark.', basePrice: 150, rarity: RARITY_LEVELS.RARE, maxStack: DEFAULT_MAX_STACK, variants: ['01a', '01b'] },
+    { label: 'Gem', folder: 'misc', category: 'Misc', type: 'misc', description: 'A cut gemstone prized by crafters.', basePrice: 140, rarity: RARITY_LEVELS.RARE, maxStack: DEFAULT_MAX_STACK, variants: ['01a', '01b'] },
+    { label: 'Gift', folder: 'misc', category: 'Misc', type: 'misc', description: 'A wrapped box with something inside.', basePrice: 100, rarity: RARITY_LEVELS.COMMON, maxStack: DEFAULT_MAX_STACK, variants: ['01a', '01b'] },
+    { label: 'Ingot', folder: 'misc', category: 'Misc', type: 'misc', description: 'Smelted metal ready for crafting.', basePrice: 60, rarity: RARITY_LEVELS.COMMON, maxStack: DEFAULT_MAX_STACK, variants: ['01a', '01b'] },
+    { label: 'Key', folder: 'misc', category: 'Misc', type: 'misc', description: 'It must open something, somewhere.', basePrice: 80, rarity: RARITY_LEVELS.COMMON, maxStack: DEFAULT_MAX_STACK, variants: ['01a', '01b'] },
+    { label: 'Necklace', folder: 'misc', category: 'Misc', type: 'misc', description: 'Fine jewellery worn around the neck.', basePrice: 180, rarity: RARITY_LEVELS.RARE, maxStack: DEFAULT_MAX_STACK, variants: ['01a', '01b'] },
+    { label: 'Pearl', folder: 'misc', category: 'Misc', type: 'misc', description: 'A lustrous pearl from the valley river.', basePrice: 120, rarity: RARITY_LEVELS.COMMON, maxStack: DEFAULT_MAX_STACK, variants: ['01a', '01b'] },
+    { label: 'Ring', folder: 'misc', category: 'Misc', type: 'misc', description: 'A ring with a faint enchantment.', basePrice: 170, rarity: RARITY_LEVELS.RARE, maxStack: DEFAULT_MAX_STACK, variants: ['01a', '01b'] },
+    { label: 'Scroll', folder: 'misc', category: 'Misc', type: 'misc', description: 'A rolled parchment of old writings.', basePrice: 70, rarity: RARITY_LEVELS.COMMON, maxStack: DEFAULT_MAX_STACK, variants: ['01a', '01b', '01c', '01d', '01e', '01f'] },
+    { label: 'Potion', folder: 'consumables', category: 'Consumables', type: 'consumable', description: 'A bubbling restorative draught.', basePrice: 80, rarity: RARITY_LEVELS.COMMON, maxStack: DEFAULT_MAX_STACK, variants: ['01a', '01b', '01c', '01d', '01e', '01f', '01g', '01h', '02a', '02b', '02c', '02d', '02e', '02f', '03a', '03b'] },
+    { label: 'Fish', folder: 'consumables', category: 'Consumables', type: 'consumable', description: 'Freshly caught and good to eat.', basePrice: 40, rarity: RARITY_LEVELS.COMMON, maxStack: DEFAULT_MAX_STACK, variants: ['01a', '01b', '01c', '01d', '01e'], energy: 25 },
+    { label: 'Candy', folder: 'consumables', category: 'Consumables', type: 'consumable', description: 'A sweet treat with a little magic.', basePrice: 30, rarity: RARITY_LEVELS.COMMON, maxStack: DEFAULT_MAX_STACK, variants: ['01a', '01b', '01c', '01d', '01e', '01f', '01g', '02a', '02b'], energy: 10 }
+];
+
+// Hand-picked names for items that appear in trades, starter kits and recipes
+const DISPLAY_NAMES: Record<string, string> = {
+    potion_01a: 'Health Potion',
+    fish_01a: 'Fresh Fish',
+    candy_01a: 'Magic Candy',
+    helmet_01a: 'Iron Helmet',
+    sword_01a: 'Iron Sword',
+    sword_01b: 'Bronze Sword',
+    sword_01c: 'Steel Sword',
+    sword_01d: 'Silver Sword',
+    sword_01e: 'Golden Sword',
+    bow_01a: 'Wooden Bow',
+    bow_01b: 'Hunting Bow',
+    staff_01a: 'Magic Staff',
+    spellbook_01a: 'Spellbook',
+    shield_01a: 'Wooden Shield',
+    shield_01b: 'Iron Shield',
+    crystal_01a: 'Magic Crystal',
+    gem_01a: 'Precious Gem',
+    ring_01a: 'Magic Ring',
+    necklace_01a: 'Amulet',
+    key_01a: 'Ancient Key',
+    scroll_01a: 'Magic Scroll',
+    coin_01a: 'Gold Coin',
+    ingot_01a: 'Iron Ingot',
+    book_01a: 'Ancient Tome',
+    gift_01a: 'Mystery Box',
+    pearl_01a: 'Magic Pearl',
+    arrow_01a: 'Arrow'
+};
+
+// Raw materials gathered around the farm and animal produce; textures are generated by createFarmItemTextures
+const RESOURCE_ITEMS: { id: string; displayName: string; description: string; basePrice: number }[] = [
+    { id: 'wood', displayName: 'Wood', description: 'Logs from felled trees, used for building.', basePrice: 5 },
+    { id: 'stone', displayName: 'Stone', description: 'Rough stone broken off a rock.', basePrice: 4 },
+    { id: 'iron_ore', displayName: 'Iron Ore', description: 'Ore from an iron vein, ready for smelting.', basePrice: 18 },
+    { id: 'egg', displayName: 'Egg', description: 'A fresh egg from a well-fed chicken.', basePrice: 12 },
+    { id: 'milk', displayName: 'Milk', description: 'Creamy milk from a happy cow.', basePrice: 25 },
+    { id: 'wool', displayName: 'Wool', description: 'Soft wool sheared from a contented sheep.', basePrice: 30 }
+];
+
+function formatItemId(itemId: string): string {
+    return itemId.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+}
+
+function buildCatalog(): Record<string, ItemCatalogEntry> {
+    const catalog: Record<string, ItemCatalogEntry> = {};
+
+    ITEM_FAMILIES.forEach(family => {
+        const prefix = family.label.toLowerCase();
+        family.variants.forEach(variant => {
+            const id = `${prefix}_${variant}`;
+            const series = parseInt(variant.slice(0, 2), 10) - 1; // 0 for series 01
+            catalog[id] = {
+                id,
+                displayName: DISPLAY_NAMES[id] ?? `${family.label} ${variant}`,
+                description: family.description,
+                category: family.category,
+                type: family.type,
+                chainType: CHAIN_TYPES[family.type],
+                rarity: Math.min(family.rarity + series, RARITY_LEVELS.LEGENDARY) as RarityLevel,
+                basePrice: Math.round(family.basePrice * (1 + series * 0.5)),
+                maxStack: family.maxStack,
+                stats: [...DEFAULT_STATS[family.type]],
+                sprite: { key: id, path: `${family.folder}/${id}.png` },
+                energy: family.energy ?? 0
+            };
+        });
+    });
+
+    Object.values(FARM_TOOLS).forEach(tool => {
+        catalog[tool.itemId] = {
+            id: tool.itemId,
+            displayName: tool.displayName,
+            description: `A farming tool used to ${tool.action} around the farm.`,
+            category: 'Tools',
+            type: 'tool',
+            chainType: CHAIN_TYPES.tool,
+            rarity: RARITY_LEVELS.COMMON,
+            basePrice: 120,
+            maxStack: 1,
+            stats: [...DEFAULT_STATS.tool],
+            sprite: { key: tool.itemId },
+            energy: 0
+        };
+    });
+
+    Object.values(CROP_SPECIES).forEach(species => {
+        catalog[species.seedItemId] = {
+            id: species.seedItemId,
+            displayName: `${species.displayName} Seeds`,
+            description: `Plant in ${species.seasons.join(' or ')} on tilled soil.`,
+            category: 'Seeds',
+            type: 'seed',
+            chainType: CHAIN_TYPES.seed,
+            rarity: RARITY_LEVELS.COMMON,
+            basePrice: 20,
+            maxStack: DEFAULT_MAX_STACK,
+            stats: [...DEFAULT_STATS.seed],
+            sprite: { key: species.seedItemId },
+            energy: 0
+        };
+
+        // Collected harvest, edible from the item bar
+        catalog[species.id] = {
+            id: species.id,
+            displayName: species.displayName,
+            description: species.description,
+            category: 'Consumables',
+            type: 'consumable',
+            chainType: CHAIN_TYPES.consumable,
+            rarity: RARITY_LEVELS.COMMON,
+            basePrice: 15,
+            maxStack: DEFAULT_MAX_STACK,
+            stats: [...species.mintStats],
+            sprite: { key: species.id },
+            energy: species.energy
+        };
+    });
+
+    // Caught fish, edible from the item bar
+    Object.values(FISH_SPECIES).forEach(fish => {
+        catalog[fish.id] = {
+            id: fish.id,
+            displayName: fish.displayName,
+            description: fish.description,
+            category: 'Consumables',
+            type: 'consumable',
+            chainType: CHAIN_TYPES.consumable,
+            rarity: fish.rarity,
+            basePrice: fish.basePrice,
+            maxStack: DEFAULT_MAX_STACK,
+            stats: [...DEFAULT_STATS.consumable],
+            sprite: { key: fish.id, path: fish.sprite },
+            energy: fish.energy
+        };
+    });
+
+    // Cooked dishes; eating them is handled by FarmScene so their health and buffs apply
+    Object.values(DISHES).forEach(dish => {
+        catalog[dish.id] = {
+            id: dish.id,
+            displayName: dish.displayName,
+            description: dish.description,
+            category: 'Consumables',
+            type: 'consumable',
+            chainType: CHAIN_TYPES.consumable,
+            rarity: dish.rarity,
+            basePrice: dish.basePrice,
+            maxStack: DEFAULT_MAX_STACK,
+            stats: [...DEFAULT_STATS.consumable],
+            sprite: { key: dish.id },
+            energy: dish.energy
+        };
+    });
+
+    RESOURCE_ITEMS.forEach(resource => {
+        catalog[resource.id] = {
+            ...resource,
+            category: 'Misc',
+            type: 'misc',
+            chainType: CHAIN_TYPES.misc,
+            rarity: RARITY_LEVELS.COMMON,
+            maxStack: DEFAULT_MAX_STACK,
+            stats: [...DEFAULT_STATS.misc],
+            sprite: { key: resource.id },
+            energy: 0
+        };
+    });
+
+    return catalog;
+}
+
+export const ITEM_CATALOG: Record<string, ItemCatalogEntry> = buildCatalog();
+
+export function getCatalogItem(itemId: string): ItemCatalogEntry | undefined {
+    return ITEM_CATALOG[itemId];
+}
+
+export function getItemDisplayName(itemId: string): string {
+    return ITEM_CATALOG[itemId]?.displayName ?? formatItemId(itemId);
+}
+
+export function getItemGameType(itemId: string): GameItemType {
+    return ITEM_CATALOG[itemId]?.type ?? 'misc';
+}
+
+export function getItemMaxStack(itemId: string): number {
+    return ITEM_CATALOG[itemId]?.maxStack ?? DEFAULT_MAX_STACK;
+}
+
+export function getItemEnergy(itemId: string): number {
+    return ITEM_CATALOG[itemId]?.energy ?? 0;
+}
+
+export function getItemsInCategory(category: ItemCategory): ItemCatalogEntry[] {
+    return Object.values(ITEM_CATALOG).filter(entry => entry.category === category);
+}
+
+/**
+ * On-chain item type for a game type string (unknown types mint as consumables)
+ */
+export function getChainItemType(gameType: string): ItemType {
+    const aliases: Record<string, GameItemType> = { food: 'consumable', potion: 'consumable', resource: 'misc', material: 'misc' };
+    const type = (aliases[gameType.toLowerCase()] ?? gameType.toLowerCase()) as GameItemType;
+    return CHAIN_TYPES[type] ?? ITEM_TYPES.CONSUMABLE;
+}
+
+export function getDefaultStats(gameType: string): number[] {
+    return [...(DEFAULT_STATS[gameType as GameItemType] ?? DEFAULT_STATS.misc)];
+}
+
+/**
+ * Item images FarmScene must load from assets/items
+ */
+export function getItemSpritePreloads(): Required<ItemSprite>[] {
+    return Object.values(ITEM_CATALOG)
+        .filter(entry => !!entry.sprite.path)
+        .map(entry => ({ key: entry.sprite.key, path: entry.sprite.path! }));
+}
+
+/**
+ * Ids of catalog entries whose sprite is neither preloaded nor generated
+ */
+export function validateItemCatalog(hasTexture: (key: string) => boolean): string[] {
+    return Object.values(ITEM_CATALOG)
+        .filter(entry => !hasTexture(entry.sprite.key))
+        .map(entry => entry.id);
+}
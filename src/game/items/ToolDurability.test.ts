@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { migrateSave } from '@/services/SaveGameService';
+import { Inventory } from '../inventory/Inventory';
+import { ToolConditionTracker } from './ToolDurability';
+
+describe('tool condition per instance', () => {
+    it('wears and upgrades each copy of a weapon on its own', () => {
+        const inventory = new Inventory();
+        inventory.add('sword_01b', 'weapon', 2);
+        const first = inventory.getSlot('itembar', 0)!.instanceId!;
+        const second = inventory.getSlot('itembar', 1)!.instanceId!;
+        expect(first).not.toBe(second);
+
+        const conditions = new ToolConditionTracker();
+        conditions.wear(first, 60);
+        conditions.upgrade(second);
+
+        expect(conditions.isBroken(first)).toBe(true);
+        expect(conditions.get(second)).toMatchObject({ tier: 2, durability: 90 });
+        expect(conditions.get(first).tier).toBe(1);
+    });
+
+    it('keeps the instance when the stack moves, is held or goes into a chest', () => {
+        const inventory = new Inventory();
+        inventory.add('tool_axe', 'tool', 1);
+        const instanceId = inventory.getSlot('itembar', 0)!.instanceId;
+
+        inventory.move('itembar', 0, 'backpack', 3);
+        inventory.pickUp('backpack', 3);
+        inventory.place('itembar', 5);
+        inventory.setChest(new Array(4).fill(null));
+        inventory.transfer('itembar', 5, ['chest']);
+
+        expect(inventory.getSlot('chest', 0)?.instanceId).toBe(instanceId);
+        expect(inventory.serialize()).toEqual({ itemBar: [], backpack: [] });
+    });
+
+    it('gives the old shared condition to the first copy when migrating a save', () => {
+        const save = migrateSave({
+            version: 16,
+            inventory: {
+                itemBar: [{ index: 0, itemId: 'sword_01b', itemType: 'weapon', count: 1 }],
+                backpack: [
+                    { index: 0, itemId: 'sword_01b', itemType: 'weapon', count: 1 },
+                    { index: 1, itemId: 'seeds_carrot', itemType: 'seed', count: 5 }
+                ]
+            },
+            chests: [],
+            toolConditions: [{ itemId: 'sword_01b', tier: 3, durability: 12 }]
+        });
+
+        const [equipped, spare, seeds] = [...save.inventory!.itemBar, ...save.inventory!.backpack];
+        expect(equipped.instanceId).toBeDefined();
+        expect(spare.instanceId).toBeDefined();
+        expect(seeds.instanceId).toBeUndefined();
+        expect(save.toolConditions).toEqual([{ instanceId: equipped.instanceId, tier: 3, durability: 12 }]);
+    });
+});
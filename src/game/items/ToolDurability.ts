@@ -0,0 +1,136 @@
+/**
+ * Tool Durability
+ *
+ * Wear, repair and upgrade tiers for tools and weapons.
+ * Conditions are tracked per item instance: every tool or weapon stack
+ * carries its own instance id, so two copies of the same sword wear
+ * separately. A broken item stays in the inventory but cannot be used
+ * until Herman repairs it.
+ */
+
+export interface ToolTierInfo {
+    tier: number;
+    name: string;
+    maxDurability: number;
+    power: number;       // Damage / efficiency multiplier
+    upgradeCost: number; // Gold to upgrade *to* this tier
+}
+
+export const TOOL_TIERS: ToolTierInfo[] = [
+    { tier: 1, name: 'Basic', maxDurability: 60, power: 1, upgradeCost: 0 },
+    { tier: 2, name: 'Copper', maxDurability: 90, power: 1.25, upgradeCost: 150 },
+    { tier: 3, name: 'Iron', maxDurability: 130, power: 1.5, upgradeCost: 400 },
+    { tier: 4, name: 'Gold', maxDurability: 180, power: 2, upgradeCost: 900 }
+];
+
+export const REPAIR_COST_PER_POINT = 1; // Gold per missing durability point
+export const UNARMED_DAMAGE = 10;
+export const WEAPON_BASE_DAMAGE = 15;
+
+const WEAPON_PREFIXES = ['sword', 'bow', 'staff', 'spellbook'];
+
+export interface ToolCondition {
+    instanceId: string;
+    tier: number;
+    durability: number;
+}
+
+export interface WearResult {
+    condition: ToolCondition;
+    broke: boolean;
+}
+
+export function isWeaponItem(itemId: string): boolean {
+    return WEAPON_PREFIXES.some(prefix => itemId.startsWith(prefix));
+}
+
+/**
+ * Whether an item wears down with use
+ */
+export function hasDurability(itemId: string): boolean {
+    return itemId.startsWith('tool_') || isWeaponItem(itemId);
+}
+
+/**
+ * A new id for one tool or weapon instance
+ */
+export function createItemInstanceId(itemId: string): string {
+    return `${itemId}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function getTierInfo(tier: number): ToolTierInfo {
+    return TOOL_TIERS[Math.min(Math.max(tier, 1), TOOL_TIERS.length) - 1];
+}
+
+export class ToolConditionTracker {
+    private conditions: Map<string, ToolCondition> = new Map();
+
+    /**
+     * Current condition, creating a fresh basic-tier entry on first use
+     */
+    public get(instanceId: string): ToolCondition {
+        let condition = this.conditions.get(instanceId);
+        if (!condition) {
+            condition = { instanceId, tier: 1, durability: getTierInfo(1).maxDurability };
+            this.conditions.set(instanceId, condition);
+        }
+        return condition;
+    }
+
+    public getMaxDurability(instanceId: string): number {
+        return getTierInfo(this.get(instanceId).tier).maxDurability;
+    }
+
+    public getPower(instanceId: string): number {
+        return getTierInfo(this.get(instanceId).tier).power;
+    }
+
+    public isBroken(instanceId: string): boolean {
+        return this.get(instanceId).durability <= 0;
+    }
+
+    public wear(instanceId: string, amount: number = 1): WearResult {
+        const condition = this.get(instanceId);
+        const wasIntact = condition.durability > 0;
+        condition.durability = Math.max(0, condition.durability - amount);
+
+        return { condition, broke: wasIntact && condition.durability === 0 };
+    }
+
+    public getRepairCost(instanceId: string): number {
+        const missing = this.getMaxDurability(instanceId) - this.get(instanceId).durability;
+        return Math.max(0, missing) * REPAIR_COST_PER_POINT;
+    }
+
+    public repair(instanceId: string): ToolCondition {
+        const condition = this.get(instanceId);
+        condition.durability = this.getMaxDurability(instanceId);
+        return condition;
+    }
+
+    /**
+     * Gold needed for the next tier, or null when already at the top tier
+     */
+    public getUpgradeCost(instanceId: string): number | null {
+        const nextTier = this.get(instanceId).tier + 1;
+        return nextTier > TOOL_TIERS.length ? null : getTierInfo(nextTier).upgradeCost;
+    }
+
+    /**
+     * Raise the item one tier and restore it to full durability
+     */
+    public upgrade(instanceId: string): ToolCondition {
+        const condition = this.get(instanceId);
+        condition.tier = Math.min(condition.tier + 1, TOOL_TIERS.length);
+        condition.durability = getTierInfo(condition.tier).maxDurability;
+        return condition;
+    }
+
+    public serialize(): ToolCondition[] {
+        return Array.from(this.conditions.values()).map(condition => ({ ...condition }));
+    }
+
+    public restore(conditions: ToolCondition[]): void {
+        this.conditions = new Map(conditions.map(condition => [condition.instanceId, { ...condition }]));
+    }
+}
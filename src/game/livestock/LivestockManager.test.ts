@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { LivestockManager } from './LivestockManager';
+import { HOUSING } from './LivestockRegistry';
+
+function fillCoop(manager: LivestockManager, extra: number): string[] {
+    return Array.from({ length: HOUSING.coop.capacity + extra }, () => manager.register('chicken').id);
+}
+
+describe('LivestockManager housing', () => {
+    it('houses animals in registration order up to capacity', () => {
+        const manager = new LivestockManager();
+        const ids = fillCoop(manager, 2);
+
+        expect(manager.getHousingUsage('coop')).toEqual({ used: HOUSING.coop.capacity, capacity: HOUSING.coop.capacity });
+        expect(ids.map(id => manager.isHoused(id))).toEqual(ids.map((_, index) => index < HOUSING.coop.capacity));
+    });
+
+    it('only lets housed adults produce', () => {
+        const manager = new LivestockManager();
+        const ids = fillCoop(manager, 1);
+
+        const producers = manager.startDay().map(animal => animal.id);
+
+        expect(producers).toHaveLength(HOUSING.coop.capacity);
+        expect(producers).not.toContain(ids[ids.length - 1]);
+    });
+
+    it('moves the next unhoused animal in when a housed one leaves', () => {
+        const manager = new LivestockManager();
+        const ids = fillCoop(manager, 1);
+        const waiting = ids[ids.length - 1];
+
+        manager.remove(ids[0]);
+
+        expect(manager.isHoused(waiting)).toBe(true);
+    });
+
+    it('houses the largest starting pen herd', () => {
+        const manager = new LivestockManager();
+        const herd = [
+            ...Array.from({ length: 16 }, () => manager.register('chicken').id),
+            ...Array.from({ length: 16 }, () => manager.register('cow').id),
+            ...Array.from({ length: 16 }, () => manager.register('sheep').id)
+        ];
+
+        expect(herd.every(id => manager.isHoused(id))).toBe(true);
+    });
+
+    it('keeps coop and barn places apart', () => {
+        const manager = new LivestockManager();
+        fillCoop(manager, 1);
+        const cow = manager.register('cow').id;
+
+        expect(manager.isHoused(cow)).toBe(true);
+        expect(manager.getHousingUsage('barn').used).toBe(1);
+    });
+});
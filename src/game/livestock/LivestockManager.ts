@@ -0,0 +1,193 @@
+import { acceptsFeed, getLivestockSpecies, HOUSING, HousingId, LivestockKind } from './LivestockRegistry';
+
+/**
+ * Livestock Manager
+ *
+ * Keeps the husbandry state of every farm animal: name, hunger,
+ * happiness, affection and age. FarmScene registers animal sprites here,
+ * feeds them from the item bar and calls startDay() at dawn, when hunger
+ * grows, moods settle and well-kept adults produce.
+ *
+ * Housing places are handed out in registration order, so when a housed
+ * animal is removed the next unhoused one moves in.
+ */
+
+export const MAX_STAT = 100;
+export const FEED_HUNGER_RELIEF = 50;
+export const HUNGER_PER_DAY = 35;
+export const STARVING_HUNGER = 70;      // Hungrier than this at dawn: no produce, mood drops
+export const MIN_PRODUCE_HAPPINESS = 30;
+export const BONUS_PRODUCE_AFFECTION = 80; // Devoted animals produce an extra item
+
+const FIRST_FEED_AFFECTION = 10; // First meal of the day counts the most
+const EXTRA_FEED_AFFECTION = 2;
+const FEED_HAPPINESS = 10;
+
+export interface LivestockState {
+    id: string;
+    kind: LivestockKind;
+    name: string;
+    hunger: number;
+    happiness: number;
+    affection: number;
+    ageDays: number;
+    fedToday: boolean;
+    produceReady: number; // Items waiting to be collected
+}
+
+// What a save keeps per animal; ids are reassigned on load
+export type LivestockSnapshot = Omit<LivestockState, 'id' | 'kind'>;
+
+export type FeedResult =
+    | { fed: true; animal: LivestockState; affectionGained: number }
+    | { fed: false; reason: 'not-food' | 'full' };
+
+export class LivestockManager {
+    private animals: Map<string, LivestockState> = new Map();
+    private nextId: number = 1;
+
+    /**
+     * Track an animal; saved state is restored as-is, new animals get a name
+     */
+    public register(kind: LivestockKind, saved?: LivestockSnapshot | null): LivestockState {
+        const species = getLivestockSpecies(kind);
+        const id = `${kind}_${this.nextId++}`;
+        const animal: LivestockState = saved
+            ? { ...saved, id, kind }
+            : {
+                id,
+                kind,
+                name: this.pickName(kind),
+                hunger: 20,
+                happiness: 60,
+                affection: 0,
+                ageDays: species.adultAgeDays, // The starting herd is fully grown
+                fedToday: false,
+                produceReady: 0
+            };
+
+        this.animals.set(id, animal);
+        return animal;
+    }
+
+    public remove(id: string): void {
+        this.animals.delete(id);
+    }
+
+    public get(id: string): LivestockState | undefined {
+        return this.animals.get(id);
+    }
+
+    public isAdult(id: string): boolean {
+        const animal = this.animals.get(id);
+        return !!animal && animal.ageDays >= getLivestockSpecies(animal.kind).adultAgeDays;
+    }
+
+    public isHoused(id: string): boolean {
+        const animal = this.animals.get(id);
+        if (!animal) return false;
+
+        const housing = getLivestockSpecies(animal.kind).housing;
+        return this.getHoused(housing).includes(animal);
+    }
+
+    public getHousingUsage(housing: HousingId): { used: number; capacity: number } {
+        return { used: this.getHoused(housing).length, capacity: HOUSING[housing].capacity };
+    }
+
+    public feed(id: string, itemId: string): FeedResult {
+        const animal = this.animals.get(id);
+        if (!animal || !acceptsFeed(animal.kind, itemId)) return { fed: false, reason: 'not-food' };
+        if (animal.hunger <= 0) return { fed: false, reason: 'full' };
+
+        const affectionGained = Math.min(MAX_STAT - animal.affection, animal.fedToday ? EXTRA_FEED_AFFECTION : FIRST_FEED_AFFECTION);
+        animal.hunger = Math.max(0, animal.hunger - FEED_HUNGER_RELIEF);
+        animal.happiness = Math.min(MAX_STAT, animal.happiness + FEED_HAPPINESS);
+        animal.affection += affectionGained;
+        animal.fedToday = true;
+
+        return { fed: true, animal, affectionGained };
+    }
+
+    /**
+     * Take the animal's waiting produce; returns the item and count collected
+     */
+    public collectProduce(id: string): { itemId: string; count: number } | null {
+        const animal = this.animals.get(id);
+        if (!animal || animal.produceReady <= 0) return null;
+
+        const count = animal.produceReady;
+        animal.produceReady = 0;
+        return { itemId: getLivestockSpecies(animal.kind).produceItemId, count };
+    }
+
+    // Produce that didn't fit in the inventory stays with the animal
+    public returnProduce(id: string, count: number): void {
+        const animal = this.animals.get(id);
+        if (animal && count > 0) {
+            animal.produceReady += count;
+        }
+    }
+
+    /**
+     * Dawn: animals age, hunger grows and moods settle; returns the animals that produced
+     */
+    public startDay(): LivestockState[] {
+        const producers: LivestockState[] = [];
+
+        this.animals.forEach(animal => {
+            const starving = animal.hunger > STARVING_HUNGER;
+            const canProduce = !starving
+                && animal.happiness >= MIN_PRODUCE_HAPPINESS
+                && this.isAdult(animal.id)
+                && this.isHoused(animal.id);
+
+            if (canProduce) {
+                // Uncollected produce doesn't pile up past one day's worth
+                animal.produceReady = animal.affection >= BONUS_PRODUCE_AFFECTION ? 2 : 1;
+                producers.push(animal);
+            }
+
+            animal.happiness = starving
+                ? Math.max(0, animal.happiness - 15)
+                : Math.min(MAX_STAT, animal.happiness + 5);
+            if (starving) {
+                animal.affection = Math.max(0, animal.affection - 5);
+            }
+            animal.hunger = Math.min(MAX_STAT, animal.hunger + HUNGER_PER_DAY);
+            animal.ageDays++;
+            animal.fedToday = false;
+        });
+
+        return producers;
+    }
+
+    public serialize(id: string): LivestockSnapshot | null {
+        const animal = this.animals.get(id);
+        if (!animal) return null;
+
+        const { id: _id, kind: _kind, ...state } = animal;
+        return { ...state };
+    }
+
+    private getHoused(housing: HousingId): LivestockState[] {
+        return Array.from(this.animals.values())
+            .filter(animal => getLivestockSpecies(animal.kind).housing === housing)
+            .slice(0, HOUSING[housing].capacity);
+    }
+
+    // Prefer names no living animal of this kind has
+    private pickName(kind: LivestockKind): string {
+        const names = getLivestockSpecies(kind).names;
+        const taken = new Set(Array.from(this.animals.values()).filter(a => a.kind === kind).map(a => a.name));
+        const free = names.filter(name => !taken.has(name));
+        if (free.length > 0) {
+            return free[Math.floor(Math.random() * free.length)];
+        }
+
+        const base = names[Math.floor(Math.random() * names.length)];
+        let suffix = 2;
+        while (taken.has(`${base} ${suffix}`)) suffix++;
+        return `${base} ${suffix}`;
+    }
+}
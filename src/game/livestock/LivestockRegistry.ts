@@ -0,0 +1,71 @@
+/**
+ * Livestock Registry
+ *
+ * What each farm animal eats, what it produces and where it lives.
+ * Coops and barns have a fixed number of places; only housed adults
+ * produce.
+ */
+
+export type LivestockKind = 'chicken' | 'cow' | 'sheep';
+export type HousingId = 'coop' | 'barn';
+
+export interface LivestockSpecies {
+    kind: LivestockKind;
+    displayName: string;
+    produceItemId: string;
+    feedItemIds: string[]; // Items the animal accepts from the item bar
+    housing: HousingId;
+    adultAgeDays: number;  // Days until the animal starts producing
+    names: string[];       // Pool new animals are named from
+}
+
+export interface Housing {
+    id: HousingId;
+    displayName: string;
+    capacity: number;
+}
+
+export const LIVESTOCK_SPECIES: Record<LivestockKind, LivestockSpecies> = {
+    chicken: {
+        kind: 'chicken',
+        displayName: 'Chicken',
+        produceItemId: 'egg',
+        feedItemIds: ['seeds_wheat', 'seeds_corn', 'seeds_carrot', 'wheat', 'corn'],
+        housing: 'coop',
+        adultAgeDays: 2,
+        names: ['Clucky', 'Nugget', 'Pip', 'Henrietta', 'Peck', 'Sunny', 'Biscuit', 'Maple']
+    },
+    cow: {
+        kind: 'cow',
+        displayName: 'Cow',
+        produceItemId: 'milk',
+        feedItemIds: ['wheat', 'corn', 'carrot'],
+        housing: 'barn',
+        adultAgeDays: 4,
+        names: ['Bessie', 'Daisy', 'Clover', 'Buttercup', 'Moose', 'Caramel', 'Hazel', 'Bramble']
+    },
+    sheep: {
+        kind: 'sheep',
+        displayName: 'Sheep',
+        produceItemId: 'wool',
+        feedItemIds: ['wheat', 'carrot'],
+        housing: 'barn',
+        adultAgeDays: 3,
+        names: ['Woolly', 'Cotton', 'Dolly', 'Fluff', 'Shaun', 'Nimbus', 'Pebble', 'Willow']
+    }
+};
+
+// Room for the largest starting herd: the pens start with 12-16 chickens
+// and 24-32 cows and sheep. Only animals beyond that go unhoused
+export const HOUSING: Record<HousingId, Housing> = {
+    coop: { id: 'coop', displayName: 'Coop', capacity: 16 },
+    barn: { id: 'barn', displayName: 'Barn', capacity: 32 }
+};
+
+export function getLivestockSpecies(kind: LivestockKind): LivestockSpecies {
+    return LIVESTOCK_SPECIES[kind];
+}
+
+export function acceptsFeed(kind: LivestockKind, itemId: string): boolean {
+    return LIVESTOCK_SPECIES[kind].feedItemIds.includes(itemId);
+}
@@ -0,0 +1,210 @@
+import { RARITY_LEVELS, RarityLevel } from '@/types/onechain';
+import { getCatalogItem } from '../items/ItemCatalog';
+
+/**
+ * Loot Tables
+ *
+ * What enemies, animals and resource nodes drop. Each table has
+ * guaranteed drops plus a number of rolls; a roll first decides whether
+ * anything drops, then rolls a rarity tier and finally picks a weighted
+ * entry of that tier. Entry rarity defaults to the item catalog rarity.
+ */
+
+export interface LootEntry {
+    itemId: string;
+    weight: number;
+    min?: number; // Quantity range, default 1-1
+    max?: number;
+    rarity?: RarityLevel;
+}
+
+export interface GuaranteedDrop {
+    itemId: string;
+    min?: number;
+    max?: number;
+}
+
+export interface LootTable {
+    id: string;
+    guaranteed?: GuaranteedDrop[];
+    rolls: number;
+    dropChance: number; // Chance (0-1) that a roll yields anything
+    rarityWeights: Partial<Record<RarityLevel, number>>;
+    entries: LootEntry[];
+}
+
+export interface LootDrop {
+    itemId: string;
+    count: number;
+    rarity: RarityLevel;
+}
+
+// Drops at or above this rarity are queued for auto-minting on pickup
+export const AUTO_MINT_MIN_RARITY: RarityLevel = RARITY_LEVELS.EPIC;
+
+export const LOOT_TABLES: Record<string, LootTable> = {
+    enemy_slime: {
+        id: 'enemy_slime',
+        rolls: 2,
+        dropChance: 0.6,
+        rarityWeights: { [RARITY_LEVELS.COMMON]: 80, [RARITY_LEVELS.RARE]: 17, [RARITY_LEVELS.EPIC]: 3 },
+        entries: [
+            { itemId: 'candy_01a', weight: 5, min: 1, max: 2 },
+            { itemId: 'potion_01a', weight: 3 },
+            { itemId: 'pearl_01a', weight: 2 },
+            { itemId: 'candy_02a', weight: 3 },
+            { itemId: 'crystal_01a', weight: 1 },
+            { itemId: 'potion_03a', weight: 1 }
+        ]
+    },
+    enemy_skeleton: {
+        id: 'enemy_skeleton',
+        guaranteed: [{ itemId: 'coin_01a', min: 1, max: 3 }],
+        rolls: 2,
+        dropChance: 0.7,
+        rarityWeights: { [RARITY_LEVELS.COMMON]: 70, [RARITY_LEVELS.RARE]: 22, [RARITY_LEVELS.EPIC]: 7, [RARITY_LEVELS.LEGENDARY]: 1 },
+        entries: [
+            { itemId: 'arrow_01a', weight: 5, min: 2, max: 5 },
+            { itemId: 'ingot_01a', weight: 4 },
+            { itemId: 'key_01a', weight: 2 },
+            { itemId: 'scroll_01a', weight: 2 },
+            { itemId: 'gem_01a', weight: 3 },
+            { itemId: 'ring_01a', weight: 1 },
+            { itemId: 'sword_01b', weight: 2 },
+            { itemId: 'helmet_02a', weight: 1 },
+            { itemId: 'sword_02a', weight: 1 }
+        ]
+    },
+    animal_chicken: {
+        id: 'animal_chicken',
+        rolls: 1,
+        dropChance: 0.8,
+        rarityWeights: { [RARITY_LEVELS.COMMON]: 100 },
+        entries: [
+            { itemId: 'seeds_wheat', weight: 4, min: 1, max: 2 },
+            { itemId: 'seeds_corn', weight: 2 },
+            { itemId: 'gift_01a', weight: 1 }
+        ]
+    },
+    animal_cow: {
+        id: 'animal_cow',
+        rolls: 2,
+        dropChance: 0.7,
+        rarityWeights: { [RARITY_LEVELS.COMMON]: 90, [RARITY_LEVELS.RARE]: 10 },
+        entries: [
+            { itemId: 'potion_01b', weight: 4 },
+            { itemId: 'coin_01a', weight: 3, min: 2, max: 4 },
+            { itemId: 'gift_01a', weight: 1 },
+            { itemId: 'potion_02b', weight: 1 }
+        ]
+    },
+    animal_sheep: {
+        id: 'animal_sheep',
+        rolls: 1,
+        dropChance: 0.8,
+        rarityWeights: { [RARITY_LEVELS.COMMON]: 90, [RARITY_LEVELS.RARE]: 10 },
+        entries: [
+            { itemId: 'coin_01a', weight: 3, min: 1, max: 3 },
+            { itemId: 'book_01a', weight: 1 },
+            { itemId: 'gift_01a', weight: 1 },
+            { itemId: 'gift_01b', weight: 1, rarity: RARITY_LEVELS.RARE }
+        ]
+    },
+    tree: {
+        id: 'tree',
+        guaranteed: [{ itemId: 'wood', min: 2, max: 4 }],
+        rolls: 1,
+        dropChance: 0.25,
+        rarityWeights: { [RARITY_LEVELS.COMMON]: 90, [RARITY_LEVELS.RARE]: 10 },
+        entries: [
+            { itemId: 'seeds_carrot', weight: 3 },
+            { itemId: 'gift_01a', weight: 1 },
+            { itemId: 'gem_01b', weight: 1 }
+        ]
+    },
+    rock: {
+        id: 'rock',
+        guaranteed: [{ itemId: 'stone', min: 2, max: 4 }],
+        rolls: 1,
+        dropChance: 0.3,
+        rarityWeights: { [RARITY_LEVELS.COMMON]: 85, [RARITY_LEVELS.RARE]: 15 },
+        entries: [
+            { itemId: 'stone', weight: 3, min: 1, max: 2 },
+            { itemId: 'iron_ore', weight: 1 },
+            { itemId: 'gem_01b', weight: 1 }
+        ]
+    },
+    ore: {
+        id: 'ore',
+        guaranteed: [{ itemId: 'iron_ore', min: 1, max: 3 }, { itemId: 'stone', min: 1, max: 2 }],
+        rolls: 1,
+        dropChance: 0.35,
+        rarityWeights: { [RARITY_LEVELS.COMMON]: 70, [RARITY_LEVELS.RARE]: 25, [RARITY_LEVELS.EPIC]: 5 },
+        entries: [
+            { itemId: 'iron_ore', weight: 3 },
+            { itemId: 'gem_01a', weight: 2 },
+            { itemId: 'crystal_01a', weight: 1 }
+        ]
+    }
+};
+
+export function getLootTable(tableId: string): LootTable | undefined {
+    return LOOT_TABLES[tableId];
+}
+
+export function getEntryRarity(entry: { itemId: string; rarity?: RarityLevel }): RarityLevel {
+    return entry.rarity ?? getCatalogItem(entry.itemId)?.rarity ?? RARITY_LEVELS.COMMON;
+}
+
+function rollQuantity(min: number = 1, max: number = min, random: () => number): number {
+    return min + Math.floor(random() * (max - min + 1));
+}
+
+function pickWeighted<T>(items: T[], weightOf: (item: T) => number, random: () => number): T | undefined {
+    const total = items.reduce((sum, item) => sum + Math.max(0, weightOf(item)), 0);
+    if (total <= 0) return undefined;
+
+    let roll = random() * total;
+    for (const item of items) {
+        roll -= Math.max(0, weightOf(item));
+        if (roll < 0) return item;
+    }
+    return items[items.length - 1];
+}
+
+/**
+ * Roll a table; drops of the same item are merged
+ */
+export function rollLoot(table: LootTable, random: () => number = Math.random): LootDrop[] {
+    const drops = new Map<string, LootDrop>();
+    const addDrop = (itemId: string, count: number, rarity: RarityLevel) => {
+        const existing = drops.get(itemId);
+        if (existing) {
+            existing.count += count;
+        } else {
+            drops.set(itemId, { itemId, count, rarity });
+        }
+    };
+
+    (table.guaranteed ?? []).forEach(drop => {
+        addDrop(drop.itemId, rollQuantity(drop.min, drop.max, random), getEntryRarity(drop));
+    });
+
+    // Only tiers that actually have entries can be rolled
+    const tiers = (Object.keys(table.rarityWeights).map(Number) as RarityLevel[])
+        .filter(tier => table.entries.some(entry => getEntryRarity(entry) === tier));
+
+    for (let i = 0; i < table.rolls; i++) {
+        if (random() >= table.dropChance) continue;
+
+        const tier = pickWeighted(tiers, t => table.rarityWeights[t] ?? 0, random);
+        if (tier === undefined) continue;
+
+        const entry = pickWeighted(table.entries.filter(e => getEntryRarity(e) === tier), e => e.weight, random);
+        if (entry) {
+            addDrop(entry.itemId, rollQuantity(entry.min, entry.max, random), tier);
+        }
+    }
+
+    return Array.from(drops.values());
+}
@@ -1,5 +1,6 @@
 import * as Phaser from 'phaser';
 import { FarmScene } from '../scenes/FarmScene';
+import { Crop, isCropMature } from '../crops/CropGrowthScheduler';
 
 export enum ActionType {
     HARVEST = 'harvest',
@@ -73,7 +74,7 @@ export class ContextualActionManager {
 
     private checkHarvestingActions(actions: ContextualAction[]): void {
         // Check if player is near mature crops
-        const crops = this.scene['crops'] as Map<string, any>;
+        const crops = this.scene['crops'] as Map<string, Crop>;
         const player = this.scene['player'];
 
         if (!crops || !player) return;
@@ -83,7 +84,7 @@ export class ContextualActionManager {
         let closestDistance = Infinity;
 
         crops.forEach((crop, cropKey) => {
-            if (crop.growthStage === 2) { // Mature crop
+            if (isCropMature(crop)) {
                 const distance = Phaser.Math.Distance.Between(
                     player.x, player.y,
                     crop.x * 64 + 32, crop.y * 64 + 32 // Convert tile to world coordinates
@@ -139,7 +140,7 @@ export class ContextualActionManager {
                         if (!crops.has(cropKey)) {
                             actions.push({
                                 type: ActionType.PLANT,
-                                message: 'Press E to Plant Carrot',
+                                message: 'Press E to Plant Seeds',
                                 key: 'E',
                                 priority: 70, // Medium priority
                                 targetX: checkX * 64 + 32,
@@ -216,8 +217,8 @@ export class ContextualActionManager {
                     if (tile && tile.index >= 128 && tile.index <= 137) { // Tree tile indices
                         actions.push({
                             type: ActionType.CUT,
-                            message: 'Press R to Cut Tree',
-                            key: 'R',
+                            message: 'Press E to Cut Tree (Axe)',
+                            key: 'E',
                             priority: 60, // Medium-low priority
                             targetX: checkX * 64 + 32,
                             targetY: checkY * 64 + 32,
@@ -262,7 +263,7 @@ export class ContextualActionManager {
 
     private checkCollectionActions(actions: ContextualAction[]): void {
         // Check if player has harvested items to collect
-        const harvestedCount = this.scene['harvestedCarrotCount'] || 0;
+        const harvestedCount = this.scene['harvestedCropCount'] || 0;
 
         if (harvestedCount > 0) {
             actions.push({
@@ -0,0 +1,120 @@
+/**
+ * Player Energy
+ *
+ * Energy spent by farming and combat actions and regained by resting.
+ * Energy only comes back once the player has been idle for a moment,
+ * faster when resting at night. At zero the player is exhausted and
+ * FarmScene slows their movement until some energy is regained.
+ */
+
+export type EnergyAction = 'till' | 'water' | 'cut' | 'mine' | 'fish' | 'attack';
+
+export const ENERGY_COSTS: Record<EnergyAction, number> = {
+    till: 4,
+    water: 2,
+    cut: 5,
+    mine: 6,
+    fish: 3,
+    attack: 3
+};
+
+export const RUN_ENERGY_PER_SECOND = 3;
+export const IDLE_REGEN_PER_SECOND = 2;
+export const SLEEP_REGEN_PER_SECOND = 8;
+export const IDLE_DELAY_MS = 2000; // Time without moving or acting before regeneration starts
+export const EXHAUSTED_SPEED_MULTIPLIER = 0.5;
+
+const SLEEP_START_HOUR = 22;
+const SLEEP_END_HOUR = 6;
+
+/**
+ * Night hours in which resting counts as sleeping
+ */
+export function isSleepingHour(hour: number): boolean {
+    return hour >= SLEEP_START_HOUR || hour < SLEEP_END_HOUR;
+}
+
+export class PlayerEnergy {
+    private energy: number;
+    private maxEnergy: number;
+    private idleMs: number = 0;
+
+    constructor(maxEnergy: number = 100) {
+        this.maxEnergy = maxEnergy;
+        this.energy = maxEnergy;
+    }
+
+    public getEnergy(): number {
+        return this.energy;
+    }
+
+    public getMaxEnergy(): number {
+        return this.maxEnergy;
+    }
+
+    public isExhausted(): boolean {
+        return this.energy <= 0;
+    }
+
+    public setMaxEnergy(maxEnergy: number): void {
+        this.maxEnergy = Math.max(1, maxEnergy);
+        this.energy = Math.min(this.energy, this.maxEnergy);
+    }
+
+    /**
+     * Pay for an action; nothing is spent if there is not enough energy
+     */
+    public spend(action: EnergyAction): boolean {
+        const cost = ENERGY_COSTS[action];
+        if (this.energy < cost) return false;
+
+        this.energy -= cost;
+        this.idleMs = 0;
+        return true;
+    }
+
+    /**
+     * Continuous drain (running); stops at zero instead of failing
+     */
+    public drain(amount: number): void {
+        this.energy = Math.max(0, this.energy - amount);
+        this.idleMs = 0;
+    }
+
+    /**
+     * Add energy (food, level-ups); returns how much was actually restored
+     */
+    public restore(amount: number): number {
+        const restored = Math.min(amount, this.maxEnergy - this.energy);
+        this.energy += restored;
+        return restored;
+    }
+
+    public refill(): void {
+        this.energy = this.maxEnergy;
+    }
+
+    /**
+     * Advance regeneration; any movement resets the idle timer
+     */
+    public update(deltaMs: number, moving: boolean, sleeping: boolean): void {
+        if (moving) {
+            this.idleMs = 0;
+            return;
+        }
+
+        this.idleMs += deltaMs;
+        if (this.idleMs < IDLE_DELAY_MS) return;
+
+        const rate = sleeping ? SLEEP_REGEN_PER_SECOND : IDLE_REGEN_PER_SECOND;
+        this.restore(rate * (deltaMs / 1000));
+    }
+
+    public serialize(): number {
+        return this.energy;
+    }
+
+    public restoreSaved(energy: number | null): void {
+        this.energy = energy === null ? this.maxEnergy : Math.min(Math.max(energy, 0), this.maxEnergy);
+    }
+}
@@ -0,0 +1,91 @@
+/**
+ * Quest Registry
+ *
+ * Quest definitions: objectives counted from game events, prerequisites
+ * that unlock follow-up quests, and rewards paid out on completion.
+ */
+
+export type QuestObjectiveType = 'harvest' | 'trade' | 'defeat' | 'mint' | 'craft';
+
+export interface QuestObjective {
+    type: QuestObjectiveType;
+    target?: string; // e.g. crop species or enemy type; omitted matches any
+    count: number;
+    description: string;
+}
+
+export interface QuestReward {
+    gold?: number;
+    exp?: number;
+    items?: { itemId: string; count: number }[];
+}
+
+export interface QuestDefinition {
+    id: string;
+    name: string;
+    description: string;
+    objectives: QuestObjective[];
+    reward: QuestReward;
+    requires?: string[]; // Quest ids that must be completed first
+}
+
+export const QUESTS: QuestDefinition[] = [
+    {
+        id: 'first_harvest',
+        name: 'First Harvest',
+        description: 'Herman wants to see what the old farm can still grow.',
+        objectives: [{ type: 'harvest', target: 'carrot', count: 10, description: 'Harvest carrots' }],
+        reward: { gold: 50, exp: 40, items: [{ itemId: 'seeds_wheat', count: 5 }] }
+    },
+    {
+        id: 'neighborly_trade',
+        name: 'Neighborly Trade',
+        description: 'Swap goods with Herman to get to know your neighbour.',
+        objectives: [{ type: 'trade', target: 'herman', count: 1, description: 'Trade with Herman' }],
+        reward: { gold: 30, exp: 25 }
+    },
+    {
+        id: 'slime_trouble',
+        name: 'Slime Trouble',
+        description: 'Slimes keep trampling the crops. Thin them out.',
+        objectives: [{ type: 'defeat', target: 'slime', count: 3, description: 'Defeat slimes' }],
+        reward: { gold: 60, exp: 50, items: [{ itemId: 'potion_01a', count: 2 }] }
+    },
+    {
+        id: 'on_chain_farmer',
+        name: 'On-Chain Farmer',
+        description: 'Mint one of your items as an NFT on OneChain.',
+        objectives: [{ type: 'mint', count: 1, description: 'Mint an NFT' }],
+        reward: { exp: 30, items: [{ itemId: 'gem_01a', count: 1 }] }
+    },
+    {
+        id: 'tinkerer',
+        name: 'Tinkerer',
+        description: 'Use the crafting grid (F) to make something new.',
+        objectives: [{ type: 'craft', count: 1, description: 'Craft an item' }],
+        reward: { gold: 20, exp: 20 }
+    },
+    {
+        id: 'golden_fields',
+        name: 'Golden Fields',
+        description: 'Prove the farm can feed the valley with summer grain.',
+        objectives: [
+            { type: 'harvest', target: 'wheat', count: 10, description: 'Harvest wheat' },
+            { type: 'harvest', target: 'corn', count: 5, description: 'Harvest corn' }
+        ],
+        reward: { gold: 150, exp: 100 },
+        requires: ['first_harvest']
+    },
+    {
+        id: 'bone_collector',
+        name: 'Bone Collector',
+        description: 'Skeletons roam the valley at the edge of the farm.',
+        objectives: [{ type: 'defeat', target: 'skeleton', count: 2, description: 'Defeat skeletons' }],
+        reward: { exp: 80, items: [{ itemId: 'sword_01b', count: 1 }] },
+        requires: ['slime_trouble']
+    }
+];
+
+export function getQuestDefinition(questId: string): QuestDefinition | undefined {
+    return QUESTS.find(quest => quest.id === questId);
+}
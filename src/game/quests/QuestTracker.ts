@@ -0,0 +1,111 @@
+import { QUESTS, QuestDefinition, QuestObjectiveType } from './QuestRegistry';
+
+/**
+ * Quest Tracker
+ *
+ * Counts objective progress for active quests. FarmScene feeds it game
+ * events through record() and pays out rewards for the quests it reports
+ * as completed; UIScene's quest log renders getLog().
+ */
+
+export const QUEST_EVENTS = {
+    UPDATED: 'quests-updated'
+} as const;
+
+export type QuestStatus = 'locked' | 'active' | 'completed';
+
+export interface QuestProgressEvent {
+    type: QuestObjectiveType;
+    target?: string;
+    amount?: number;
+}
+
+export interface QuestState {
+    id: string;
+    status: QuestStatus;
+    progress: number[]; // Per objective, capped at the objective count
+}
+
+export interface QuestLogEntry {
+    quest: QuestDefinition;
+    state: QuestState;
+}
+
+export class QuestTracker {
+    private definitions: QuestDefinition[];
+    private states: Map<string, QuestState> = new Map();
+
+    constructor(definitions: QuestDefinition[] = QUESTS) {
+        this.definitions = definitions;
+        this.definitions.forEach(quest => {
+            this.states.set(quest.id, { id: quest.id, status: 'locked', progress: quest.objectives.map(() => 0) });
+        });
+        this.unlockAvailable();
+    }
+
+    /**
+     * Apply a game event to every active quest; returns the quests it completed
+     */
+    public record(event: QuestProgressEvent): QuestDefinition[] {
+        const amount = event.amount ?? 1;
+        const completed: QuestDefinition[] = [];
+
+        this.definitions.forEach(quest => {
+            const state = this.states.get(quest.id)!;
+            if (state.status !== 'active') return;
+
+            quest.objectives.forEach((objective, index) => {
+                if (objective.type !== event.type) return;
+                if (objective.target && objective.target !== event.target) return;
+                state.progress[index] = Math.min(objective.count, state.progress[index] + amount);
+            });
+
+            if (quest.objectives.every((objective, index) => state.progress[index] >= objective.count)) {
+                state.status = 'completed';
+                completed.push(quest);
+            }
+        });
+
+        if (completed.length > 0) {
+            this.unlockAvailable();
+        }
+        return completed;
+    }
+
+    public getLog(): QuestLogEntry[] {
+        return this.definitions
+            .map(quest => ({ quest, state: { ...this.states.get(quest.id)!, progress: [...this.states.get(quest.id)!.progress] } }))
+            .filter(entry => entry.state.status !== 'locked');
+    }
+
+    public serialize(): QuestState[] {
+        return Array.from(this.states.values()).map(state => ({ ...state, progress: [...state.progress] }));
+    }
+
+    public restore(states: QuestState[]): void {
+        states.forEach(saved => {
+            const quest = this.definitions.find(definition => definition.id === saved.id);
+            if (!quest) return;
+
+            this.states.set(quest.id, {
+                id: quest.id,
+                status: saved.status,
+                progress: quest.objectives.map((objective, index) => Math.min(objective.count, saved.progress[index] ?? 0))
+            });
+        });
+        this.unlockAvailable();
+    }
+
+    // Activate locked quests whose prerequisites are all completed
+    private unlockAvailable(): void {
+        this.definitions.forEach(quest => {
+            const state = this.states.get(quest.id)!;
+            if (state.status !== 'locked') return;
+
+            const ready = (quest.requires ?? []).every(id => this.states.get(id)?.status === 'completed');
+            if (ready) {
+                state.status = 'active';
+            }
+        });
+    }
+}
@@ -0,0 +1,86 @@
+/**
+ * Resource Node Registry
+ *
+ * Trees, rocks and ore veins that can be worked for materials. A node
+ * takes tool hits until its HP runs out, drops its loot table, leaves a
+ * stump or rubble behind and grows back after a number of in-game days.
+ *
+ * Trees come from the map's tree layers (one node per connected cluster
+ * of tree tiles); rocks and ore veins have no map layer and are placed
+ * from ROCK_NODE_SPAWNS.
+ */
+
+export type ResourceNodeKind = 'tree' | 'rock' | 'ore';
+
+export interface ResourceNodeType {
+    kind: ResourceNodeKind;
+    displayName: string;
+    toolItemId: string;   // Tool that works this node
+    maxHp: number;        // Each hit deals the tool's tier power
+    lootTableId: string;
+    regrowDays: number;
+    texture?: string;     // Rocks and ore; textures are generated by createFarmItemTextures
+    depletedTexture: string;
+}
+
+export const RESOURCE_NODE_TYPES: Record<ResourceNodeKind, ResourceNodeType> = {
+    tree: {
+        kind: 'tree',
+        displayName: 'Tree',
+        toolItemId: 'tool_axe',
+        maxHp: 5,
+        lootTableId: 'tree',
+        regrowDays: 3,
+        depletedTexture: 'node_stump'
+    },
+    rock: {
+        kind: 'rock',
+        displayName: 'Rock',
+        toolItemId: 'tool_pickaxe',
+        maxHp: 6,
+        lootTableId: 'rock',
+        regrowDays: 2,
+        texture: 'node_rock',
+        depletedTexture: 'node_rubble'
+    },
+    ore: {
+        kind: 'ore',
+        displayName: 'Iron Vein',
+        toolItemId: 'tool_pickaxe',
+        maxHp: 9,
+        lootTableId: 'ore',
+        regrowDays: 4,
+        texture: 'node_ore',
+        depletedTexture: 'node_rubble'
+    }
+};
+
+export interface RockNodeSpawn {
+    id: string;
+    kind: Exclude<ResourceNodeKind, 'tree'>;
+    x: number;
+    y: number;
+}
+
+export const ROCK_NODE_SPAWNS: RockNodeSpawn[] = [
+    { id: 'rock_east_1', kind: 'rock', x: 590, y: 200 },
+    { id: 'rock_east_2', kind: 'rock', x: 650, y: 290 },
+    { id: 'ore_east_1', kind: 'ore', x: 680, y: 180 },
+    { id: 'rock_south_1', kind: 'rock', x: 450, y: 470 },
+    { id: 'rock_south_2', kind: 'rock', x: 530, y: 520 },
+    { id: 'rock_west_1', kind: 'rock', x: 230, y: 520 },
+    { id: 'ore_west_1', kind: 'ore', x: 290, y: 570 }
+];
+
+export function getResourceNodeType(kind: ResourceNodeKind): ResourceNodeType {
+    return RESOURCE_NODE_TYPES[kind];
+}
+
+/**
+ * Stable id of a tree cluster: its layer and top-left tile
+ */
+export function getTreeNodeId(layer: string, tiles: { x: number; y: number }[]): string {
+    const minX = Math.min(...tiles.map(tile => tile.x));
+    const minY = Math.min(...tiles.map(tile => tile.y));
+    return `${layer}:${minX},${minY}`;
+}
@@ -0,0 +1,107 @@
+import { RESOURCE_NODE_TYPES, ResourceNodeKind } from './ResourceNodeRegistry';
+
+/**
+ * Resource Node Tracker
+ *
+ * HP and regrowth state of the nodes the player has worked. FarmScene
+ * reports tool hits through hit(), removes or restores the node visuals
+ * and asks getRegrowable() at dawn which nodes have grown back.
+ */
+
+export interface ResourceNodeTile {
+    x: number;
+    y: number;
+    index: number; // Tile index to put back on regrowth
+}
+
+export interface ResourceNodeState {
+    id: string;
+    kind: ResourceNodeKind;
+    hp: number;
+    depletedDay: number | null; // In-game day index the node was used up
+    layer?: string;              // Trees: tilemap layer of the cluster
+    tiles?: ResourceNodeTile[];  // Trees: tiles removed when felled
+}
+
+export class ResourceNodeTracker {
+    // Only nodes that have been hit or used up; untouched nodes are at full HP
+    private nodes: Map<string, ResourceNodeState> = new Map();
+
+    public get(id: string): ResourceNodeState | undefined {
+        return this.nodes.get(id);
+    }
+
+    public getHp(id: string, kind: ResourceNodeKind): number {
+        return this.nodes.get(id)?.hp ?? RESOURCE_NODE_TYPES[kind].maxHp;
+    }
+
+    public isDepleted(id: string): boolean {
+        return this.nodes.get(id)?.depletedDay != null;
+    }
+
+    /**
+     * Apply a tool hit; returns true when this hit used the node up
+     */
+    public hit(id: string, kind: ResourceNodeKind, damage: number, day: number): boolean {
+        if (this.isDepleted(id)) return false;
+
+        const node = this.nodes.get(id) ?? { id, kind, hp: RESOURCE_NODE_TYPES[kind].maxHp, depletedDay: null };
+        node.hp = Math.max(0, node.hp - damage);
+        if (node.hp <= 0) {
+            node.depletedDay = day;
+        }
+        this.nodes.set(id, node);
+
+        return node.depletedDay !== null;
+    }
+
+    /**
+     * Use a node up without hitting it (trees felled by older saves)
+     */
+    public deplete(id: string, kind: ResourceNodeKind, day: number): void {
+        this.nodes.set(id, { ...this.nodes.get(id), id, kind, hp: 0, depletedDay: day });
+    }
+
+    public setTreeTiles(id: string, layer: string, tiles: ResourceNodeTile[]): void {
+        const node = this.nodes.get(id);
+        if (node) {
+            node.layer = layer;
+            node.tiles = tiles.map(tile => ({ ...tile }));
+        }
+    }
+
+    /**
+     * Whether a felled tree that will grow back covers this tile
+     */
+    public isFelledTreeTile(x: number, y: number): boolean {
+        return Array.from(this.nodes.values()).some(node =>
+            node.depletedDay !== null && !!node.tiles?.some(tile => tile.x === x && tile.y === y));
+    }
+
+    /**
+     * Used-up nodes whose regrowth time has passed
+     */
+    public getRegrowable(day: number): ResourceNodeState[] {
+        return Array.from(this.nodes.values()).filter(node =>
+            node.depletedDay !== null && day - node.depletedDay >= RESOURCE_NODE_TYPES[node.kind].regrowDays);
+    }
+
+    public regrow(id: string): void {
+        this.nodes.delete(id);
+    }
+
+    public serialize(): ResourceNodeState[] {
+        return Array.from(this.nodes.values()).map(node => ({
+            ...node,
+            tiles: node.tiles?.map(tile => ({ ...tile }))
+        }));
+    }
+
+    public restore(nodes: ResourceNodeState[]): void {
+        this.nodes.clear();
+        nodes.forEach(node => {
+            if (!RESOURCE_NODE_TYPES[node.kind]) return;
+            this.nodes.set(node.id, { ...node, tiles: node.tiles?.map(tile => ({ ...tile })) });
+        });
+    }
+}
@@ -3,23 +3,41 @@ import { EventBus } from '../EventBus';
 import { UIScene } from './UIScene';
 import { SCENE_KEYS } from './SceneKeys';
 import { Enemy } from '../enemies/Enemy';
+import { EnemySpawner } from '../enemies/EnemySpawner';
 import { getOpenRouterService, OpenRouterService } from '../../services/OpenRouterService';
 import { ContextualActionManager } from '../managers/ContextualActionManager';
 import { FloatingHintManager } from '../managers/FloatingHintManager';
 import { OneChainHarvester } from '../../services/OneChainHarvester';
 import WalletBridgeService from '../../services/WalletBridgeService';
-import { SuiClient } from '@onelabs/sui/client';
-import { ONECHAIN_NETWORK } from '../../config/contracts';
+import { ChainBackend, getChainBackend } from '../../services/ChainBackend';
 import HUDBridgeService from '../../services/HUDBridgeService';
 import AutoMintService, { GameItem } from '../../services/AutoMintService';
-
-interface Crop {
-    x: number;
-    y: number;
-    growthStage: number; // 0: seed, 1: growing, 2: mature
-    type: 'carrot';
-    plantedTime: number;
-}
+import SaveGameService, { AnimalKind, FarmSaveData, SavedTreeTile } from '../../services/SaveGameService';
+import { CropSpecies, CropSpeciesId, getCropSpecies, getMatureStage, getSpeciesForSeed, isCropSpecies, isInSeason } from '../crops/CropRegistry';
+import { GameClock, GameTime, GAME_CLOCK_EVENTS, MINUTES_PER_DAY, REAL_MS_PER_GAME_MINUTE, SeasonChangedEvent } from '../time/GameClock';
+import { getScheduledActivity, HERMAN_SCHEDULE } from '../time/NPCSchedule';
+import { createFarmItemTextures, getFarmTool, WATERING_CAN_CAPACITY } from '../items/FarmTools';
+import { getCatalogItem, getItemDisplayName, getItemEnergy, getItemGameType, getItemSpritePreloads, validateItemCatalog } from '../items/ItemCatalog';
+import { getTierInfo, hasDurability, isWeaponItem, ToolCondition, ToolConditionTracker, UNARMED_DAMAGE, WEAPON_BASE_DAMAGE } from '../items/ToolDurability';
+import { Crop, CropGrowthScheduler, isCropMature } from '../crops/CropGrowthScheduler';
+import { rollCrowRaid } from '../crops/CrowRaid';
+import { QuestDefinition } from '../quests/QuestRegistry';
+import { QUEST_EVENTS, QuestLogEntry, QuestProgressEvent, QuestTracker } from '../quests/QuestTracker';
+import { PlayerProgression, XP_REWARDS } from '../progression/PlayerProgression';
+import { ENERGY_COSTS, EXHAUSTED_SPEED_MULTIPLIER, isSleepingHour, PlayerEnergy, RUN_ENERGY_PER_SECOND } from '../progression/PlayerEnergy';
+import { AUTO_MINT_MIN_RARITY, getLootTable, LootDrop, rollLoot } from '../loot/LootTables';
+import { acceptsFeed, getLivestockSpecies } from '../livestock/LivestockRegistry';
+import { LivestockManager, LivestockSnapshot } from '../livestock/LivestockManager';
+import { getResourceNodeType, getTreeNodeId, ResourceNodeKind, ROCK_NODE_SPAWNS } from '../resources/ResourceNodeRegistry';
+import { ResourceNodeState, ResourceNodeTracker } from '../resources/ResourceNodeTracker';
+import { Buildable, BUILDABLES, BUILD_ORDER, BUILD_TILE_SIZE, createBuildableTextures, getBuildable, getCoveredTiles, rotateCollider } from '../building/BuildableRegistry';
+import { FarmLayout, Placement } from '../building/FarmLayout';
+import { ChestStorage } from '../building/ChestStorage';
+import { FishingLocation, rollFish } from '../fishing/FishRegistry';
+import { FishingSession } from '../fishing/FishingSession';
+import { BUFF_INFO, createDishTextures, Dish, getDish } from '../cooking/DishRegistry';
+import { BuffTracker } from '../cooking/BuffTracker';
+import { getRarityColor, getRarityString, RARITY_LEVELS, RarityLevel } from '../../types/onechain';
 
 interface ColliderShape {
     x: number;
@@ -53,8 +71,6 @@ export class FarmScene extends Scene {
     private escKey!: Phaser.Input.Keyboard.Key;
     private attackKey!: Phaser.Input.Keyboard.Key;
     private spaceKey!: Phaser.Input.Keyboard.Key;
-    private cutKey!: Phaser.Input.Keyboard.Key;
-    private waterKey!: Phaser.Input.Keyboard.Key;
 
     // Particle properties
     private particleEmitter!: Phaser.GameObjects.Particles.ParticleEmitter;
@@ -63,21 +79,41 @@ export class FarmScene extends Scene {
     // Farming properties
     private farmableTileIndices: Set<number> = new Set([521, 522, 523, 578, 579, 580, 635, 636, 637]);
     private waterTileIndices: Set<number> = new Set([6, 60, 61, 62, 115, 116, 117, 118]); // Water tile indices
+    private readonly TILLED_SOIL_TILE = 579; // Centre tile of the tilled dirt set
+    private tilledTiles: Set<string> = new Set(); // Tiles tilled with the hoe ("x,y")
+    private wateringCanLevel: number = WATERING_CAN_CAPACITY;
+
+    // Tool and weapon wear
+    private toolConditions: ToolConditionTracker = new ToolConditionTracker();
+    private questTracker: QuestTracker = new QuestTracker();
+    private progression: PlayerProgression = new PlayerProgression();
+    private energy: PlayerEnergy = new PlayerEnergy();
+    private reportedEnergy: number = -1;
+    private wasExhausted: boolean = false;
+    private repairKey!: Phaser.Input.Keyboard.Key;
+    private upgradeKey!: Phaser.Input.Keyboard.Key;
 
     // Crop management
     private crops: Map<string, Crop> = new Map();
-    private cropGrowthTimers: Map<string, Phaser.Time.TimerEvent> = new Map();
+    private cropGrowthScheduler: CropGrowthScheduler = new CropGrowthScheduler();
+    private readonly CROP_GROWTH_TICK = 1000; // ms between growth updates
 
     // Sprite-based crop system to solve overlapping issues
     private cropSprites: Map<string, Phaser.GameObjects.GameObject[]> = new Map();
     private windEffectTweens: Map<string, Phaser.Tweens.Tween[]> = new Map();
 
     // Harvesting system
-    private droppedCarrots: Map<string, Phaser.GameObjects.Sprite> = new Map();
+    private droppedCrops: Map<string, Phaser.GameObjects.Sprite> = new Map();
+
+    // Loot dropped by enemies, animals and trees; picked up by walking over it
+    private lootDrops: Map<string, Phaser.GameObjects.Image> = new Map();
+    private readonly LOOT_PICKUP_RADIUS = 40;
+    private readonly LOOT_PICKUP_DELAY_MS = 400;
+    private readonly LOOT_FULL_RETRY_MS = 3000;
     private harvestKey!: Phaser.Input.Keyboard.Key;
     private collectKey!: Phaser.Input.Keyboard.Key;
     private marketplaceKey!: Phaser.Input.Keyboard.Key;
-    private harvestedCarrotCount: number = 0;
+    private harvestedCropCount: number = 0;
     private collectButton!: Phaser.GameObjects.Container;
     private collectButtonText!: Phaser.GameObjects.Text;
     private isHarvesting: boolean = false;
@@ -106,9 +142,12 @@ export class FarmScene extends Scene {
     private chickens: Phaser.Physics.Arcade.Sprite[] = [];
     private cows: Phaser.Physics.Arcade.Sprite[] = [];
     private sheep: Phaser.Physics.Arcade.Sprite[] = [];
+    private livestock: LivestockManager = new LivestockManager();
+    private readonly LIVESTOCK_INTERACT_RADIUS = 40;
 
     // Enemies
     private enemies: Enemy[] = [];
+    private enemySpawner?: EnemySpawner;
 
     // NPC
     private npc!: Phaser.Physics.Arcade.Sprite;
@@ -159,10 +198,49 @@ export class FarmScene extends Scene {
 
     // OneChain Harvester
     private oneChainHarvester!: OneChainHarvester;
-    private suiClient!: SuiClient;
+    private chain!: ChainBackend;
     private walletBridge!: WalletBridgeService;
     private isNearMarketplace: boolean = false;
 
+    // Save system
+    private saveGameService!: SaveGameService;
+
+    // Game clock and day/night lighting
+    private gameClock: GameClock = new GameClock();
+    private lightingOverlay!: Phaser.GameObjects.Rectangle;
+    private farmSaveLoaded!: Promise<FarmSaveData | null>;
+    private farmStateLoaded: boolean = false;
+    private resourceNodes: ResourceNodeTracker = new ResourceNodeTracker();
+    private rockNodes: Map<string, Phaser.Physics.Arcade.Sprite> = new Map();
+    private depletedNodeSprites: Map<string, Phaser.GameObjects.Image> = new Map(); // Stumps and rubble
+    private readonly MINING_RADIUS = 40;
+
+    // Build mode: structures placed on the tile grid
+    private farmLayout: FarmLayout = new FarmLayout();
+    private placedStructures: Map<string, { sprite: Phaser.GameObjects.Image; bodies: Phaser.GameObjects.GameObject[] }> = new Map();
+    private buildMode: boolean = false;
+    private buildSelection: number = 0;
+    private buildRotation: number = 0;
+    private buildGhost?: Phaser.GameObjects.Image;
+    private buildPanel?: Phaser.GameObjects.Text;
+    private buildCoverage?: Phaser.GameObjects.Graphics;
+    private buildKey!: Phaser.Input.Keyboard.Key;
+    private buildCycleKey!: Phaser.Input.Keyboard.Key;
+    private readonly BUILD_RANGE_TILES = 5;
+    private chestStorage: ChestStorage = new ChestStorage();
+    private readonly STRUCTURE_REACH = 40; // How close the player must be to open a chest or cooking station
+
+    // Timed buffs from eaten dishes
+    private buffTracker: BuffTracker = new BuffTracker();
+
+    // Fishing: the cast in progress and its bobber
+    private fishingSession?: FishingSession;
+    private fishingBobber?: Phaser.GameObjects.Image;
+    private readonly FISHING_CAST_TILES = 3;
+    private readonly SPRINKLER_HYDRATION_MS = MINUTES_PER_DAY * REAL_MS_PER_GAME_MINUTE; // Until the next morning
+    private collisionGroup!: Phaser.Physics.Arcade.StaticGroup;
+    private readonly AUTOSAVE_INTERVAL = 60000; // 1 minute
+
     
     constructor() {
         super('FarmScene');
@@ -253,35 +331,14 @@ export class FarmScene extends Scene {
         // Load background music
         this.load.audio('bgm', 'audio/BGM-OneValley.mp3');
 
+        // Load crafting and cooking recipes (read by UIScene)
+        this.load.json('crafting_recipes', 'data/recipes.json');
+        this.load.json('cooking_recipes', 'data/cooking.json');
+
         this.load.setPath('assets/items');
         
-        // Load test items
-        this.load.image('potion_01a', 'consumables/potion_01a.png');
-        this.load.image('fish_01a', 'consumables/fish_01a.png');
-        this.load.image('candy_01a', 'consumables/candy_01a.png');
-        this.load.image('helmet_01a', 'armors/helmet_01a.png');
-
-        // Load marketplace items - Weapons
-        const weapons = ['sword_01a', 'sword_01b', 'sword_01c', 'sword_01d', 'sword_01e', 'sword_02a', 'sword_02b', 'sword_02c', 'sword_02d', 'sword_02e', 'bow_01a', 'bow_01b', 'bow_01d', 'bow_01e', 'bow_02a', 'bow_02b', 'bow_02d', 'bow_02e', 'arrow_01a', 'arrow_01b', 'arrow_02a', 'arrow_02b', 'shield_01a', 'shield_01b', 'shield_02a', 'shield_02b', 'staff_01a', 'staff_01b', 'spellbook_01a', 'spellbook_01b'];
-        weapons.forEach(item => this.load.image(item, `weapons/${item}.png`));
-
-        // Load marketplace items - Armors
-        const armors = ['helmet_01a', 'helmet_01b', 'helmet_01c', 'helmet_01d', 'helmet_01e', 'helmet_02a', 'helmet_02b', 'helmet_02c', 'helmet_02d', 'helmet_02e'];
-        armors.forEach(item => {
-            if (item !== 'helmet_01a') this.load.image(item, `armors/${item}.png`);
-        });
-
-        // Load marketplace items - Misc
-        const misc = ['book_01a', 'book_01b', 'book_02a', 'book_02b', 'coin_01a', 'coin_01b', 'coin_02a', 'coin_02b', 'crystal_01a', 'crystal_01b', 'gem_01a', 'gem_01b', 'gift_01a', 'gift_01b', 'ingot_01a', 'ingot_01b', 'key_01a', 'key_01b', 'necklace_01a', 'necklace_01b', 'pearl_01a', 'pearl_01b', 'ring_01a', 'ring_01b', 'scroll_01a', 'scroll_01b', 'scroll_01c', 'scroll_01d', 'scroll_01e', 'scroll_01f'];
-        misc.forEach(item => this.load.image(item, `misc/${item}.png`));
-
-        // Load marketplace items - Consumables
-        const consumables = ['potion_01a', 'potion_01b', 'potion_01c', 'potion_01d', 'potion_01e', 'potion_01f', 'potion_01g', 'potion_01h', 'potion_02a', 'potion_02b', 'potion_02c', 'potion_02d', 'potion_02e', 'potion_02f', 'potion_03a', 'potion_03b', 'fish_01a', 'fish_01b', 'fish_01c', 'fish_01d', 'fish_01e', 'candy_01a', 'candy_01b', 'candy_01c', 'candy_01d', 'candy_01e', 'candy_01f', 'candy_01g', 'candy_02a', 'candy_02b'];
-        consumables.forEach(item => {
-            if (item !== 'potion_01a' && item !== 'fish_01a' && item !== 'candy_01a') {
-                this.load.image(item, `consumables/${item}.png`);
-            }
-        });
+        // Load every item sprite listed in the item catalog
+        getItemSpritePreloads().forEach(({ key, path }) => this.load.image(key, path));
 
         // Load UI assets
         this.load.setPath('assets/ui');
@@ -356,9 +413,9 @@ export class FarmScene extends Scene {
         this.floatingHintManager = new FloatingHintManager(this);
 
         // Initialize OneChain services for real blockchain minting
-        this.suiClient = new SuiClient({ url: ONECHAIN_NETWORK.RPC_URL });
+        this.chain = getChainBackend();
         this.walletBridge = WalletBridgeService.getInstance();
-        this.oneChainHarvester = this.walletBridge.getHarvester() || new OneChainHarvester(this.suiClient);
+        this.oneChainHarvester = this.walletBridge.getHarvester() || new OneChainHarvester(this.chain);
         
         // Initialize HUD Bridge for React HUD
         this.hudBridge = HUDBridgeService.getInstance();
@@ -387,6 +444,35 @@ export class FarmScene extends Scene {
         this.collisionLayers = [];
         this.treeLayers = [];
         this.tileCollisionBodies = new Map();
+        this.crops = new Map();
+        this.cropSprites = new Map();
+        this.windEffectTweens = new Map();
+        this.droppedCrops = new Map();
+        this.lootDrops = new Map();
+        this.harvestedCropCount = 0;
+        this.resourceNodes = new ResourceNodeTracker();
+        this.rockNodes = new Map();
+        this.depletedNodeSprites = new Map();
+        this.farmLayout = new FarmLayout();
+        this.chestStorage = new ChestStorage();
+        this.buffTracker = new BuffTracker();
+        this.fishingSession = undefined;
+        this.fishingBobber = undefined;
+        this.placedStructures = new Map();
+        this.buildMode = false;
+        this.buildSelection = 0;
+        this.buildRotation = 0;
+        this.gameClock = new GameClock();
+        this.tilledTiles = new Set();
+        this.wateringCanLevel = WATERING_CAN_CAPACITY;
+        this.toolConditions = new ToolConditionTracker();
+        this.questTracker = new QuestTracker();
+        this.livestock = new LivestockManager();
+        this.progression = new PlayerProgression();
+        this.energy = new PlayerEnergy();
+        this.reportedEnergy = -1;
+        this.wasExhausted = false;
+        this.farmStateLoaded = false;
         this.marketplaceIcon = null as any;
         this.settingsIcon = null as any;
 
@@ -412,9 +498,18 @@ export class FarmScene extends Scene {
         this.createCows();
         this.createSheep();
         this.createRandomAnimals();
+        this.registerHerd();
         this.createNPC();
         this.createEnemies();
+        createFarmItemTextures(this);
+        createBuildableTextures(this);
+        createDishTextures(this);
+        const missingSprites = validateItemCatalog(key => this.textures.exists(key));
+        if (missingSprites.length > 0) {
+            console.error('❌ Item catalog entries without a loaded sprite:', missingSprites);
+        }
         this.setupInputs();
+        this.setupBuildMode();
         this.setupCamera();
         this.createCollectButton();
         this.createMintModal();
@@ -424,10 +519,15 @@ export class FarmScene extends Scene {
 
         // Set up physics colliders for all entities
         this.setupColliders();
+        this.createRockNodes();
 
         // Listen for interaction
         this.handleInteraction();
 
+        // Restore the saved farm (world state is applied as soon as it loads)
+        this.saveGameService = SaveGameService.getInstance();
+        this.farmSaveLoaded = this.loadFarmState();
+
         EventBus.emit('current-scene-ready', this);
 
         // Set up transaction notification listeners
@@ -440,22 +540,69 @@ export class FarmScene extends Scene {
         this.scene.launch(SCENE_KEYS.UI, { parent: this });
 
         // Add test items and show UI after a short delay to ensure everything is loaded
-        this.time.delayedCall(1000, () => {
+        this.time.delayedCall(1000, async () => {
+            const save = await this.farmSaveLoaded;
             const uiScene = this.scene.get(SCENE_KEYS.UI) as UIScene;
             if (uiScene) {
-                // Populate all 8 itembar slots with different items
-                uiScene.addItem('sword_01a', 0, 'weapon', 1);
-                uiScene.addItem('potion_01a', 1, 'consumable', 5);
-                uiScene.addItem('helmet_01a', 2, 'armor', 1);
-                uiScene.addItem('fish_01a', 3, 'consumable', 12);
-                uiScene.addItem('gem_01a', 4, 'misc', 3);
-                uiScene.addItem('bow_01a', 5, 'weapon', 1);
-                uiScene.addItem('candy_01a', 6, 'consumable', 25);
-                uiScene.addItem('shield_01a', 7, 'weapon', 1);
+                if (save?.inventory) {
+                    uiScene.restoreInventory(save.inventory);
+                } else {
+                    // Populate all 8 itembar slots with the starter farming kit
+                    uiScene.addItem('tool_hoe', 0, 'tool', 1);
+                    uiScene.addItem('tool_watering_can', 1, 'tool', 1);
+                    uiScene.addItem('tool_axe', 2, 'tool', 1);
+                    uiScene.addItem('seeds_carrot', 3, 'seed', 10);
+                    uiScene.addItem('seeds_wheat', 4, 'seed', 10);
+                    uiScene.addItem('seeds_corn', 5, 'seed', 5);
+                    uiScene.addItem('sword_01a', 6, 'weapon', 1);
+                    uiScene.addItem('potion_01a', 7, 'consumable', 5);
+
+                    // Remaining test items go into the backpack
+                    uiScene.addItemToBackpack('helmet_01a', 0, 'armor', 1);
+                    uiScene.addItemToBackpack('fish_01a', 1, 'consumable', 12);
+                    uiScene.addItemToBackpack('gem_01a', 2, 'misc', 3);
+                    uiScene.addItemToBackpack('bow_01a', 3, 'weapon', 1);
+                    uiScene.addItemToBackpack('candy_01a', 4, 'consumable', 25);
+                    uiScene.addItemToBackpack('shield_01a', 5, 'armor', 1);
+                    uiScene.addItemToBackpack('tool_pickaxe', 6, 'tool', 1);
+                    uiScene.addItemToBackpack('tool_fishing_rod', 7, 'tool', 1);
+                }
+
+                // Level perks need the inventory in place (unlocked backpack slots)
+                this.applyLevelPerks();
+                this.playerCurrentHp = this.playerMaxHp;
+                this.hudBridge.setHealth(this.playerCurrentHp);
+                EventBus.emit('player-hp-changed', {
+                    current: this.playerCurrentHp,
+                    max: this.playerMaxHp
+                });
 
                 // Show the UI after adding items
                 uiScene.showUI();
             }
+
+            // Only start saving once the loaded state (including inventory) is in place
+            this.farmStateLoaded = true;
+        });
+
+        // Start the day/night cycle
+        this.setupGameClock();
+
+        // Track quest progress from game events
+        this.setupQuests();
+
+        // Autosave periodically
+        this.time.addEvent({
+            delay: this.AUTOSAVE_INTERVAL,
+            callback: () => this.saveFarmState(),
+            loop: true
+        });
+
+        // Advance crop growth over time
+        this.time.addEvent({
+            delay: this.CROP_GROWTH_TICK,
+            callback: () => this.updateCropGrowth(),
+            loop: true
         });
 
         // Start background music
@@ -470,16 +617,25 @@ export class FarmScene extends Scene {
         this.scale.on('resize', this.handleResize, this);
     }
 
-    update() {
+    update(_time: number, delta: number) {
+        this.gameClock.update(delta);
+        this.updateDayNightLighting();
+
         if (!this.isChatting) {
             this.handlePlayerMovement();
         }
+        this.updateEnergy(delta);
         this.updateNPCNamePosition();
         this.updateChatBubblePosition();
         this.checkNPCProximity();
         this.checkMarketplaceProximity();
         this.updateCollectButton();
-        this.updateFloatingCarrots();
+        this.updateFloatingDrops();
+        this.updateLootDrops();
+        this.updateProduceIndicators();
+        this.updateBuildMode();
+        this.updateOpenPanels();
+        this.updateFishing(delta);
 
         // Update contextual action system
         if (this.contextualActionManager && this.floatingHintManager) {
@@ -956,6 +1112,7 @@ export class FarmScene extends Scene {
 
         // Create static physics group for custom collision shapes
         const collisionGroup = this.physics.add.staticGroup();
+        this.collisionGroup = collisionGroup;
 
         // Create physics bodies for rectangles (Arcade Physics only supports rectangles)
         const rectangles = collisionShapes.filter(shape => shape.type === 'rectangle');
@@ -1038,12 +1195,8 @@ export class FarmScene extends Scene {
             }
         });
 
-        // Add colliders for enemies
-        this.enemies.forEach(enemy => {
-            if (enemy && enemy.active) {
-                this.physics.add.collider(enemy, collisionGroup);
-            }
-        });
+        // Add colliders for enemies (the spawner keeps this array up to date)
+        this.physics.add.collider(this.enemies, collisionGroup);
 
         // Add overlap detection between player and enemies (for damage)
         this.physics.add.overlap(this.player, this.enemies as any, this.handlePlayerEnemyCollision as any, undefined, this);
@@ -1734,27 +1887,18 @@ export class FarmScene extends Scene {
     }
 
     private createEnemies(): void {
-        // Spawn some skeletons in different areas of the map
-        // Skeleton 1 - Near the right side of map
-        const skeleton1 = new Enemy(this, 600, 300, 'skeleton', 'skeleton', 30, 10, 50);
-        this.enemies.push(skeleton1);
+        // Zones are populated now; night waves follow the game clock
+        this.enemySpawner = new EnemySpawner(this, this.enemies, () => this.player);
+        this.enemySpawner.start();
 
-        // Skeleton 2 - Lower area
-        const skeleton2 = new Enemy(this, 500, 500, 'skeleton', 'skeleton', 30, 10, 50);
-        this.enemies.push(skeleton2);
-
-        // Spawn some slimes
-        // Slime 1 - Upper right
-        const slime1 = new Enemy(this, 650, 200, 'slime', 'slime', 20, 5, 30);
-        this.enemies.push(slime1);
-
-        // Slime 2 - Lower left
-        const slime2 = new Enemy(this, 250, 550, 'slime', 'slime', 20, 5, 30);
-        this.enemies.push(slime2);
+        EventBus.on('enemy-wave-spawned', this.handleEnemyWaveSpawned, this);
+        this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+            EventBus.off('enemy-wave-spawned', this.handleEnemyWaveSpawned, this);
+        });
+    }
 
-        // Slime 3 - Middle area
-        const slime3 = new Enemy(this, 450, 350, 'slime', 'slime', 20, 5, 30);
-        this.enemies.push(slime3);
+    private handleEnemyWaveSpawned(event: { count: number }): void {
+        this.hudBridge.notifyWarning('Night Raid', `${event.count} monsters are prowling the valley!`, 4000);
     }
 
     private moveAnimalRandomly(animal: Phaser.Physics.Arcade.Sprite, animalType: 'chicken' | 'cow' | 'sheep'): void {
@@ -1834,6 +1978,18 @@ export class FarmScene extends Scene {
             return;
         }
 
+        // Follow the daily schedule: only patrol during working hours
+        const activity = getScheduledActivity(HERMAN_SCHEDULE, this.gameClock.getTime().hour);
+        this.npc.setAlpha(activity === 'sleep' ? 0.6 : 1);
+        if (activity !== 'patrol') {
+            this.npc.setVelocity(0, 0);
+            this.npc.play('npc-idle-right', true);
+            this.time.delayedCall(2000, () => {
+                this.startNPCPatrolCycle();
+            });
+            return;
+        }
+
         const speed = 60;
         const walkDuration = 2000; // Walk for 2 seconds
         const idleDuration = 4000; // Idle for 4 seconds in the middle
@@ -1940,10 +2096,11 @@ export class FarmScene extends Scene {
         this.escKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.ESC);
         this.attackKey = this.input.keyboard!.addKey('Q');
         this.spaceKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.SPACE);
-        this.cutKey = this.input.keyboard!.addKey('R');
         this.harvestKey = this.input.keyboard!.addKey('H');
         this.collectKey = this.input.keyboard!.addKey('C');
         this.marketplaceKey = this.input.keyboard!.addKey('M');
+        this.repairKey = this.input.keyboard!.addKey('R');
+        this.upgradeKey = this.input.keyboard!.addKey('U');
 
         this.escKey.on('down', () => {
             if (this.isChatting) {
@@ -1954,12 +2111,20 @@ export class FarmScene extends Scene {
         });
 
         this.spaceKey.on('down', () => this.tryStartChat());
-        this.cutKey.on('down', () => this.tryCutTree());
         this.harvestKey.on('down', () => this.tryHarvestCrop());
-        this.collectKey.on('down', () => this.tryCollectCarrots());
+        this.collectKey.on('down', () => {
+            this.collectAnimalProduce();
+            this.tryCollectCrops();
+        });
         this.marketplaceKey.on('down', () => this.openMarketplace());
-        this.waterKey = this.input.keyboard!.addKey('T');
-        this.waterKey.on('down', () => this.tryWater());
+        this.repairKey.on('down', () => {
+            if (this.buildMode) {
+                this.rotateBuildable();
+            } else {
+                this.tryRepairAtHerman();
+            }
+        });
+        this.upgradeKey.on('down', () => this.tryUpgradeAtHerman());
 
         // Listen for keyboard input for chat
         this.input.keyboard!.on('keydown', (event: KeyboardEvent) => {
@@ -2046,14 +2211,14 @@ export class FarmScene extends Scene {
             return;
         }
 
-        // Don't move if watering
-        if (this.isWatering) {
+        // Don't move if watering or fishing
+        if (this.isWatering || this.fishingSession) {
             this.player.setVelocity(0, 0);
             return;
         }
 
-        // Check if attack key is being held down
-        if (this.attackKey.isDown) {
+        // Check if attack key is being held down (no fighting while building)
+        if (this.attackKey.isDown && !this.buildMode) {
             this.handleAttack();
             return;
         }
@@ -2062,8 +2227,13 @@ export class FarmScene extends Scene {
         const right = this.wasd.right.isDown;
         const up = this.wasd.up.isDown;
         const down = this.wasd.down.isDown;
-        const isRunning = this.shiftKey.isDown;
-        const speed = isRunning ? this.playerRunSpeed : this.playerSpeed;
+        // Exhausted players can't run and walk slower
+        const exhausted = this.energy.isExhausted();
+        const isRunning = this.shiftKey.isDown && !exhausted;
+        const baseSpeed = exhausted
+            ? this.playerSpeed * EXHAUSTED_SPEED_MULTIPLIER
+            : isRunning ? this.playerRunSpeed : this.playerSpeed;
+        const speed = baseSpeed * this.buffTracker.getSpeedMultiplier(this.gameClock.getTotalMinutes());
 
         const velocity = new Phaser.Math.Vector2(
             Number(right) - Number(left),
@@ -2103,8 +2273,8 @@ export class FarmScene extends Scene {
 
         const enemySprite = enemy as Enemy;
         
-        // Check if enemy is dead
-        if (enemySprite.getIsDead()) {
+        // Check if enemy is dead or not mid-lunge (only attacks hurt)
+        if (enemySprite.getIsDead() || !enemySprite.isAttacking()) {
             return;
         }
 
@@ -2186,25 +2356,162 @@ export class FarmScene extends Scene {
     }
 
     private handleInteraction(): void {
-        this.interactKey.on('down', () => {
-            const playerTileX = this.farmingLayer.worldToTileX(this.player.x);
-            const playerTileY = this.farmingLayer.worldToTileY(this.player.y);
-            const radius = 2;
-
-            for (let y = playerTileY - radius; y <= playerTileY + radius; y++) {
-                for (let x = playerTileX - radius; x <= playerTileX + radius; x++) {
-                    const targetTile = this.farmingLayer.getTileAt(x, y);
-                    const existingCrop = this.crops.get(`${x},${y}`);
-
-                    // Check if the tile is tilled soil and has no crop sprite
-                    if (targetTile && this.farmableTileIndices.has(targetTile.index) && !existingCrop) {
-                        // Plant a carrot crop and immediately stop searching
-                        this.plantCarrot(x, y);
-                        return;
+        // E uses whatever is selected in the UIScene item bar
+        this.interactKey.on('down', () => this.useSelectedItem());
+    }
+
+    private useSelectedItem(): void {
+        if (this.isChatting || this.isDead || this.buildMode) return;
+
+        // While the line is out the use key hooks and reels
+        if (this.fishingSession) {
+            this.reelFishing();
+            return;
+        }
+
+        const uiScene = this.scene.get(SCENE_KEYS.UI) as UIScene;
+        const selectedItem = uiScene?.scene.isActive() ? uiScene.getSelectedItem() : null;
+        if (!selectedItem) {
+            this.showHarvestFeedback('Select a tool or seeds first!');
+            return;
+        }
+
+        const tool = getFarmTool(selectedItem.itemId);
+        if (tool && selectedItem.instanceId) {
+            const instanceId = selectedItem.instanceId;
+            if (this.toolConditions.isBroken(instanceId)) {
+                this.showHarvestFeedback(`${tool.displayName} is broken! Repair it at Herman`);
+                return;
+            }
+            if (this.energy.getEnergy() < ENERGY_COSTS[tool.action]) {
+                this.showHarvestFeedback('Too tired! Rest or eat something');
+                return;
+            }
+
+            let used = false;
+            switch (tool.action) {
+                case 'till':
+                    used = this.tryTill();
+                    break;
+                case 'water':
+                    used = this.tryWater();
+                    break;
+                case 'cut':
+                    used = this.tryCutTree(this.toolConditions.getPower(instanceId));
+                    break;
+                case 'mine':
+                    used = this.tryMineRock(this.toolConditions.getPower(instanceId));
+                    break;
+                case 'fish':
+                    used = this.tryCastLine();
+                    break;
+            }
+
+            if (used) {
+                this.wearItem(instanceId, tool.displayName);
+                this.energy.spend(tool.action);
+            }
+            return;
+        }
+
+        // Animals nearby get first pick of anything they eat
+        if (this.tryFeedAnimal(selectedItem.itemId, uiScene)) return;
+
+        const dish = getDish(selectedItem.itemId);
+        if (dish) {
+            this.eatDish(dish, uiScene);
+            return;
+        }
+
+        const energy = getItemEnergy(selectedItem.itemId);
+        if (energy > 0) {
+            this.eatSelectedItem(selectedItem.itemId, energy, uiScene);
+            return;
+        }
+
+        const seedSpecies = getSpeciesForSeed(selectedItem.itemId);
+        if (seedSpecies) {
+            this.tryPlantSeed(seedSpecies, uiScene);
+        }
+    }
+
+    /**
+     * Tile directly in front of the player
+     */
+    private getFacingTile(): { x: number; y: number } {
+        const offsets: Record<string, { x: number; y: number }> = {
+            up: { x: 0, y: -1 },
+            down: { x: 0, y: 1 },
+            left: { x: -1, y: 0 },
+            right: { x: 1, y: 0 }
+        };
+        const offset = offsets[this.currentDirection] ?? offsets.down;
+
+        return {
+            x: this.farmingLayer.worldToTileX(this.player.x) + offset.x,
+            y: this.farmingLayer.worldToTileY(this.player.y) + offset.y
+        };
+    }
+
+    private tryTill(): boolean {
+        if (this.isCutting || this.isWatering || this.isAttacking) return false;
+
+        const { x, y } = this.getFacingTile();
+        if (x < 0 || y < 0 || x >= this.map.width || y >= this.map.height) return false;
+
+        const existingTile = this.farmingLayer.getTileAt(x, y);
+        if (existingTile && this.farmableTileIndices.has(existingTile.index)) {
+            this.showHarvestFeedback('Already tilled!');
+            return false;
+        }
+
+        // Only bare ground can be tilled: no paths, water, buildings, fences or trees
+        const blocked = !!existingTile
+            || this.farmLayout.isOccupied(x, y)
+            || this.collisionLayers.some(layer => layer.getTileAt(x, y))
+            || this.treeLayers.some(layer => layer.getTileAt(x, y));
+        if (blocked) {
+            this.showHarvestFeedback("Can't till here!");
+            return false;
+        }
+
+        this.tillTile(x, y);
+        return true;
+    }
+
+    private tillTile(x: number, y: number): void {
+        this.farmingLayer.putTileAt(this.TILLED_SOIL_TILE, x, y);
+        this.tilledTiles.add(`${x},${y}`);
+    }
+
+    private tryPlantSeed(species: CropSpecies, uiScene: UIScene): void {
+        const season = this.gameClock.getSeason();
+        if (!isInSeason(species, season)) {
+            this.showHarvestFeedback(`${species.displayName} doesn't grow in ${season}!`);
+            return;
+        }
+
+        const playerTileX = this.farmingLayer.worldToTileX(this.player.x);
+        const playerTileY = this.farmingLayer.worldToTileY(this.player.y);
+        const radius = 2;
+
+        for (let y = playerTileY - radius; y <= playerTileY + radius; y++) {
+            for (let x = playerTileX - radius; x <= playerTileX + radius; x++) {
+                const targetTile = this.farmingLayer.getTileAt(x, y);
+                const existingCrop = this.crops.get(`${x},${y}`);
+
+                // Check if the tile is tilled soil with no crop sprite or structure on it
+                if (targetTile && this.farmableTileIndices.has(targetTile.index) && !existingCrop && !this.farmLayout.isOccupied(x, y)) {
+                    // Plant one seed from the selected packet and immediately stop searching
+                    if (uiScene.consumeSelectedItem(1)) {
+                        this.plantCrop(x, y, species.id);
                     }
+                    return;
                 }
             }
-        });
+        }
+
+        this.showHarvestFeedback('No empty tilled soil nearby!');
     }
 
     private setupTransactionNotifications(): void {
@@ -2320,50 +2627,28 @@ export class FarmScene extends Scene {
         });
     }
 
-    private plantCarrot(tileX: number, tileY: number): void {
+    private plantCrop(tileX: number, tileY: number, speciesId: CropSpeciesId = 'carrot'): Crop {
         const cropKey = `${tileX},${tileY}`;
 
         // Create the crop object
-        const crop: Crop = {
-            x: tileX,
-            y: tileY,
-            growthStage: 0,
-            type: 'carrot',
-            plantedTime: this.time.now
-        };
+        const crop = this.cropGrowthScheduler.createCrop(tileX, tileY, speciesId, Date.now());
 
-        // Store the crop
+        // Store the crop and draw its seed sprite
         this.crops.set(cropKey, crop);
+        this.renderCrop(cropKey);
 
-        // Calculate world position (tile center + half tile offset)
-        const worldX = tileX * 16 + 8;
-        const worldY = tileY * 16 + 8;
-
-        // Create initial seed sprite (stage 0) using carrot stage 1 sprite
-        console.log('Creating carrot seed sprite with key: carrot_stage1, exists:', this.textures.exists('carrot_stage1'));
-        const seedSprite = this.add.sprite(worldX, worldY, 'carrot_stage1');
-        seedSprite.setOrigin(0.5, 1); // Center bottom
-        seedSprite.setDepth(tileY); // Z-order based on row position, same level as tiles
-
-        // No wind effect on seed stage
-
-        // Store sprite for this crop
-        this.cropSprites.set(cropKey, [seedSprite]);
-
-        // No automatic growth timers - growth only happens when watered
+        // Growth is driven by updateCropGrowth() while the crop is watered
+        return crop;
     }
 
-    private growCarrot(cropKey: string, newStage: number): void {
+    /**
+     * Redraw a crop's sprite for its current growth stage and wilted state
+     */
+    private renderCrop(cropKey: string): void {
         const crop = this.crops.get(cropKey);
         if (!crop) return;
 
-        const existingSprites = this.cropSprites.get(cropKey);
-        if (!existingSprites) return;
-
-        // Don't grow beyond stage 2 (mature)
-        if (newStage > 2) return;
-
-        crop.growthStage = newStage;
+        const species = getCropSpecies(crop.type);
 
         // Clean up existing wind effect tweens
         const existingTweens = this.windEffectTweens.get(cropKey);
@@ -2376,47 +2661,56 @@ export class FarmScene extends Scene {
             this.windEffectTweens.delete(cropKey);
         }
 
-        // Remove existing sprites and text
-        existingSprites.forEach(obj => {
+        // Remove existing sprites
+        this.cropSprites.get(cropKey)?.forEach(obj => {
             if (obj && obj.active) {
                 obj.destroy();
             }
         });
 
-        // Calculate world positions for new sprites
+        // Calculate world position (tile center + half tile offset)
         const worldX = crop.x * 16 + 8;
         const worldY = crop.y * 16 + 8;
 
-        const newSprites: Phaser.GameObjects.GameObject[] = [];
-
-        switch (newStage) {
-            case 1:
-                // Growing stage: use carrot stage 2 sprite
-                const growingSprite = this.add.sprite(worldX, worldY, 'carrot_stage2');
-                growingSprite.setOrigin(0.5, 1); // Center bottom
-                growingSprite.setDepth(crop.y); // Same level as tiles
+        const sprite = this.add.sprite(worldX, worldY, species.stageSprites[crop.growthStage]);
+        sprite.setOrigin(0.5, 1); // Center bottom
+        sprite.setDepth(crop.y); // Z-order based on row position, same level as tiles
 
-                // Apply wind effect to growing crop
-                this.applyWindEffect(growingSprite, cropKey);
+        if (crop.wilted) {
+            sprite.setTint(0x8b7355); // Dried-out brown
+            sprite.setAngle(8); // Droop
+        } else {
+            if (species.tint !== undefined) {
+                sprite.setTint(species.tint);
+            }
 
-                newSprites.push(growingSprite);
-                break;
+            // No wind effect on seed stage
+            if (crop.growthStage > 0) {
+                this.applyWindEffect(sprite, cropKey);
+            }
+        }
 
-            case 2:
-                // Fully grown stage: use carrot stage 3 sprite
-                const matureSprite = this.add.sprite(worldX, worldY, 'carrot_stage3');
-                matureSprite.setOrigin(0.5, 1); // Center bottom
-                matureSprite.setDepth(crop.y); // Same level as tiles
+        this.cropSprites.set(cropKey, [sprite]);
+    }
 
-                // Apply wind effect to mature crop
-                this.applyWindEffect(matureSprite, cropKey);
+    /**
+     * Advance crop growth by elapsed time and redraw crops that changed
+     */
+    private updateCropGrowth(): void {
+        const changes = this.cropGrowthScheduler.update(this.crops, Date.now(), this.gameClock.getSeason());
 
-                newSprites.push(matureSprite);
-                break;
-        }
+        changes.forEach(change => {
+            this.renderCrop(change.cropKey);
 
-        // Store new sprites
-        this.cropSprites.set(cropKey, newSprites);
+            const crop = this.crops.get(change.cropKey);
+            if (crop && change.wiltedChanged && crop.wilted) {
+                this.showTransactionNotification(
+                    `${getCropSpecies(crop.type).displayName} is wilting! Water it with the watering can.`,
+                    'warning',
+                    2500
+                );
+            }
+        });
     }
 
     private updatePlayerAnimation(isRunning: boolean): void {
@@ -2454,6 +2748,11 @@ export class FarmScene extends Scene {
 
         this.isAttacking = true;
 
+        const weapon = this.getSelectedWeapon();
+        if (weapon && this.toolConditions.isBroken(weapon.instanceId)) {
+            this.showHarvestFeedback('Weapon is broken! Fighting bare-handed');
+        }
+
         // Add screen shake effect
         this.cameras.main.shake(120, 0.002);
 
@@ -2468,8 +2767,33 @@ export class FarmScene extends Scene {
         this.player.on('animationcomplete', this.onAttackComplete, this);
     }
 
+    private getSelectedWeapon(): { itemId: string; instanceId: string } | null {
+        const uiScene = this.scene.get(SCENE_KEYS.UI) as UIScene;
+        const selectedItem = uiScene?.scene.isActive() ? uiScene.getSelectedItem() : null;
+        if (!selectedItem?.instanceId || !isWeaponItem(selectedItem.itemId)) return null;
+        return { itemId: selectedItem.itemId, instanceId: selectedItem.instanceId };
+    }
+
+    /**
+     * Damage for one swing; swinging an intact weapon wears it down
+     */
+    private resolveAttackDamage(): number {
+        const weapon = this.getSelectedWeapon();
+        if (!weapon || this.toolConditions.isBroken(weapon.instanceId)) {
+            return UNARMED_DAMAGE;
+        }
+
+        const damage = Math.round(WEAPON_BASE_DAMAGE * this.toolConditions.getPower(weapon.instanceId));
+        this.wearItem(weapon.instanceId, this.getItemLabel(weapon.itemId));
+        return damage;
+    }
+
     private checkAttackHit(): void {
         const attackRange = 50;
+        const damage = this.resolveAttackDamage();
+
+        // Swings always land, but wear the player out
+        this.energy.drain(ENERGY_COSTS.attack);
 
         // Check chickens
         this.chickens.forEach(chicken => {
@@ -2523,13 +2847,20 @@ export class FarmScene extends Scene {
             );
 
             if (distance < attackRange) {
-                enemy.takeDamage(10); // Player deals 10 damage per attack
+                enemy.takeDamage(damage);
+                if (enemy.getIsDead()) {
+                    this.recordQuestProgress({ type: 'defeat', target: enemy.getEnemyType() });
+                    this.grantExperience(XP_REWARDS.enemy[enemy.getEnemyType()]);
+                    this.dropLoot(`enemy_${enemy.getEnemyType()}`, enemy.x, enemy.y);
+                }
             }
         });
     }
 
     private damageAnimal(animal: Phaser.Physics.Arcade.Sprite, animalType: 'chicken' | 'cow' | 'sheep'): void {
         const currentHealth = animal.getData('health');
+        if (currentHealth <= 0) return; // Already dying
+
         const newHealth = currentHealth - 1;
         animal.setData('health', newHealth);
 
@@ -2543,6 +2874,8 @@ export class FarmScene extends Scene {
             // Animal dies
             animal.setVelocity(0, 0);
             animal.setAlpha(0.5);
+            this.dropLoot(`animal_${animalType}`, animal.x, animal.y);
+            this.releaseLivestock(animal);
 
             // Cancel the movement timer to prevent callbacks on destroyed object
             const movementTimer = animal.getData('movementTimer');
@@ -2594,40 +2927,87 @@ export class FarmScene extends Scene {
         }
     }
 
-    private tryCutTree(): void {
-        if (this.isCutting || this.isChatting) return;
+    private tryCutTree(axePower: number): boolean {
+        if (this.isCutting || this.isChatting) return false;
 
         // Check if player is near a tree
         const nearestTree = this.findNearestTree();
 
         if (nearestTree) {
-            this.cutTree(nearestTree);
+            this.cutTree(nearestTree, axePower);
+            return true;
         }
+        return false;
     }
 
-    private tryWater(): void {
-        if (this.isWatering || this.isChatting || this.isCutting || this.isAttacking) return;
+    /**
+     * Returns true when a crop was watered (refilling does not wear the can)
+     */
+    private tryWater(): boolean {
+        if (this.isWatering || this.isChatting || this.isCutting || this.isAttacking) return false;
+
+        // Refill the watering can when standing next to water
+        if (this.wateringCanLevel < WATERING_CAN_CAPACITY && this.isNearWater()) {
+            this.wateringCanLevel = WATERING_CAN_CAPACITY;
+            this.showHarvestFeedback(`💧 Refilled! ${this.wateringCanLevel}/${WATERING_CAN_CAPACITY}`);
+            return false;
+        }
+
+        if (this.wateringCanLevel <= 0) {
+            this.showHarvestFeedback('Watering can is empty! Refill at water');
+            return false;
+        }
 
-        // Find nearby crop to water
+        // Find nearby crop to water, preferring ones that are thirsty
         const playerTileX = Math.floor(this.player.x / 16);
         const playerTileY = Math.floor(this.player.y / 16);
         const radius = 2;
+        const now = Date.now();
+        let target: { cropKey: string; crop: Crop } | null = null;
 
         for (let y = playerTileY - radius; y <= playerTileY + radius; y++) {
             for (let x = playerTileX - radius; x <= playerTileX + radius; x++) {
                 const cropKey = `${x},${y}`;
                 const crop = this.crops.get(cropKey);
 
-                if (crop && crop.growthStage < 2) {
-                    this.waterPlant(cropKey, crop);
-                    return;
+                if (crop && !isCropMature(crop)) {
+                    if (this.cropGrowthScheduler.isThirsty(crop, now)) {
+                        this.waterPlant(cropKey, crop);
+                        return true;
+                    }
+                    target = target ?? { cropKey, crop };
+                }
+            }
+        }
+
+        if (target) {
+            this.waterPlant(target.cropKey, target.crop);
+            return true;
+        }
+
+        this.showHarvestFeedback('No crops need water nearby!');
+        return false;
+    }
+
+    private isNearWater(): boolean {
+        const playerTileX = this.farmingLayer.worldToTileX(this.player.x);
+        const playerTileY = this.farmingLayer.worldToTileY(this.player.y);
+        const radius = 2;
+
+        for (let y = playerTileY - radius; y <= playerTileY + radius; y++) {
+            for (let x = playerTileX - radius; x <= playerTileX + radius; x++) {
+                const tile = this.farmingLayer.getTileAt(x, y);
+                if (tile && this.waterTileIndices.has(tile.index)) {
+                    return true;
                 }
             }
         }
+        return false;
     }
 
     private waterPlant(cropKey: string, crop: Crop): void {
         this.isWatering = true;
+        this.wateringCanLevel--;
         this.player.setVelocity(0, 0);
 
         // Switch to player_actions texture and play watering animation
@@ -2641,8 +3021,16 @@ export class FarmScene extends Scene {
             this.player.setTexture('player', 0);
             this.player.play(`idle-${this.currentDirection}`, true);
 
-            // Grow the crop by one stage
-            this.growCarrot(cropKey, crop.growthStage + 1);
+            // Start a new hydration window; growth continues over time
+            const wasWilted = crop.wilted;
+            this.cropGrowthScheduler.water(crop, Date.now(), this.gameClock.getSeason());
+            if (this.crops.get(cropKey) === crop) {
+                this.renderCrop(cropKey);
+            }
+            if (wasWilted) {
+                this.showTransactionNotification(`${getCropSpecies(crop.type).displayName} revived!`, 'success', 2000);
+            }
+            this.showHarvestFeedback(`💧 ${this.wateringCanLevel}/${WATERING_CAN_CAPACITY}`);
         });
     }
 
@@ -2695,21 +3083,13 @@ export class FarmScene extends Scene {
         return nearestTree;
     }
 
-    private cutTree(tree: { x: number; y: number; direction: string; tile: Phaser.Tilemaps.Tile; layer: Phaser.Tilemaps.TilemapLayer }): void {
+    private cutTree(tree: { x: number; y: number; direction: string; tile: Phaser.Tilemaps.Tile; layer: Phaser.Tilemaps.TilemapLayer }, axePower: number): void {
         this.isCutting = true;
         this.player.setVelocity(0, 0);
 
         // Face the tree
         this.currentDirection = tree.direction;
 
-        // Get or initialize hit count for this tree group
-        // We'll track the entire tree by storing data on the tile we're hitting
-        let hitCount = tree.tile.properties.hitCount || 0;
-        hitCount++;
-
-        // Store hit count
-        tree.tile.properties.hitCount = hitCount;
-
         // Switch to player_actions texture and play cutting animation
         this.player.setTexture('player_actions', 0);
         const cutAnim = `cut-tree-${tree.direction}`;
@@ -2721,16 +3101,19 @@ export class FarmScene extends Scene {
             this.player.setTexture('player', 0);
             this.player.play(`idle-${this.currentDirection}`, true);
 
-            // Check if tree should be removed
-            if (hitCount >= 5) {
-                // Remove all connected tiles that form this tree
-                this.removeConnectedTreeTiles(tree.tile, tree.layer);
+            // The whole cluster of connected tiles is one tree (better axes hit harder)
+            const tiles = this.findConnectedTreeTiles(tree.tile, tree.layer);
+            const nodeId = getTreeNodeId(tree.layer.layer.name, tiles);
+            if (this.resourceNodes.hit(nodeId, 'tree', axePower, this.getDayIndex())) {
+                this.fellTree(nodeId, tree.layer, tiles);
+                this.grantExperience(XP_REWARDS.treeCut);
+                this.dropLoot(getResourceNodeType('tree').lootTableId, tree.x, tree.y);
             }
         });
     }
 
-    private removeConnectedTreeTiles(startTile: Phaser.Tilemaps.Tile, layer: Phaser.Tilemaps.TilemapLayer): void {
-        const tilesToRemove: Set<string> = new Set();
+    private findConnectedTreeTiles(startTile: Phaser.Tilemaps.Tile, layer: Phaser.Tilemaps.TilemapLayer): Phaser.Tilemaps.Tile[] {
+        const treeTiles: Phaser.Tilemaps.Tile[] = [];
         const toCheck: Phaser.Tilemaps.Tile[] = [startTile];
         const checked: Set<string> = new Set();
 
@@ -2743,7 +3126,7 @@ export class FarmScene extends Scene {
             checked.add(key);
 
             if (tile && tile.index !== -1) {
-                tilesToRemove.add(key);
+                treeTiles.push(tile);
 
                 // Check all 8 adjacent tiles (including diagonals for tree canopy)
                 const directions = [
@@ -2761,22 +3144,26 @@ export class FarmScene extends Scene {
             }
         }
 
-        // Remove all tiles in the tree and their collision bodies
-        tilesToRemove.forEach(key => {
-            const [x, y] = key.split('_').map(Number);
-            layer.removeTileAt(x, y);
+        return treeTiles;
+    }
 
-            // Remove associated collision bodies
-            const collisionKey = `${x}_${y}_${layer.layer.name}`;
-            const bodies = this.tileCollisionBodies.get(collisionKey);
-            if (bodies) {
-                bodies.forEach(body => {
-                    if (body && body.active) {
-                        body.destroy();
-                    }
-                });
-                this.tileCollisionBodies.delete(collisionKey);
-            }
+    private removeTreeTile(layer: Phaser.Tilemaps.TilemapLayer, x: number, y: number): void {
+        layer.removeTileAt(x, y);
+        this.setTreeTileCollision(layer, x, y, false);
+    }
+
+    private restoreTreeTile(layer: Phaser.Tilemaps.TilemapLayer, x: number, y: number, index: number): void {
+        layer.putTileAt(index, x, y);
+        this.setTreeTileCollision(layer, x, y, true);
+    }
+
+    // Collision bodies are switched off rather than destroyed so regrown trees block again
+    private setTreeTileCollision(layer: Phaser.Tilemaps.TilemapLayer, x: number, y: number, enabled: boolean): void {
+        const bodies = this.tileCollisionBodies.get(`${x}_${y}_${layer.layer.name}`) ?? [];
+        bodies.forEach(body => {
+            const sprite = body as Phaser.Physics.Arcade.Sprite;
+            if (!sprite.active || !sprite.body) return;
+            sprite.body.enable = enabled;
         });
     }
 
@@ -3044,6 +3431,7 @@ export class FarmScene extends Scene {
     }
 
     private exitFarm(): void {
+        this.saveFarmState();
         this.cameras.main.fadeOut(500, 0, 0, 0);
 
         this.cameras.main.once('camerafadeoutcomplete', () => {
@@ -3059,141 +3447,1610 @@ export class FarmScene extends Scene {
         });
     }
 
-    private tryHarvestCrop(): void {
-        if (this.isHarvesting || this.isChatting || this.isCutting) return;
+    // ===== TOOL DURABILITY METHODS =====
 
-        const playerTileX = Math.floor(this.player.x / 16);
-        const playerTileY = Math.floor(this.player.y / 16);
-        const radius = 2;
+    public getToolCondition(instanceId: string): ToolCondition {
+        return { ...this.toolConditions.get(instanceId) };
+    }
 
-        // Find nearest mature carrot
-        for (let y = playerTileY - radius; y <= playerTileY + radius; y++) {
-            for (let x = playerTileX - radius; x <= playerTileX + radius; x++) {
-                const cropKey = `${x},${y}`;
-                const crop = this.crops.get(cropKey);
+    private getItemLabel(itemId: string): string {
+        return getFarmTool(itemId)?.displayName
+            ?? itemId.replace(/_\d+[a-z]?$/, '').replace(/^\w/, c => c.toUpperCase());
+    }
 
-                if (crop && crop.growthStage === 2) {
-                    this.harvestCarrot(cropKey, crop);
-                    return;
-                }
-            }
+    private wearItem(instanceId: string, label: string): void {
+        const { condition, broke } = this.toolConditions.wear(instanceId);
+
+        if (broke) {
+            this.showTransactionNotification(`${label} broke! Repair it at Herman (R).`, 'warning', 3000);
+            this.hudBridge.notifyWarning('Item Broken', `${label} needs repair`);
+        } else if (condition.durability === 10) {
+            this.showHarvestFeedback(`${label} is almost broken!`);
         }
-        
-        // No mature carrots found nearby - show feedback
-        this.showHarvestFeedback('No mature carrots nearby!');
     }
 
-    private harvestCarrot(cropKey: string, crop: Crop): void {
-        this.isHarvesting = true;
+    private getHermanServiceItem(): { instanceId: string; label: string } | null {
+        if (!this.isNearNPC || this.isChatting) return null;
 
-        // Get crop sprites and remove them
-        const sprites = this.cropSprites.get(cropKey);
-        if (sprites) {
-            sprites.forEach(sprite => {
-                if (sprite && sprite.active) {
-                    sprite.destroy();
-                }
-            });
-            this.cropSprites.delete(cropKey);
+        const uiScene = this.scene.get(SCENE_KEYS.UI) as UIScene;
+        const selectedItem = uiScene?.scene.isActive() ? uiScene.getSelectedItem() : null;
+        if (!selectedItem?.instanceId || !hasDurability(selectedItem.itemId)) {
+            this.showHarvestFeedback('Select a tool or weapon for Herman');
+            return null;
         }
 
-        // Clean up wind effects
-        const tweens = this.windEffectTweens.get(cropKey);
-        if (tweens) {
-            tweens.forEach(tween => {
-                if (tween && tween.isPlaying()) {
-                    tween.remove();
-                }
-            });
-            this.windEffectTweens.delete(cropKey);
-        }
+        return { instanceId: selectedItem.instanceId, label: this.getItemLabel(selectedItem.itemId) };
+    }
 
-        // Clean up timers
-        const timer1 = this.cropGrowthTimers.get(cropKey + '_stage1');
-        const timer2 = this.cropGrowthTimers.get(cropKey + '_stage2');
-        if (timer1) timer1.destroy();
-        if (timer2) timer2.destroy();
-        this.cropGrowthTimers.delete(cropKey + '_stage1');
-        this.cropGrowthTimers.delete(cropKey + '_stage2');
+    private tryRepairAtHerman(): void {
+        const target = this.getHermanServiceItem();
+        if (!target) return;
 
-        // Remove crop from map
-        this.crops.delete(cropKey);
+        const cost = this.toolConditions.getRepairCost(target.instanceId);
+        if (cost === 0) {
+            this.showHarvestFeedback(`${target.label} doesn't need repair`);
+            return;
+        }
+        if (this.hudBridge.getGoldCount() < cost) {
+            this.showHarvestFeedback(`Repair costs ${cost} gold`);
+            return;
+        }
 
-        // Create floating dropped carrot
-        const worldX = crop.x * 16 + 8 + Phaser.Math.Between(-4, 4);
-        const worldY = crop.y * 16 + 8 + Phaser.Math.Between(-4, 4);
-        
-        const droppedCarrot = this.add.sprite(worldX, worldY, 'carrot_stage3');
-        droppedCarrot.setScale(0.6);
-        droppedCarrot.setOrigin(0.5, 1);
-        droppedCarrot.setDepth(crop.y + 100);
-        droppedCarrot.setData('spawnTime', this.time.now);
-        droppedCarrot.setData('baseY', worldY);
-        
-        // Add glowing effect only
-        droppedCarrot.setTint(0xffff99); // Slight yellow tint
-        droppedCarrot.preFX?.addGlow(0xffd700, 4, 0, false, 0.3, 8); // Gold glow
+        this.hudBridge.removeGold(cost);
+        this.toolConditions.repair(target.instanceId);
+        this.showTransactionNotification(`🔧 Herman repaired your ${target.label} for ${cost} gold`, 'success', 3000);
+    }
 
-        // Store dropped carrot
-        const dropKey = `drop_${Date.now()}_${Math.random()}`;
-        this.droppedCarrots.set(dropKey, droppedCarrot);
-        this.harvestedCarrotCount++;
-        
-        // Notify HUD of harvest
-        this.hudBridge.onCropHarvested('Carrot', 1);
+    private tryUpgradeAtHerman(): void {
+        const target = this.getHermanServiceItem();
+        if (!target) return;
 
-        // Auto-mint carrot as NFT (lazy minting - background process)
-        const autoMint = AutoMintService.getInstance();
-        const carrotItemId = `carrot_${crop.x}_${crop.y}_${Date.now()}`;
-        autoMint.autoMintItem({
-            id: carrotItemId,
-            name: 'Carrot',
-            description: 'Freshly harvested carrot from OneValley farm',
-            type: 'consumable',
-            rarity: 1, // Common rarity
-            stats: [5, 10], // Small health boost
-        });
-        droppedCarrot.setData('gameItemId', carrotItemId);
-
-        // Play harvest animation - small pop up
-        this.tweens.add({
-            targets: droppedCarrot,
-            y: worldY - 10,
-            scale: 0.8,
-            duration: 200,
-            ease: 'Back.easeOut',
-            yoyo: false
-        });
+        const cost = this.toolConditions.getUpgradeCost(target.instanceId);
+        if (cost === null) {
+            this.showHarvestFeedback(`${target.label} is already fully upgraded`);
+            return;
+        }
+        if (this.hudBridge.getGoldCount() < cost) {
+            this.showHarvestFeedback(`Upgrade costs ${cost} gold`);
+            return;
+        }
 
-        // Reset harvesting state
-        this.time.delayedCall(300, () => {
-            this.isHarvesting = false;
-        });
+        this.hudBridge.removeGold(cost);
+        const condition = this.toolConditions.upgrade(target.instanceId);
+        const tier = getTierInfo(condition.tier);
+        this.showTransactionNotification(`⚒️ ${target.label} upgraded to ${tier.name} tier for ${cost} gold`, 'success', 3000);
     }
 
-    private showHarvestFeedback(message: string): void {
-        // Create floating feedback text near the player
-        const headOffset = this.player.displayHeight ? this.player.displayHeight * 0.75 : 48;
-        const startY = this.player.y - headOffset;
-        const endY = startY - 20;
+    // ===== GAME CLOCK METHODS =====
 
-        const feedbackText = this.add.text(
-            this.player.x,
-            startY,
-            message,
-            {
-                fontSize: '18px',
-                color: '#ff6b6b',
-                fontStyle: 'bold',
-                backgroundColor: 'rgba(0, 0, 0, 0.7)',
-                padding: { x: 10, y: 5 }
-            }
+    private setupGameClock(): void {
+        // Night tint covering the whole map, drawn above the world but below UI icons
+        this.lightingOverlay = this.add.rectangle(
+            0,
+            0,
+            this.map.widthInPixels,
+            this.map.heightInPixels,
+            0x0b1030
         );
-        feedbackText.setOrigin(0.5, 1);
-        feedbackText.setScrollFactor(1);
-        feedbackText.setDepth(this.player.depth + 5);
+        this.lightingOverlay.setOrigin(0, 0);
+        this.lightingOverlay.setDepth(1500);
+        this.updateDayNightLighting();
 
-        const followEvent = this.time.addEvent({
+        this.hudBridge.setGameTime(this.gameClock.getTime());
+
+        EventBus.on(GAME_CLOCK_EVENTS.TIME_CHANGED, this.handleGameTimeChanged, this);
+        EventBus.on(GAME_CLOCK_EVENTS.DAY_STARTED, this.handleDayStarted, this);
+        EventBus.on(GAME_CLOCK_EVENTS.SEASON_CHANGED, this.handleSeasonChanged, this);
+
+        this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+            EventBus.off(GAME_CLOCK_EVENTS.TIME_CHANGED, this.handleGameTimeChanged, this);
+            EventBus.off(GAME_CLOCK_EVENTS.DAY_STARTED, this.handleDayStarted, this);
+            EventBus.off(GAME_CLOCK_EVENTS.SEASON_CHANGED, this.handleSeasonChanged, this);
+        });
+    }
+
+    private updateDayNightLighting(): void {
+        if (!this.lightingOverlay) return;
+        this.lightingOverlay.setAlpha(this.gameClock.getDarkness());
+    }
+
+    private handleGameTimeChanged(time: GameTime): void {
+        this.hudBridge.setGameTime(time);
+        this.updateBuffs();
+    }
+
+    private handleDayStarted(time: GameTime): void {
+        this.hudBridge.onDayStarted(time);
+        this.runSprinklers();
+        this.raidCrops();
+        this.startLivestockDay();
+        this.regrowResourceNodes();
+        this.saveFarmState();
+    }
+
+    private handleSeasonChanged(event: SeasonChangedEvent): void {
+        this.hudBridge.onSeasonChanged(event.season);
+
+        const seasonName = event.season.charAt(0).toUpperCase() + event.season.slice(1);
+        this.showTransactionNotification(`${seasonName} has arrived! Out-of-season crops go dormant.`, 'info', 3000);
+    }
+
+    // ===== PROGRESSION METHODS =====
+
+    private grantExperience(amount: number): void {
+        const levelsReached = this.progression.addExperience(amount);
+
+        // Perks first so the level-up heal fills the new max HP/energy
+        this.applyLevelPerks();
+        levelsReached.forEach(level => this.hudBridge.onLevelUp(level));
+
+        if (levelsReached.length > 0) {
+            this.energy.refill();
+            this.reportedEnergy = Math.floor(this.energy.getEnergy());
+            this.playerCurrentHp = this.playerMaxHp;
+            EventBus.emit('player-hp-changed', {
+                current: this.playerCurrentHp,
+                max: this.playerMaxHp
+            });
+        }
+    }
+
+    private applyLevelPerks(): void {
+        const perks = this.progression.getPerks();
+
+        this.playerMaxHp = perks.maxHealth;
+        this.playerCurrentHp = Math.min(this.playerCurrentHp, this.playerMaxHp);
+        this.energy.setMaxEnergy(perks.maxEnergy);
+        this.reportedEnergy = Math.floor(this.energy.getEnergy());
+
+        const uiScene = this.scene.get(SCENE_KEYS.UI) as UIScene;
+        if (uiScene && uiScene.scene.isActive()) {
+            uiScene.setBackpackUnlockedSlots(perks.backpackSlots);
+        }
+
+        this.hudBridge.updatePlayerStats({
+            maxHealth: perks.maxHealth,
+            maxEnergy: perks.maxEnergy,
+            energy: this.reportedEnergy,
+            level: this.progression.getLevel(),
+            experience: this.progression.getExperience(),
+            experienceToNextLevel: this.progression.getExperienceToNextLevel()
+        });
+    }
+
+    // ===== ENERGY METHODS =====
+
+    private updateEnergy(delta: number): void {
+        const body = this.player?.body as Phaser.Physics.Arcade.Body | undefined;
+        const moving = !!body && body.velocity.lengthSq() > 0;
+        const busy = this.isCutting || this.isWatering || this.isAttacking;
+
+        if (moving && this.shiftKey.isDown && !this.energy.isExhausted()) {
+            this.energy.drain(RUN_ENERGY_PER_SECOND * (delta / 1000));
+        }
+        this.energy.update(delta, moving || busy, isSleepingHour(this.gameClock.getTime().hour));
+
+        const exhausted = this.energy.isExhausted();
+        if (exhausted && !this.wasExhausted) {
+            this.showHarvestFeedback('Exhausted! Rest or eat something');
+            this.hudBridge.notifyWarning('Exhausted', 'Out of energy - you move slower until you rest', 3000);
+        }
+        this.wasExhausted = exhausted;
+
+        this.reportEnergy();
+    }
+
+    // Push energy to the HUD only when the whole-number value changes
+    private reportEnergy(): void {
+        const rounded = Math.floor(this.energy.getEnergy());
+        if (rounded === this.reportedEnergy) return;
+
+        this.reportedEnergy = rounded;
+        this.hudBridge.setEnergy(rounded);
+    }
+
+    private eatSelectedItem(itemId: string, energy: number, uiScene: UIScene): void {
+        if (this.energy.getEnergy() >= this.energy.getMaxEnergy()) {
+            this.showHarvestFeedback('Not hungry right now');
+            return;
+        }
+        if (!uiScene.consumeSelectedItem(1)) return;
+
+        const restored = this.energy.restore(energy);
+        this.reportEnergy();
+        this.showHarvestFeedback(`Ate ${getItemDisplayName(itemId)} (+${Math.round(restored)} energy)`);
+    }
+
+    // ===== COOKING METHODS =====
+
+    /**
+     * Eat a cooked dish: restores energy and health and starts its buff
+     */
+    private eatDish(dish: Dish, uiScene: UIScene): void {
+        const hungry = this.energy.getEnergy() < this.energy.getMaxEnergy();
+        const hurt = this.playerCurrentHp < this.playerMaxHp;
+        if (!hungry && !hurt && !dish.buff) {
+            this.showHarvestFeedback('Not hungry right now');
+            return;
+        }
+        if (!uiScene.consumeSelectedItem(1)) return;
+
+        const restored = this.energy.restore(dish.energy);
+        this.reportEnergy();
+
+        const healed = Math.min(dish.health, this.playerMaxHp - this.playerCurrentHp);
+        if (healed > 0) {
+            this.playerCurrentHp += healed;
+            this.hudBridge.setHealth(this.playerCurrentHp);
+            EventBus.emit('player-hp-changed', {
+                current: this.playerCurrentHp,
+                max: this.playerMaxHp
+            });
+        }
+
+        const gains = [
+            restored > 0 ? `+${Math.round(restored)} energy` : '',
+            healed > 0 ? `+${healed} HP` : ''
+        ].filter(Boolean).join(', ');
+        this.showHarvestFeedback(`Ate ${dish.displayName}${gains ? ` (${gains})` : ''}`);
+
+        if (dish.buff) {
+            this.buffTracker.apply(dish.buff, dish.id, this.gameClock.getTotalMinutes());
+            const info = BUFF_INFO[dish.buff.type];
+            this.hudBridge.notifySuccess('Buff', `${info.icon} ${info.label} from ${dish.displayName}`, 3000);
+            this.updateBuffs();
+        }
+    }
+
+    /**
+     * Drop expired buffs and push the active ones to both HUDs
+     */
+    private updateBuffs(): void {
+        const now = this.gameClock.getTotalMinutes();
+
+        this.buffTracker.expire(now).forEach(buff => {
+            const info = BUFF_INFO[buff.type];
+            this.hudBridge.notifyInfo('Buff', `${info.icon} ${info.label} wore off`, 3000);
+        });
+
+        const buffs = this.buffTracker.getActive(now).map(buff => ({
+            type: buff.type,
+            label: BUFF_INFO[buff.type].label,
+            icon: BUFF_INFO[buff.type].icon,
+            remainingMinutes: buff.expiresAt - now
+        }));
+        this.hudBridge.setActiveBuffs(buffs);
+
+        const uiScene = this.scene.get(SCENE_KEYS.UI) as UIScene;
+        if (uiScene && uiScene.scene.isActive()) {
+            uiScene.setActiveBuffs(buffs);
+        }
+    }
+
+    private tryOpenCookingStation(x: number, y: number): void {
+        if (this.buildMode || this.isChatting || this.isDead) return;
+        if (!this.isStructureInReach(x, y, this.STRUCTURE_REACH)) {
+            this.showHarvestFeedback('Too far away');
+            return;
+        }
+
+        const uiScene = this.scene.get(SCENE_KEYS.UI) as UIScene;
+        if (!uiScene || !uiScene.scene.isActive()) return;
+
+        uiScene.showCooking(x, y);
+    }
+
+    // ===== QUEST METHODS =====
+
+    private setupQuests(): void {
+        EventBus.on('npc-trade-completed', this.handleTradeCompleted, this);
+        EventBus.on('nft-minted', this.handleQuestMint, this);
+        EventBus.on('item-crafted', this.handleQuestCraft, this);
+
+        this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+            EventBus.off('npc-trade-completed', this.handleTradeCompleted, this);
+            EventBus.off('nft-minted', this.handleQuestMint, this);
+            EventBus.off('item-crafted', this.handleQuestCraft, this);
+        });
+    }
+
+    private handleTradeCompleted(): void {
+        this.recordQuestProgress({ type: 'trade', target: 'herman' });
+        this.grantExperience(XP_REWARDS.trade);
+    }
+
+    private handleQuestMint(): void {
+        this.recordQuestProgress({ type: 'mint' });
+    }
+
+    private handleQuestCraft(event: { itemId: string; count: number }): void {
+        this.recordQuestProgress({ type: 'craft', target: event.itemId, amount: 1 });
+    }
+
+    public getQuestLog(): QuestLogEntry[] {
+        return this.questTracker.getLog();
+    }
+
+    private recordQuestProgress(event: QuestProgressEvent): void {
+        const completed = this.questTracker.record(event);
+        completed.forEach(quest => this.completeQuest(quest));
+
+        EventBus.emit(QUEST_EVENTS.UPDATED, this.getQuestLog());
+        if (completed.length > 0) {
+            this.saveFarmState();
+        }
+    }
+
+    private completeQuest(quest: QuestDefinition): void {
+        const { gold, exp, items = [] } = quest.reward;
+
+        // Gold and the "Quest Complete" notification go through the HUD bridge,
+        // XP through the level curve, items straight into the inventory
+        this.hudBridge.onQuestComplete(quest.name, { gold });
+        if (exp) {
+            this.grantExperience(exp);
+        }
+
+        const uiScene = this.scene.get(SCENE_KEYS.UI) as UIScene;
+        items.forEach(({ itemId, count }) => {
+            const leftover = uiScene?.scene.isActive()
+                ? uiScene.getInventory().add(itemId, getItemGameType(itemId), count)
+                : count;
+            if (leftover > 0) {
+                this.hudBridge.notifyWarning('Inventory Full', `Lost ${leftover}x ${getItemDisplayName(itemId)} quest reward`);
+            }
+            if (leftover < count) {
+                this.hudBridge.onItemPickup(getItemDisplayName(itemId), count - leftover);
+            }
+        });
+    }
+
+    // ===== BUILD MODE METHODS =====
+
+    private setupBuildMode(): void {
+        this.buildKey = this.input.keyboard!.addKey('G');
+        this.buildCycleKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.TAB);
+
+        this.buildKey.on('down', () => this.toggleBuildMode());
+        this.buildCycleKey.on('down', () => this.cycleBuildable(1));
+        this.input.on('wheel', (_pointer: Phaser.Input.Pointer, _objects: unknown[], _dx: number, dy: number) => {
+            if (this.buildMode) this.cycleBuildable(dy > 0 ? 1 : -1);
+        });
+        this.input.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+            if (!this.buildMode) return;
+
+            const { x, y } = this.getPointerTile(pointer);
+            if (pointer.rightButtonDown()) {
+                this.tryRemoveStructure(x, y);
+            } else {
+                this.tryPlaceStructure(x, y);
+            }
+        });
+        this.input.mouse?.disableContextMenu();
+    }
+
+    private toggleBuildMode(): void {
+        if (!this.buildMode && (this.isChatting || this.isDead)) return;
+
+        this.buildMode = !this.buildMode;
+
+        if (this.buildMode) {
+            this.player.setVelocity(0, 0);
+            this.buildGhost = this.add.image(0, 0, this.getSelectedBuildable().texture);
+            this.buildGhost.setAlpha(0.6);
+            this.buildGhost.setDepth(2500);
+            this.buildCoverage = this.add.graphics();
+            this.buildCoverage.setDepth(2499);
+
+            this.buildPanel = this.add.text(0, 0, '', {
+                fontSize: '14px',
+                color: '#ffffff',
+                backgroundColor: 'rgba(0, 0, 0, 0.75)',
+                padding: { x: 10, y: 6 },
+                align: 'center'
+            });
+            this.buildPanel.setOrigin(0.5, 0);
+            this.buildPanel.setScrollFactor(0);
+            this.buildPanel.setDepth(3500);
+        } else {
+            this.buildGhost?.destroy();
+            this.buildGhost = undefined;
+            this.buildCoverage?.destroy();
+            this.buildCoverage = undefined;
+            this.buildPanel?.destroy();
+            this.buildPanel = undefined;
+        }
+    }
+
+    private getSelectedBuildable(): Buildable {
+        return BUILDABLES[BUILD_ORDER[this.buildSelection]];
+    }
+
+    private cycleBuildable(step: number): void {
+        this.buildSelection = (this.buildSelection + step + BUILD_ORDER.length) % BUILD_ORDER.length;
+        this.buildRotation = 0;
+    }
+
+    private rotateBuildable(): void {
+        this.buildRotation = (this.buildRotation + 1) % this.getSelectedBuildable().rotations;
+    }
+
+    private getPointerTile(pointer: Phaser.Input.Pointer = this.input.activePointer): { x: number; y: number } {
+        const world = pointer.positionToCamera(this.cameras.main) as Phaser.Math.Vector2;
+        return {
+            x: this.farmingLayer.worldToTileX(world.x),
+            y: this.farmingLayer.worldToTileY(world.y)
+        };
+    }
+
+    private updateBuildMode(): void {
+        if (!this.buildMode || !this.buildGhost || !this.buildPanel) return;
+
+        const buildable = this.getSelectedBuildable();
+        const { x, y } = this.getPointerTile();
+        const error = this.getPlacementError(buildable, x, y);
+
+        this.buildGhost.setTexture(buildable.texture);
+        this.buildGhost.setPosition(x * BUILD_TILE_SIZE + BUILD_TILE_SIZE / 2, y * BUILD_TILE_SIZE + BUILD_TILE_SIZE / 2);
+        this.buildGhost.setAngle(this.buildRotation * 90);
+        this.buildGhost.setTint(error ? 0xff6666 : 0x66ff66);
+        this.drawCoveragePreview(buildable, x, y);
+
+        const cost = buildable.cost.map(({ itemId, count }) => `${count}x ${getItemDisplayName(itemId)}`).join(', ');
+        this.buildPanel.setText([
+            `🔨 BUILD MODE: ${buildable.displayName} (${cost})`,
+            error ?? 'Click to place',
+            'TAB/Wheel choose  |  R rotate  |  Right click remove  |  G exit'
+        ].join('\n'));
+        this.buildPanel.setPosition(this.cameras.main.width / 2, 20);
+    }
+
+    /**
+     * Why a structure can't go on this tile, or null when it can
+     */
+    private getPlacementError(buildable: Buildable, x: number, y: number): string | null {
+        if (x < 0 || y < 0 || x >= this.map.width || y >= this.map.height) return 'Outside the farm';
+
+        const playerTileX = this.farmingLayer.worldToTileX(this.player.x);
+        const playerTileY = this.farmingLayer.worldToTileY(this.player.y);
+        if (Math.abs(x - playerTileX) > this.BUILD_RANGE_TILES || Math.abs(y - playerTileY) > this.BUILD_RANGE_TILES) {
+            return 'Too far away';
+        }
+
+        if (this.farmLayout.isOccupied(x, y)) return 'Something is already built here';
+        if (this.resourceNodes.isFelledTreeTile(x, y)) return 'A tree will grow back here';
+        if (this.collisionLayers.some(layer => layer.getTileAt(x, y)) || this.treeLayers.some(layer => layer.getTileAt(x, y))) {
+            return 'Blocked';
+        }
+
+        const rockInTheWay = Array.from(this.rockNodes.values())
+            .some(rock => this.farmingLayer.worldToTileX(rock.x) === x && this.farmingLayer.worldToTileY(rock.y) === y);
+        if (rockInTheWay) return 'Blocked';
+
+        const groundTile = this.farmingLayer.getTileAt(x, y);
+        if (groundTile && this.waterTileIndices.has(groundTile.index)) return "Can't build on water";
+
+        const farmland = !!groundTile && this.farmableTileIndices.has(groundTile.index);
+        if (farmland && buildable.surface === 'ground') return "Can't build on farmland";
+        if (!farmland && buildable.surface === 'farmland') return 'Needs tilled soil';
+        if (this.crops.has(`${x},${y}`)) return 'A crop is growing here';
+
+        if (buildable.collider && x === playerTileX && y === playerTileY) return "You're standing here";
+
+        return null;
+    }
+
+    private tryPlaceStructure(x: number, y: number): void {
+        const buildable = this.getSelectedBuildable();
+        const error = this.getPlacementError(buildable, x, y);
+        if (error) {
+            this.showHarvestFeedback(error);
+            return;
+        }
+
+        const uiScene = this.scene.get(SCENE_KEYS.UI) as UIScene;
+        if (!uiScene || !uiScene.scene.isActive()) return;
+
+        const inventory = uiScene.getInventory();
+        const missing = buildable.cost.find(({ itemId, count }) => inventory.countItem(itemId) < count);
+        if (missing) {
+            this.showHarvestFeedback(`Need ${missing.count}x ${getItemDisplayName(missing.itemId)}`);
+            return;
+        }
+
+        buildable.cost.forEach(({ itemId, count }) => inventory.remove(itemId, count));
+
+        const placement: Placement = { buildableId: buildable.id, x, y, rotation: this.buildRotation };
+        this.farmLayout.place(placement);
+        this.spawnStructure(placement);
+    }
+
+    private tryRemoveStructure(x: number, y: number): void {
+        const placement = this.farmLayout.get(x, y);
+        if (!placement) return;
+
+        if (placement.buildableId === 'chest' && !this.chestStorage.isEmpty(x, y)) {
+            this.showHarvestFeedback('Empty the chest first');
+            return;
+        }
+
+        this.farmLayout.remove(x, y);
+        this.destroyStructure(x, y);
+
+        // Refund the full cost; whatever doesn't fit is dropped on the spot
+        const uiScene = this.scene.get(SCENE_KEYS.UI) as UIScene;
+        const worldX = x * BUILD_TILE_SIZE + BUILD_TILE_SIZE / 2;
+        const worldY = y * BUILD_TILE_SIZE + BUILD_TILE_SIZE;
+        BUILDABLES[placement.buildableId].cost.forEach(({ itemId, count }) => {
+            const leftover = uiScene?.scene.isActive()
+                ? uiScene.getInventory().add(itemId, getItemGameType(itemId), count)
+                : count;
+            if (leftover > 0) {
+                this.spawnLootDrop(worldX, worldY, { itemId, count: leftover, rarity: RARITY_LEVELS.COMMON }, false);
+            }
+        });
+    }
+
+    /**
+     * Draw a placed structure and give it colliders the way setupColliders() does for map tiles
+     */
+    private spawnStructure(placement: Placement): void {
+        const buildable = BUILDABLES[placement.buildableId];
+        const tileX = placement.x * BUILD_TILE_SIZE;
+        const tileY = placement.y * BUILD_TILE_SIZE;
+
+        const sprite = this.add.image(tileX + BUILD_TILE_SIZE / 2, tileY + BUILD_TILE_SIZE / 2, buildable.texture);
+        sprite.setAngle(placement.rotation * 90);
+        sprite.setDepth(buildable.depth);
+
+        const bodies: Phaser.GameObjects.GameObject[] = [];
+        if (buildable.collider && this.collisionGroup) {
+            const rect = rotateCollider(buildable.collider, placement.rotation);
+            const body = this.collisionGroup.create(tileX + rect.x + rect.width / 2, tileY + rect.y + rect.height / 2, '__blank');
+            body.setSize(rect.width, rect.height);
+            body.setOrigin(0.5, 0.5);
+            body.setVisible(false);
+            body.setImmovable(true);
+            bodies.push(body);
+        }
+
+        if (placement.buildableId === 'chest') {
+            this.chestStorage.open(placement.x, placement.y);
+            sprite.setInteractive({ useHandCursor: true });
+            sprite.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+                if (pointer.leftButtonDown()) this.tryOpenChest(placement.x, placement.y);
+            });
+        }
+
+        if (placement.buildableId === 'cooking_station') {
+            sprite.setInteractive({ useHandCursor: true });
+            sprite.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+                if (pointer.leftButtonDown()) this.tryOpenCookingStation(placement.x, placement.y);
+            });
+        }
+
+        this.placedStructures.set(FarmLayout.key(placement.x, placement.y), { sprite, bodies });
+    }
+
+    private destroyStructure(x: number, y: number): void {
+        const key = FarmLayout.key(x, y);
+        const structure = this.placedStructures.get(key);
+        if (!structure) return;
+
+        structure.sprite.destroy();
+        structure.bodies.forEach(body => body.destroy());
+        this.placedStructures.delete(key);
+
+        const uiScene = this.scene.get(SCENE_KEYS.UI) as UIScene;
+        const uiActive = !!uiScene && uiScene.scene.isActive();
+        if (this.chestStorage.has(x, y)) {
+            const openChest = uiActive ? uiScene.getOpenChest() : null;
+            if (openChest && openChest.x === x && openChest.y === y) {
+                uiScene.closeChest();
+            }
+            this.chestStorage.remove(x, y);
+        }
+
+        const cookingStation = uiActive ? uiScene.getCookingStation() : null;
+        if (cookingStation && cookingStation.x === x && cookingStation.y === y) {
+            uiScene.hideCooking();
+        }
+    }
+
+    // ===== FARM EQUIPMENT METHODS =====
+
+    /**
+     * Dawn: sprinklers water every growing crop in their coverage for the whole day
+     */
+    private runSprinklers(): void {
+        const watered = this.farmLayout.getCoverage('water');
+        const now = Date.now();
+        const season = this.gameClock.getSeason();
+        let count = 0;
+
+        watered.forEach(cropKey => {
+            const crop = this.crops.get(cropKey);
+            if (!crop || isCropMature(crop)) return;
+
+            this.cropGrowthScheduler.water(crop, now, season, this.SPRINKLER_HYDRATION_MS);
+            this.renderCrop(cropKey);
+            count++;
+        });
+
+        if (count > 0) {
+            this.hudBridge.notifyInfo('Sprinklers', `💧 Sprinklers watered ${count} crop${count === 1 ? '' : 's'}`, 3000);
+        }
+    }
+
+    /**
+     * Dawn: crows may eat crops that no scarecrow protects
+     */
+    private raidCrops(): void {
+        const guarded = this.farmLayout.getCoverage('protect');
+        const unprotected = Array.from(this.crops.keys()).filter(cropKey => !guarded.has(cropKey));
+        const eaten = rollCrowRaid(unprotected);
+        if (eaten.length === 0) return;
+
+        eaten.forEach(cropKey => this.removeCrop(cropKey));
+        this.hudBridge.notifyWarning(
+            'Crows!',
+            `🐦 Crows ate ${eaten.length} crop${eaten.length === 1 ? '' : 's'} overnight. Build a scarecrow to protect your fields.`,
+            5000
+        );
+    }
+
+    /**
+     * Highlight the tiles the selected equipment would reach from (x, y)
+     */
+    private drawCoveragePreview(buildable: Buildable, x: number, y: number): void {
+        if (!this.buildCoverage) return;
+
+        this.buildCoverage.clear();
+        if (!buildable.coverage) return;
+
+        const color = buildable.coverage.effect === 'water' ? 0x4a90d9 : 0xf2c94c;
+        this.buildCoverage.fillStyle(color, 0.3);
+        this.buildCoverage.lineStyle(1, color, 0.8);
+        getCoveredTiles(buildable.coverage, x, y).forEach(tile => {
+            this.buildCoverage!.fillRect(tile.x * BUILD_TILE_SIZE, tile.y * BUILD_TILE_SIZE, BUILD_TILE_SIZE, BUILD_TILE_SIZE);
+            this.buildCoverage!.strokeRect(tile.x * BUILD_TILE_SIZE, tile.y * BUILD_TILE_SIZE, BUILD_TILE_SIZE, BUILD_TILE_SIZE);
+        });
+    }
+
+    // ===== CHEST METHODS =====
+
+    private tryOpenChest(x: number, y: number): void {
+        if (this.buildMode || this.isChatting || this.isDead) return;
+        if (!this.isStructureInReach(x, y, this.STRUCTURE_REACH)) {
+            this.showHarvestFeedback('Too far away');
+            return;
+        }
+
+        const uiScene = this.scene.get(SCENE_KEYS.UI) as UIScene;
+        if (!uiScene || !uiScene.scene.isActive()) return;
+
+        uiScene.openChestPanel(x, y, this.chestStorage.open(x, y));
+    }
+
+    private isStructureInReach(x: number, y: number, reach: number): boolean {
+        const distance = Phaser.Math.Distance.Between(
+            this.player.x, this.player.y,
+            x * BUILD_TILE_SIZE + BUILD_TILE_SIZE / 2, y * BUILD_TILE_SIZE + BUILD_TILE_SIZE / 2
+        );
+        return distance <= reach;
+    }
+
+    // Close the chest and cooking panels once the player walks away from them
+    private updateOpenPanels(): void {
+        const uiScene = this.scene.get(SCENE_KEYS.UI) as UIScene;
+        if (!uiScene || !uiScene.scene.isActive()) return;
+
+        const chest = uiScene.getOpenChest();
+        if (chest && !this.isStructureInReach(chest.x, chest.y, this.STRUCTURE_REACH * 2)) {
+            uiScene.closeChest();
+        }
+
+        const cookingStation = uiScene.getCookingStation();
+        if (cookingStation && !this.isStructureInReach(cookingStation.x, cookingStation.y, this.STRUCTURE_REACH * 2)) {
+            uiScene.hideCooking();
+        }
+    }
+
+    // ===== FISHING METHODS =====
+
+    /**
+     * Cast the rod at the nearest water tile in front of the player
+     * Returns true when the line was cast
+     */
+    private tryCastLine(): boolean {
+        if (this.fishingSession || this.isCutting || this.isWatering || this.isAttacking) return false;
+
+        const target = this.findFishingSpot();
+        if (!target) {
+            this.showHarvestFeedback('Face the water to fish!');
+            return false;
+        }
+
+        const time = this.gameClock.getTime();
+        const fish = rollFish(time.season, time.hour, target.location);
+        this.fishingSession = new FishingSession(fish);
+
+        this.player.setVelocity(0, 0);
+        this.fishingBobber = this.add.image(target.x * 16 + 8, target.y * 16 + 8, 'fishing_bobber');
+        this.fishingBobber.setDisplaySize(16, 16);
+        this.fishingBobber.setDepth(30);
+        this.fishingBobber.setData('baseY', this.fishingBobber.y);
+
+        const uiScene = this.scene.get(SCENE_KEYS.UI) as UIScene;
+        uiScene?.showFishing();
+        uiScene?.updateFishing(this.fishingSession.getView());
+        return true;
+    }
+
+    /**
+     * First water tile within casting range straight ahead; deep water is fully surrounded by water
+     */
+    private findFishingSpot(): { x: number; y: number; location: FishingLocation } | null {
+        const facing = this.getFacingTile();
+        const stepX = facing.x - this.farmingLayer.worldToTileX(this.player.x);
+        const stepY = facing.y - this.farmingLayer.worldToTileY(this.player.y);
+        const isWater = (x: number, y: number) => {
+            const tile = this.farmingLayer.getTileAt(x, y);
+            return !!tile && this.waterTileIndices.has(tile.index);
+        };
+
+        for (let distance = 0; distance < this.FISHING_CAST_TILES; distance++) {
+            const x = facing.x + stepX * distance;
+            const y = facing.y + stepY * distance;
+            if (!isWater(x, y)) continue;
+
+            let deep = true;
+            for (let dy = -1; dy <= 1 && deep; dy++) {
+                for (let dx = -1; dx <= 1 && deep; dx++) {
+                    deep = isWater(x + dx, y + dy);
+                }
+            }
+            return { x, y, location: deep ? 'deep' : 'shallows' };
+        }
+        return null;
+    }
+
+    /**
+     * The use key while the line is out: hook the fish or reel it in
+     */
+    private reelFishing(): void {
+        if (!this.fishingSession) return;
+
+        const result = this.fishingSession.press();
+        if (result === 'too-early') {
+            this.showHarvestFeedback('Too early! The fish swam off');
+        } else if (result === 'miss') {
+            this.cameras.main.shake(80, 0.002);
+        }
+    }
+
+    private updateFishing(delta: number): void {
+        if (!this.fishingSession) return;
+
+        if (this.isDead || this.isChatting) {
+            this.fishingSession.cancel();
+        }
+
+        this.fishingSession.update(delta);
+        const view = this.fishingSession.getView();
+
+        // The bobber dips while a fish is biting
+        if (this.fishingBobber) {
+            const bob = view.phase === 'bite' ? 3 : Math.sin(this.time.now / 300);
+            this.fishingBobber.setY(this.fishingBobber.getData('baseY') + bob);
+        }
+
+        const uiScene = this.scene.get(SCENE_KEYS.UI) as UIScene;
+        uiScene?.updateFishing(view);
+
+        if (this.fishingSession.isOver()) {
+            this.finishFishing();
+        }
+    }
+
+    private finishFishing(): void {
+        const session = this.fishingSession;
+        if (!session) return;
+
+        this.fishingSession = undefined;
+        this.fishingBobber?.destroy();
+        this.fishingBobber = undefined;
+
+        const uiScene = this.scene.get(SCENE_KEYS.UI) as UIScene;
+        this.time.delayedCall(1200, () => {
+            if (!this.fishingSession) uiScene?.hideFishing();
+        });
+
+        if (session.getPhase() !== 'caught') return;
+
+        const fish = session.getFish();
+        const leftover = uiScene?.scene.isActive()
+            ? uiScene.getInventory().add(fish.id, getItemGameType(fish.id), 1)
+            : 1;
+        if (leftover > 0) {
+            // No room: the fish flops onto the shore
+            this.spawnLootDrop(this.player.x, this.player.y + 8, { itemId: fish.id, count: leftover, rarity: fish.rarity }, false);
+        } else {
+            this.hudBridge.onItemPickup(fish.displayName, 1);
+        }
+
+        this.grantExperience(XP_REWARDS.fish[fish.rarity]);
+        this.hudBridge.notifySuccess('Fish Caught', `🎣 ${fish.displayName} (${getRarityString(fish.rarity)})`);
+
+        // Rare catches are minted right away, like rare loot
+        if (fish.rarity >= AUTO_MINT_MIN_RARITY) {
+            this.mintLoot(fish.id, fish.rarity);
+        }
+    }
+
+    // ===== RESOURCE NODE METHODS =====
+
+    private getDayIndex(): number {
+        return Math.floor(this.gameClock.getTotalMinutes() / MINUTES_PER_DAY);
+    }
+
+    // Rocks and ore veins share the static collision group with houses, fences and trees
+    private createRockNodes(): void {
+        ROCK_NODE_SPAWNS.forEach(spawn => {
+            const type = getResourceNodeType(spawn.kind);
+            const rock = this.collisionGroup.create(spawn.x, spawn.y, type.texture) as Phaser.Physics.Arcade.Sprite;
+            rock.setDepth(Math.floor(spawn.y / 16) + 100);
+            rock.setData('nodeId', spawn.id);
+            rock.setData('nodeKind', spawn.kind);
+
+            const body = rock.body as Phaser.Physics.Arcade.StaticBody;
+            body.setSize(24, 14);
+            body.setOffset(4, 14);
+
+            this.rockNodes.set(spawn.id, rock);
+        });
+    }
+
+    private tryMineRock(pickaxePower: number): boolean {
+        if (this.isCutting || this.isChatting) return false;
+
+        let nearest: Phaser.Physics.Arcade.Sprite | null = null;
+        let nearestDistance = this.MINING_RADIUS;
+        this.rockNodes.forEach((rock, id) => {
+            if (this.resourceNodes.isDepleted(id)) return;
+            const distance = Phaser.Math.Distance.Between(this.player.x, this.player.y, rock.x, rock.y);
+            if (distance < nearestDistance) {
+                nearest = rock;
+                nearestDistance = distance;
+            }
+        });
+
+        if (!nearest) return false;
+        this.mineRock(nearest, pickaxePower);
+        return true;
+    }
+
+    private mineRock(rock: Phaser.Physics.Arcade.Sprite, pickaxePower: number): void {
+        this.isCutting = true;
+        this.player.setVelocity(0, 0);
+
+        // Face the rock
+        const deltaX = rock.x - this.player.x;
+        const deltaY = rock.y - this.player.y;
+        this.currentDirection = Math.abs(deltaX) > Math.abs(deltaY)
+            ? (deltaX > 0 ? 'right' : 'left')
+            : (deltaY > 0 ? 'down' : 'up');
+
+        // Swinging a pickaxe reuses the axe animation
+        this.player.setTexture('player_actions', 0);
+        this.player.play(`cut-tree-${this.currentDirection}`, false);
+
+        this.player.once('animationcomplete', () => {
+            this.isCutting = false;
+            this.player.setTexture('player', 0);
+            this.player.play(`idle-${this.currentDirection}`, true);
+
+            const nodeId: string = rock.getData('nodeId');
+            const kind: ResourceNodeKind = rock.getData('nodeKind');
+
+            rock.setTint(0xdddddd);
+            this.time.delayedCall(120, () => rock.clearTint());
+
+            if (this.resourceNodes.hit(nodeId, kind, pickaxePower, this.getDayIndex())) {
+                this.depleteRock(nodeId);
+                this.grantExperience(kind === 'ore' ? XP_REWARDS.mine.ore : XP_REWARDS.mine.rock);
+                this.dropLoot(getResourceNodeType(kind).lootTableId, rock.x, rock.y + 8);
+            }
+        });
+    }
+
+    private depleteRock(nodeId: string): void {
+        const rock = this.rockNodes.get(nodeId);
+        if (!rock) return;
+
+        rock.disableBody(false, true);
+        this.showDepletedNode(nodeId, rock.getData('nodeKind'), rock.x, rock.y + 16);
+    }
+
+    private fellTree(nodeId: string, layer: Phaser.Tilemaps.TilemapLayer, tiles: Phaser.Tilemaps.Tile[]): void {
+        this.resourceNodes.setTreeTiles(nodeId, layer.layer.name, tiles.map(tile => ({ x: tile.x, y: tile.y, index: tile.index })));
+
+        // The stump stands under the trunk: the bottom row of the cluster
+        const bottomY = Math.max(...tiles.map(tile => tile.y));
+        const bottomRow = tiles.filter(tile => tile.y === bottomY);
+        const stumpX = bottomRow.reduce((sum, tile) => sum + tile.x, 0) / bottomRow.length * 16 + 8;
+
+        tiles.forEach(tile => this.removeTreeTile(layer, tile.x, tile.y));
+        this.showDepletedNode(nodeId, 'tree', stumpX, (bottomY + 1) * 16);
+    }
+
+    private showDepletedNode(nodeId: string, kind: ResourceNodeKind, x: number, y: number): void {
+        if (this.depletedNodeSprites.has(nodeId)) return;
+
+        const sprite = this.add.image(x, y, getResourceNodeType(kind).depletedTexture);
+        sprite.setOrigin(0.5, 1);
+        sprite.setDepth(Math.floor(y / 16) + 20);
+        this.depletedNodeSprites.set(nodeId, sprite);
+    }
+
+    /**
+     * Grow back nodes whose regrowth days have passed
+     */
+    private regrowResourceNodes(): void {
+        this.resourceNodes.getRegrowable(this.getDayIndex()).forEach(node => {
+            if (node.kind === 'tree') {
+                const layer = this.treeLayers.find(treeLayer => treeLayer.layer.name === node.layer);
+                const tiles = node.tiles ?? [];
+                if (layer) {
+                    // Never grow a tree on top of the player or a structure (built there
+                    // before felled trees blocked building); try again tomorrow
+                    const playerTileX = Math.floor(this.player.x / 16);
+                    const playerTileY = Math.floor(this.player.y / 16);
+                    const blocked = tiles.some(tile =>
+                        (tile.x === playerTileX && tile.y === playerTileY) || this.farmLayout.isOccupied(tile.x, tile.y));
+                    if (blocked) return;
+
+                    tiles.forEach(tile => this.restoreTreeTile(layer, tile.x, tile.y, tile.index));
+                }
+            } else {
+                const rock = this.rockNodes.get(node.id);
+                if (rock) {
+                    if (Phaser.Math.Distance.Between(this.player.x, this.player.y, rock.x, rock.y) < 16) return;
+                    rock.enableBody(false, 0, 0, true, true);
+                }
+            }
+
+            this.depletedNodeSprites.get(node.id)?.destroy();
+            this.depletedNodeSprites.delete(node.id);
+            this.resourceNodes.regrow(node.id);
+        });
+    }
+
+    private restoreResourceNodes(nodes: ResourceNodeState[], legacyRemovedTiles: SavedTreeTile[]): void {
+        this.resourceNodes.restore(nodes);
+
+        nodes.forEach(node => {
+            if (node.depletedDay === null) return;
+
+            if (node.kind === 'tree') {
+                const layer = this.treeLayers.find(treeLayer => treeLayer.layer.name === node.layer);
+                const tiles = (node.tiles ?? [])
+                    .map(tile => layer?.getTileAt(tile.x, tile.y))
+                    .filter((tile): tile is Phaser.Tilemaps.Tile => !!tile);
+                if (layer && tiles.length > 0) {
+                    this.fellTree(node.id, layer, tiles);
+                }
+            } else {
+                this.depleteRock(node.id);
+            }
+        });
+
+        // Trees felled before resource nodes existed start regrowing today
+        legacyRemovedTiles.forEach(removed => {
+            const layer = this.treeLayers.find(treeLayer => treeLayer.layer.name === removed.layer);
+            const tile = layer?.getTileAt(removed.x, removed.y);
+            if (!layer || !tile) return;
+
+            const tiles = this.findConnectedTreeTiles(tile, layer);
+            const nodeId = getTreeNodeId(layer.layer.name, tiles);
+            this.resourceNodes.deplete(nodeId, 'tree', this.getDayIndex());
+            this.fellTree(nodeId, layer, tiles);
+        });
+
+        this.regrowResourceNodes();
+    }
+
+    // ===== LIVESTOCK METHODS =====
+
+    // Pen animals register first, so they get the coop and barn places
+    private registerHerd(): void {
+        this.chickens.forEach(animal => this.registerLivestock(animal, 'chicken'));
+        this.cows.forEach(animal => this.registerLivestock(animal, 'cow'));
+        this.sheep.forEach(animal => this.registerLivestock(animal, 'sheep'));
+    }
+
+    private registerLivestock(animal: Phaser.Physics.Arcade.Sprite, kind: AnimalKind, saved?: LivestockSnapshot | null): void {
+        const state = this.livestock.register(kind, saved);
+        animal.setData('livestockId', state.id);
+        if (state.produceReady > 0) {
+            this.showProduceIndicator(animal);
+        }
+    }
+
+    private releaseLivestock(animal: Phaser.Physics.Arcade.Sprite): void {
+        this.livestock.remove(animal.getData('livestockId'));
+        this.hideProduceIndicator(animal);
+    }
+
+    private getAllAnimals(): Phaser.Physics.Arcade.Sprite[] {
+        return [...this.chickens, ...this.cows, ...this.sheep];
+    }
+
+    private findNearbyAnimals(radius: number): Phaser.Physics.Arcade.Sprite[] {
+        return this.getAllAnimals()
+            .filter(animal => animal.active && animal.getData('health') > 0)
+            .filter(animal => Phaser.Math.Distance.Between(this.player.x, this.player.y, animal.x, animal.y) <= radius)
+            .sort((a, b) =>
+                Phaser.Math.Distance.Between(this.player.x, this.player.y, a.x, a.y)
+                - Phaser.Math.Distance.Between(this.player.x, this.player.y, b.x, b.y));
+    }
+
+    /**
+     * Feed the nearest animal that eats the selected item; false if none nearby does
+     */
+    private tryFeedAnimal(itemId: string, uiScene: UIScene): boolean {
+        const animal = this.findNearbyAnimals(this.LIVESTOCK_INTERACT_RADIUS).find(candidate => {
+            const candidateState = this.livestock.get(candidate.getData('livestockId'));
+            return !!candidateState && acceptsFeed(candidateState.kind, itemId);
+        });
+        if (!animal) return false;
+
+        const id = animal.getData('livestockId');
+        const state = this.livestock.get(id)!;
+
+        if (state.hunger <= 0) {
+            this.showHarvestFeedback(`${state.name} isn't hungry`);
+            return true;
+        }
+        if (!uiScene.consumeSelectedItem(1)) return true;
+
+        const result = this.livestock.feed(id, itemId);
+        if (!result.fed) return true;
+
+        this.showHarvestFeedback(`${state.name} ❤ +${result.affectionGained} (happiness ${state.happiness})`);
+        this.tweens.add({
+            targets: animal,
+            scaleY: animal.scaleY * 1.1,
+            duration: 120,
+            yoyo: true
+        });
+        return true;
+    }
+
+    private collectAnimalProduce(): void {
+        const uiScene = this.scene.get(SCENE_KEYS.UI) as UIScene;
+        if (!uiScene || !uiScene.scene.isActive()) return;
+
+        const autoMint = AutoMintService.getInstance();
+
+        this.findNearbyAnimals(this.LIVESTOCK_INTERACT_RADIUS).forEach(animal => {
+            const id = animal.getData('livestockId');
+            const produce = this.livestock.collectProduce(id);
+            if (!produce) return;
+
+            const leftover = uiScene.getInventory().add(produce.itemId, getItemGameType(produce.itemId), produce.count);
+            this.livestock.returnProduce(id, leftover);
+            if (leftover > 0) {
+                this.hudBridge.notifyWarning('Inventory Full', `No room for ${getItemDisplayName(produce.itemId)}`);
+            } else {
+                this.hideProduceIndicator(animal);
+            }
+
+            const collected = produce.count - leftover;
+            if (collected <= 0) return;
+
+            this.hudBridge.onItemPickup(getItemDisplayName(produce.itemId), collected);
+
+            // Animal produce is minted as a RESOURCE NFT in the background, like harvested crops
+            const entry = getCatalogItem(produce.itemId);
+            for (let i = 0; i < collected; i++) {
+                autoMint.autoMintItem({
+                    id: `${produce.itemId}_${id}_${Date.now()}_${i}`,
+                    name: entry?.displayName ?? getItemDisplayName(produce.itemId),
+                    description: entry?.description,
+                    type: getItemGameType(produce.itemId),
+                    rarity: entry?.rarity ?? RARITY_LEVELS.COMMON,
+                    stats: entry ? [...entry.stats] : undefined
+                });
+            }
+        });
+    }
+
+    private startLivestockDay(): void {
+        const producers = this.livestock.startDay();
+
+        this.getAllAnimals().forEach(animal => {
+            const state = this.livestock.get(animal.getData('livestockId'));
+            if (state && state.produceReady > 0) {
+                this.showProduceIndicator(animal);
+            }
+        });
+
+        if (producers.length > 0) {
+            this.hudBridge.notifyInfo('Animal Produce', `${producers.length} animals have produce ready. Press C next to them to collect.`, 4000);
+        }
+
+        const coop = this.livestock.getHousingUsage('coop');
+        const barn = this.livestock.getHousingUsage('barn');
+        const unhoused = this.getAllAnimals().filter(animal => animal.active && !this.livestock.isHoused(animal.getData('livestockId'))).length;
+        if (unhoused > 0) {
+            this.hudBridge.notifyWarning(
+                'No Room',
+                `${unhoused} animals have no place (coop ${coop.used}/${coop.capacity}, barn ${barn.used}/${barn.capacity}) and won't produce`
+            );
+        }
+    }
+
+    private showProduceIndicator(animal: Phaser.Physics.Arcade.Sprite): void {
+        if (animal.getData('produceIcon')) return;
+
+        const state = this.livestock.get(animal.getData('livestockId'));
+        if (!state) return;
+
+        const icon = this.add.image(animal.x, animal.y - 18, getLivestockSpecies(state.kind).produceItemId);
+        icon.setDisplaySize(12, 12);
+        icon.setDepth(animal.depth + 1);
+        animal.setData('produceIcon', icon);
+    }
+
+    private hideProduceIndicator(animal: Phaser.Physics.Arcade.Sprite): void {
+        const icon = animal.getData('produceIcon') as Phaser.GameObjects.Image | undefined;
+        if (icon) {
+            icon.destroy();
+            animal.setData('produceIcon', undefined);
+        }
+    }
+
+    private updateProduceIndicators(): void {
+        const bob = Math.sin(this.time.now / 300) * 2;
+
+        this.getAllAnimals().forEach(animal => {
+            const icon = animal.getData('produceIcon') as Phaser.GameObjects.Image | undefined;
+            if (icon && animal.active) {
+                icon.setPosition(animal.x, animal.y - 18 + bob);
+            }
+        });
+    }
+
+    // ===== LOOT METHODS =====
+
+    /**
+     * Roll a loot table and scatter the drops around a point
+     */
+    private dropLoot(tableId: string, x: number, y: number): void {
+        const table = getLootTable(tableId);
+        if (!table) return;
+
+        rollLoot(table).forEach(drop => {
+            this.spawnLootDrop(x + Phaser.Math.Between(-12, 12), y + Phaser.Math.Between(-8, 8), drop);
+        });
+    }
+
+    private spawnLootDrop(x: number, y: number, drop: LootDrop, autoMint: boolean = drop.rarity >= AUTO_MINT_MIN_RARITY): Phaser.GameObjects.Image {
+        const sprite = this.add.image(x, y, getCatalogItem(drop.itemId)?.sprite.key ?? drop.itemId);
+        sprite.setDisplaySize(14, 14);
+        sprite.setOrigin(0.5, 1);
+        sprite.setDepth(Math.floor(y / 16) + 100);
+        sprite.setData('spawnTime', this.time.now);
+        sprite.setData('baseY', y);
+        sprite.setData('itemId', drop.itemId);
+        sprite.setData('count', drop.count);
+        sprite.setData('rarity', drop.rarity);
+        sprite.setData('autoMint', autoMint);
+
+        // Glow in the rarity colour so rare loot stands out
+        const glowColor = Phaser.Display.Color.HexStringToColor(getRarityColor(drop.rarity)).color;
+        sprite.preFX?.addGlow(glowColor, drop.rarity > RARITY_LEVELS.COMMON ? 6 : 3, 0, false, 0.3, 8);
+
+        this.lootDrops.set(`loot_${Date.now()}_${Math.random()}`, sprite);
+        return sprite;
+    }
+
+    private updateLootDrops(): void {
+        const currentTime = this.time.now;
+
+        this.lootDrops.forEach((drop, key) => {
+            const elapsed = currentTime - drop.getData('spawnTime');
+            drop.setY(drop.getData('baseY') - 6 + Math.sin(elapsed / 400) * 2);
+
+            // Walking over loot picks it up (after a short delay so it can be seen landing)
+            if (elapsed < this.LOOT_PICKUP_DELAY_MS || currentTime < (drop.getData('blockedUntil') ?? 0)) return;
+            if (Phaser.Math.Distance.Between(this.player.x, this.player.y, drop.x, drop.getData('baseY')) > this.LOOT_PICKUP_RADIUS) return;
+
+            this.pickUpLootDrop(key, drop);
+        });
+    }
+
+    private pickUpLootDrop(key: string, drop: Phaser.GameObjects.Image): void {
+        const uiScene = this.scene.get(SCENE_KEYS.UI) as UIScene;
+        if (!uiScene || !uiScene.scene.isActive()) return;
+
+        const itemId: string = drop.getData('itemId');
+        const count: number = drop.getData('count');
+        const leftover = uiScene.getInventory().add(itemId, getItemGameType(itemId), count);
+        const pickedUp = count - leftover;
+
+        if (pickedUp > 0) {
+            this.hudBridge.onItemPickup(getItemDisplayName(itemId), pickedUp);
+            if (drop.getData('autoMint')) {
+                this.mintLoot(itemId, drop.getData('rarity'));
+            }
+        }
+
+        if (leftover > 0) {
+            // Whatever doesn't fit stays on the ground; don't retry (or warn) every frame
+            drop.setData('count', leftover);
+            drop.setData('autoMint', false);
+            drop.setData('blockedUntil', this.time.now + this.LOOT_FULL_RETRY_MS);
+            this.hudBridge.notifyWarning('Inventory Full', `No room for ${getItemDisplayName(itemId)}`);
+            return;
+        }
+
+        this.lootDrops.delete(key);
+        drop.destroy();
+    }
+
+    // Rare loot is minted as an NFT in the background, like harvested produce
+    private mintLoot(itemId: string, rarity: RarityLevel): void {
+        const entry = getCatalogItem(itemId);
+        if (!entry) return;
+
+        AutoMintService.getInstance().autoMintItem({
+            id: `loot_${itemId}_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+            name: entry.displayName,
+            description: entry.description,
+            type: entry.type,
+            rarity,
+            stats: [...entry.stats]
+        });
+    }
+
+    // ===== SAVE / LOAD METHODS =====
+
+    public async saveFarmState(): Promise<void> {
+        if (!this.farmStateLoaded) return;
+
+        const uiScene = this.scene.get(SCENE_KEYS.UI) as UIScene;
+        const animals: FarmSaveData['animals'] = [];
+        const collectAnimals = (list: Phaser.Physics.Arcade.Sprite[], type: AnimalKind) => {
+            list.forEach(animal => {
+                if (!animal || !animal.active || animal.getData('health') <= 0) return;
+                animals.push({
+                    type,
+                    x: animal.x,
+                    y: animal.y,
+                    health: animal.getData('health'),
+                    fenceBounds: animal.getData('fenceBounds'),
+                    livestock: this.livestock.serialize(animal.getData('livestockId'))
+                });
+            });
+        };
+        collectAnimals(this.chickens, 'chicken');
+        collectAnimals(this.cows, 'cow');
+        collectAnimals(this.sheep, 'sheep');
+
+        const saved = await this.saveGameService.save({
+            crops: Array.from(this.crops.values()).map(crop => ({ ...crop })),
+            droppedCrops: Array.from(this.droppedCrops.values()).map(drop => ({
+                x: drop.x,
+                y: drop.getData('baseY'),
+                type: drop.getData('cropType'),
+                gameItemId: drop.getData('gameItemId')
+            })),
+            lootDrops: Array.from(this.lootDrops.values()).map(drop => ({
+                x: drop.x,
+                y: drop.getData('baseY'),
+                itemId: drop.getData('itemId'),
+                count: drop.getData('count'),
+                rarity: drop.getData('rarity'),
+                autoMint: drop.getData('autoMint')
+            })),
+            harvestedCropCount: this.harvestedCropCount,
+            removedTreeTiles: [],
+            resourceNodes: this.resourceNodes.serialize(),
+            placements: this.farmLayout.serialize(),
+            chests: this.chestStorage.serialize(),
+            animals,
+            inventory: uiScene && uiScene.scene.isActive() ? uiScene.getInventorySnapshot() : null,
+            gold: this.hudBridge.getGoldCount(),
+            clock: { totalMinutes: this.gameClock.getTotalMinutes() },
+            tilledTiles: Array.from(this.tilledTiles).map(key => {
+                const [x, y] = key.split(',').map(Number);
+                return { x, y };
+            }),
+            wateringCanLevel: this.wateringCanLevel,
+            toolConditions: this.toolConditions.serialize(),
+            quests: this.questTracker.serialize(),
+            progression: this.progression.serialize(),
+            energy: this.energy.serialize(),
+            buffs: this.buffTracker.serialize()
+        });
+
+        if (saved) {
+            console.log('💾 Farm saved');
+        }
+    }
+
+    private async loadFarmState(): Promise<FarmSaveData | null> {
+        const save = await this.saveGameService.load();
+        if (!save || !this.scene.isActive()) return null;
+
+        // Calendar
+        if (save.clock) {
+            this.gameClock.setTotalMinutes(save.clock.totalMinutes);
+            this.hudBridge.setGameTime(this.gameClock.getTime());
+            this.updateDayNightLighting();
+        }
+
+        // Soil tilled with the hoe
+        save.tilledTiles.forEach(tile => this.tillTile(tile.x, tile.y));
+        this.wateringCanLevel = save.wateringCanLevel;
+        this.toolConditions.restore(save.toolConditions);
+        this.questTracker.restore(save.quests);
+        this.progression.restore(save.progression);
+        this.energy.setMaxEnergy(this.progression.getPerks().maxEnergy);
+        this.energy.restoreSaved(save.energy);
+        this.buffTracker.restore(save.buffs);
+        this.updateBuffs();
+        EventBus.emit(QUEST_EVENTS.UPDATED, this.getQuestLog());
+
+        // Crops: restore growth state; time spent offline is applied on the next growth tick
+        save.crops.forEach(savedCrop => {
+            if (!isCropSpecies(savedCrop.type)) return;
+            const cropKey = `${savedCrop.x},${savedCrop.y}`;
+            this.crops.set(cropKey, { ...savedCrop, type: savedCrop.type });
+            this.renderCrop(cropKey);
+        });
+        this.updateCropGrowth();
+
+        // Uncollected harvest
+        save.droppedCrops.forEach(drop => {
+            if (!isCropSpecies(drop.type)) return;
+            this.spawnHarvestDrop(drop.x, drop.y, drop.type, drop.gameItemId);
+        });
+        this.harvestedCropCount = save.harvestedCropCount;
+
+        // Uncollected loot
+        save.lootDrops.forEach(drop => {
+            if (!getCatalogItem(drop.itemId)) return;
+            this.spawnLootDrop(drop.x, drop.y, drop, drop.autoMint);
+        });
+
+        // Felled trees and mined rocks (the clock is restored, so regrowth can catch up)
+        this.restoreResourceNodes(save.resourceNodes, save.removedTreeTiles);
+
+        // Structures placed in build mode, with the contents of their chests
+        this.chestStorage.restore(save.chests);
+        this.farmLayout.restore(save.placements.filter(placement => getBuildable(placement.buildableId)));
+        this.farmLayout.getAll().forEach(placement => this.spawnStructure(placement));
+
+        // Animals replace the randomly spawned herd
+        if (save.animals.length > 0) {
+            this.getAllAnimals().forEach(animal => {
+                this.releaseLivestock(animal);
+                const movementTimer = animal.getData('movementTimer');
+                if (movementTimer) {
+                    movementTimer.destroy();
+                }
+                animal.destroy();
+            });
+            this.chickens = [];
+            this.cows = [];
+            this.sheep = [];
+            save.animals.forEach(animal => {
+                this.spawnAnimal(animal.type, animal.x, animal.y, animal.fenceBounds, animal.health, animal.livestock);
+            });
+        }
+
+        this.hudBridge.setGoldCount(save.gold);
+
+        console.log(`💾 Farm loaded (saved ${new Date(save.savedAt).toLocaleString()})`);
+        return save;
+    }
+
+    private spawnAnimal(
+        animalType: AnimalKind,
+        x: number,
+        y: number,
+        fenceBounds: { minX: number; maxX: number; minY: number; maxY: number },
+        health?: number,
+        livestock?: LivestockSnapshot | null
+    ): Phaser.Physics.Arcade.Sprite {
+        const maxHealth = animalType === 'cow' ? 5 : 3;
+        const animal = this.physics.add.sprite(x, y, animalType, 0);
+        animal.setScale(1.5);
+        animal.play(`${animalType}-idle`);
+        animal.setDepth(100);
+        animal.setData('health', health ?? maxHealth);
+        animal.setData('maxHealth', maxHealth);
+        animal.setData('fenceBounds', fenceBounds);
+
+        if (animalType === 'chicken') {
+            this.chickens.push(animal);
+        } else if (animalType === 'cow') {
+            this.cows.push(animal);
+        } else {
+            this.sheep.push(animal);
+        }
+
+        const movementTimer = this.time.addEvent({
+            delay: Phaser.Math.Between(2000, 4000),
+            callback: () => this.moveAnimalRandomly(animal, animalType),
+            loop: true
+        });
+        animal.setData('movementTimer', movementTimer);
+
+        if (this.collisionGroup) {
+            this.physics.add.collider(animal, this.collisionGroup);
+        }
+        this.registerLivestock(animal, animalType, livestock);
+
+        return animal;
+    }
+
+    private tryHarvestCrop(): void {
+        if (this.isHarvesting || this.isChatting || this.isCutting) return;
+
+        const playerTileX = Math.floor(this.player.x / 16);
+        const playerTileY = Math.floor(this.player.y / 16);
+        const radius = 2;
+
+        // Find nearest mature crop
+        for (let y = playerTileY - radius; y <= playerTileY + radius; y++) {
+            for (let x = playerTileX - radius; x <= playerTileX + radius; x++) {
+                const cropKey = `${x},${y}`;
+                const crop = this.crops.get(cropKey);
+
+                if (crop && isCropMature(crop)) {
+                    this.harvestCrop(cropKey, crop);
+                    return;
+                }
+            }
+        }
+        
+        // No mature crops found nearby - show feedback
+        this.showHarvestFeedback('No mature crops nearby!');
+    }
+
+    /**
+     * Remove a crop with its sprites and wind effects
+     */
+    private removeCrop(cropKey: string): void {
+        // Get crop sprites and remove them
+        const sprites = this.cropSprites.get(cropKey);
+        if (sprites) {
+            sprites.forEach(sprite => {
+                if (sprite && sprite.active) {
+                    sprite.destroy();
+                }
+            });
+            this.cropSprites.delete(cropKey);
+        }
+
+        // Clean up wind effects
+        const tweens = this.windEffectTweens.get(cropKey);
+        if (tweens) {
+            tweens.forEach(tween => {
+                if (tween && tween.isPlaying()) {
+                    tween.remove();
+                }
+            });
+            this.windEffectTweens.delete(cropKey);
+        }
+
+        // Remove crop from map
+        this.crops.delete(cropKey);
+    }
+
+    private harvestCrop(cropKey: string, crop: Crop): void {
+        this.isHarvesting = true;
+
+        const species = getCropSpecies(crop.type);
+        this.removeCrop(cropKey);
+
+        const quantity = Phaser.Math.Between(species.yield.min, species.yield.max)
+            + this.buffTracker.getHarvestBonus(this.gameClock.getTotalMinutes());
+
+        // Notify HUD of harvest
+        this.hudBridge.onCropHarvested(species.displayName, quantity);
+        this.recordQuestProgress({ type: 'harvest', target: species.id, amount: quantity });
+        this.grantExperience(XP_REWARDS.harvestPerCrop * quantity);
+
+        const autoMint = AutoMintService.getInstance();
+
+        for (let i = 0; i < quantity; i++) {
+            // Create floating dropped produce
+            const worldX = crop.x * 16 + 8 + Phaser.Math.Between(-4, 4);
+            const worldY = crop.y * 16 + 8 + Phaser.Math.Between(-4, 4);
+
+            // Auto-mint produce as NFT (lazy minting - background process)
+            const gameItemId = `${species.id}_${crop.x}_${crop.y}_${Date.now()}_${i}`;
+            autoMint.autoMintItem({
+                id: gameItemId,
+                name: species.displayName,
+                description: species.description,
+                type: 'consumable',
+                rarity: 1, // Common rarity
+                stats: [...species.mintStats],
+            });
+
+            const drop = this.spawnHarvestDrop(worldX, worldY, species.id, gameItemId);
+            this.harvestedCropCount++;
+
+            // Play harvest animation - small pop up
+            this.tweens.add({
+                targets: drop,
+                y: worldY - 10,
+                scale: 0.8,
+                duration: 200,
+                ease: 'Back.easeOut',
+                yoyo: false
+            });
+        }
+
+        // Reset harvesting state
+        this.time.delayedCall(300, () => {
+            this.isHarvesting = false;
+        });
+    }
+
+    private spawnHarvestDrop(worldX: number, worldY: number, speciesId: CropSpeciesId, gameItemId?: string): Phaser.GameObjects.Sprite {
+        const species = getCropSpecies(speciesId);
+        const drop = this.add.sprite(worldX, worldY, species.stageSprites[getMatureStage(species)]);
+        drop.setScale(0.6);
+        drop.setOrigin(0.5, 1);
+        drop.setDepth(Math.floor(worldY / 16) + 100);
+        drop.setData('spawnTime', this.time.now);
+        drop.setData('baseY', worldY);
+        drop.setData('cropType', speciesId);
+        if (gameItemId) {
+            drop.setData('gameItemId', gameItemId);
+        }
+
+        // Add glowing effect only
+        drop.setTint(species.tint ?? 0xffff99); // Slight yellow tint unless the species has its own
+        drop.preFX?.addGlow(0xffd700, 4, 0, false, 0.3, 8); // Gold glow
+
+        // Store dropped produce
+        const dropKey = `drop_${Date.now()}_${Math.random()}`;
+        this.droppedCrops.set(dropKey, drop);
+
+        return drop;
+    }
+
+    private showHarvestFeedback(message: string): void {
+        // Create floating feedback text near the player
+        const headOffset = this.player.displayHeight ? this.player.displayHeight * 0.75 : 48;
+        const startY = this.player.y - headOffset;
+        const endY = startY - 20;
+
+        const feedbackText = this.add.text(
+            this.player.x,
+            startY,
+            message,
+            {
+                fontSize: '18px',
+                color: '#ff6b6b',
+                fontStyle: 'bold',
+                backgroundColor: 'rgba(0, 0, 0, 0.7)',
+                padding: { x: 10, y: 5 }
+            }
+        );
+        feedbackText.setOrigin(0.5, 1);
+        feedbackText.setScrollFactor(1);
+        feedbackText.setDepth(this.player.depth + 5);
+
+        const followEvent = this.time.addEvent({
             delay: 16,
             callback: () => {
                 if (!feedbackText.active) {
@@ -3218,18 +5075,18 @@ export class FarmScene extends Scene {
         });
     }
 
-    private updateFloatingCarrots(): void {
+    private updateFloatingDrops(): void {
         const currentTime = this.time.now;
         
-        this.droppedCarrots.forEach((carrot, key) => {
-            const spawnTime = carrot.getData('spawnTime');
-            const baseY = carrot.getData('baseY');
+        this.droppedCrops.forEach((drop, key) => {
+            const spawnTime = drop.getData('spawnTime');
+            const baseY = drop.getData('baseY');
             const elapsed = currentTime - spawnTime;
             
             // Floating animation
             const floatOffset = Math.sin(elapsed / 500) * 3;
             const newY = baseY - 10 + floatOffset;
-            carrot.setY(newY);
+            drop.setY(newY);
         });
     }
 
@@ -3262,7 +5119,7 @@ export class FarmScene extends Scene {
         this.collectButton.setInteractive(hitArea, Phaser.Geom.Rectangle.Contains);
         
         this.collectButton.on('pointerdown', () => {
-            this.tryCollectCarrots();
+            this.tryCollectCrops();
         });
 
         this.collectButton.on('pointerover', () => {
@@ -3581,9 +5438,9 @@ export class FarmScene extends Scene {
     private updateCollectButton(): void {
         if (!this.collectButton) return;
 
-        if (this.harvestedCarrotCount > 0 && !this.mintModalVisible) {
+        if (this.harvestedCropCount > 0 && !this.mintModalVisible) {
             this.collectButton.setVisible(true);
-            this.collectButtonText.setText(`Collect All (${this.harvestedCarrotCount}) - Press C`);
+            this.collectButtonText.setText(`Collect All (${this.harvestedCropCount}) - Press C`);
 
             // Position at bottom center of screen
             const camera = this.cameras.main;
@@ -3595,21 +5452,19 @@ export class FarmScene extends Scene {
         }
     }
 
-    private tryCollectCarrots(): void {
-        if (this.harvestedCarrotCount === 0 || this.isCollecting || this.mintModalVisible) return;
+    private tryCollectCrops(): void {
+        if (this.harvestedCropCount === 0 || this.isCollecting || this.mintModalVisible) return;
         this.isCollecting = true;
 
-        const count = this.harvestedCarrotCount;
-        
-        // Animate all carrots flying to center
+        // Animate all drops flying to center
         const camera = this.cameras.main;
         const targetX = camera.worldView.centerX;
         const targetY = camera.worldView.centerY;
 
-        this.droppedCarrots.forEach((carrot, key) => {
-            // Animate carrot
+        this.droppedCrops.forEach((drop) => {
+            // Animate drop
             this.tweens.add({
-                targets: carrot,
+                targets: drop,
                 x: targetX,
                 y: targetY,
                 scale: 0.3,
@@ -3617,42 +5472,56 @@ export class FarmScene extends Scene {
                 duration: 500,
                 ease: 'Power2',
                 onComplete: () => {
-                    carrot.destroy();
+                    drop.destroy();
                 }
             });
         });
 
-        // Clear dropped carrots and batch mint them
+        // Clear dropped crops and batch mint them
         this.time.delayedCall(500, async () => {
-            const carrotItems: GameItem[] = [];
+            const cropItems: GameItem[] = [];
+            const produce = new Map<CropSpeciesId, number>();
 
-            this.droppedCarrots.forEach((carrot) => {
-                const gameItemId = carrot.getData('gameItemId') as string | undefined;
-                const itemId = gameItemId || `carrot_${Date.now()}_${Phaser.Math.RND.uuid().slice(0, 6)}`;
+            this.droppedCrops.forEach((drop) => {
+                const species = getCropSpecies(drop.getData('cropType'));
+                produce.set(species.id, (produce.get(species.id) ?? 0) + 1);
+                const gameItemId = drop.getData('gameItemId') as string | undefined;
+                const itemId = gameItemId || `${species.id}_${Date.now()}_${Phaser.Math.RND.uuid().slice(0, 6)}`;
 
-                carrotItems.push({
+                cropItems.push({
                     id: itemId,
-                    name: 'Carrot',
-                    description: 'Freshly harvested carrot from OneValley farm',
+                    name: species.displayName,
+                    description: species.description,
                     type: 'consumable',
                     rarity: 1,
-                    stats: [5, 10],
+                    stats: [...species.mintStats],
                 });
             });
 
-            this.droppedCarrots.clear();
-            this.harvestedCarrotCount = 0;
+            this.droppedCrops.clear();
+            this.harvestedCropCount = 0;
             this.isCollecting = false;
 
-            // Batch mint all collected carrots using AutoMintService
+            // Produce also goes into the inventory, where it can be eaten for energy
+            const uiScene = this.scene.get(SCENE_KEYS.UI) as UIScene;
+            if (uiScene?.scene.isActive()) {
+                produce.forEach((count, speciesId) => {
+                    const leftover = uiScene.getInventory().add(speciesId, 'consumable', count);
+                    if (leftover > 0) {
+                        this.hudBridge.notifyWarning('Inventory Full', `No room for ${leftover}x ${getCropSpecies(speciesId).displayName}`);
+                    }
+                });
+            }
+
+            // Batch mint all collected crops using AutoMintService
             const autoMint = AutoMintService.getInstance();
 
-            // Queue all carrots for batch minting (background process)
-            console.log(`🥕 Queueing ${carrotItems.length} carrots for auto-minting...`);
-            await autoMint.batchMintItems(carrotItems);
+            // Queue all crops for batch minting (background process)
+            console.log(`🥕 Queueing ${cropItems.length} crops for auto-minting...`);
+            await autoMint.batchMintItems(cropItems);
 
             // Show collection notification
-            this.showTransactionNotification(`Collected ${carrotItems.length} carrots! Auto-minting in background...`, 'success', 3000);
+            this.showTransactionNotification(`Collected ${cropItems.length} crops! Auto-minting in background...`, 'success', 3000);
         });
     }
 
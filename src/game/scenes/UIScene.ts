@@ -1,8 +1,10 @@
 import * as Phaser from 'phaser';
 import { SCENE_KEYS } from './SceneKeys';
+import type { FarmScene } from './FarmScene';
 import { EventBus } from '../EventBus';
-import { SuiClient } from '@onelabs/sui/client';
-import { ONECHAIN_NETWORK } from '@/config/contracts';
+import { ChainBackend, getChainBackend } from '@/services/ChainBackend';
+import { getTransactionUrl } from '@/config/contracts';
+import { NETWORK_ORDER, NetworkName, getActiveNetwork, getNetworkProfile, isNetworkDeployed, isNetworkSelectable, setActiveNetwork } from '@/config/networks';
 import WalletBridgeService from '@/services/WalletBridgeService';
 import HUDBridgeService from '@/services/HUDBridgeService';
 import OneChainMarketplaceService from '@/services/OneChainMarketplaceService';
@@ -10,6 +12,14 @@ import OneChainTransactionFlow, { TransactionType } from '@/services/OneChainTra
 import { OneChainTransactionService } from '@/services/OneChainTransactionService';
 import AutoMintService, { GameItem } from '@/services/AutoMintService';
 import { FrontendItem, MarketplaceListing, ITEM_TYPES, ItemType, getRarityColor } from '@/types/onechain';
+import type { SavedInventory, SavedInventorySlot } from '@/services/SaveGameService';
+import type { ActiveBuffState } from '@/stores/GameHUDStore';
+import { getTierInfo, ToolCondition, WEAPON_BASE_DAMAGE } from '../items/ToolDurability';
+import { CraftingGridCell, CraftingRecipe, RecipeMatch, RecipeRegistry, ShapelessRecipe } from '../crafting/RecipeRegistry';
+import { FishingView, HITS_TO_CATCH } from '../fishing/FishingSession';
+import { CHEST_SIZE, Inventory, InventoryChange, InventoryContainer, ItemStack, getMaxStackSize } from '../inventory/Inventory';
+import { ItemCategory, getCatalogItem, getItemDisplayName, getDefaultStats, getItemGameType, getItemsInCategory } from '../items/ItemCatalog';
+import { QUEST_EVENTS, QuestLogEntry } from '../quests/QuestTracker';
 // 1. First, let's update the Slot interface at the top of the file
 interface Slot {
     bg: Phaser.GameObjects.Image | Phaser.GameObjects.Rectangle;
@@ -19,6 +29,7 @@ interface Slot {
     itemImage?: Phaser.GameObjects.Image | Phaser.GameObjects.Rectangle;  // The actual image in the slot
     countText?: Phaser.GameObjects.Text;  // Text showing item count
     itemType?: string;  // e.g., 'weapon', 'consumable', 'tool'
+    instanceId?: string;  // Which copy of a tool or weapon is in the slot
 }
 
 export class UIScene extends Phaser.Scene {
@@ -51,19 +62,24 @@ export class UIScene extends Phaser.Scene {
     private backpackKey!: Phaser.Input.Keyboard.Key;
     private backpackOverlay!: Phaser.GameObjects.Rectangle;
 
+    // Storage chest panel (shown next to the backpack while a chest is open)
+    private chestContainer!: Phaser.GameObjects.Container;
+    private chestSlots: Slot[] = [];
+    private openChest: { x: number; y: number } | null = null;
+    private readonly CHEST_COLS = 4;
+
     // Drag and drop properties (kept for compatibility)
     private draggedItem: { itemId: string; itemType?: string; count?: number; sourceSlot: Slot; sourceIndex: number; sourceType: 'itembar' | 'backpack' } | null = null;
     private dragGhost?: Phaser.GameObjects.Image;
 
-    // Held item properties (new click-based system)
-    private heldItem: { itemId: string; itemType?: string; count: number } | null = null;
+    // Held item properties (new click-based system); slot contents and the held stack live in the model
+    private inventory!: Inventory;
     private heldItemGhost?: Phaser.GameObjects.Image;
     private heldItemCountText?: Phaser.GameObjects.Text;
-    private readonly MAX_STACK_SIZE = 99;
 
     // Double-click tracking
     private lastClickTime: number = 0;
-    private lastClickSlot: { index: number; type: 'itembar' | 'backpack' } | null = null;
+    private lastClickSlot: { index: number; type: InventoryContainer } | null = null;
     private readonly DOUBLE_CLICK_DELAY = 300; // milliseconds
 
     // Marketplace properties
@@ -97,7 +113,30 @@ export class UIScene extends Phaser.Scene {
     private craftingKey!: Phaser.Input.Keyboard.Key;
     private craftingArrow?: Phaser.GameObjects.Triangle;
     private craftingResultAvailable: boolean = false;
-    private readonly craftingPrimaryResultKeys: string[] = ['gem_01j', 'crystal_01j', 'gem_01i', 'crystal_01i'];
+    private recipeRegistry: RecipeRegistry = new RecipeRegistry();
+    private craftingMatch: RecipeMatch | null = null;
+    private recipeBookContainer?: Phaser.GameObjects.Container;
+    private recipeBookVisible: boolean = false;
+
+    // Quest log properties
+    private questLogContainer?: Phaser.GameObjects.Container;
+    private questLogText?: Phaser.GameObjects.Text;
+    private questLogVisible: boolean = false;
+
+    // Fishing minigame properties
+    private fishingContainer?: Phaser.GameObjects.Container;
+    private fishingStatusText?: Phaser.GameObjects.Text;
+    private fishingZone?: Phaser.GameObjects.Rectangle;
+    private fishingMarker?: Phaser.GameObjects.Rectangle;
+
+    // Cooking panel properties
+    private cookingContainer?: Phaser.GameObjects.Container;
+    private cookingRegistry: RecipeRegistry = new RecipeRegistry();
+    private cookingRows: { recipe: ShapelessRecipe; ingredientsText: Phaser.GameObjects.Text; cookButton: Phaser.GameObjects.Text }[] = [];
+    private cookingStation: { x: number; y: number } | null = null;
+
+    // Active buffs, listed below the hearts
+    private buffText?: Phaser.GameObjects.Text;
 
     // Guide menu properties
     private guideMenuVisible: boolean = false;
@@ -114,6 +153,8 @@ export class UIScene extends Phaser.Scene {
     private fullscreenCheckmark?: Phaser.GameObjects.Text;
     private isFullscreen: boolean = false;
     private musicVolume: number = 0.5;
+    private selectedNetwork?: NetworkName;
+    private networkValueText?: Phaser.GameObjects.Text;
 
     // Exit confirmation properties
     private exitConfirmationVisible: boolean = false;
@@ -142,19 +183,11 @@ export class UIScene extends Phaser.Scene {
     private transactionDetailsButtonBg?: Phaser.GameObjects.Rectangle;
     private transactionDetailsButtonText?: Phaser.GameObjects.Text;
 
-    // Marketplace item data - only used as fallback if blockchain fails
-    private readonly FALLBACK_MARKETPLACE_ITEMS = {
-        Weapons: ['sword_01a', 'sword_01b', 'sword_01c', 'sword_01d', 'sword_01e', 'sword_02a', 'sword_02b', 'sword_02c', 'sword_02d', 'sword_02e', 'bow_01a', 'bow_01b', 'bow_01d', 'bow_01e', 'bow_02a', 'bow_02b', 'bow_02d', 'bow_02e', 'arrow_01a', 'arrow_01b', 'arrow_02a', 'arrow_02b', 'shield_01a', 'shield_01b', 'shield_02a', 'shield_02b', 'staff_01a', 'staff_01b', 'spellbook_01a', 'spellbook_01b'],
-        Armors: ['helmet_01a', 'helmet_01b', 'helmet_01c', 'helmet_01d', 'helmet_01e', 'helmet_02a', 'helmet_02b', 'helmet_02c', 'helmet_02d', 'helmet_02e'],
-        Misc: ['book_01a', 'book_01b', 'book_02a', 'book_02b', 'coin_01a', 'coin_01b', 'coin_02a', 'coin_02b', 'crystal_01a', 'crystal_01b', 'gem_01a', 'gem_01b', 'gift_01a', 'gift_01b', 'ingot_01a', 'ingot_01b', 'key_01a', 'key_01b', 'necklace_01a', 'necklace_01b', 'pearl_01a', 'pearl_01b', 'ring_01a', 'ring_01b', 'scroll_01a', 'scroll_01b', 'scroll_01c', 'scroll_01d', 'scroll_01e', 'scroll_01f'],
-        Consumables: ['potion_01a', 'potion_01b', 'potion_01c', 'potion_01d', 'potion_01e', 'potion_01f', 'potion_01g', 'potion_01h', 'potion_02a', 'potion_02b', 'potion_02c', 'potion_02d', 'potion_02e', 'potion_02f', 'potion_03a', 'potion_03b', 'fish_01a', 'fish_01b', 'fish_01c', 'fish_01d', 'fish_01e', 'candy_01a', 'candy_01b', 'candy_01c', 'candy_01d', 'candy_01e', 'candy_01f', 'candy_01g', 'candy_02a', 'candy_02b']
-    };
-
     // OneChain Blockchain Properties
     private oneChainMarketplaceService: OneChainMarketplaceService;
     private oneChainTransactionFlow: OneChainTransactionFlow;
     private oneChainTransactionService: OneChainTransactionService;
-    private suiClient!: SuiClient;
+    private chain!: ChainBackend;
     private marketplaceListings: MarketplaceListing[] = [];
     private currentMarketplaceTab: 'browse' | 'my_kiosk' | 'sell' = 'browse';
     private blockchainItems: Map<string, FrontendItem> = new Map();
@@ -179,6 +212,10 @@ export class UIScene extends Phaser.Scene {
         this.marketplaceButtons = [];
         this.marketplaceSlots = [];
         this.backpackSlots = [];
+        this.chestSlots = [];
+        this.openChest = null;
+        this.cookingRows = [];
+        this.cookingStation = null;
         this.slots = [];
         this.marketplaceVisible = false;
         this.transactionDetailsCreated = false;
@@ -188,6 +225,7 @@ export class UIScene extends Phaser.Scene {
         this.guideMenuVisible = false;
         this.settingsMenuVisible = false;
         this.npcTradeVisible = false;
+        this.questLogVisible = false;
         this.selectedMarketplaceSlot = -1;
         this.guideMenuContainer = undefined;
         this.guideMenuOverlay = undefined;
@@ -196,14 +234,18 @@ export class UIScene extends Phaser.Scene {
         this.npcLeftSlots = [];
         this.npcRightSlots = [];
 
+        // Fresh inventory model; slots re-render whenever it changes
+        this.inventory = new Inventory(this.SLOT_COUNT, this.BACKPACK_SLOT_COUNT);
+        this.inventory.subscribe(change => this.handleInventoryChange(change));
+
         // Initialize OneChain services
-        this.suiClient = new SuiClient({ url: ONECHAIN_NETWORK.RPC_URL });
+        this.chain = getChainBackend();
         this.oneChainMarketplaceService = OneChainMarketplaceService.getInstance();
         this.oneChainTransactionFlow = OneChainTransactionFlow.getInstance();
 
         // Get transaction service from WalletBridgeService (has signer properly set)
         const walletBridge = WalletBridgeService.getInstance();
-        this.oneChainTransactionService = walletBridge.getTransactionService() || new OneChainTransactionService(this.suiClient);
+        this.oneChainTransactionService = walletBridge.getTransactionService() || new OneChainTransactionService(this.chain);
 
         this.marketplaceListings = [];
         this.blockchainItems.clear();
@@ -223,6 +265,11 @@ export class UIScene extends Phaser.Scene {
 
         // Create HP bar
         this.createHPBar();
+        this.createBuffDisplay();
+
+        // Create quest log (hidden until J is pressed)
+        this.createQuestLog();
+        EventBus.on(QUEST_EVENTS.UPDATED, this.refreshQuestLog, this);
 
         // Handle window resize with proper context binding
         this.scale.on('resize', this.handleResize, this);
@@ -230,6 +277,7 @@ export class UIScene extends Phaser.Scene {
         // Cleanup on scene shutdown
         this.events.once('shutdown', () => {
             this.scale.off('resize', this.handleResize, this);
+            EventBus.off(QUEST_EVENTS.UPDATED, this.refreshQuestLog, this);
             this.cleanupKeyHandlers();
             this.input.off('pointermove', this.onDragMove, this);
             this.input.off('pointermove', this.updateHeldItemPosition, this);
@@ -249,6 +297,10 @@ export class UIScene extends Phaser.Scene {
 
         // Create backpack (hidden by default)
         this.createBackpack();
+        this.createChestPanel();
+        this.createFishingPanel();
+        this.loadCookingRecipes();
+        this.createCookingPanel();
 
         // Create marketplace (hidden by default)
         this.createMarketplace();
@@ -257,6 +309,7 @@ export class UIScene extends Phaser.Scene {
         this.createSettingsButton();
 
         // Create crafting UI (hidden by default)
+        this.loadCraftingRecipes();
         this.createCraftingUI();
     }
 
@@ -380,17 +433,18 @@ export class UIScene extends Phaser.Scene {
     }
 
     private updateHPBar(data: { current: number; max: number }): void {
-        // Each heart represents 10 HP
-        const heartsToShow = Math.ceil(data.current / 10);
+        // Each heart represents a tenth of max HP (10 HP at level 1)
+        const hpPerHeart = Math.max(data.max, 1) / this.#hearts.length;
+        const heartsToShow = Math.ceil(data.current / hpPerHeart);
 
         // Update each heart visibility and alpha
         this.#hearts.forEach((heart, index) => {
             if (index < heartsToShow) {
                 heart.setVisible(true);
                 // If this is the last heart and HP is not full for this heart, make it partially transparent
-                const hpForThisHeart = data.current - (index * 10);
-                if (hpForThisHeart < 10 && hpForThisHeart > 0) {
-                    heart.setAlpha(hpForThisHeart / 10);
+                const hpForThisHeart = data.current - (index * hpPerHeart);
+                if (hpForThisHeart < hpPerHeart && hpForThisHeart > 0) {
+                    heart.setAlpha(hpForThisHeart / hpPerHeart);
                 } else {
                     heart.setAlpha(1);
                 }
@@ -400,6 +454,30 @@ export class UIScene extends Phaser.Scene {
         });
     }
 
+    private createBuffDisplay(): void {
+        this.buffText = this.add.text(20, 52, '', {
+            fontSize: '13px',
+            color: '#ffffff',
+            backgroundColor: 'rgba(0, 0, 0, 0.5)',
+            padding: { x: 6, y: 3 },
+            lineSpacing: 2
+        }).setScrollFactor(0).setDepth(10003).setVisible(false);
+        this.#hudContainer.add(this.buffText);
+    }
+
+    // FarmScene pushes the active dish buffs whenever they change or tick down
+    public setActiveBuffs(buffs: ActiveBuffState[]): void {
+        if (!this.buffText) return;
+
+        const lines = buffs.map(buff => {
+            const hours = Math.floor(buff.remainingMinutes / 60);
+            const minutes = buff.remainingMinutes % 60;
+            return `${buff.icon} ${buff.label} ${hours > 0 ? `${hours}h ` : ''}${minutes}m`;
+        });
+        this.buffText.setText(lines.join('\n'));
+        this.buffText.setVisible(lines.length > 0);
+    }
+
     private setupKeys(): void {
         // Clean up any existing key handlers
         this.cleanupKeyHandlers();
@@ -443,50 +521,85 @@ export class UIScene extends Phaser.Scene {
         });
     }
 
-    // 3. Update the addItem method to handle item types and better positioning
-    public addItem(itemId: string, slotIndex: number, itemType: string = 'item', count: number = 1): void {
-        if (slotIndex < 0 || slotIndex >= this.SLOT_COUNT) {
-            console.warn(`Invalid slot index: ${slotIndex}`);
+    // Put a stack into an item bar slot (replaces whatever is there)
+    public addItem(itemId: string, slotIndex: number, itemType: string = getItemGameType(itemId), count: number = 1): void {
+        this.inventory.setSlot('itembar', slotIndex, { itemId, itemType, count });
+    }
+
+    public getInventory(): Inventory {
+        return this.inventory;
+    }
+
+    private handleInventoryChange(change: InventoryChange): void {
+        if (change.container === 'held') {
+            this.renderHeldItem();
             return;
         }
 
-        const slot = this.slots[slotIndex];
-        if (!slot) return;
+        this.renderInventorySlot(change.container, change.index);
+
+        if (this.cookingStation) {
+            this.refreshCookingPanel();
+        }
+
+        if (change.container === 'itembar' && change.index === this.selectedIndex) {
+            this.events.emit('slot-selected', {
+                slotIndex: this.selectedIndex,
+                item: this.getSelectedItem()
+            });
+        }
+    }
+
+    private getContainerSlots(container: InventoryContainer): Slot[] {
+        return { itembar: this.slots, backpack: this.backpackSlots, chest: this.chestSlots }[container];
+    }
+
+    // Redraw one item bar / backpack / chest slot from the inventory model
+    private renderInventorySlot(container: InventoryContainer, slotIndex: number): void {
+        const slot = this.getContainerSlots(container)[slotIndex];
+        const parent = { itembar: this.itemBarContainer, backpack: this.backpackContainer, chest: this.chestContainer }[container];
+        if (!slot || !parent) return;
+
+        // Dim slots that are still locked behind player level
+        slot.bg.setAlpha(this.inventory.isUnlocked(container, slotIndex) ? 1 : 0.35);
 
         // Remove existing item if any
         if (slot.itemImage) {
             slot.itemImage.destroy();
+            slot.itemImage = undefined;
         }
         if (slot.countText) {
             slot.countText.destroy();
+            slot.countText = undefined;
         }
 
-        // Add item image with proper depth
-        const textureKey = itemId;
+        const stack = this.inventory.getSlot(container, slotIndex);
+        slot.itemId = stack?.itemId;
+        slot.itemType = stack?.itemType;
+        slot.instanceId = stack?.instanceId;
+        if (!stack) return;
 
         // Check if the texture exists
-        if (this.textures.exists(textureKey)) {
-            slot.itemImage = this.add.image(slot.x, slot.y, textureKey)
+        if (this.textures.exists(stack.itemId)) {
+            slot.itemImage = this.add.image(slot.x, slot.y, stack.itemId)
                 .setDisplaySize(32, 32)
                 .setOrigin(0.5, 0.5)
                 .setDepth(1000 + slotIndex);
-            this.itemBarContainer.add(slot.itemImage);
         } else {
-            console.warn(`Texture not found: ${textureKey}`);
+            console.warn(`Texture not found: ${stack.itemId}`);
             // Add a placeholder for debugging
-            const placeholderImage = this.add.rectangle(slot.x, slot.y, 32, 32, 0xff0000)
+            slot.itemImage = this.add.rectangle(slot.x, slot.y, 32, 32, 0xff0000)
                 .setOrigin(0.5, 0.5)
                 .setDepth(1000 + slotIndex);
-            slot.itemImage = placeholderImage;
-            this.itemBarContainer.add(placeholderImage);
         }
+        parent.add(slot.itemImage);
 
         // Add item count if more than 1
-        if (count > 1) {
+        if (stack.count > 1) {
             slot.countText = this.add.text(
                 slot.x + 18,
                 slot.y + 18,
-                count.toString(),
+                stack.count.toString(),
                 {
                     fontSize: '16px',
                     color: '#ffffff',
@@ -498,19 +611,9 @@ export class UIScene extends Phaser.Scene {
             ).setOrigin(1, 1)
                 .setDepth(10000 + slotIndex); // Very high depth to ensure visibility
 
-            this.itemBarContainer.add(slot.countText);
-        } else {
-            // Clear count text if count is 1
-            if (slot.countText) {
-                slot.countText.destroy();
-                slot.countText = undefined;
-            }
+            parent.add(slot.countText);
         }
 
-        // Store item data
-        slot.itemId = itemId;
-        slot.itemType = itemType;
-
         // Force update the display list
         this.children.sort('depth');
     }
@@ -587,6 +690,15 @@ export class UIScene extends Phaser.Scene {
             }
         });
 
+        // Add 'J' key to toggle the quest log (only in FarmScene)
+        const questLogKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.J);
+        questLogKey.on('down', () => {
+            const farmScene = this.scene.get(SCENE_KEYS.FARM);
+            if (farmScene && farmScene.scene.isActive()) {
+                this.toggleQuestLog();
+            }
+        });
+
         // Add 'ESC' key to close marketplace/backpack/crafting
         const escKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.ESC);
         escKey.on('down', () => {
@@ -595,6 +707,8 @@ export class UIScene extends Phaser.Scene {
             }
             else if (this.craftingVisible) {
                 this.hideCrafting();
+            } else if (this.cookingStation) {
+                this.hideCooking();
             } else if (this.backpackVisible) {
                 this.hideBackpack();
                 if (this.marketplaceVisible) {
@@ -602,6 +716,8 @@ export class UIScene extends Phaser.Scene {
                 }
             } else if (this.marketplaceVisible) {
                 this.hideMarketplace();
+            } else if (this.questLogVisible) {
+                this.hideQuestLog();
             } else if (this.guideMenuVisible) {
                 this.hideGuideMenu();
             } else if (this.settingsMenuVisible) {
@@ -631,21 +747,40 @@ export class UIScene extends Phaser.Scene {
     }
 
     // 2. Add a method to get the currently selected item
-    public getSelectedItem(): { itemId: string; itemType?: string } | null {
-        const slot = this.slots[this.selectedIndex];
-        if (slot && slot.itemId) {
-            return {
-                itemId: slot.itemId,
-                itemType: slot.itemType
-            };
-        }
-        return null;
+    public getSelectedItem(): { itemId: string; itemType?: string; instanceId?: string } | null {
+        const stack = this.inventory.getSlot('itembar', this.selectedIndex);
+        return stack ? { itemId: stack.itemId, itemType: stack.itemType, instanceId: stack.instanceId } : null;
+    }
+
+    // Use up items from the selected item bar slot (e.g. planting seeds)
+    public consumeSelectedItem(amount: number = 1): boolean {
+        const stack = this.inventory.getSlot('itembar', this.selectedIndex);
+        if (!stack || stack.count < amount) return false;
+
+        this.inventory.removeAt('itembar', this.selectedIndex, amount);
+        return true;
     }
 
     public getSlot(index: number): Slot | undefined {
         return this.slots[index];
     }
 
+    // Serialize item bar and backpack contents for the save system
+    public getInventorySnapshot(): SavedInventory {
+        return this.inventory.serialize();
+    }
+
+    // Replace item bar and backpack contents with a saved snapshot
+    public restoreInventory(snapshot: SavedInventory): void {
+        this.inventory.restore(snapshot);
+        this.updateSelection();
+    }
+
+    // Level perk: how many backpack slots accept items
+    public setBackpackUnlockedSlots(count: number): void {
+        this.inventory.setUnlockedSize('backpack', count);
+    }
+
     // ===== BACKPACK METHODS =====
 
     private createBackpack(): void {
@@ -748,7 +883,7 @@ export class UIScene extends Phaser.Scene {
 
     // ===== DRAG AND DROP METHODS =====
 
-    private makeSlotInteractive(slotBg: Phaser.GameObjects.Image | Phaser.GameObjects.Rectangle, slotIndex: number, slotType: 'itembar' | 'backpack'): void {
+    private makeSlotInteractive(slotBg: Phaser.GameObjects.Image | Phaser.GameObjects.Rectangle, slotIndex: number, slotType: InventoryContainer): void {
         slotBg.setInteractive({ draggable: false });
 
         slotBg.on('pointerover', () => {
@@ -760,11 +895,15 @@ export class UIScene extends Phaser.Scene {
         });
 
         slotBg.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
-            const slot = slotType === 'itembar' ? this.slots[slotIndex] : this.backpackSlots[slotIndex];
+            const slot = this.getContainerSlots(slotType)[slotIndex];
             if (!slot) return;
 
+            // Shift + left click → quick-move the stack
+            if (pointer.leftButtonDown() && pointer.event.shiftKey) {
+                this.handleShiftClick(slotIndex, slotType);
+            }
             // Left click
-            if (pointer.leftButtonDown()) {
+            else if (pointer.leftButtonDown()) {
                 // Check for double-click
                 const currentTime = this.time.now;
                 const isDoubleClick = this.lastClickSlot &&
@@ -791,240 +930,101 @@ export class UIScene extends Phaser.Scene {
 
     // ===== NEW CLICK-BASED ITEM SYSTEM =====
 
-    private handleDoubleClick(slot: Slot, slotIndex: number, slotType: 'itembar' | 'backpack'): void {
+    private handleDoubleClick(slot: Slot, slotIndex: number, slotType: InventoryContainer): void {
         if (!slot.itemId) return;
 
-        const targetItemId = slot.itemId;
-        const currentCount = slot.countText ? parseInt(slot.countText.text) : 1;
-
-        if (currentCount >= this.MAX_STACK_SIZE) return;
-
-        // Determine which slots to check
-        const slotsToCheck = slotType === 'itembar' ? this.slots : this.backpackSlots;
-
-        // Collect items from other slots
-        let totalCollected = 0;
-        const spaceAvailable = this.MAX_STACK_SIZE - currentCount;
-
-        for (let i = 0; i < slotsToCheck.length; i++) {
-            if (i === slotIndex) continue; // Skip the target slot
-
-            const otherSlot = slotsToCheck[i];
-            if (otherSlot.itemId === targetItemId) {
-                const otherCount = otherSlot.countText ? parseInt(otherSlot.countText.text) : 1;
-                const canCollect = Math.min(otherCount, spaceAvailable - totalCollected);
-
-                if (canCollect > 0) {
-                    totalCollected += canCollect;
-                    const remaining = otherCount - canCollect;
-
-                    if (remaining > 0) {
-                        this.updateSlotCount(otherSlot, i, slotType, remaining);
-                    } else {
-                        this.clearSlot(i, slotType);
-                    }
-
-                    if (totalCollected >= spaceAvailable) break;
-                }
-            }
-        }
-
-        // Update target slot with collected items
-        if (totalCollected > 0) {
-            const newCount = currentCount + totalCollected;
-            this.updateSlotCount(slot, slotIndex, slotType, newCount);
-        }
+        // Collect matching items from the other slots of the same container
+        this.inventory.gather(slotType, slotIndex);
     }
 
-    private handleLeftClick(slot: Slot, slotIndex: number, slotType: 'itembar' | 'backpack'): void {
+    private handleLeftClick(slot: Slot, slotIndex: number, slotType: InventoryContainer): void {
+        const held = this.inventory.getHeld();
+
         // Empty hand + slot with items → Pick up entire stack
-        if (!this.heldItem && slot.itemId) {
-            const count = slot.countText ? parseInt(slot.countText.text) : 1;
-            this.pickupItems(slot, slotIndex, slotType, count);
+        if (!held && slot.itemId) {
+            this.inventory.pickUp(slotType, slotIndex);
         }
-        // Holding items + empty slot → Place entire stack
-        else if (this.heldItem && !slot.itemId) {
-            this.placeItems(slot, slotIndex, slotType, this.heldItem.count);
-        }
-        // Holding items + slot with same item → Merge stacks
-        else if (this.heldItem && slot.itemId === this.heldItem.itemId) {
-            this.mergeStacks(slot, slotIndex, slotType);
+        // Holding items + empty slot or same item → Place / merge entire stack
+        else if (held && (!slot.itemId || slot.itemId === held.itemId)) {
+            this.inventory.place(slotType, slotIndex);
         }
         // Holding items + slot with different item → Swap items
-        else if (this.heldItem && slot.itemId && slot.itemId !== this.heldItem.itemId) {
-            this.swapItemsNew(slot, slotIndex, slotType);
-        }
-    }
-
-    private handleRightClick(slot: Slot, slotIndex: number, slotType: 'itembar' | 'backpack'): void {
-        // Empty hand + slot with items → Pick up half stack
-        if (!this.heldItem && slot.itemId) {
-            const count = slot.countText ? parseInt(slot.countText.text) : 1;
-            const halfCount = Math.ceil(count / 2);
-            this.pickupItems(slot, slotIndex, slotType, halfCount);
-        }
-        // Holding items + empty slot → Place 1 item
-        else if (this.heldItem && !slot.itemId) {
-            this.placeItems(slot, slotIndex, slotType, 1);
-        }
-        // Holding items + slot with same item → Add 1 item (if < 99)
-        else if (this.heldItem && slot.itemId === this.heldItem.itemId) {
-            const currentCount = slot.countText ? parseInt(slot.countText.text) : 1;
-            if (currentCount < this.MAX_STACK_SIZE) {
-                this.placeItems(slot, slotIndex, slotType, 1);
-            }
+        else if (held && slot.itemId) {
+            this.inventory.swapHeld(slotType, slotIndex);
         }
     }
 
-    private pickupItems(slot: Slot, slotIndex: number, slotType: 'itembar' | 'backpack', count: number): void {
-        if (!slot.itemId) return;
-
-        const currentCount = slot.countText ? parseInt(slot.countText.text) : 1;
-        const pickupCount = Math.min(count, currentCount);
-        const remainingCount = currentCount - pickupCount;
-
-        // Create held item
-        this.heldItem = {
-            itemId: slot.itemId,
-            itemType: slot.itemType,
-            count: pickupCount
-        };
-
-        // Create ghost image
-        this.createHeldItemGhost();
+    // Quick-move between an open chest and the item bar/backpack, otherwise between item bar and backpack
+    private handleShiftClick(slotIndex: number, slotType: InventoryContainer): void {
+        if (this.inventory.getHeld()) return;
 
-        // Update or clear slot
-        if (remainingCount > 0) {
-            this.updateSlotCount(slot, slotIndex, slotType, remainingCount);
-        } else {
-            this.clearSlot(slotIndex, slotType);
-        }
+        const targets: InventoryContainer[] = slotType === 'chest'
+            ? ['itembar', 'backpack']
+            : this.openChest
+                ? ['chest']
+                : [slotType === 'itembar' ? 'backpack' : 'itembar'];
+        this.inventory.transfer(slotType, slotIndex, targets);
     }
 
-    private placeItems(slot: Slot, slotIndex: number, slotType: 'itembar' | 'backpack', count: number): void {
-        if (!this.heldItem) return;
+    private handleRightClick(slot: Slot, slotIndex: number, slotType: InventoryContainer): void {
+        const held = this.inventory.getHeld();
 
-        const currentCount = slot.itemId ? (slot.countText ? parseInt(slot.countText.text) : 1) : 0;
-        const spaceAvailable = this.MAX_STACK_SIZE - currentCount;
-        const placeCount = Math.min(count, spaceAvailable, this.heldItem.count);
-
-        if (placeCount <= 0) return;
-
-        const newCount = currentCount + placeCount;
-        this.heldItem.count -= placeCount;
-
-        // Update slot
-        if (slotType === 'itembar') {
-            this.addItem(this.heldItem.itemId, slotIndex, this.heldItem.itemType, newCount);
-        } else {
-            this.addItemToBackpack(this.heldItem.itemId, slotIndex, this.heldItem.itemType, newCount);
-        }
-
-        // Clear held item if empty
-        if (this.heldItem.count <= 0) {
-            this.clearHeldItem();
-        } else {
-            this.updateHeldItemGhost();
-        }
-    }
-
-    private mergeStacks(slot: Slot, slotIndex: number, slotType: 'itembar' | 'backpack'): void {
-        if (!this.heldItem || !slot.itemId || slot.itemId !== this.heldItem.itemId) return;
-
-        const currentCount = slot.countText ? parseInt(slot.countText.text) : 1;
-        const spaceAvailable = this.MAX_STACK_SIZE - currentCount;
-        const transferCount = Math.min(this.heldItem.count, spaceAvailable);
-
-        if (transferCount <= 0) return;
-
-        const newCount = currentCount + transferCount;
-        this.heldItem.count -= transferCount;
-
-        // Update slot
-        if (slotType === 'itembar') {
-            this.addItem(this.heldItem.itemId, slotIndex, this.heldItem.itemType, newCount);
-        } else {
-            this.addItemToBackpack(this.heldItem.itemId, slotIndex, this.heldItem.itemType, newCount);
+        // Empty hand + slot with items → Pick up half stack
+        if (!held && slot.itemId) {
+            this.inventory.split(slotType, slotIndex);
         }
-
-        // Clear held item if empty
-        if (this.heldItem.count <= 0) {
-            this.clearHeldItem();
-        } else {
-            this.updateHeldItemGhost();
+        // Holding items + empty slot or same item → Place 1 item (up to the stack limit)
+        else if (held && (!slot.itemId || slot.itemId === held.itemId)) {
+            this.inventory.place(slotType, slotIndex, 1);
         }
     }
 
-    private swapItemsNew(slot: Slot, slotIndex: number, slotType: 'itembar' | 'backpack'): void {
-        if (!this.heldItem || !slot.itemId) return;
+    // Keep the cursor ghost in sync with the held stack
+    private renderHeldItem(): void {
+        const held = this.inventory.getHeld();
 
-        const slotItemId = slot.itemId;
-        const slotItemType = slot.itemType;
-        const slotCount = slot.countText ? parseInt(slot.countText.text) : 1;
-
-        // Place held item in slot
-        if (slotType === 'itembar') {
-            this.addItem(this.heldItem.itemId, slotIndex, this.heldItem.itemType, this.heldItem.count);
-        } else {
-            this.addItemToBackpack(this.heldItem.itemId, slotIndex, this.heldItem.itemType, this.heldItem.count);
+        if (!held) {
+            if (this.heldItemGhost) {
+                this.heldItemGhost.destroy();
+                this.heldItemGhost = undefined;
+            }
+            if (this.heldItemCountText) {
+                this.heldItemCountText.destroy();
+                this.heldItemCountText = undefined;
+            }
+            this.input.off('pointermove', this.updateHeldItemPosition, this);
+            return;
         }
 
-        // Pick up slot item
-        this.heldItem = {
-            itemId: slotItemId,
-            itemType: slotItemType,
-            count: slotCount
-        };
-
-        this.updateHeldItemGhost();
-    }
-
-    private updateSlotCount(slot: Slot, slotIndex: number, slotType: 'itembar' | 'backpack', count: number): void {
-        if (!slot.itemId) return;
-
-        if (slotType === 'itembar') {
-            this.addItem(slot.itemId, slotIndex, slot.itemType, count);
-        } else {
-            this.addItemToBackpack(slot.itemId, slotIndex, slot.itemType, count);
+        const pointer = this.input.activePointer;
+        if (this.heldItemGhost && this.heldItemGhost.texture.key !== held.itemId) {
+            this.heldItemGhost.destroy();
+            this.heldItemGhost = undefined;
         }
-    }
-
-    private createHeldItemGhost(): void {
-        if (!this.heldItem) return;
-
-        this.heldItemGhost = this.add.image(0, 0, this.heldItem.itemId)
-            .setDisplaySize(32, 32)
-            .setAlpha(0.8)
-            .setDepth(35000);
+        if (!this.heldItemGhost) {
+            this.heldItemGhost = this.add.image(pointer.x, pointer.y, held.itemId)
+                .setDisplaySize(32, 32)
+                .setAlpha(0.8)
+                .setDepth(35000);
 
-        if (this.heldItem.count > 1) {
-            this.heldItemCountText = this.add.text(0, 0, this.heldItem.count.toString(), {
-                fontSize: '14px',
-                color: '#ffffff',
-                backgroundColor: 'rgba(0,0,0,0.7)',
-                padding: { x: 2, y: 1 }
-            }).setOrigin(1, 1).setDepth(35001);
+            // Follow pointer
+            this.input.off('pointermove', this.updateHeldItemPosition, this);
+            this.input.on('pointermove', this.updateHeldItemPosition, this);
         }
 
-        // Follow pointer
-        this.input.on('pointermove', this.updateHeldItemPosition, this);
-    }
-
-    private updateHeldItemGhost(): void {
-        if (this.heldItemCountText && this.heldItem) {
-            if (this.heldItem.count > 1) {
-                this.heldItemCountText.setText(this.heldItem.count.toString());
-            } else {
-                this.heldItemCountText.destroy();
-                this.heldItemCountText = undefined;
+        if (held.count > 1) {
+            if (!this.heldItemCountText) {
+                this.heldItemCountText = this.add.text(pointer.x + 16, pointer.y + 16, '', {
+                    fontSize: '14px',
+                    color: '#ffffff',
+                    backgroundColor: 'rgba(0,0,0,0.7)',
+                    padding: { x: 2, y: 1 }
+                }).setOrigin(1, 1).setDepth(35001);
             }
-        } else if (!this.heldItemCountText && this.heldItem && this.heldItem.count > 1) {
-            this.heldItemCountText = this.add.text(0, 0, this.heldItem.count.toString(), {
-                fontSize: '14px',
-                color: '#ffffff',
-                backgroundColor: 'rgba(0,0,0,0.7)',
-                padding: { x: 2, y: 1 }
-            }).setOrigin(1, 1).setDepth(35001);
+            this.heldItemCountText.setText(held.count.toString());
+        } else if (this.heldItemCountText) {
+            this.heldItemCountText.destroy();
+            this.heldItemCountText = undefined;
         }
     }
 
@@ -1038,37 +1038,23 @@ export class UIScene extends Phaser.Scene {
     }
 
     private clearHeldItem(): void {
-        if (this.heldItemGhost) {
-            this.heldItemGhost.destroy();
-            this.heldItemGhost = undefined;
-        }
-        if (this.heldItemCountText) {
-            this.heldItemCountText.destroy();
-            this.heldItemCountText = undefined;
-        }
-        this.input.off('pointermove', this.updateHeldItemPosition, this);
-        this.heldItem = null;
+        this.inventory.setHeld(null);
     }
 
     // ===== PUBLIC METHODS FOR EXTERNAL ACCESS =====
 
-    public getHeldItem(): { itemId: string; itemType?: string; count: number } | null {
-        return this.heldItem;
+    public getHeldItem(): ItemStack | null {
+        return this.inventory.getHeld();
     }
 
     public setHeldItem(itemId: string, itemType: string, count: number): void {
-        this.heldItem = { itemId, itemType, count };
-        this.createHeldItemGhost();
+        this.inventory.setHeld({ itemId, itemType, count });
     }
 
     public clearHeldItemPublic(): void {
         this.clearHeldItem();
     }
 
-    public createHeldItemGhostPublic(): void {
-        this.createHeldItemGhost();
-    }
-
     // ===== OLD DRAG SYSTEM (KEPT FOR COMPATIBILITY) =====
 
     private startDrag(slot: Slot, slotIndex: number, slotType: 'itembar' | 'backpack'): void {
@@ -1077,7 +1063,7 @@ export class UIScene extends Phaser.Scene {
         this.draggedItem = {
             itemId: slot.itemId,
             itemType: slot.itemType,
-            count: slot.countText ? parseInt(slot.countText.text) : 1,
+            count: this.inventory.getSlot(slotType, slotIndex)?.count ?? 1,
             sourceSlot: slot,
             sourceIndex: slotIndex,
             sourceType: slotType
@@ -1109,43 +1095,13 @@ export class UIScene extends Phaser.Scene {
     private onDrop(targetSlot: Slot, targetIndex: number, targetType: 'itembar' | 'backpack'): void {
         if (!this.draggedItem) return;
 
-        const sourceSlot = this.draggedItem.sourceSlot;
-        const sourceIndex = this.draggedItem.sourceIndex;
-        const sourceType = this.draggedItem.sourceType;
-
-        // Swap items
-        this.swapItems(sourceSlot, sourceIndex, sourceType, targetSlot, targetIndex, targetType);
+        // Merge or swap items
+        this.inventory.move(this.draggedItem.sourceType, this.draggedItem.sourceIndex, targetType, targetIndex);
 
         // Cleanup
         this.endDrag();
     }
 
-    private swapItems(fromSlot: Slot, fromIndex: number, fromType: 'itembar' | 'backpack', toSlot: Slot, toIndex: number, toType: 'itembar' | 'backpack'): void {
-        // Store target slot data
-        const targetItemId = toSlot.itemId;
-        const targetItemType = toSlot.itemType;
-        const targetCount = toSlot.countText ? parseInt(toSlot.countText.text) : 1;
-
-        // Move source item to target
-        if (toType === 'itembar') {
-            this.addItem(fromSlot.itemId!, toIndex, fromSlot.itemType, this.draggedItem!.count);
-        } else {
-            this.addItemToBackpack(fromSlot.itemId!, toIndex, fromSlot.itemType, this.draggedItem!.count);
-        }
-
-        // Move target item to source (if exists)
-        if (targetItemId) {
-            if (fromType === 'itembar') {
-                this.addItem(targetItemId, fromIndex, targetItemType, targetCount);
-            } else {
-                this.addItemToBackpack(targetItemId, fromIndex, targetItemType, targetCount);
-            }
-        } else {
-            // Clear source slot if target was empty
-            this.clearSlot(fromIndex, fromType);
-        }
-    }
-
     private endDrag(): void {
         if (this.dragGhost) {
             this.dragGhost.destroy();
@@ -1160,103 +1116,297 @@ export class UIScene extends Phaser.Scene {
     }
 
     private clearSlot(slotIndex: number, slotType: 'itembar' | 'backpack'): void {
-        const slot = slotType === 'itembar' ? this.slots[slotIndex] : this.backpackSlots[slotIndex];
-        if (!slot) return;
+        this.inventory.setSlot(slotType, slotIndex, null);
+    }
 
-        if (slot.itemImage) {
-            slot.itemImage.destroy();
-            slot.itemImage = undefined;
+    // Put a stack into a backpack slot (replaces whatever is there)
+    public addItemToBackpack(itemId: string, slotIndex: number, itemType: string = getItemGameType(itemId), count: number = 1): void {
+        this.inventory.setSlot('backpack', slotIndex, { itemId, itemType, count });
+    }
+
+    public toggleBackpack(): void {
+        this.backpackVisible = !this.backpackVisible;
+        this.backpackContainer.setVisible(this.backpackVisible);
+        this.backpackOverlay.setVisible(this.backpackVisible);
+    }
+
+    public showBackpack(): void {
+        this.backpackVisible = true;
+        this.backpackContainer.setVisible(true);
+        this.backpackOverlay.setVisible(true);
+    }
+
+    public hideBackpack(): void {
+        this.backpackVisible = false;
+        this.backpackContainer.setVisible(false);
+        this.backpackOverlay.setVisible(false);
+        this.closeChest();
+
+        // If marketplace was open, show it back
+        if (this.marketplaceVisible) {
+            this.marketplaceContainer.setVisible(true);
         }
-        if (slot.countText) {
-            slot.countText.destroy();
-            slot.countText = undefined;
+    }
+
+    // ===== CHEST METHODS =====
+
+    private createChestPanel(): void {
+        this.chestContainer = this.add.container(0, 0);
+        this.chestContainer.setScrollFactor(0);
+        this.chestContainer.setDepth(16000); // Same layer as crafting, right of the backpack
+        this.chestContainer.setVisible(false);
+
+        const slotScale = 1.2;
+        const slotSize = 48 * slotScale;
+        const cols = this.CHEST_COLS;
+        const rows = Math.ceil(CHEST_SIZE / cols);
+        const centerX = this.cameras.main.centerX + 480;
+        const centerY = this.cameras.main.centerY;
+        const startX = centerX - (cols * slotSize) / 2 + slotSize / 2;
+        const startY = centerY - (rows * slotSize) / 2 + slotSize / 2;
+
+        const title = this.add.text(centerX, startY - slotSize / 2 - 8, '📦 Chest', {
+            fontSize: '18px',
+            color: '#ffffff',
+            backgroundColor: 'rgba(0, 0, 0, 0.6)',
+            padding: { x: 8, y: 4 }
+        }).setOrigin(0.5, 1).setDepth(220);
+        this.chestContainer.add(title);
+
+        for (let index = 0; index < CHEST_SIZE; index++) {
+            const x = startX + (index % cols) * slotSize;
+            const y = startY + Math.floor(index / cols) * slotSize;
+            const slotBg = this.textures.exists('slot')
+                ? this.add.image(x, y, 'slot').setOrigin(0.5).setScale(slotScale).setDepth(200)
+                : this.add.rectangle(x, y, slotSize, slotSize, 0x000000, 0.3).setOrigin(0.5).setDepth(100);
+            this.chestContainer.add(slotBg);
+
+            this.chestSlots.push({ bg: slotBg, x, y });
+            this.makeSlotInteractive(slotBg, index, 'chest');
         }
-        slot.itemId = undefined;
-        slot.itemType = undefined;
+
+        const hint = this.add.text(centerX, startY + rows * slotSize - slotSize / 2 + 8, 'Shift + Click to move a stack', {
+            fontSize: '14px',
+            color: '#ffffff',
+            backgroundColor: 'rgba(0, 0, 0, 0.6)',
+            padding: { x: 6, y: 3 }
+        }).setOrigin(0.5, 0).setDepth(220);
+        this.chestContainer.add(hint);
+
+        this.#hudContainer.add(this.chestContainer);
+    }
+
+    // Show a placed chest's slots next to the backpack; the slot array is edited in place
+    public openChestPanel(x: number, y: number, slots: (ItemStack | null)[]): void {
+        this.closeChest();
+        this.openChest = { x, y };
+        this.inventory.setChest(slots);
+        this.chestContainer.setVisible(true);
+
+        if (!this.backpackVisible) {
+            this.showBackpack();
+            HUDBridgeService.getInstance().toggleBackpack(true);
+        }
+    }
+
+    public closeChest(): void {
+        if (!this.openChest) return;
+
+        this.openChest = null;
+        this.inventory.setChest(null);
+        this.chestContainer.setVisible(false);
     }
 
-    public addItemToBackpack(itemId: string, slotIndex: number, itemType: string = 'item', count: number = 1): void {
-        if (slotIndex < 0 || slotIndex >= this.BACKPACK_SLOT_COUNT) {
-            console.warn(`Invalid backpack slot index: ${slotIndex}`);
-            return;
-        }
+    public getOpenChest(): { x: number; y: number } | null {
+        return this.openChest ? { ...this.openChest } : null;
+    }
+
+    // ===== FISHING METHODS =====
+
+    private createFishingPanel(): void {
+        const width = 340;
+        const barWidth = 300;
+
+        this.fishingContainer = this.add.container(this.cameras.main.centerX, this.cameras.main.height - 170);
+        this.fishingContainer.setScrollFactor(0);
+        this.fishingContainer.setVisible(false);
+
+        const background = this.add.rectangle(0, 0, width, 76, 0x000000, 0.8)
+            .setOrigin(0.5, 0)
+            .setStrokeStyle(2, 0xffffff, 0.6);
+        this.fishingStatusText = this.add.text(0, 8, '', {
+            fontSize: '15px',
+            color: '#ffffff',
+            fontStyle: 'bold'
+        }).setOrigin(0.5, 0);
+
+        const bar = this.add.rectangle(-barWidth / 2, 44, barWidth, 16, 0x2f5f8f).setOrigin(0, 0.5);
+        this.fishingZone = this.add.rectangle(-barWidth / 2, 44, 0, 16, 0x66ff66, 0.8).setOrigin(0, 0.5);
+        this.fishingMarker = this.add.rectangle(-barWidth / 2, 44, 4, 24, 0xffffff).setOrigin(0.5);
+
+        this.fishingContainer.add([background, this.fishingStatusText, bar, this.fishingZone, this.fishingMarker]);
+        this.#hudContainer.add(this.fishingContainer);
+    }
+
+    public showFishing(): void {
+        this.fishingContainer?.setPosition(this.cameras.main.centerX, this.cameras.main.height - 170);
+        this.fishingContainer?.setVisible(true);
+    }
+
+    public hideFishing(): void {
+        this.fishingContainer?.setVisible(false);
+    }
+
+    // Redraw the reel bar from the current fishing session
+    public updateFishing(view: FishingView): void {
+        if (!this.fishingContainer || !this.fishingStatusText || !this.fishingZone || !this.fishingMarker) return;
+
+        const barWidth = 300;
+        const reeling = view.phase === 'reeling';
+        this.fishingZone.setVisible(reeling);
+        this.fishingMarker.setVisible(reeling);
+
+        if (reeling) {
+            this.fishingZone.setX(-barWidth / 2 + view.zoneStart * barWidth);
+            this.fishingZone.setSize((view.zoneEnd - view.zoneStart) * barWidth, 16);
+            this.fishingMarker.setX(-barWidth / 2 + view.marker * barWidth);
+        }
+
+        const status: Record<FishingView['phase'], string> = {
+            waiting: '🎣 Waiting for a bite...',
+            bite: '❗ A bite! Press E to hook it!',
+            reeling: `Press E in the green zone  ${'🐟'.repeat(view.hits)}${'·'.repeat(HITS_TO_CATCH - view.hits)}  ${'✖'.repeat(view.misses)}`,
+            caught: view.fish ? `Caught a ${view.fish.displayName}!` : 'Caught!',
+            escaped: 'The fish got away...'
+        };
+        this.fishingStatusText.setText(status[view.phase]);
+    }
+
+    // ===== COOKING METHODS =====
+
+    private loadCookingRecipes(): void {
+        const data = this.cache.json.get('cooking_recipes');
+        if (!data) {
+            console.warn('⚠️ Cooking recipes not loaded; cooking is disabled');
+            return;
+        }
+
+        try {
+            this.cookingRegistry = RecipeRegistry.fromJSON(data);
+        } catch (error) {
+            console.error('❌ Invalid cooking recipes:', error);
+        }
+    }
+
+    // One row per recipe; cooking takes ingredients from anywhere in the item bar or backpack
+    private createCookingPanel(): void {
+        const recipes = this.cookingRegistry.getAll()
+            .filter((recipe): recipe is ShapelessRecipe => recipe.type === 'shapeless');
+        const width = 460;
+        const rowHeight = 46;
+        const height = 48 + Math.max(1, recipes.length) * rowHeight + 12;
+
+        this.cookingContainer = this.add.container(this.cameras.main.centerX, this.cameras.main.centerY - height / 2);
+        this.cookingContainer.setScrollFactor(0);
+        this.cookingContainer.setDepth(16000);
+        this.cookingContainer.setVisible(false);
+
+        const background = this.add.rectangle(0, 0, width, height, 0x000000, 0.8)
+            .setOrigin(0.5, 0)
+            .setStrokeStyle(2, 0xffffff, 0.6);
+        const title = this.add.text(0, 10, '🍳 Cooking', {
+            fontSize: '18px',
+            color: '#ffffff',
+            fontStyle: 'bold'
+        }).setOrigin(0.5, 0);
+        this.cookingContainer.add([background, title]);
+
+        recipes.forEach((recipe, index) => {
+            const rowY = 48 + index * rowHeight;
+            const icon = this.add.image(-width / 2 + 26, rowY + rowHeight / 2 - 4, recipe.output.itemId);
+            const name = this.add.text(-width / 2 + 50, rowY, recipe.name, {
+                fontSize: '14px',
+                color: '#ffffff',
+                fontStyle: 'bold'
+            });
+            const ingredientsText = this.add.text(-width / 2 + 50, rowY + 18, '', {
+                fontSize: '12px',
+                color: '#cccccc'
+            });
+            const cookButton = this.add.text(width / 2 - 16, rowY + rowHeight / 2 - 4, 'Cook', {
+                fontSize: '14px',
+                color: '#ffffff',
+                backgroundColor: '#8b5a2b',
+                padding: { x: 10, y: 4 }
+            }).setOrigin(1, 0.5).setInteractive({ useHandCursor: true });
+            cookButton.on('pointerdown', () => this.cookRecipe(recipe));
 
-        const slot = this.backpackSlots[slotIndex];
-        if (!slot) return;
+            this.cookingContainer!.add([icon, name, ingredientsText, cookButton]);
+            this.cookingRows.push({ recipe, ingredientsText, cookButton });
+        });
 
-        // Remove existing item if any
-        if (slot.itemImage) slot.itemImage.destroy();
-        if (slot.countText) slot.countText.destroy();
+        this.#hudContainer.add(this.cookingContainer);
+    }
 
-        // Add item image
-        if (this.textures.exists(itemId)) {
-            slot.itemImage = this.add.image(slot.x, slot.y, itemId)
-                .setDisplaySize(32, 32)
-                .setOrigin(0.5, 0.5)
-                .setDepth(1000 + slotIndex);
-            this.backpackContainer.add(slot.itemImage);
-        } else {
-            console.warn(`Texture not found: ${itemId}`);
-            const placeholderImage = this.add.rectangle(slot.x, slot.y, 32, 32, 0xff0000)
-                .setOrigin(0.5, 0.5)
-                .setDepth(1000 + slotIndex);
-            slot.itemImage = placeholderImage;
-            this.backpackContainer.add(placeholderImage);
-        }
+    // Opened by FarmScene when the player clicks a cooking station within reach
+    public showCooking(x: number, y: number): void {
+        if (!this.cookingContainer) return;
 
-        // Add item count if more than 1
-        if (count > 1) {
-            slot.countText = this.add.text(
-                slot.x + 18,
-                slot.y + 18,
-                count.toString(),
-                {
-                    fontSize: '16px',
-                    color: '#ffffff',
-                    fontStyle: 'bold',
-                    stroke: '#000000',
-                    strokeThickness: 3,
-                    padding: { x: 2, y: 1 }
-                }
-            ).setOrigin(1, 1)
-                .setDepth(10000 + slotIndex);
-            this.backpackContainer.add(slot.countText);
-        } else {
-            // Clear count text if count is 1
-            if (slot.countText) {
-                slot.countText.destroy();
-                slot.countText = undefined;
-            }
-        }
+        this.cookingStation = { x, y };
+        this.cookingContainer.setVisible(true);
+        this.refreshCookingPanel();
+    }
 
-        // Store item data
-        slot.itemId = itemId;
-        slot.itemType = itemType;
+    public hideCooking(): void {
+        this.cookingStation = null;
+        this.cookingContainer?.setVisible(false);
+    }
 
-        this.children.sort('depth');
+    public getCookingStation(): { x: number; y: number } | null {
+        return this.cookingStation ? { ...this.cookingStation } : null;
     }
 
-    public toggleBackpack(): void {
-        this.backpackVisible = !this.backpackVisible;
-        this.backpackContainer.setVisible(this.backpackVisible);
-        this.backpackOverlay.setVisible(this.backpackVisible);
+    private refreshCookingPanel(): void {
+        this.cookingRows.forEach(({ recipe, ingredientsText, cookButton }) => {
+            const parts = recipe.ingredients.map(ingredient => {
+                const owned = this.inventory.countItem(ingredient.itemId);
+                return `${ingredient.count}x ${getItemDisplayName(ingredient.itemId)} (${owned})`;
+            });
+            const canCook = this.canCook(recipe);
+
+            ingredientsText.setText(parts.join('  '));
+            ingredientsText.setColor(canCook ? '#8fe388' : '#cccccc');
+            cookButton.setAlpha(canCook ? 1 : 0.4);
+        });
     }
 
-    public showBackpack(): void {
-        this.backpackVisible = true;
-        this.backpackContainer.setVisible(true);
-        this.backpackOverlay.setVisible(true);
+    private canCook(recipe: ShapelessRecipe): boolean {
+        return recipe.ingredients.every(ingredient => this.inventory.countItem(ingredient.itemId) >= ingredient.count);
     }
 
-    public hideBackpack(): void {
-        this.backpackVisible = false;
-        this.backpackContainer.setVisible(false);
-        this.backpackOverlay.setVisible(false);
+    private cookRecipe(recipe: ShapelessRecipe): void {
+        const hudBridge = HUDBridgeService.getInstance();
+        if (!this.cookingStation) return;
+        if (!this.canCook(recipe)) {
+            hudBridge.notifyWarning('Cooking', `Not enough ingredients for ${recipe.name}`, 2000);
+            return;
+        }
 
-        // If marketplace was open, show it back
-        if (this.marketplaceVisible) {
-            this.marketplaceContainer.setVisible(true);
+        recipe.ingredients.forEach(ingredient => this.inventory.remove(ingredient.itemId, ingredient.count));
+
+        const { itemId, itemType, count } = recipe.output;
+        const leftover = this.inventory.add(itemId, itemType, count);
+        if (leftover > 0) {
+            // No room for the dish: put the ingredients back
+            this.inventory.remove(itemId, count - leftover);
+            recipe.ingredients.forEach(ingredient =>
+                this.inventory.add(ingredient.itemId, getItemGameType(ingredient.itemId), ingredient.count));
+            hudBridge.notifyWarning('Cooking', 'Your inventory is full', 2000);
+            return;
         }
+
+        EventBus.emit('item-crafted', { recipeId: recipe.id, itemId, count });
+        hudBridge.notifySuccess('Cooking', `🍳 Cooked ${getItemDisplayName(itemId)}`, 2000);
     }
 
     // ===== CRAFTING METHODS =====
@@ -1331,20 +1481,19 @@ export class UIScene extends Phaser.Scene {
         resultBg.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
             if (!this.craftingResultSlot) return;
             // Pick up crafted result and consume grid
-            if (pointer.leftButtonDown() && this.craftingResultSlot.itemId && !this.heldItem) {
+            if (pointer.leftButtonDown() && this.craftingResultSlot.itemId && !this.inventory.getHeld()) {
                 const count = this.craftingResultSlot.countText ? parseInt(this.craftingResultSlot.countText.text) : 1;
-                this.heldItem = { itemId: this.craftingResultSlot.itemId, itemType: this.craftingResultSlot.itemType, count };
-                this.createHeldItemGhost();
-
-                // Consume crafting grid contents
-                this.consumeCraftingGrid();
-
-                // Clear result slot visuals/state
-                if (this.craftingResultSlot.itemImage) { this.craftingResultSlot.itemImage.destroy(); this.craftingResultSlot.itemImage = undefined; }
-                if (this.craftingResultSlot.countText) { this.craftingResultSlot.countText.destroy(); this.craftingResultSlot.countText = undefined; }
-                this.craftingResultSlot.itemId = undefined;
-                this.craftingResultSlot.itemType = undefined;
-                this.craftingResultAvailable = false;
+                this.inventory.setHeld({ itemId: this.craftingResultSlot.itemId, itemType: this.craftingResultSlot.itemType || 'item', count });
+
+                // Consume only the ingredients the matched recipe used
+                if (this.craftingMatch) {
+                    this.consumeCraftingIngredients(this.craftingMatch.consumption);
+                    EventBus.emit('item-crafted', { recipeId: this.craftingMatch.recipe.id, itemId: this.craftingMatch.recipe.output.itemId, count });
+                }
+
+                // Clear result slot, then re-check in case enough remains for another craft
+                this.clearCraftingResult();
+                this.updateCraftingResult();
             }
         });
 
@@ -1355,73 +1504,142 @@ export class UIScene extends Phaser.Scene {
         this.craftingArrow = this.add.triangle(arrowX, arrowY, -14, -10, -14, 10, 14, 0, 0xFFFFFF, 0.8).setDepth(215);
         this.craftingContainer.add(this.craftingArrow);
 
+        // Recipe book toggle below the grid
+        const recipeBookButton = this.add.text(craftingCenterX, startY + gridHeight, '📖 Recipes', {
+            fontSize: '16px',
+            color: '#ffffff',
+            backgroundColor: 'rgba(0, 0, 0, 0.6)',
+            padding: { x: 8, y: 4 }
+        }).setOrigin(0.5, 0).setDepth(220).setInteractive({ useHandCursor: true });
+        recipeBookButton.on('pointerdown', () => this.toggleRecipeBook());
+        this.craftingContainer.add(recipeBookButton);
+
+        this.createRecipeBook(craftingCenterX, startY + gridHeight + 36);
+
         // Add container to HUD
         this.#hudContainer.add(this.craftingContainer);
     }
 
+    private loadCraftingRecipes(): void {
+        const data = this.cache.json.get('crafting_recipes');
+        if (!data) {
+            console.warn('⚠️ Crafting recipes not loaded; crafting is disabled');
+            return;
+        }
+
+        try {
+            this.recipeRegistry = RecipeRegistry.fromJSON(data);
+        } catch (error) {
+            console.error('❌ Invalid crafting recipes:', error);
+        }
+    }
+
+    private createRecipeBook(x: number, y: number): void {
+        const recipes = this.recipeRegistry.getAll();
+        const lineHeight = 22;
+        const width = 420;
+        const height = Math.max(1, recipes.length) * lineHeight + 16;
+
+        this.recipeBookContainer = this.add.container(x, y);
+        this.recipeBookContainer.setDepth(240);
+        this.recipeBookContainer.setVisible(false);
+
+        const background = this.add.rectangle(0, 0, width, height, 0x000000, 0.8)
+            .setOrigin(0.5, 0)
+            .setStrokeStyle(2, 0xffffff, 0.6);
+        this.recipeBookContainer.add(background);
+
+        if (recipes.length === 0) {
+            this.recipeBookContainer.add(this.add.text(0, 8, 'No recipes known', {
+                fontSize: '13px',
+                color: '#aaaaaa'
+            }).setOrigin(0.5, 0));
+        }
+
+        recipes.forEach((recipe, index) => {
+            const line = this.add.text(-width / 2 + 10, 8 + index * lineHeight, this.describeRecipe(recipe), {
+                fontSize: '13px',
+                color: '#ffffff'
+            });
+            this.recipeBookContainer!.add(line);
+        });
+
+        this.craftingContainer.add(this.recipeBookContainer);
+    }
+
+    private describeRecipe(recipe: CraftingRecipe): string {
+        const ingredients = recipe.type === 'shaped'
+            ? Object.entries(recipe.key).map(([symbol, ingredient]) => {
+                const cells = recipe.pattern.join('').split(symbol).length - 1;
+                return `${cells * ingredient.count}x ${getItemDisplayName(ingredient.itemId)}`;
+            })
+            : recipe.ingredients.map(ingredient => `${ingredient.count}x ${getItemDisplayName(ingredient.itemId)}`);
+        const shape = recipe.type === 'shaped' ? ` [${recipe.pattern.map(row => row.replace(/ /g, '·')).join('/')}]` : '';
+
+        return `${recipe.name}: ${ingredients.join(' + ')}${shape} → ${recipe.output.count}x ${getItemDisplayName(recipe.output.itemId)}`;
+    }
+
+    private toggleRecipeBook(): void {
+        this.recipeBookVisible = !this.recipeBookVisible;
+        this.recipeBookContainer?.setVisible(this.recipeBookVisible);
+    }
+
     public showCrafting(): void {
         this.craftingVisible = true;
         this.craftingContainer.setVisible(true);
         this.updateCraftingResult();
     }
 
-    // Compute whether plus-shape pattern is filled and update the result slot
+    // Match the grid against the recipe registry and update the result slot
     private updateCraftingResult(): void {
         if (!this.craftingResultSlot) return;
-        const indices = [1, 3, 4, 5, 7]; // top, left, middle, right, bottom
-        const hasPattern = indices.every(i => {
-            const s = this.craftingSlots[i];
-            return s && !!s.itemId;
-        });
 
-        if (!hasPattern) {
+        const grid: (CraftingGridCell | null)[] = this.craftingSlots.map(slot => slot.itemId
+            ? { itemId: slot.itemId, count: slot.countText ? parseInt(slot.countText.text) : 1 }
+            : null);
+        const match = this.recipeRegistry.match(grid);
+
+        if (!match) {
             // Clear result if previously available
             this.clearCraftingResult();
             return;
         }
 
-        const resultKey = this.resolveCraftedItemKey();
-        if (!resultKey) {
-            this.clearCraftingResult();
+        // If already showing same result, do nothing
+        if (this.craftingResultAvailable && this.craftingMatch?.recipe.id === match.recipe.id) {
+            this.craftingMatch = match;
             return;
         }
 
-        // If already showing same result, do nothing
-        if (this.craftingResultSlot.itemId === resultKey && this.craftingResultAvailable) return;
-
         // Set result visuals
-        this.setCraftingResult(resultKey);
+        this.setCraftingResult(match.recipe.output.itemId, match.recipe.output.itemType, match.recipe.output.count);
+        this.craftingMatch = match;
         this.craftingResultAvailable = true;
     }
 
-    private resolveCraftedItemKey(): string | null {
-        // Prefer high-tier misc items with i/j suffix, fallback to any known present texture from list
-        for (const key of this.craftingPrimaryResultKeys) {
-            if (this.textures.exists(key)) return key;
-        }
-        // Fallbacks (still try to avoid marketplace but ensure it renders)
-        const fallbacks = ['gem_01b', 'crystal_01b', 'pearl_01b', 'ring_01b'];
-        for (const key of fallbacks) {
-            if (this.textures.exists(key)) return key;
-        }
-        return null;
-    }
-
-    private setCraftingResult(textureKey: string): void {
+    private setCraftingResult(itemId: string, itemType: string, count: number): void {
         const slot = this.craftingResultSlot!;
         // Clear old
         if (slot.itemImage) { slot.itemImage.destroy(); slot.itemImage = undefined; }
         if (slot.countText) { slot.countText.destroy(); slot.countText = undefined; }
         // Draw new
-        if (this.textures.exists(textureKey)) {
-            slot.itemImage = this.add.image(slot.x, slot.y, textureKey)
+        if (this.textures.exists(itemId)) {
+            slot.itemImage = this.add.image(slot.x, slot.y, itemId)
                 .setDisplaySize(32, 32)
                 .setOrigin(0.5, 0.5)
                 .setDepth(230);
             this.craftingContainer.add(slot.itemImage);
-            slot.itemId = textureKey;
-            slot.itemType = 'crafted';
+        } else {
+            console.warn(`Texture not found for crafted item: ${itemId}`);
         }
+        if (count > 1) {
+            slot.countText = this.add.text(slot.x + 18, slot.y + 18, count.toString(), {
+                fontSize: '16px', color: '#ffffff', fontStyle: 'bold', stroke: '#000000', strokeThickness: 3, padding: { x: 2, y: 1 }
+            }).setOrigin(1, 1).setDepth(235);
+            this.craftingContainer.add(slot.countText);
+        }
+        slot.itemId = itemId;
+        slot.itemType = itemType;
     }
 
     private clearCraftingResult(): void {
@@ -1431,16 +1649,40 @@ export class UIScene extends Phaser.Scene {
         this.craftingResultSlot.itemId = undefined;
         this.craftingResultSlot.itemType = undefined;
         this.craftingResultAvailable = false;
+        this.craftingMatch = null;
+    }
+
+    private consumeCraftingIngredients(consumption: number[]): void {
+        consumption.forEach((amount, index) => {
+            const s = this.craftingSlots[index];
+            if (!s || !s.itemId || amount <= 0) return;
+
+            const remaining = (s.countText ? parseInt(s.countText.text) : 1) - amount;
+            if (remaining > 0) {
+                this.setCraftingSlotCount(index, remaining);
+                return;
+            }
+
+            this.setCraftingSlotItem(index, null);
+        });
     }
 
-    private consumeCraftingGrid(): void {
-        // Remove all items from crafting grid
-        for (const s of this.craftingSlots) {
-            if (s.itemImage) { s.itemImage.destroy(); s.itemImage = undefined; }
+    private setCraftingSlotCount(index: number, count: number): void {
+        const s = this.craftingSlots[index];
+        if (!s) return;
+
+        if (count <= 1) {
             if (s.countText) { s.countText.destroy(); s.countText = undefined; }
-            s.itemId = undefined;
-            s.itemType = undefined;
+            return;
+        }
+        if (s.countText) {
+            s.countText.setText(count.toString());
+            return;
         }
+        s.countText = this.add.text(s.x + 18, s.y + 18, count.toString(), {
+            fontSize: '16px', color: '#ffffff', fontStyle: 'bold', stroke: '#000000', strokeThickness: 3, padding: { x: 2, y: 1 }
+        }).setOrigin(1, 1).setDepth(10000 + index);
+        this.craftingContainer.add(s.countText);
     }
 
     // Handle interactions specifically for crafting grid slots
@@ -1448,97 +1690,61 @@ export class UIScene extends Phaser.Scene {
         const slot = this.craftingSlots[index];
         if (!slot) return;
 
+        const held = this.inventory.getHeld();
+        const slotCount = slot.itemId ? (slot.countText ? parseInt(slot.countText.text) : 1) : 0;
+
         // Left click behaviors similar to backpack
         if (pointer.leftButtonDown()) {
             // Pick up if empty hand and slot has items
-            if (!this.heldItem && slot.itemId) {
-                const count = slot.countText ? parseInt(slot.countText.text) : 1;
-                // Create held item
-                this.heldItem = { itemId: slot.itemId, itemType: slot.itemType, count };
-                this.createHeldItemGhost();
-                // Clear slot visuals
-                if (slot.itemImage) { slot.itemImage.destroy(); slot.itemImage = undefined; }
-                if (slot.countText) { slot.countText.destroy(); slot.countText = undefined; }
-                slot.itemId = undefined; slot.itemType = undefined;
+            if (!held && slot.itemId) {
+                this.inventory.setHeld({ itemId: slot.itemId, itemType: slot.itemType || 'item', count: slotCount, instanceId: slot.instanceId });
+                this.setCraftingSlotItem(index, null);
             }
             // Place held stack into empty crafting slot
-            else if (this.heldItem && !slot.itemId) {
-                const placeCount = this.heldItem.count; // place all into crafting
-                // Add item image
-                if (this.textures.exists(this.heldItem.itemId)) {
-                    slot.itemImage = this.add.image(slot.x, slot.y, this.heldItem.itemId)
-                        .setDisplaySize(32, 32)
-                        .setOrigin(0.5, 0.5)
-                        .setDepth(1000 + index);
-                    this.craftingContainer.add(slot.itemImage);
-                }
-                if (placeCount > 1) {
-                    slot.countText = this.add.text(slot.x + 18, slot.y + 18, placeCount.toString(), {
-                        fontSize: '16px', color: '#ffffff', fontStyle: 'bold', stroke: '#000000', strokeThickness: 3, padding: { x: 2, y: 1 }
-                    }).setOrigin(1, 1).setDepth(10000 + index);
-                    this.craftingContainer.add(slot.countText);
-                }
-                slot.itemId = this.heldItem.itemId;
-                slot.itemType = this.heldItem.itemType;
-                this.clearHeldItem();
+            else if (held && !slot.itemId) {
+                this.setCraftingSlotItem(index, this.inventory.takeFromHeld(held.count));
             }
             // Swap if both have items
-            else if (this.heldItem && slot.itemId) {
-                const temp = { itemId: slot.itemId, itemType: slot.itemType, count: slot.countText ? parseInt(slot.countText.text) : 1 };
-                // Put held into slot
-                if (this.textures.exists(this.heldItem.itemId)) {
-                    if (slot.itemImage) slot.itemImage.destroy();
-                    if (slot.countText) { slot.countText.destroy(); slot.countText = undefined; }
-                    slot.itemImage = this.add.image(slot.x, slot.y, this.heldItem.itemId).setDisplaySize(32, 32).setOrigin(0.5, 0.5).setDepth(1000 + index);
-                    this.craftingContainer.add(slot.itemImage);
-                    if (this.heldItem.count > 1) {
-                        slot.countText = this.add.text(slot.x + 18, slot.y + 18, this.heldItem.count.toString(), { fontSize: '16px', color: '#ffffff', fontStyle: 'bold', stroke: '#000000', strokeThickness: 3, padding: { x: 2, y: 1 } }).setOrigin(1, 1).setDepth(10000 + index);
-                        this.craftingContainer.add(slot.countText);
-                    }
-                }
-                slot.itemId = this.heldItem.itemId;
-                slot.itemType = this.heldItem.itemType;
-                // Pick up previous slot item
-                this.heldItem = temp;
-                this.updateHeldItemGhost();
+            else if (held && slot.itemId) {
+                const previous = { itemId: slot.itemId, itemType: slot.itemType || 'item', count: slotCount, instanceId: slot.instanceId };
+                this.setCraftingSlotItem(index, held);
+                this.inventory.setHeld(previous);
             }
         }
         // Right click: place 1 item
-        else if (pointer.rightButtonDown()) {
-            if (this.heldItem) {
-                if (!slot.itemId) {
-                    // Place 1
-                    if (this.textures.exists(this.heldItem.itemId)) {
-                        slot.itemImage = this.add.image(slot.x, slot.y, this.heldItem.itemId).setDisplaySize(32, 32).setOrigin(0.5, 0.5).setDepth(1000 + index);
-                        this.craftingContainer.add(slot.itemImage);
-                    }
-                    slot.itemId = this.heldItem.itemId;
-                    slot.itemType = this.heldItem.itemType;
-                    if (1 > 1) {/* no count text for 1 by default */ }
-                    this.heldItem.count -= 1;
-                    if (this.heldItem.count <= 0) this.clearHeldItem(); else this.updateHeldItemGhost();
-                } else if (slot.itemId === this.heldItem.itemId) {
-                    // Increment count on slot if same item
-                    const current = slot.countText ? parseInt(slot.countText.text) : 1;
-                    const newCount = Math.min(this.MAX_STACK_SIZE, current + 1);
-                    if (newCount !== current) {
-                        if (newCount > 1) {
-                            if (slot.countText) slot.countText.setText(newCount.toString());
-                            else {
-                                slot.countText = this.add.text(slot.x + 18, slot.y + 18, newCount.toString(), { fontSize: '16px', color: '#ffffff', fontStyle: 'bold', stroke: '#000000', strokeThickness: 3, padding: { x: 2, y: 1 } }).setOrigin(1, 1).setDepth(10000 + index);
-                                this.craftingContainer.add(slot.countText);
-                            }
-                            this.heldItem.count -= 1;
-                            if (this.heldItem.count <= 0) this.clearHeldItem(); else this.updateHeldItemGhost();
-                        }
-                    }
-                }
+        else if (pointer.rightButtonDown() && held) {
+            if (!slot.itemId) {
+                this.setCraftingSlotItem(index, this.inventory.takeFromHeld(1));
+            } else if (slot.itemId === held.itemId && slotCount < getMaxStackSize(held.itemId)) {
+                this.inventory.takeFromHeld(1);
+                this.setCraftingSlotCount(index, slotCount + 1);
             }
         }
         // Recompute crafting result after any change
         this.updateCraftingResult();
     }
 
+    private setCraftingSlotItem(index: number, stack: ItemStack | null): void {
+        const slot = this.craftingSlots[index];
+        if (!slot) return;
+
+        if (slot.itemImage) { slot.itemImage.destroy(); slot.itemImage = undefined; }
+        if (slot.countText) { slot.countText.destroy(); slot.countText = undefined; }
+        slot.itemId = stack?.itemId;
+        slot.itemType = stack?.itemType;
+        slot.instanceId = stack?.instanceId;
+        if (!stack) return;
+
+        if (this.textures.exists(stack.itemId)) {
+            slot.itemImage = this.add.image(slot.x, slot.y, stack.itemId)
+                .setDisplaySize(32, 32)
+                .setOrigin(0.5, 0.5)
+                .setDepth(1000 + index);
+            this.craftingContainer.add(slot.itemImage);
+        }
+        this.setCraftingSlotCount(index, stack.count);
+    }
+
     public hideCrafting(): void {
         this.craftingVisible = false;
         this.craftingContainer.setVisible(false);
@@ -2009,19 +2215,20 @@ export class UIScene extends Phaser.Scene {
 
     private handleSellButtonClick(): void {
         // Check if player is holding an item
-        if (!this.heldItem) {
+        const held = this.inventory.getHeld();
+        if (!held) {
             console.log('No item to sell');
             this.showTransactionError('Please hold an item to sell');
             return;
         }
 
         // Get item details
-        const itemId = this.heldItem.itemId;
-        const itemType = this.heldItem.itemType || 'item';
-        const itemCount = this.heldItem.count;
+        const itemId = held.itemId;
+        const itemType = held.itemType || 'item';
+        const itemCount = held.count;
 
         // Calculate sell price (lower than buy price)
-        const sellPrice = this.getMarketplaceItemPrice(itemId, itemType) * 0.7; // 70% of buy price
+        const sellPrice = this.getMarketplaceItemPrice(itemId) * 0.7; // 70% of buy price
         const totalPrice = Math.floor(sellPrice * itemCount);
 
         console.log(`Selling ${itemCount}x ${itemId} for ${totalPrice} coins`);
@@ -2030,7 +2237,7 @@ export class UIScene extends Phaser.Scene {
         this.clearHeldItem();
 
         // Show success message
-        this.showTransactionSuccess(`Sold ${itemCount}x ${this.getItemDisplayName(itemId)} for ${totalPrice} coins!`);
+        this.showTransactionSuccess(`Sold ${itemCount}x ${getItemDisplayName(itemId)} for ${totalPrice} coins!`);
     }
 
     private updateSellButtonPosition(sellButton: Phaser.GameObjects.Image): void {
@@ -2074,11 +2281,11 @@ export class UIScene extends Phaser.Scene {
         });
 
         // Get items for selected category from fallback marketplace items
-        const categoryItems = this.FALLBACK_MARKETPLACE_ITEMS[category as keyof typeof this.FALLBACK_MARKETPLACE_ITEMS] || [];
+        const categoryItems = getItemsInCategory(category as ItemCategory);
 
         // Fill all 30 marketplace slots with items from the category
         for (let i = 0; i < this.MARKETPLACE_SLOT_COUNT && i < categoryItems.length; i++) {
-            const itemId = categoryItems[i];
+            const { id: itemId, type: itemType, basePrice: price } = categoryItems[i];
             const slot = this.marketplaceSlots[i];
             if (!slot) continue;
 
@@ -2090,9 +2297,8 @@ export class UIScene extends Phaser.Scene {
                 this.marketplaceContainer.add(slot.itemImage);
 
                 slot.itemId = itemId;
-                slot.itemType = category.toLowerCase();
+                slot.itemType = itemType;
 
-                const price = Math.floor(Math.random() * 500) + 100;
                 const priceText = this.add.text(slot.x, slot.y + 20, `${price} ◈`, {
                     fontSize: '10px',
                     color: '#10b981',
@@ -2134,14 +2340,7 @@ export class UIScene extends Phaser.Scene {
         const itemId = slot.itemId;
         const itemType = slot.itemType || 'item';
 
-        // Find first empty backpack slot
-        for (let i = 0; i < this.BACKPACK_SLOT_COUNT; i++) {
-            const backpackSlot = this.backpackSlots[i];
-            if (!backpackSlot.itemId) {
-                this.addItemToBackpack(itemId, i, itemType, 1);
-                break;
-            }
-        }
+        this.inventory.add(itemId, itemType, 1, ['backpack']);
 
         // Remove item from marketplace display
         if (slot.itemImage) {
@@ -2183,7 +2382,7 @@ export class UIScene extends Phaser.Scene {
                 playerItems: [
                     {
                         id: itemId,
-                        name: this.getItemDisplayName(itemId),
+                        name: getItemDisplayName(itemId),
                         quantity: 1,
                         spriteKey: itemId
                     }
@@ -2191,7 +2390,7 @@ export class UIScene extends Phaser.Scene {
                 npcItems: [] // No NPC items in marketplace purchase
             },
             transactionType: 'marketplace_purchase',
-            price: this.getMarketplaceItemPrice(itemId, itemType).toString()
+            price: this.getMarketplaceItemPrice(itemId).toString()
         };
 
         // Add the item to inventory after successful transaction
@@ -2201,40 +2400,15 @@ export class UIScene extends Phaser.Scene {
         this.showMarketplaceTransactionCompleteNotification();
     }
 
-    private getMarketplaceItemPrice(itemId: string, itemType: string): number {
-        // Generate realistic pricing based on item type
-        const basePrice = 100;
-        const itemMultiplier = {
-            'weapon': 2.5,
-            'armor': 2.0,
-            'consumable': 0.8,
-            'item': 1.0,
-            'misc': 1.2
-        };
-
-        const multiplier = itemMultiplier[itemType.toLowerCase() as keyof typeof itemMultiplier] || 1.0;
-        return Math.floor(basePrice * multiplier * (Math.random() * 0.5 + 0.75));
+    private getMarketplaceItemPrice(itemId: string): number {
+        // Catalog base price; unknown items fall back to a flat price
+        return getCatalogItem(itemId)?.basePrice ?? 100;
     }
 
     private addMarketplaceItemToInventory(itemId: string, itemType: string): void {
-        // Try to add to existing stack in itembar
-        for (let i = 0; i < this.SLOT_COUNT; i++) {
-            const itembarSlot = this.slots[i];
-            if (itembarSlot.itemId === itemId) {
-                const currentCount = itembarSlot.countText ? parseInt(itembarSlot.countText.text) : 1;
-                if (currentCount < this.MAX_STACK_SIZE) {
-                    this.addItem(itemId, i, itemType, currentCount + 1);
-                    return;
-                }
-            }
-        }
-
-        // Find first empty slot
-        for (let i = 0; i < this.SLOT_COUNT; i++) {
-            if (!this.slots[i].itemId) {
-                this.addItem(itemId, i, itemType, 1);
-                return;
-            }
+        // Stack into the item bar first, spilling into the backpack
+        if (this.inventory.add(itemId, itemType, 1) > 0) {
+            console.warn(`Inventory full, could not add ${itemId}`);
         }
     }
 
@@ -2681,7 +2855,8 @@ export class UIScene extends Phaser.Scene {
         // Explorer button interactions with improved feedback
         explorerButton.on('pointerdown', () => {
             if (this.currentTransaction && this.currentTransaction.transactionHash) {
-                const url = `https://onescan.cc/testnet/transactionBlocksDetail?digest=${this.currentTransaction.transactionHash}`;
+                const url = getTransactionUrl(this.currentTransaction.transactionHash);
+                if (!url) return;
                 console.log('Opening transaction URL:', url);
                 window.open(url, '_blank');
             }
@@ -3014,7 +3189,8 @@ export class UIScene extends Phaser.Scene {
                 const txHash = this.currentTransaction?.transactionHash;
                 if (txHash && txHash !== 'pending_' + Date.now() && !txHash.startsWith('escrow_')) {
                     // Real blockchain transaction - open in blockchain explorer
-                    const explorerUrl = `https://onescan.cc/testnet/transactionBlocksDetail?digest=${txHash}`;
+                    const explorerUrl = getTransactionUrl(txHash);
+                    if (!explorerUrl) return;
                     console.log('Opening blockchain explorer:', explorerUrl);
                     window.open(explorerUrl, '_blank');
                 } else {
@@ -3477,7 +3653,7 @@ export class UIScene extends Phaser.Scene {
             if (index < this.NPC_TRADE_SLOTS_PER_SIDE) {
                 // Add a small delay for visual appeal
                 this.time.delayedCall(200 * (index + 1), () => {
-                    this.addItemToNPCSlot(itemId, index, 'right', this.getItemType(itemId), 1);
+                    this.addItemToNPCSlot(itemId, index, 'right', getItemGameType(itemId), 1);
                 });
             }
         });
@@ -3495,47 +3671,33 @@ export class UIScene extends Phaser.Scene {
         return shuffled.slice(0, itemCount);
     }
 
-    private getItemType(itemId: string): string {
-        // Determine item type based on sprite key
-        if (itemId.includes('sword') || itemId.includes('bow') || itemId.includes('staff')) {
-            return 'weapon';
-        } else if (itemId.includes('helmet') || itemId.includes('armor')) {
-            return 'armor';
-        } else if (itemId.includes('potion') || itemId.includes('fish') || itemId.includes('candy')) {
-            return 'consumable';
-        } else {
-            return 'misc';
-        }
-    }
+    private buildMintMetadata(itemId: string, instanceId?: string): GameItem {
+        const entry = getCatalogItem(itemId);
+        const displayName = getItemDisplayName(itemId);
+        const itemType = getItemGameType(itemId);
 
-    private buildMintMetadata(itemId: string): GameItem {
-        const displayName = this.getItemDisplayName(itemId);
-        const itemType = this.getItemType(itemId);
-        const rarity = itemType === 'weapon' ? 3 : itemType === 'armor' ? 2 : 1;
+        // Mirror the wear and tier of this copy of a tool/weapon into the minted Weapon
+        const farmScene = this.scene.get(SCENE_KEYS.FARM) as FarmScene;
+        const condition: ToolCondition | null = instanceId ? farmScene.getToolCondition(instanceId) : null;
+        const durability = condition ? {
+            damage: Math.round(WEAPON_BASE_DAMAGE * getTierInfo(condition.tier).power),
+            durability: condition.durability,
+            maxDurability: getTierInfo(condition.tier).maxDurability,
+            tierName: getTierInfo(condition.tier).name
+        } : undefined;
 
         return {
-            id: itemId,
+            // Each copy of a tool or weapon mints its own NFT
+            id: instanceId ?? itemId,
             name: displayName,
-            description: `${displayName} prepared for OneChain escrow trade`,
+            description: entry ? `${entry.description} Prepared for OneChain escrow trade.` : `${displayName} prepared for OneChain escrow trade`,
             type: itemType,
-            rarity,
-            stats: this.generateDefaultStatsForType(itemType)
+            rarity: entry?.rarity ?? 1,
+            stats: entry ? [...entry.stats] : getDefaultStats(itemType),
+            durability
         };
     }
 
-    private generateDefaultStatsForType(itemType: string): number[] {
-        switch (itemType) {
-            case 'weapon':
-                return [25, 10, 5];
-            case 'armor':
-                return [10, 25, 8];
-            case 'consumable':
-                return [5, 5, 15];
-            default:
-                return [8, 8, 8];
-        }
-    }
-
     public hideNPCTrade(): void {
         this.npcTradeVisible = false;
         this.npcTradeLocked = false;
@@ -3793,21 +3955,23 @@ export class UIScene extends Phaser.Scene {
         const slot = side === 'left' ? this.npcLeftSlots[slotIndex] : this.npcRightSlots[slotIndex];
         if (!slot) return;
 
+        const held = this.inventory.getHeld();
+
         // Empty hand + slot with items → Pick up entire stack
-        if (!this.heldItem && slot.itemId) {
+        if (!held && slot.itemId) {
             const count = slot.countText ? parseInt(slot.countText.text) : 1;
             this.pickupNPCItem(slot, slotIndex, side, count);
         }
         // Holding items + empty slot → Place entire stack
-        else if (this.heldItem && !slot.itemId) {
-            this.placeNPCItem(slot, slotIndex, side, this.heldItem.count);
+        else if (held && !slot.itemId) {
+            this.placeNPCItem(slot, slotIndex, side, held.count);
         }
         // Holding items + slot with same item → Merge stacks
-        else if (this.heldItem && slot.itemId === this.heldItem.itemId) {
+        else if (held && slot.itemId === held.itemId) {
             this.mergeNPCStacks(slot, slotIndex, side);
         }
         // Holding items + slot with different item → Swap items
-        else if (this.heldItem && slot.itemId && slot.itemId !== this.heldItem.itemId) {
+        else if (held && slot.itemId && slot.itemId !== held.itemId) {
             this.swapNPCItems(slot, slotIndex, side);
         }
     }
@@ -3816,20 +3980,22 @@ export class UIScene extends Phaser.Scene {
         const slot = side === 'left' ? this.npcLeftSlots[slotIndex] : this.npcRightSlots[slotIndex];
         if (!slot) return;
 
+        const held = this.inventory.getHeld();
+
         // Empty hand + slot with items → Pick up half stack
-        if (!this.heldItem && slot.itemId) {
+        if (!held && slot.itemId) {
             const count = slot.countText ? parseInt(slot.countText.text) : 1;
             const halfCount = Math.ceil(count / 2);
             this.pickupNPCItem(slot, slotIndex, side, halfCount);
         }
         // Holding items + empty slot → Place 1 item
-        else if (this.heldItem && !slot.itemId) {
+        else if (held && !slot.itemId) {
             this.placeNPCItem(slot, slotIndex, side, 1);
         }
         // Holding items + slot with same item → Add 1 item (if < 99)
-        else if (this.heldItem && slot.itemId === this.heldItem.itemId) {
+        else if (held && slot.itemId === held.itemId) {
             const currentCount = slot.countText ? parseInt(slot.countText.text) : 1;
-            if (currentCount < this.MAX_STACK_SIZE) {
+            if (currentCount < getMaxStackSize(held.itemId)) {
                 this.placeNPCItem(slot, slotIndex, side, 1);
             }
         }
@@ -3843,13 +4009,12 @@ export class UIScene extends Phaser.Scene {
         const remainingCount = currentCount - pickupCount;
 
         // Create held item
-        this.heldItem = {
+        this.inventory.setHeld({
             itemId: slot.itemId,
-            itemType: slot.itemType,
-            count: pickupCount
-        };
-
-        this.createHeldItemGhost();
+            itemType: slot.itemType || 'item',
+            count: pickupCount,
+            instanceId: slot.instanceId
+        });
 
         // Update or clear slot
         if (remainingCount > 0) {
@@ -3860,64 +4025,55 @@ export class UIScene extends Phaser.Scene {
     }
 
     private placeNPCItem(slot: Slot, slotIndex: number, side: 'left' | 'right', count: number): void {
-        if (!this.heldItem) return;
+        const held = this.inventory.getHeld();
+        if (!held) return;
 
-        const placeCount = Math.min(count, this.heldItem.count);
-        const currentCount = slot.countText ? parseInt(slot.countText.text) : 0;
+        const placeCount = Math.min(count, held.count);
+        const currentCount = slot.countText ? parseInt(slot.countText.text) : (slot.itemId ? 1 : 0);
         const newCount = currentCount + placeCount;
 
-        if (newCount > this.MAX_STACK_SIZE) return;
+        if (newCount > getMaxStackSize(held.itemId)) return;
 
-        this.addItemToNPCSlot(this.heldItem.itemId, slotIndex, side, this.heldItem.itemType, newCount);
-
-        this.heldItem.count -= placeCount;
-        if (this.heldItem.count <= 0) {
-            this.clearHeldItem();
-        } else {
-            this.updateHeldItemGhost();
-        }
+        this.addItemToNPCSlot(held.itemId, slotIndex, side, held.itemType, newCount, held.instanceId);
+        this.inventory.takeFromHeld(placeCount);
     }
 
     private mergeNPCStacks(slot: Slot, slotIndex: number, side: 'left' | 'right'): void {
-        if (!this.heldItem || !slot.itemId || slot.itemId !== this.heldItem.itemId) return;
+        const held = this.inventory.getHeld();
+        if (!held || !slot.itemId || slot.itemId !== held.itemId) return;
 
         const currentCount = slot.countText ? parseInt(slot.countText.text) : 1;
-        const spaceAvailable = this.MAX_STACK_SIZE - currentCount;
-        const transferCount = Math.min(this.heldItem.count, spaceAvailable);
+        const spaceAvailable = getMaxStackSize(held.itemId) - currentCount;
+        const transferCount = Math.min(held.count, spaceAvailable);
 
         if (transferCount > 0) {
             this.addItemToNPCSlot(slot.itemId, slotIndex, side, slot.itemType, currentCount + transferCount);
-            this.heldItem.count -= transferCount;
-
-            if (this.heldItem.count <= 0) {
-                this.clearHeldItem();
-            } else {
-                this.updateHeldItemGhost();
-            }
+            this.inventory.takeFromHeld(transferCount);
         }
     }
 
     private swapNPCItems(slot: Slot, slotIndex: number, side: 'left' | 'right'): void {
-        if (!this.heldItem || !slot.itemId) return;
+        const held = this.inventory.getHeld();
+        if (!held || !slot.itemId) return;
 
         const slotItemId = slot.itemId;
-        const slotItemType = slot.itemType;
+        const slotItemType = slot.itemType || 'item';
         const slotCount = slot.countText ? parseInt(slot.countText.text) : 1;
+        const slotInstanceId = slot.instanceId;
 
         // Place held item in slot
-        this.addItemToNPCSlot(this.heldItem.itemId, slotIndex, side, this.heldItem.itemType, this.heldItem.count);
+        this.addItemToNPCSlot(held.itemId, slotIndex, side, held.itemType, held.count, held.instanceId);
 
         // Pick up slot item
-        this.heldItem = {
+        this.inventory.setHeld({
             itemId: slotItemId,
             itemType: slotItemType,
-            count: slotCount
-        };
-
-        this.updateHeldItemGhost();
+            count: slotCount,
+            instanceId: slotInstanceId
+        });
     }
 
-    private addItemToNPCSlot(itemId: string, slotIndex: number, side: 'left' | 'right', itemType: string = 'item', count: number = 1): void {
+    private addItemToNPCSlot(itemId: string, slotIndex: number, side: 'left' | 'right', itemType: string = 'item', count: number = 1, instanceId?: string): void {
         const slot = side === 'left' ? this.npcLeftSlots[slotIndex] : this.npcRightSlots[slotIndex];
         if (!slot) return;
 
@@ -3963,6 +4119,7 @@ export class UIScene extends Phaser.Scene {
         // Store item data
         slot.itemId = itemId;
         slot.itemType = itemType;
+        slot.instanceId = instanceId;
     }
 
     private clearNPCSlot(slotIndex: number, side: 'left' | 'right'): void {
@@ -3979,6 +4136,7 @@ export class UIScene extends Phaser.Scene {
         }
         slot.itemId = undefined;
         slot.itemType = undefined;
+        slot.instanceId = undefined;
     }
 
     private showTradeConfirmationModal(): void {
@@ -4228,7 +4386,7 @@ export class UIScene extends Phaser.Scene {
                 const count = leftSlot.countText ? parseInt(leftSlot.countText.text) : 1;
                 playerItems.push({
                     id: leftSlot.itemId,
-                    name: this.getItemDisplayName(leftSlot.itemId),
+                    name: getItemDisplayName(leftSlot.itemId),
                     quantity: count,
                     spriteKey: leftSlot.itemId
                 });
@@ -4242,7 +4400,7 @@ export class UIScene extends Phaser.Scene {
                 const count = rightSlot.countText ? parseInt(rightSlot.countText.text) : 1;
                 npcItems.push({
                     id: rightSlot.itemId,
-                    name: this.getItemDisplayName(rightSlot.itemId),
+                    name: getItemDisplayName(rightSlot.itemId),
                     quantity: count,
                     spriteKey: rightSlot.itemId
                 });
@@ -4298,14 +4456,7 @@ export class UIScene extends Phaser.Scene {
                 const itemType = rightSlot.itemType || 'item';
                 const count = rightSlot.countText ? parseInt(rightSlot.countText.text) : 1;
 
-                // Find first empty slot in backpack
-                for (let backpackIndex = 0; backpackIndex < this.BACKPACK_SLOT_COUNT; backpackIndex++) {
-                    const backpackSlot = this.backpackSlots[backpackIndex];
-                    if (!backpackSlot.itemId) {
-                        this.addItemToBackpack(itemId, backpackIndex, itemType, count);
-                        break;
-                    }
-                }
+                this.inventory.add(itemId, itemType, count, ['backpack']);
             }
         }
 
@@ -4338,41 +4489,6 @@ export class UIScene extends Phaser.Scene {
         this.hideNPCTrade();
     }
 
-    private getItemDisplayName(itemId: string): string {
-        // Convert item IDs to human-readable names
-        const itemNames: Record<string, string> = {
-            'potion_01a': 'Health Potion',
-            'fish_01a': 'Fresh Fish',
-            'candy_01a': 'Magic Candy',
-            'helmet_01a': 'Iron Helmet',
-            'sword_01a': 'Iron Sword',
-            'sword_01b': 'Bronze Sword',
-            'sword_01c': 'Steel Sword',
-            'sword_01d': 'Silver Sword',
-            'sword_01e': 'Golden Sword',
-            'bow_01a': 'Wooden Bow',
-            'bow_01b': 'Hunting Bow',
-            'staff_01a': 'Magic Staff',
-            'spellbook_01a': 'Spellbook',
-            'shield_01a': 'Wooden Shield',
-            'shield_01b': 'Iron Shield',
-            'crystal_01a': 'Magic Crystal',
-            'gem_01a': 'Precious Gem',
-            'ring_01a': 'Magic Ring',
-            'necklace_01a': 'Amulet',
-            'key_01a': 'Ancient Key',
-            'scroll_01a': 'Magic Scroll',
-            'coin_01a': 'Gold Coin',
-            'ingot_01a': 'Iron Ingot',
-            'book_01a': 'Ancient Tome',
-            'gift_01a': 'Mystery Box',
-            'pearl_01a': 'Magic Pearl',
-            'arrow_01a': 'Arrow'
-        };
-
-        return itemNames[itemId] || itemId.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
-    }
-
     private showTransactionCompleteNotification(): void {
         if (!this.currentTransaction) return;
 
@@ -4504,14 +4620,7 @@ export class UIScene extends Phaser.Scene {
                 const itemType = slot.itemType || 'item';
                 const count = slot.countText ? parseInt(slot.countText.text) : 1;
 
-                // Find first empty slot in backpack
-                for (let backpackIndex = 0; backpackIndex < this.BACKPACK_SLOT_COUNT; backpackIndex++) {
-                    const backpackSlot = this.backpackSlots[backpackIndex];
-                    if (!backpackSlot.itemId) {
-                        this.addItemToBackpack(itemId, backpackIndex, itemType, count);
-                        break;
-                    }
-                }
+                this.inventory.addStack({ itemId, itemType, count, instanceId: slot.instanceId }, ['backpack']);
             }
         }
 
@@ -4621,7 +4730,8 @@ export class UIScene extends Phaser.Scene {
                 .filter(slot => slot.itemId)
                 .map(slot => ({
                     id: slot.itemId!,
-                    name: this.getItemDisplayName(slot.itemId!),
+                    instanceId: slot.instanceId,
+                    name: getItemDisplayName(slot.itemId!),
                     sprite_key: slot.itemId
                 }));
 
@@ -4630,7 +4740,7 @@ export class UIScene extends Phaser.Scene {
                 .filter(slot => slot.itemId)
                 .map(slot => ({
                     id: slot.itemId!,
-                    name: this.getItemDisplayName(slot.itemId!),
+                    name: getItemDisplayName(slot.itemId!),
                     sprite_key: slot.itemId
                 }));
 
@@ -4661,6 +4771,7 @@ export class UIScene extends Phaser.Scene {
                 }
                 slot.itemId = undefined;
                 slot.itemType = undefined;
+                slot.instanceId = undefined;
             });
 
             // Remove NPC items from slots
@@ -4675,13 +4786,14 @@ export class UIScene extends Phaser.Scene {
                 }
                 slot.itemId = undefined;
                 slot.itemType = undefined;
+                slot.instanceId = undefined;
             });
 
             // Show success message
             this.showTransactionSuccess('Trade completed successfully!');
 
             // Create transaction record with real escrow ID if available
-            const escrowId = await this.createPlayerEscrow(playerItems[0]?.id);
+            const escrowId = await this.createPlayerEscrow(playerItems[0]?.id, playerItems[0]?.instanceId);
             this.currentTransaction = {
                 transactionHash: escrowId || 'escrow_' + Date.now(),
                 blockNumber: Math.floor(Math.random() * 100000) + 2000000,
@@ -4739,7 +4851,7 @@ export class UIScene extends Phaser.Scene {
         try {
             // Create escrows for both sides before executing trade
             this.showTransactionProgress('Creating player escrow...');
-            const playerEscrowId = await this.createPlayerEscrow(playerItems[0]?.id);
+            const playerEscrowId = await this.createPlayerEscrow(playerItems[0]?.id, playerItems[0]?.instanceId);
 
             this.showTransactionProgress('Creating NPC escrow...');
             // NPC creates escrow with their items
@@ -4800,7 +4912,7 @@ export class UIScene extends Phaser.Scene {
         return true;
     }
 
-    private async createPlayerEscrow(itemId: string): Promise<string> {
+    private async createPlayerEscrow(itemId: string, instanceId?: string): Promise<string> {
         if (!itemId) throw new Error('No item to escrow');
 
         try {
@@ -4819,11 +4931,11 @@ export class UIScene extends Phaser.Scene {
                 nftObjectId = itemId;
             } else {
                 // Check if we've already minted this item earlier
-                nftObjectId = autoMint.getNFTObjectId(itemId);
+                nftObjectId = autoMint.getNFTObjectId(instanceId ?? itemId);
 
                 if (!nftObjectId) {
                     console.log('🎨 Item not yet minted, minting now for escrow...');
-                    const mintMetadata = this.buildMintMetadata(itemId);
+                    const mintMetadata = this.buildMintMetadata(itemId, instanceId);
                     nftObjectId = await autoMint.mintItemNow(mintMetadata);
                 }
             }
@@ -4993,12 +5105,16 @@ export class UIScene extends Phaser.Scene {
 W/A/S/D or Arrow Keys - Move  |  SHIFT - Run
 
 ⚔️ ACTION CONTROLS
-Q - Attack (hold for continuous)  |  E - Interact
-R - Cut Trees 🪓  |  T - Water Plants 💧
-SPACE - Chat with NPCs
+Q - Attack (hold for continuous)
+E - Use selected tool/seeds/food (Hoe 🌱, Watering Can 💧, Axe 🪓, Pickaxe ⛏️, eat 🥕 for energy)
+SPACE - Chat with NPCs  |  R / U - Repair / Upgrade selected tool at Herman 🔧
+E near animals with grain/produce selected - Feed 🐔  |  C - Collect eggs, milk & wool 🥚
+E facing water with the Fishing Rod - Cast, then E to hook and reel 🎣
+Click a cooking station - Cook dishes 🍳  |  E with a dish selected - Eat it for health, energy & buffs
+G - Build mode 🏗️ (Click place, Right Click remove, TAB/Wheel choose, R rotate)  |  Click a chest - Open it 📦
 
 🎒 INVENTORY & UI
-B - Toggle Backpack  |  F - Open Crafting Table 🔨
+B - Toggle Backpack  |  F - Open Crafting Table 🔨  |  J - Quest Log 📜
 1-8 - Quick use hotbar items  |  ESC - Close menus/Exit
 Left Click - Pick/Place items  |  Right Click - Split stack
 Double Click - Group same items
@@ -5014,7 +5130,8 @@ Double Click - Group same items
 • Stack items to save space
 • Use F to craft items from resources
 • Double-click to organize quickly
-• Press T near plants to water them`;
+• Actions and running cost energy; stand still to recover (faster at night)
+• Select the Watering Can and press E near water to refill it`;
 
         const content = this.add.text(0, padding, guideText, {
             fontSize: '14px',
@@ -5062,6 +5179,82 @@ Double Click - Group same items
         this.guideMenuVisible = false;
     }
 
+    // ===== QUEST LOG =====
+
+    private createQuestLog(): void {
+        const width = 360;
+        const height = 320;
+
+        this.questLogContainer = this.add.container(20 + width / 2, 20);
+        this.questLogContainer.setScrollFactor(0);
+        this.questLogContainer.setVisible(false);
+
+        const background = this.add.rectangle(0, 0, width, height, 0x000000, 0.8)
+            .setOrigin(0.5, 0)
+            .setStrokeStyle(2, 0xffffff, 0.6);
+        const title = this.add.text(0, 10, '📜 Quests', {
+            fontSize: '18px',
+            color: '#ffffff',
+            fontStyle: 'bold'
+        }).setOrigin(0.5, 0);
+
+        this.questLogText = this.add.text(-width / 2 + 12, 40, '', {
+            fontSize: '13px',
+            color: '#ffffff',
+            lineSpacing: 4,
+            wordWrap: { width: width - 24 }
+        });
+
+        this.questLogContainer.add([background, title, this.questLogText]);
+        this.#hudContainer.add(this.questLogContainer);
+    }
+
+    private toggleQuestLog(): void {
+        if (this.questLogVisible) {
+            this.hideQuestLog();
+        } else {
+            this.showQuestLog();
+        }
+    }
+
+    private showQuestLog(): void {
+        this.questLogVisible = true;
+        this.questLogContainer?.setVisible(true);
+        this.refreshQuestLog();
+    }
+
+    private hideQuestLog(): void {
+        this.questLogVisible = false;
+        this.questLogContainer?.setVisible(false);
+    }
+
+    /**
+     * Re-render the quest log; FarmScene passes the log along with quest updates
+     */
+    private refreshQuestLog(entries?: QuestLogEntry[]): void {
+        if (!this.questLogText) return;
+
+        const log: QuestLogEntry[] = entries ?? (this.scene.get(SCENE_KEYS.FARM) as FarmScene).getQuestLog();
+        if (log.length === 0) {
+            this.questLogText.setText('No quests yet');
+            return;
+        }
+
+        // Active quests first, completed ones at the bottom
+        const sorted = [...log].sort((a, b) => Number(a.state.status === 'completed') - Number(b.state.status === 'completed'));
+        const lines = sorted.map(({ quest, state }) => {
+            if (state.status === 'completed') {
+                return `✔ ${quest.name}`;
+            }
+            const objectives = quest.objectives.map((objective, index) =>
+                `   • ${objective.description} ${state.progress[index]}/${objective.count}`
+            );
+            return [`${quest.name}`, `   ${quest.description}`, ...objectives].join('\n');
+        });
+
+        this.questLogText.setText(lines.join('\n'));
+    }
+
     // ===== SETTINGS MENU =====
 
     private toggleSettingsMenu(): void {
@@ -5073,7 +5266,10 @@ Double Click - Group same items
     }
 
     private showSettingsMenu(): void {
+        this.selectedNetwork = getActiveNetwork().network;
+
         if (this.settingsMenuContainer) {
+            this.networkValueText?.setText(this.getNetworkOptionLabel(this.selectedNetwork));
             this.settingsMenuContainer.setVisible(true);
             this.settingsMenuOverlay?.setVisible(true);
             this.settingsMenuVisible = true;
@@ -5101,7 +5297,7 @@ Double Click - Group same items
 
         // Modal dimensions and spacing
         const panelWidth = 400;
-        const panelHeight = 300;
+        const panelHeight = 360;
         const padding = 20;
         const titleHeight = 40;
         const closeButtonSize = 32;
@@ -5185,6 +5381,35 @@ Double Click - Group same items
             this.fullscreenCheckmark!.setVisible(this.isFullscreen);
         });
 
+        // Network Label
+        const networkY = fullscreenY + rowHeight;
+        const networkLabel = this.add.text(-panelWidth / 2 + padding, networkY, '🌐 Network', {
+            fontSize: '18px',
+            color: '#ffffff'
+        }).setOrigin(0, 0.5);
+        this.settingsMenuContainer.add(networkLabel);
+
+        // Network picker: click to cycle through the networks the game is deployed on
+        this.networkValueText = this.add.text(panelWidth / 2 - padding, networkY, this.getNetworkOptionLabel(this.selectedNetwork), {
+            fontSize: '16px',
+            color: '#ffcc00'
+        }).setOrigin(1, 0.5);
+        this.networkValueText.setInteractive();
+        this.settingsMenuContainer.add(this.networkValueText);
+
+        this.networkValueText.on('pointerdown', () => {
+            const choices = NETWORK_ORDER.filter(name => isNetworkSelectable(name));
+            const index = choices.indexOf(this.selectedNetwork ?? getActiveNetwork().network);
+            this.selectedNetwork = choices[(index + 1) % choices.length];
+            this.networkValueText!.setText(this.getNetworkOptionLabel(this.selectedNetwork));
+        });
+        this.networkValueText.on('pointerover', () => {
+            this.input.setDefaultCursor('url(assets/ui/cursor-selection.png) 16 16, pointer');
+        });
+        this.networkValueText.on('pointerout', () => {
+            this.input.setDefaultCursor('url(assets/ui/cursor-normal.png) 16 16, auto');
+        });
+
         // Save button (64x32 px)
         const saveBtnY = panelHeight / 2 - padding * 3;
         const saveBtn = this.add.image(0, saveBtnY, 'save-button');
@@ -5251,6 +5476,40 @@ Double Click - Group same items
 
         // Close settings menu
         this.hideSettingsMenu();
+
+        const network = this.selectedNetwork;
+        if (network && network !== getActiveNetwork().network) {
+            this.switchNetwork(network).catch(error => {
+                console.error('❌ Failed to switch network:', error);
+                const reason = error instanceof Error ? error.message : String(error);
+                HUDBridgeService.getInstance().notifyError('Network', `Could not switch to ${getNetworkProfile(network).label}: ${reason}`);
+            });
+        }
+    }
+
+    private getNetworkOptionLabel(name: NetworkName): string {
+        const profile = getNetworkProfile(name);
+        // Localnet IDs are only known once its publish output is loaded
+        const deployed = profile.network === 'localnet' || isNetworkDeployed(profile);
+        return `◀ ${profile.label}${deployed ? '' : ' (not deployed)'} ▶`;
+    }
+
+    /**
+     * Services and the wallet connection are set up for one network, so
+     * persist the farm and restart the game on the new one
+     */
+    private async switchNetwork(name: NetworkName): Promise<void> {
+        if (!isNetworkSelectable(name)) {
+            throw new Error(`OneValley is not deployed on ${getNetworkProfile(name).label}`);
+        }
+
+        const farmScene = this.scene.get(SCENE_KEYS.FARM) as FarmScene;
+        if (farmScene.scene.isActive()) {
+            await farmScene.saveFarmState();
+        }
+
+        setActiveNetwork(name);
+        window.location.reload();
     }
 
     private hideSettingsMenu(): void {
@@ -5402,8 +5661,15 @@ Double Click - Group same items
             yesBtnBg.setFillStyle(0xd32f2f);
             this.input.setDefaultCursor('url(assets/ui/cursor-normal.png) 16 16, auto');
         });
-        yesBtnBg.on('pointerdown', () => {
+        yesBtnBg.on('pointerdown', async () => {
             this.hideExitConfirmation();
+
+            // Persist the farm before leaving
+            const farmScene = this.scene.get(SCENE_KEYS.FARM) as FarmScene;
+            if (farmScene.scene.isActive()) {
+                await farmScene.saveFarmState();
+            }
+
             window.location.reload();
         });
 
@@ -0,0 +1,149 @@
+import { EventBus } from '../EventBus';
+
+/**
+ * Game Clock
+ *
+ * Tracks in-game minutes, hours, days and seasons.
+ * FarmScene advances it every frame; other systems read the current
+ * time or listen for the EventBus events in GAME_CLOCK_EVENTS.
+ */
+
+export type Season = 'spring' | 'summer' | 'fall' | 'winter';
+
+export const SEASONS: Season[] = ['spring', 'summer', 'fall', 'winter'];
+
+export const MINUTES_PER_HOUR = 60;
+export const MINUTES_PER_DAY = 24 * MINUTES_PER_HOUR;
+export const DAYS_PER_SEASON = 7;
+export const REAL_MS_PER_GAME_MINUTE = 500; // One in-game day lasts 12 real minutes
+export const DAY_START_HOUR = 6;
+
+const TIME_CHANGED_STEP_MINUTES = 10;
+const MAX_NIGHT_DARKNESS = 0.55;
+
+export const GAME_CLOCK_EVENTS = {
+    TIME_CHANGED: 'game-time-changed',
+    DAY_STARTED: 'day-started',
+    SEASON_CHANGED: 'season-changed'
+} as const;
+
+export interface GameTime {
+    totalMinutes: number;
+    minute: number;
+    hour: number;
+    day: number; // 1-based day within the season
+    season: Season;
+    year: number;
+}
+
+export interface SeasonChangedEvent {
+    season: Season;
+    previousSeason: Season;
+    time: GameTime;
+}
+
+export function getGameTime(totalMinutes: number): GameTime {
+    const dayIndex = Math.floor(totalMinutes / MINUTES_PER_DAY);
+    const minuteOfDay = totalMinutes - dayIndex * MINUTES_PER_DAY;
+    const seasonIndex = Math.floor(dayIndex / DAYS_PER_SEASON) % SEASONS.length;
+
+    return {
+        totalMinutes,
+        minute: minuteOfDay % MINUTES_PER_HOUR,
+        hour: Math.floor(minuteOfDay / MINUTES_PER_HOUR),
+        day: (dayIndex % DAYS_PER_SEASON) + 1,
+        season: SEASONS[seasonIndex],
+        year: Math.floor(dayIndex / (DAYS_PER_SEASON * SEASONS.length)) + 1
+    };
+}
+
+export function formatGameTime(time: GameTime): string {
+    const hour12 = time.hour % 12 === 0 ? 12 : time.hour % 12;
+    const suffix = time.hour < 12 ? 'AM' : 'PM';
+    return `${hour12}:${time.minute.toString().padStart(2, '0')} ${suffix}`;
+}
+
+export class GameClock {
+    private totalMinutes: number;
+    private pendingMs: number = 0;
+
+    constructor(totalMinutes: number = DAY_START_HOUR * MINUTES_PER_HOUR) {
+        this.totalMinutes = totalMinutes;
+    }
+
+    /**
+     * Advance the clock by real elapsed time (Phaser frame delta)
+     */
+    public update(deltaMs: number): void {
+        this.pendingMs += deltaMs;
+        const minutes = Math.floor(this.pendingMs / REAL_MS_PER_GAME_MINUTE);
+        if (minutes <= 0) return;
+
+        this.pendingMs -= minutes * REAL_MS_PER_GAME_MINUTE;
+        this.advanceMinutes(minutes);
+    }
+
+    /**
+     * Skip ahead by a number of in-game minutes, emitting any boundary events crossed
+     */
+    public advanceMinutes(minutes: number): void {
+        const previous = getGameTime(this.totalMinutes);
+        this.totalMinutes += Math.max(0, Math.floor(minutes));
+        const current = getGameTime(this.totalMinutes);
+
+        const previousDayIndex = Math.floor(previous.totalMinutes / MINUTES_PER_DAY);
+        const currentDayIndex = Math.floor(current.totalMinutes / MINUTES_PER_DAY);
+
+        if (currentDayIndex !== previousDayIndex) {
+            EventBus.emit(GAME_CLOCK_EVENTS.DAY_STARTED, current);
+        }
+
+        if (current.season !== previous.season) {
+            const event: SeasonChangedEvent = {
+                season: current.season,
+                previousSeason: previous.season,
+                time: current
+            };
+            EventBus.emit(GAME_CLOCK_EVENTS.SEASON_CHANGED, event);
+        }
+
+        const previousStep = Math.floor(previous.totalMinutes / TIME_CHANGED_STEP_MINUTES);
+        const currentStep = Math.floor(current.totalMinutes / TIME_CHANGED_STEP_MINUTES);
+        if (currentStep !== previousStep) {
+            EventBus.emit(GAME_CLOCK_EVENTS.TIME_CHANGED, current);
+        }
+    }
+
+    public getTime(): GameTime {
+        return getGameTime(this.totalMinutes);
+    }
+
+    public getSeason(): Season {
+        return this.getTime().season;
+    }
+
+    public getTotalMinutes(): number {
+        return this.totalMinutes;
+    }
+
+    /**
+     * Restore a saved clock without emitting events
+     */
+    public setTotalMinutes(totalMinutes: number): void {
+        this.totalMinutes = Math.max(0, Math.floor(totalMinutes));
+        this.pendingMs = 0;
+    }
+
+    /**
+     * Darkness of the lighting overlay (0 = full daylight)
+     */
+    public getDarkness(): number {
+        const time = this.getTime();
+        const hour = time.hour + time.minute / MINUTES_PER_HOUR;
+
+        if (hour >= 7 && hour < 18) return 0;
+        if (hour >= 18 && hour < 21) return ((hour - 18) / 3) * MAX_NIGHT_DARKNESS; // Dusk
+        if (hour >= 5 && hour < 7) return ((7 - hour) / 2) * MAX_NIGHT_DARKNESS; // Dawn
+        return MAX_NIGHT_DARKNESS;
+    }
+}
@@ -0,0 +1,30 @@
+/**
+ * NPC Schedules
+ *
+ * Hour-based daily routines for NPCs, driven by the GameClock.
+ */
+
+export type NPCActivity = 'patrol' | 'idle' | 'sleep';
+
+export interface NPCScheduleEntry {
+    fromHour: number; // Inclusive
+    toHour: number;   // Exclusive; may wrap past midnight
+    activity: NPCActivity;
+}
+
+export const HERMAN_SCHEDULE: NPCScheduleEntry[] = [
+    { fromHour: 7, toHour: 12, activity: 'patrol' },
+    { fromHour: 12, toHour: 13, activity: 'idle' },  // Lunch break
+    { fromHour: 13, toHour: 19, activity: 'patrol' },
+    { fromHour: 19, toHour: 22, activity: 'idle' },
+    { fromHour: 22, toHour: 7, activity: 'sleep' }
+];
+
+export function getScheduledActivity(schedule: NPCScheduleEntry[], hour: number): NPCActivity {
+    const entry = schedule.find(({ fromHour, toHour }) =>
+        fromHour <= toHour
+            ? hour >= fromHour && hour < toHour
+            : hour >= fromHour || hour < toHour
+    );
+    return entry ? entry.activity : 'idle';
+}
@@ -2,18 +2,18 @@ import "@/styles/globals.css";
 import '@onelabs/dapp-kit/dist/index.css';
 import type { AppProps } from "next/app";
 import { createNetworkConfig, SuiClientProvider, WalletProvider } from '@onelabs/dapp-kit';
-import { getFullnodeUrl } from '@onelabs/sui/client';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { getActiveNetwork, getNetworkProfiles } from '@/config/networks';
 
-const { networkConfig } = createNetworkConfig({
-  testnet: { url: getFullnodeUrl('testnet') },
-});
+const { networkConfig } = createNetworkConfig(
+  Object.fromEntries(getNetworkProfiles().map(profile => [profile.network, { url: profile.rpc_url }]))
+);
 const queryClient = new QueryClient();
 
 export default function App({ Component, pageProps }: AppProps) {
   return (
     <QueryClientProvider client={queryClient}>
-      <SuiClientProvider networks={networkConfig} defaultNetwork="testnet">
+      <SuiClientProvider networks={networkConfig} defaultNetwork={getActiveNetwork().network}>
         <WalletProvider>
           <Component {...pageProps} />
         </WalletProvider>
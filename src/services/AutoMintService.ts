@@ -5,7 +5,10 @@
  */
 
 import WalletBridgeService from './WalletBridgeService';
-import { ITEM_TYPES, RARITY_LEVELS } from './OneChainMintingService';
+import { EventBus } from '@/game/EventBus';
+import { RARITY_LEVELS } from './OneChainMintingService';
+import { getCatalogItem, getChainItemType } from '@/game/items/ItemCatalog';
+import type { MintResult, OneChainMintingService } from './OneChainMintingService';
 
 export interface GameItem {
   id: string;
@@ -14,9 +17,17 @@ export interface GameItem {
   type?: string;
   rarity?: number;
   stats?: number[];
+  durability?: ItemDurability; // Tools/weapons: minted as an on-chain Weapon
   nftObjectId?: string; // Blockchain object ID after minting
 }
 
+export interface ItemDurability {
+  damage: number;
+  durability: number;
+  maxDurability: number;
+  tierName: string;
+}
+
 // Map game item IDs to their NFT object IDs
 const nftRegistry = new Map<string, string>();
 
@@ -90,22 +101,12 @@ export class AutoMintService {
           continue;
         }
 
-        // Map game item type to blockchain type
-        const itemType = this.mapItemType(item.type || 'consumable');
-        const rarity = item.rarity || RARITY_LEVELS.COMMON;
-
         console.log(`🎨 Minting ${item.name} as NFT...`);
 
-        const result = await mintingService.mintItem({
-          itemType,
-          rarity,
-          name: item.name,
-          description: item.description || `A ${item.name} from OneValley`,
-          stats: item.stats || [10, 10],
-        });
+        const result = await this.mintWithService(mintingService, item);
 
         // Store the mapping
-        nftRegistry.set(item.id, result.itemObjectId);
+        this.recordMintedItem(item, result.itemObjectId);
         item.nftObjectId = result.itemObjectId;
 
         console.log(`✅ Minted ${item.name}!`);
@@ -142,21 +143,12 @@ export class AutoMintService {
         throw new Error('Minting service not available');
       }
 
-      const itemType = this.mapItemType(item.type || 'consumable');
-      const rarity = item.rarity || RARITY_LEVELS.COMMON;
-
       console.log(`🎨 Minting ${item.name} as NFT (blocking)...`);
 
-      const result = await mintingService.mintItem({
-        itemType,
-        rarity,
-        name: item.name,
-        description: item.description || `A ${item.name} from OneValley`,
-        stats: item.stats || [10, 10],
-      });
+      const result = await this.mintWithService(mintingService, item);
 
       // Store the mapping
-      nftRegistry.set(item.id, result.itemObjectId);
+      this.recordMintedItem(item, result.itemObjectId);
       item.nftObjectId = result.itemObjectId;
 
       console.log(`✅ Minted ${item.name}! NFT ID: ${result.itemObjectId}`);
@@ -169,6 +161,38 @@ export class AutoMintService {
     }
   }
 
+  /**
+   * Mint a single item, using the Weapon type when it carries durability
+   * The on-chain Weapon always starts at max durability, so the current
+   * wear and tier are recorded in the description.
+   */
+  private async mintWithService(
+    mintingService: OneChainMintingService,
+    item: GameItem
+  ): Promise<MintResult> {
+    const rarity = item.rarity || RARITY_LEVELS.COMMON;
+    const description = item.description || `A ${item.name} from OneValley`;
+
+    if (item.durability) {
+      const { damage, durability, maxDurability, tierName } = item.durability;
+      return mintingService.mintWeapon({
+        rarity,
+        name: item.name,
+        description: `${description} [${tierName} tier, durability ${durability}/${maxDurability}]`,
+        damage,
+        maxDurability,
+      });
+    }
+
+    return mintingService.mintItem({
+      itemType: this.mapItemType(item),
+      rarity,
+      name: item.name,
+      description,
+      stats: item.stats || [10, 10],
+    });
+  }
+
   /**
    * Register an externally minted item with the local registry
    */
@@ -179,11 +203,19 @@ export class AutoMintService {
     }
 
     // Always store latest mapping for the supplied game item id
-    nftRegistry.set(item.id, nftObjectId);
+    this.recordMintedItem(item, nftObjectId);
 
     console.log(`🔗 Registered minted item ${item.name} (${item.id}) → ${nftObjectId}`);
   }
 
+  /**
+   * Store the NFT mapping and let the game know (quests listen for 'nft-minted')
+   */
+  private recordMintedItem(item: GameItem, nftObjectId: string): void {
+    nftRegistry.set(item.id, nftObjectId);
+    EventBus.emit('nft-minted', { item, nftObjectId });
+  }
+
   /**
    * Batch mint multiple items
    */
@@ -198,18 +230,9 @@ export class AutoMintService {
   /**
    * Map game item type to blockchain enum
    */
-  private mapItemType(gameType: string): number {
-    const typeMap: Record<string, number> = {
-      'weapon': ITEM_TYPES.WEAPON,
-      'armor': ITEM_TYPES.ARMOR,
-      'consumable': ITEM_TYPES.CONSUMABLE,
-      'resource': ITEM_TYPES.RESOURCE,
-      'food': ITEM_TYPES.CONSUMABLE,
-      'potion': ITEM_TYPES.CONSUMABLE,
-      'material': ITEM_TYPES.RESOURCE,
-    };
-
-    return typeMap[gameType.toLowerCase()] || ITEM_TYPES.CONSUMABLE;
+  private mapItemType(item: GameItem): number {
+    // Catalog items know their on-chain type; ad-hoc items (e.g. harvests) go by game type
+    return getCatalogItem(item.id)?.chainType ?? getChainItemType(item.type || 'consumable');
   }
 
   /**
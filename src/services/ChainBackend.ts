@@ -0,0 +1,43 @@
+/**
+ * Chain Backend
+ *
+ * The read side of the OneChain JSON-RPC client that the services depend on.
+ * The live backend is a SuiClient on ONECHAIN_NETWORK; the local backend is
+ * the in-memory LocalLedger, which lets the game and every service run
+ * offline. Writes still go through a Signer: the connected wallet on a live
+ * network, or a LocalLedger account signer offline.
+ */
+
+import { SuiClient } from '@onelabs/sui/client';
+import { CHAIN_BACKEND, ONECHAIN_NETWORK } from '@/config/contracts';
+import { LocalLedger } from './LocalLedger';
+
+export type ChainBackend = Pick<
+  SuiClient,
+  'getOwnedObjects' | 'getObject' | 'queryEvents' | 'getTransactionBlock' | 'waitForTransaction' | 'getBalance'
+>;
+
+let activeBackend: ChainBackend | null = null;
+
+/**
+ * Backend selected by NEXT_PUBLIC_CHAIN_BACKEND ('rpc' by default)
+ */
+export function getChainBackend(): ChainBackend {
+  if (!activeBackend) {
+    activeBackend = CHAIN_BACKEND === 'local'
+      ? LocalLedger.getInstance()
+      : new SuiClient({ url: ONECHAIN_NETWORK.RPC_URL });
+  }
+  return activeBackend;
+}
+
+/**
+ * Replace the backend for services created from now on (e.g. a fresh LocalLedger in tests)
+ */
+export function setChainBackend(backend: ChainBackend): void {
+  activeBackend = backend;
+}
+
+export function isLocalChain(backend: ChainBackend = getChainBackend()): backend is LocalLedger {
+  return backend instanceof LocalLedger;
+}
@@ -6,7 +6,8 @@
  */
 
 import { useGameHUDStore } from '@/stores/GameHUDStore';
-import type { PlayerStats, GameNotification } from '@/stores/GameHUDStore';
+import type { PlayerStats, GameNotification, GameTimeState, ActiveBuffState } from '@/stores/GameHUDStore';
+import { getExperienceToNextLevel } from '@/game/progression/PlayerProgression';
 
 class HUDBridgeService {
   private static instance: HUDBridgeService;
@@ -66,6 +67,10 @@ class HUDBridgeService {
     useGameHUDStore.getState().setSelectedSlot(slot);
   }
 
+  getGoldCount(): number {
+    return useGameHUDStore.getState().goldCount;
+  }
+
   setGoldCount(count: number) {
     useGameHUDStore.getState().setGoldCount(count);
   }
@@ -89,6 +94,29 @@ class HUDBridgeService {
     this.setGoldCount(Math.max(0, currentGold - amount));
   }
 
+  // === Game Clock ===
+
+  setGameTime(time: GameTimeState) {
+    useGameHUDStore.getState().setGameTime(time);
+  }
+
+  setActiveBuffs(buffs: ActiveBuffState[]) {
+    useGameHUDStore.getState().setActiveBuffs(buffs);
+  }
+
+  onDayStarted(time: GameTimeState) {
+    this.setGameTime(time);
+    this.notifyInfo('New Day', `Day ${time.day} of ${this.formatSeason(time.season)}, Year ${time.year}`, 3000);
+  }
+
+  onSeasonChanged(season: string) {
+    this.notifyInfo('Season Changed', `${this.formatSeason(season)} has arrived!`, 4000);
+  }
+
+  private formatSeason(season: string): string {
+    return season.charAt(0).toUpperCase() + season.slice(1);
+  }
+
   // === UI State ===
 
   toggleBackpack(open?: boolean) {
@@ -178,6 +206,10 @@ class HUDBridgeService {
       
       if (newExp >= experienceToNextLevel) {
         const { level } = useGameHUDStore.getState().playerStats;
+        this.updatePlayerStats({
+          experience: newExp - experienceToNextLevel,
+          experienceToNextLevel: getExperienceToNextLevel(level + 1),
+        });
         this.onLevelUp(level + 1);
       } else {
         this.updatePlayerStats({ experience: newExp });
@@ -0,0 +1,115 @@
+import type { SuiEvent } from '@onelabs/sui/client';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { getActiveNetwork, updateNetworkProfile } from '@/config/networks';
+import { setChainBackend } from './ChainBackend';
+import { ListingIndexer } from './ListingIndexer';
+import OneChainMarketplaceService from './OneChainMarketplaceService';
+
+const ORIGINAL_PACKAGE = '0x0000000000000000000000000000000000000000000000000000000000000aaa';
+const UPGRADED_PACKAGE = '0x0000000000000000000000000000000000000000000000000000000000000bbb';
+
+function marketplaceEvent(seq: number, name: string, parsedJson: Record<string, unknown>): SuiEvent {
+  return {
+    id: { txDigest: `tx${seq}`, eventSeq: '0' },
+    packageId: UPGRADED_PACKAGE,
+    transactionModule: 'marketplace',
+    sender: '0xa',
+    type: `${ORIGINAL_PACKAGE}::marketplace::${name}`,
+    parsedJson,
+    bcs: '',
+    bcsEncoding: 'base64'
+  } as SuiEvent;
+}
+
+const EVENTS = [
+  marketplaceEvent(0, 'ItemListed', { listing_id: 'L1', item_id: 'I1', seller: '0xa', price: '100', listed_at: '0', expires_at: '1000' }),
+  marketplaceEvent(1, 'ItemListed', { listing_id: 'L2', item_id: 'I2', seller: '0xa', price: '200', listed_at: '0', expires_at: '1000' }),
+  marketplaceEvent(2, 'ListingPriceUpdated', { listing_id: 'L1', seller: '0xa', old_price: '100', new_price: '150', updated_at: '5' }),
+  marketplaceEvent(3, 'ItemSold', { listing_id: 'L1', item_id: 'I1', seller: '0xa', buyer: '0xb', price: '150', fee: '3', sold_at: '9' }),
+  marketplaceEvent(4, 'ItemListed', { listing_id: 'L3', item_id: 'I3', seller: '0xc', price: '50', listed_at: '0', expires_at: '10' }),
+  marketplaceEvent(5, 'ListingCancelled', { listing_id: 'L2', item_id: 'I2', seller: '0xa', cancelled_at: '11' })
+];
+
+/**
+ * Serves EVENTS two per page to queries on the original package's marketplace module
+ */
+function eventBackend(visible: number = EVENTS.length) {
+  const backend = {
+    visible,
+    queries: [] as any[],
+    queryEvents: async ({ query, cursor }: any) => {
+      backend.queries.push(query);
+      const events = query.MoveEventModule?.package === ORIGINAL_PACKAGE ? EVENTS.slice(0, backend.visible) : [];
+      const start = cursor ? events.findIndex(event => event.id.txDigest === cursor.txDigest) + 1 : 0;
+      const data = events.slice(start, start + 2);
+      return { data, nextCursor: data.length ? data[data.length - 1].id : cursor, hasNextPage: start + 2 < events.length };
+    }
+  };
+  return backend;
+}
+
+beforeEach(() => {
+  updateNetworkProfile(getActiveNetwork().network, { package_id: UPGRADED_PACKAGE, original_package_id: ORIGINAL_PACKAGE });
+});
+
+describe('ListingIndexer', () => {
+  it('folds listed, price update, sold and cancelled events by listing_id', async () => {
+    const indexer = new ListingIndexer(eventBackend() as any);
+    await indexer.sync();
+
+    expect(indexer.getListing('L1')).toMatchObject({ status: 'sold', price: 150, buyer: '0xb', fee: 3, sold_tx: 'tx3' });
+    expect(indexer.getListing('L2')).toMatchObject({ status: 'cancelled', cancelled_at: 11 });
+    expect(indexer.getStats()).toEqual({ totalListings: 3, activeListings: 1, totalVolume: 150, totalSales: 1 });
+  });
+
+  it('queries the original package so upgrades keep the history', async () => {
+    const backend = eventBackend();
+    await new ListingIndexer(backend as any).sync();
+
+    expect(backend.queries[0]).toEqual({ MoveEventModule: { package: ORIGINAL_PACKAGE, module: 'marketplace' } });
+  });
+
+  it('reads only new events on later syncs, once for concurrent callers', async () => {
+    const backend = eventBackend(4);
+    const indexer = new ListingIndexer(backend as any);
+    await indexer.sync();
+    expect(indexer.getListings({ status: 'active' }, 0).map(listing => listing.listing_id)).toEqual(['L2']);
+
+    backend.visible = EVENTS.length;
+    await Promise.all([indexer.sync(), indexer.sync()]);
+    expect(indexer.getStats().totalListings).toBe(3);
+    expect(indexer.getListing('L2')?.status).toBe('cancelled');
+  });
+
+  it('hides expired active listings unless asked', async () => {
+    const indexer = new ListingIndexer(eventBackend() as any);
+    await indexer.sync();
+
+    expect(indexer.getListings({ status: 'active' }, 50)).toEqual([]);
+    expect(indexer.getListings({ status: 'active', includeExpired: true }, 50).map(listing => listing.listing_id)).toEqual(['L3']);
+  });
+});
+
+describe('OneChainMarketplaceService sales history', () => {
+  it('keeps a sale when the sold item can no longer be read', async () => {
+    const backend = {
+      ...eventBackend(),
+      getOwnedObjects: async () => ({
+        data: [{ data: { objectId: '0xk', content: { dataType: 'moveObject', fields: {} } } }],
+        hasNextPage: false,
+        nextCursor: null
+      }),
+      // The buyer wrapped the item, so it is gone from the object store
+      getObject: async () => {
+        throw new Error('Object I1 is wrapped');
+      }
+    };
+    setChainBackend(backend as any);
+
+    const kiosk = await OneChainMarketplaceService.getInstance().fetchPlayerKiosk('0xa');
+
+    expect(kiosk?.sales_history).toHaveLength(1);
+    expect(kiosk?.sales_history[0]).toMatchObject({ id: 'L1', buyer: '0xb', price: 150, sold_at: 9, transaction_hash: 'tx3' });
+    expect(kiosk?.total_revenue).toBe(150);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Listing Indexer
+ *
+ * Builds the marketplace listing table from marketplace.move events. Every
+ * event of the module is read in chain order from one stream, so a listing's
+ * ItemListed always comes before its price updates and its ItemSold or
+ * ListingCancelled. Sold and cancelled listings keep their row with the
+ * final status; sync() only reads events newer than the last one seen.
+ */
+
+import type { EventId, SuiEvent } from '@onelabs/sui/client';
+import { ONECHAIN_CONTRACTS } from '@/config/contracts';
+import { ChainBackend, getChainBackend } from './ChainBackend';
+
+export type ListingStatus = 'active' | 'sold' | 'cancelled';
+
+export interface IndexedListing {
+  listing_id: string;
+  item_id: string;
+  seller: string;
+  price: number; // Current asking price, or the sale price once sold
+  listed_at: number;
+  expires_at: number;
+  status: ListingStatus;
+  listed_tx: string;
+  buyer?: string;
+  fee?: number;
+  sold_at?: number;
+  sold_tx?: string;
+  cancelled_at?: number;
+}
+
+export interface ListingFilter {
+  status?: ListingStatus;
+  seller?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  // Active listings past their expiry can't be bought; hide them unless asked
+  includeExpired?: boolean;
+}
+
+export interface ListingStats {
+  totalListings: number;
+  activeListings: number;
+  totalVolume: number;
+  totalSales: number;
+}
+
+const EVENT_PAGE_SIZE = 50;
+
+export class ListingIndexer {
+  private client: ChainBackend;
+  private listings: Map<string, IndexedListing> = new Map();
+  private cursor: EventId | null = null;
+  private syncing: Promise<void> | null = null;
+
+  constructor(client: ChainBackend = getChainBackend()) {
+    this.client = client;
+  }
+
+  /**
+   * Read marketplace events published since the last sync
+   */
+  sync(): Promise<void> {
+    // Concurrent callers share one pass so no page is applied twice
+    if (!this.syncing) {
+      this.syncing = this.readNewEvents().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Forget everything indexed so the next sync starts from the first event
+   */
+  reset(): void {
+    this.listings.clear();
+    this.cursor = null;
+  }
+
+  getListing(listingId: string): IndexedListing | undefined {
+    return this.listings.get(listingId);
+  }
+
+  getListings(filter: ListingFilter = {}, now: number = Date.now()): IndexedListing[] {
+    return Array.from(this.listings.values()).filter(listing => {
+      if (filter.status && listing.status !== filter.status) return false;
+      if (filter.seller && listing.seller !== filter.seller) return false;
+      if (filter.minPrice && listing.price < filter.minPrice) return false;
+      if (filter.maxPrice && listing.price > filter.maxPrice) return false;
+      if (!filter.includeExpired && listing.status === 'active' && now >= listing.expires_at) return false;
+      return true;
+    });
+  }
+
+  /**
+   * Totals over every indexed listing. Active counts listings not yet sold
+   * or cancelled, expired or not, like Marketplace.active_listings on chain
+   */
+  getStats(): ListingStats {
+    const stats: ListingStats = { totalListings: 0, activeListings: 0, totalVolume: 0, totalSales: 0 };
+
+    this.listings.forEach(listing => {
+      stats.totalListings++;
+      if (listing.status === 'active') stats.activeListings++;
+      if (listing.status === 'sold') {
+        stats.totalSales++;
+        stats.totalVolume += listing.price;
+      }
+    });
+    return stats;
+  }
+
+  private async readNewEvents(): Promise<void> {
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const page = await this.client.queryEvents({
+        // Event types keep the original package address after upgrades
+        query: { MoveEventModule: { package: ONECHAIN_CONTRACTS.ORIGINAL_PACKAGE_ID, module: 'marketplace' } },
+        cursor: this.cursor,
+        limit: EVENT_PAGE_SIZE,
+        order: 'ascending'
+      });
+
+      page.data.forEach(event => this.apply(event));
+      this.cursor = page.nextCursor ?? this.cursor;
+      hasNextPage = page.hasNextPage && page.data.length > 0;
+    }
+  }
+
+  /**
+   * Fold one event into the table
+   */
+  private apply(event: SuiEvent): void {
+    const data = event.parsedJson as any;
+    if (!data?.listing_id) return;
+
+    const eventName = event.type.split('::').pop();
+    const listing = this.listings.get(data.listing_id);
+
+    switch (eventName) {
+      case 'ItemListed':
+        this.listings.set(data.listing_id, {
+          listing_id: data.listing_id,
+          item_id: data.item_id,
+          seller: data.seller,
+          price: Number(data.price),
+          listed_at: Number(data.listed_at),
+          expires_at: Number(data.expires_at),
+          status: 'active',
+          listed_tx: event.id.txDigest
+        });
+        break;
+
+      case 'ListingPriceUpdated':
+        if (listing?.status === 'active') {
+          listing.price = Number(data.new_price);
+        }
+        break;
+
+      case 'ItemSold':
+        if (listing) {
+          listing.status = 'sold';
+          listing.price = Number(data.price);
+          listing.buyer = data.buyer;
+          listing.fee = Number(data.fee);
+          listing.sold_at = Number(data.sold_at);
+          listing.sold_tx = event.id.txDigest;
+        }
+        break;
+
+      case 'ListingCancelled':
+        if (listing) {
+          listing.status = 'cancelled';
+          listing.cancelled_at = Number(data.cancelled_at);
+        }
+        break;
+    }
+  }
+}
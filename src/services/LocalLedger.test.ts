@@ -0,0 +1,168 @@
+import { Transaction } from '@onelabs/sui/transactions';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { EVENT_TYPES, ONECHAIN_CONTRACTS } from '@/config/contracts';
+import { setChainBackend } from './ChainBackend';
+import { LOCAL_LEDGER_CONFIG, LocalLedger } from './LocalLedger';
+import { OneChainMintingService } from './OneChainMintingService';
+import OneChainMarketplaceService from './OneChainMarketplaceService';
+import { OneChainTransactionService } from './OneChainTransactionService';
+
+const SELLER = '0x000000000000000000000000000000000000000000000000000000000000005e';
+const BUYER = '0x00000000000000000000000000000000000000000000000000000000000000b0';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function fieldsOf(ledger: LocalLedger, objectId: string): Promise<any> {
+  const object = await ledger.getObject({ id: objectId, options: { showContent: true, showOwner: true } });
+  return { owner: object.data?.owner, ...(object.data?.content as any)?.fields };
+}
+
+describe('LocalLedger trading', () => {
+  // The local player deployed the package, so it also operates the GameCustodian
+  const PLAYER = LOCAL_LEDGER_CONFIG.PLAYER_ADDRESS;
+  const OTHER = '0x00000000000000000000000000000000000000000000000000000000000000b0';
+  let ledger: LocalLedger;
+
+  beforeEach(() => {
+    ledger = new LocalLedger({ now: () => 1000 });
+  });
+
+  function servicesFor(address: string) {
+    const minting = new OneChainMintingService(ledger);
+    const trading = new OneChainTransactionService(ledger);
+    [minting, trading].forEach(service => {
+      service.setSigner(ledger.createSigner(address));
+      service.setCurrentAddress(address);
+    });
+    return { minting, trading };
+  }
+
+  async function mintAndLock(name: string, owner: string = PLAYER) {
+    const { itemObjectId } = await servicesFor(PLAYER).minting.mintItem({ itemType: 1, rarity: 1, name, description: '', stats: [5] });
+    if (owner !== PLAYER) {
+      const tx = new Transaction();
+      tx.transferObjects([tx.object(itemObjectId)], owner);
+      ledger.execute(PLAYER, tx);
+    }
+    return { itemId: itemObjectId, ...(await servicesFor(owner).trading.lockItem(itemObjectId)) };
+  }
+
+  it('swaps two locked items through escrows held by the custodian operator', async () => {
+    const { trading } = servicesFor(PLAYER);
+    const sword = await mintAndLock('Sword');
+    const shield = await mintAndLock('Shield');
+
+    const swordEscrow = await trading.initiateTrade(sword.keyId, sword.lockedItemId, shield.keyId, PLAYER);
+    const shieldEscrow = await trading.initiateTrade(shield.keyId, shield.lockedItemId, sword.keyId, PLAYER);
+    expect((await trading.getActiveEscrows()).map(escrow => escrow.id)).toEqual([swordEscrow.escrowId, shieldEscrow.escrowId]);
+
+    await trading.executeSwap(swordEscrow.escrowId, shieldEscrow.escrowId);
+
+    expect((await fieldsOf(ledger, sword.itemId)).owner).toEqual({ AddressOwner: PLAYER });
+    expect((await fieldsOf(ledger, shield.itemId)).owner).toEqual({ AddressOwner: PLAYER });
+    expect((await ledger.getObject({ id: swordEscrow.escrowId })).error?.code).toBe('deleted');
+    expect(await fieldsOf(ledger, ONECHAIN_CONTRACTS.GAME_CUSTODIAN)).toMatchObject({ total_trades: '1', active_escrows: '0' });
+
+    const completed = await ledger.queryEvents({ query: { MoveEventType: EVENT_TYPES.TRADE_COMPLETED } });
+    expect(completed.data).toHaveLength(1);
+  });
+
+  it('aborts a swap whose exchange keys do not match and keeps both escrows', async () => {
+    const { trading } = servicesFor(PLAYER);
+    const sword = await mintAndLock('Sword');
+    const shield = await mintAndLock('Shield');
+
+    const swordEscrow = await trading.initiateTrade(sword.keyId, sword.lockedItemId, shield.keyId, PLAYER);
+    // Asks for its own key back instead of the sword's
+    const shieldEscrow = await trading.initiateTrade(shield.keyId, shield.lockedItemId, shield.keyId, PLAYER);
+
+    await expect(trading.executeSwap(swordEscrow.escrowId, shieldEscrow.escrowId)).rejects.toThrow(/MoveAbort.*"trading".*, 1\)/);
+
+    expect((await fieldsOf(ledger, swordEscrow.escrowId)).owner).toEqual({ AddressOwner: PLAYER });
+    expect((await fieldsOf(ledger, shieldEscrow.escrowId)).owner).toEqual({ AddressOwner: PLAYER });
+    expect(await fieldsOf(ledger, ONECHAIN_CONTRACTS.GAME_CUSTODIAN)).toMatchObject({ total_trades: '0', active_escrows: '2' });
+  });
+
+  it('rolls back the escrow when a later command in the transaction aborts', async () => {
+    const axe = await mintAndLock('Axe', OTHER);
+    const custodianBefore = await fieldsOf(ledger, ONECHAIN_CONTRACTS.GAME_CUSTODIAN);
+
+    // initiate_trade succeeds, then increment_active_escrows rejects a player who isn't the operator
+    const { trading } = servicesFor(OTHER);
+    await expect(trading.initiateTrade(axe.keyId, axe.lockedItemId, axe.keyId, PLAYER)).rejects.toThrow(/MoveAbort.*, 3\) in command 1/);
+
+    expect((await fieldsOf(ledger, axe.lockedItemId)).owner).toEqual({ AddressOwner: OTHER });
+    expect((await fieldsOf(ledger, axe.keyId)).owner).toEqual({ AddressOwner: OTHER });
+    expect(await trading.getActiveEscrows()).toEqual([]);
+    expect(await fieldsOf(ledger, ONECHAIN_CONTRACTS.GAME_CUSTODIAN)).toEqual(custodianBefore);
+
+    const created = await ledger.queryEvents({ query: { MoveEventType: EVENT_TYPES.ESCROW_CREATED } });
+    expect(created.data).toEqual([]);
+  });
+});
+
+describe('LocalLedger marketplace', () => {
+  let clock = 1000;
+  const ledger = new LocalLedger({ deployer: SELLER, now: () => clock });
+  let marketplace: OneChainMarketplaceService;
+
+  // The marketplace service is a singleton bound to the backend it was created with
+  beforeAll(() => {
+    ledger.fund(BUYER, 10000);
+    setChainBackend(ledger);
+    marketplace = OneChainMarketplaceService.getInstance();
+  });
+
+  function actAs(address: string): void {
+    marketplace.setSigner(ledger.createSigner(address));
+    marketplace.setCurrentAddress(address);
+  }
+
+  async function mintAndList(price: number): Promise<{ itemId: string; listingId: string }> {
+    const minting = new OneChainMintingService(ledger);
+    minting.setSigner(ledger.createSigner(SELLER));
+    minting.setCurrentAddress(SELLER);
+    const { itemObjectId } = await minting.mintItem({ itemType: 4, rarity: 1, name: 'Wood', description: 'Logs', stats: [] });
+
+    actAs(SELLER);
+    const result = await marketplace.listItemForSale(itemObjectId, price);
+    const listing = result.objectChanges!.find(change => change.objectType.includes('::marketplace::Listing<'));
+    return { itemId: itemObjectId, listingId: listing.objectId };
+  }
+
+  it('sells a repriced listing and pays the seller minus the fee', async () => {
+    const { itemId, listingId } = await mintAndList(1000);
+    await marketplace.updateListingPrice(listingId, 2000);
+
+    actAs(BUYER);
+    await marketplace.purchaseItem(listingId);
+
+    expect((await fieldsOf(ledger, itemId)).owner).toEqual({ AddressOwner: BUYER });
+    expect((await ledger.getObject({ id: listingId })).error?.code).toBe('deleted');
+    expect((await ledger.getBalance({ owner: BUYER })).totalBalance).toBe('8000');
+    expect((await ledger.getBalance({ owner: SELLER })).totalBalance).toBe('1950');
+    expect(await fieldsOf(ledger, ledger.getMarketplaceId())).toMatchObject({ fees: '50', active_listings: '0', total_sales: '1' });
+    expect(await marketplace.getMarketplaceStats()).toEqual({ totalListings: 1, activeListings: 0, totalVolume: 2000, totalSales: 1 });
+  });
+
+  it('rolls back the payment when the listing has expired', async () => {
+    const { listingId } = await mintAndList(500);
+    clock += 30 * DAY_MS;
+
+    actAs(BUYER);
+    await expect(marketplace.purchaseItem(listingId)).rejects.toThrow(/MoveAbort.*, 3\)/);
+
+    expect((await ledger.getBalance({ owner: BUYER })).totalBalance).toBe('8000');
+    expect((await fieldsOf(ledger, listingId)).price).toBe('500');
+  });
+
+  it('returns the item only to the seller on cancel', async () => {
+    const { itemId, listingId } = await mintAndList(500);
+
+    actAs(BUYER);
+    await expect(marketplace.cancelListing(listingId)).rejects.toThrow(/MoveAbort.*, 2\)/);
+
+    actAs(SELLER);
+    await marketplace.cancelListing(listingId);
+    expect((await fieldsOf(ledger, itemId)).owner).toEqual({ AddressOwner: SELLER });
+  });
+});
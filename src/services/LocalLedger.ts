@@ -0,0 +1,1353 @@
+/**
+ * Local Ledger
+ *
+ * In-memory chain backend that emulates the OneValley `items`, `lock`,
+ * `trading` and `marketplace` Move modules, so the game and every service run
+ * offline.
+ * Transactions built with the OneChain Transaction SDK are interpreted
+ * command by command with the same rules the chain applies:
+ * - Object inputs must be owned by the sender or shared, otherwise the
+ *   transaction is rejected before it executes
+ * - Move aborts and unused return values fail the transaction and roll back
+ *   every change, leaving only the failed status behind
+ * - Successful transactions bump object versions and report created,
+ *   mutated, deleted and wrapped objects, events and a digest
+ *
+ * Native coin is kept as one gas balance per address: SplitCoins on the gas
+ * coin makes a Coin<OCT> for the transaction, and a coin transferred to an
+ * address merges back into its balance.
+ *
+ * Object ids and digests come from a seeded generator, so the same
+ * transactions on a fresh ledger always produce the same ids. Events carry
+ * parsedJson only; their bcs field is left empty.
+ */
+
+import type {
+  CoinBalance,
+  EventId,
+  GetBalanceParams,
+  GetObjectParams,
+  GetOwnedObjectsParams,
+  GetTransactionBlockParams,
+  ObjectOwner,
+  OwnedObjectRef,
+  PaginatedEvents,
+  PaginatedObjectsResponse,
+  QueryEventsParams,
+  SuiClient,
+  SuiEvent,
+  SuiEventFilter,
+  SuiObjectChange,
+  SuiObjectData,
+  SuiObjectDataFilter,
+  SuiObjectDataOptions,
+  SuiObjectRef,
+  SuiObjectResponse,
+  SuiTransactionBlockResponse
+} from '@onelabs/sui/client';
+import { bcs } from '@onelabs/sui/bcs';
+import type { Transaction } from '@onelabs/sui/transactions';
+import { fromBase64, normalizeStructTag, normalizeSuiAddress, toBase58 } from '@onelabs/sui/utils';
+import { MARKETPLACE_CONFIG, ONECHAIN_CONTRACTS } from '@/config/contracts';
+import type { Signer } from './OneChainTransactionService';
+
+export const LOCAL_LEDGER_CONFIG = {
+  PLAYER_ADDRESS: '0x00000000000000000000000000000000000000000000000000000000000a11ce',
+  STARTING_BALANCE_MIST: 10000000000, // 10 OCT for gas
+  NATIVE_COIN_TYPE: '0x2::oct::OCT',
+  // Used when the active network profile has no marketplace_id
+  MARKETPLACE_ID: '0x00000000000000000000000000000000000000000000000000006d61726b6574',
+  QUERY_MAX_RESULT_LIMIT: 50,
+  SEED: 0x0ea11e7
+} as const;
+
+export interface LocalLedgerOptions {
+  packageId?: string;
+  itemForgeId?: string;
+  gameCustodianId?: string;
+  marketplaceId?: string;
+  deployer?: string;        // Owns the ItemForge and the GameCustodian, administers the Marketplace
+  now?: () => number;       // Clock for epoch_timestamp_ms and timestampMs
+  seed?: number;
+}
+
+// Field values in the RPC shape: u8 as numbers, u64, addresses and IDs as
+// strings, UIDs as { id } and nested structs as { type, fields }
+type MoveValue = string | number | UID | WrappedValue | MoveValue[];
+type MoveFields = { [field: string]: MoveValue };
+
+interface UID {
+  id: string;
+}
+
+interface MoveObject<F extends MoveFields = MoveFields> {
+  objectId: string;
+  type: string;
+  fields: F & { id: UID };
+}
+
+interface LedgerObject extends MoveObject {
+  owner: ObjectOwner;
+  version: string;
+  digest: string;
+  previousTransaction: string;
+}
+
+type TransactionData = ReturnType<Transaction['getData']>;
+type TransactionCommand = TransactionData['commands'][number];
+type CommandArgument = TransactionData['commands'][number] extends infer C
+  ? C extends { MoveCall: { arguments: Array<infer A> } } ? A : never
+  : never;
+
+// Wrapped values keep the RPC nested-struct shape: { type, fields }
+interface WrappedValue {
+  type: string;
+  fields: MoveFields & { id: UID };
+}
+
+// Fields of the emulated structs
+type ItemForgeFields = { next_item_id: string; total_items_created: string };
+type GameItemFields = {
+  item_id: string;
+  item_type: number;
+  rarity: number;
+  name: string;
+  description: string;
+  stats: string[];
+  minted_by: string;
+  mint_timestamp: string;
+  owner_history: string[];
+};
+type LockedFields = { key: string; obj: WrappedValue };
+type GameCustodianFields = { owner: string; total_trades: string; active_escrows: string };
+type TradeEscrowFields = {
+  sender: string;
+  recipient: string;
+  exchange_key: string;
+  escrowed_key: string;
+  escrowed: WrappedValue;
+  created_at: string;
+};
+type MarketplaceFields = { admin: string; fees: string; active_listings: string; total_sales: string; total_volume: string };
+type ListingFields = {
+  item: WrappedValue;
+  item_id: string;
+  seller: string;
+  price: string;
+  listed_at: string;
+  expires_at: string;
+};
+type CoinFields = { balance: string };
+
+/**
+ * A transaction failed during execution (Move abort, type or argument error)
+ */
+class ExecutionFailure extends Error {}
+
+interface ExecutionState {
+  sender: string;
+  digest: string;
+  timestampMs: number;
+  data: TransactionData;
+  results: Array<Array<MoveObject | null>>;
+  movedInputs: Set<number>;
+  movedShared: Set<string>;
+  touched: Set<string>;
+  created: Set<string>;
+  wrapped: Set<string>;
+  unwrapped: Set<string>;
+  events: SuiEvent[];
+}
+
+interface MoveFunction {
+  typeParams: number;
+  params: number; // Excluding TxContext
+  call(call: MoveCallContext): MoveObject[];
+}
+
+// Digests the chain reports for deleted and wrapped objects
+const DELETED_OBJECT_DIGEST = toBase58(new Uint8Array(32).fill(99));
+const WRAPPED_OBJECT_DIGEST = toBase58(new Uint8Array(32).fill(88));
+
+const CLOCK_ID = normalizeSuiAddress('0x6');
+const CLOCK_TYPE = normalizeStructTag('0x2::clock::Clock');
+const NATIVE_COIN_OBJECT_TYPE = normalizeStructTag(`0x2::coin::Coin<${LOCAL_LEDGER_CONFIG.NATIVE_COIN_TYPE}>`);
+
+// Structs with the `store` ability can be moved with TransferObjects
+const STRUCTS_WITH_STORE = new Set(['items::GameItem', 'items::Weapon', 'items::Armor', 'lock::Locked', 'lock::Key', 'coin::Coin']);
+
+const ITEM_TYPES = { WEAPON: 1, ARMOR: 2, CONSUMABLE: 3, RESOURCE: 4 };
+
+// marketplace.move fee: price * FEE_BPS / BPS_DENOMINATOR, rounded down
+const MARKETPLACE_FEE_BPS = 250;
+const BPS_DENOMINATOR = 10000;
+
+const MODULES: Record<string, Record<string, MoveFunction>> = {
+  items: {
+    create_item: {
+      typeParams: 0,
+      params: 6,
+      call: call => [createItem(call, call.u8(1), call.u8(2), call.string(3), call.string(4), call.u64Vector(5))]
+    },
+    create_weapon: {
+      typeParams: 0,
+      params: 6,
+      call: call => [createEquipment(call, 'Weapon', 'damage', ITEM_TYPES.WEAPON)]
+    },
+    create_armor: {
+      typeParams: 0,
+      params: 6,
+      call: call => [createEquipment(call, 'Armor', 'defense', ITEM_TYPES.ARMOR)]
+    },
+    update_ownership: {
+      typeParams: 0,
+      params: 2,
+      call: call => {
+        const item = call.borrowMut<GameItemFields>(0, 'items::GameItem');
+        item.fields.owner_history = [...item.fields.owner_history, call.address(1)];
+        return [];
+      }
+    },
+    emit_trade_event: {
+      typeParams: 0,
+      params: 4,
+      call: call => {
+        emitTradeEvent(call, call.address(0), call.address(1), call.u64(2), call.u8(3));
+        return [];
+      }
+    }
+  },
+  lock: {
+    lock: {
+      typeParams: 1,
+      params: 1,
+      call: call => {
+        const obj = call.take(0, call.typeArgument(0));
+        const key = call.newObject(call.structType('lock::Key'), {});
+        const locked = call.newObject(call.structType('lock::Locked', obj.type), {
+          key: key.objectId,
+          obj: call.wrap(obj)
+        });
+        return [locked, key];
+      }
+    },
+    unlock: {
+      typeParams: 1,
+      params: 2,
+      call: call => [unlock(call, 0, 1)]
+    }
+  },
+  trading: {
+    initiate_trade: {
+      typeParams: 1,
+      params: 5,
+      call: call => {
+        const key = call.take(0, 'lock::Key');
+        const locked = call.take<LockedFields>(1, call.structType('lock::Locked', call.typeArgument(0)));
+        const createdAt = String(call.timestampMs);
+        const escrow = call.newObject(call.structType('trading::TradeEscrow', call.typeArgument(0)), {
+          sender: call.sender,
+          recipient: call.address(3),
+          exchange_key: call.address(2),
+          escrowed_key: key.objectId,
+          escrowed: call.wrap(unlockValues(call, locked, key)),
+          created_at: createdAt
+        });
+
+        call.emit('trading::EscrowCreated', {
+          escrow_id: '0',
+          sender: call.sender,
+          recipient: call.address(3),
+          item_type: ITEM_TYPES.WEAPON,
+          created_at: createdAt
+        });
+        call.transfer(escrow, call.address(4));
+        return [];
+      }
+    },
+    execute_swap: {
+      typeParams: 2,
+      params: 3,
+      call: call => {
+        const custodian = call.borrowMut<GameCustodianFields>(0, 'trading::GameCustodian');
+        const escrow1 = call.take<TradeEscrowFields>(1, call.structType('trading::TradeEscrow', call.typeArgument(0)));
+        const escrow2 = call.take<TradeEscrowFields>(2, call.structType('trading::TradeEscrow', call.typeArgument(1)));
+        const EMismatchedSenderRecipient = 0;
+        const EMismatchedExchangeObject = 1;
+        const EUnauthorizedCustodian = 3;
+
+        call.assert(custodian.fields.owner === call.sender, EUnauthorizedCustodian);
+        call.assert(escrow1.fields.sender === escrow2.fields.recipient, EMismatchedSenderRecipient);
+        call.assert(escrow2.fields.sender === escrow1.fields.recipient, EMismatchedSenderRecipient);
+        call.assert(escrow1.fields.escrowed_key === escrow2.fields.exchange_key, EMismatchedExchangeObject);
+        call.assert(escrow2.fields.escrowed_key === escrow1.fields.exchange_key, EMismatchedExchangeObject);
+
+        custodian.fields.total_trades = call.addU64(custodian.fields.total_trades, 1);
+        custodian.fields.active_escrows = call.addU64(custodian.fields.active_escrows, -2);
+
+        call.transfer(call.unwrap(escrow1.fields.escrowed), escrow1.fields.recipient);
+        call.transfer(call.unwrap(escrow2.fields.escrowed), escrow2.fields.recipient);
+
+        emitTradeEvent(call, escrow1.fields.sender, escrow1.fields.recipient, '0', ITEM_TYPES.WEAPON);
+        emitTradeEvent(call, escrow2.fields.sender, escrow2.fields.recipient, '1', ITEM_TYPES.WEAPON);
+        call.emit('trading::TradeCompleted', {
+          escrow_id_1: '0',
+          escrow_id_2: '1',
+          trader_1: escrow1.fields.sender,
+          trader_2: escrow2.fields.sender,
+          completed_at: String(call.timestampMs)
+        });
+        return [];
+      }
+    },
+    cancel_escrow: {
+      typeParams: 1,
+      params: 1,
+      call: call => {
+        const escrow = call.take<TradeEscrowFields>(0, call.structType('trading::TradeEscrow', call.typeArgument(0)));
+        const EInvalidEscrowState = 2;
+        call.assert(call.sender === escrow.fields.sender, EInvalidEscrowState);
+
+        call.emit('trading::EscrowCancelled', {
+          escrow_id: '0',
+          sender: escrow.fields.sender,
+          reason: 'User cancelled',
+          cancelled_at: String(call.timestampMs)
+        });
+        return [call.unwrap(escrow.fields.escrowed)];
+      }
+    },
+    increment_active_escrows: {
+      typeParams: 0,
+      params: 1,
+      call: call => {
+        const custodian = call.borrowMut<GameCustodianFields>(0, 'trading::GameCustodian');
+        const EUnauthorizedCustodian = 3;
+        call.assert(custodian.fields.owner === call.sender, EUnauthorizedCustodian);
+        custodian.fields.active_escrows = call.addU64(custodian.fields.active_escrows, 1);
+        return [];
+      }
+    }
+  },
+  marketplace: {
+    list_item: {
+      typeParams: 1,
+      params: 4,
+      call: call => {
+        const marketplace = call.borrowMut<MarketplaceFields>(0, 'marketplace::Marketplace');
+        const item = call.take(1, call.typeArgument(0));
+        const price = call.u64(2);
+        const listedAt = call.clock(3);
+        assertValidPrice(call, price);
+
+        const listing = call.newObject(call.structType('marketplace::Listing', call.typeArgument(0)), {
+          item: call.wrap(item),
+          item_id: item.objectId,
+          seller: call.sender,
+          price,
+          listed_at: String(listedAt),
+          expires_at: String(listedAt + MARKETPLACE_CONFIG.LISTING_DURATION)
+        });
+
+        call.emit('marketplace::ItemListed', {
+          listing_id: listing.objectId,
+          item_id: item.objectId,
+          seller: call.sender,
+          price,
+          listed_at: listing.fields.listed_at,
+          expires_at: listing.fields.expires_at
+        });
+
+        marketplace.fields.active_listings = call.addU64(marketplace.fields.active_listings, 1);
+        call.share(listing);
+        return [];
+      }
+    },
+    purchase_item: {
+      typeParams: 1,
+      params: 4,
+      call: call => {
+        const marketplace = call.borrowMut<MarketplaceFields>(0, 'marketplace::Marketplace');
+        const listing = call.take<ListingFields>(1, call.structType('marketplace::Listing', call.typeArgument(0)));
+        const payment = call.take<CoinFields>(2, NATIVE_COIN_OBJECT_TYPE);
+        const now = call.clock(3);
+        const EListingExpired = 3;
+        const EIncorrectPayment = 4;
+
+        call.assert(now < Number(listing.fields.expires_at), EListingExpired);
+        call.assert(payment.fields.balance === listing.fields.price, EIncorrectPayment);
+
+        const price = Number(listing.fields.price);
+        const fee = Math.floor(price * MARKETPLACE_FEE_BPS / BPS_DENOMINATOR);
+        marketplace.fields.fees = call.addU64(marketplace.fields.fees, fee);
+        payment.fields.balance = String(price - fee);
+        call.transfer(payment, listing.fields.seller);
+
+        marketplace.fields.active_listings = call.addU64(marketplace.fields.active_listings, -1);
+        marketplace.fields.total_sales = call.addU64(marketplace.fields.total_sales, 1);
+        marketplace.fields.total_volume = call.addU64(marketplace.fields.total_volume, price);
+
+        call.emit('marketplace::ItemSold', {
+          listing_id: listing.objectId,
+          item_id: listing.fields.item_id,
+          seller: listing.fields.seller,
+          buyer: call.sender,
+          price: listing.fields.price,
+          fee: String(fee),
+          sold_at: String(now)
+        });
+        return [call.unwrap(listing.fields.item)];
+      }
+    },
+    cancel_listing: {
+      typeParams: 1,
+      params: 3,
+      call: call => {
+        const marketplace = call.borrowMut<MarketplaceFields>(0, 'marketplace::Marketplace');
+        const listing = call.take<ListingFields>(1, call.structType('marketplace::Listing', call.typeArgument(0)));
+        const now = call.clock(2);
+        const ENotSeller = 2;
+
+        call.assert(listing.fields.seller === call.sender, ENotSeller);
+        marketplace.fields.active_listings = call.addU64(marketplace.fields.active_listings, -1);
+
+        call.emit('marketplace::ListingCancelled', {
+          listing_id: listing.objectId,
+          item_id: listing.fields.item_id,
+          seller: listing.fields.seller,
+          cancelled_at: String(now)
+        });
+        return [call.unwrap(listing.fields.item)];
+      }
+    },
+    update_price: {
+      typeParams: 1,
+      params: 3,
+      call: call => {
+        const listing = call.borrowMut<ListingFields>(0, call.structType('marketplace::Listing', call.typeArgument(0)));
+        const newPrice = call.u64(1);
+        const now = call.clock(2);
+        const ENotSeller = 2;
+        const EListingExpired = 3;
+
+        call.assert(listing.fields.seller === call.sender, ENotSeller);
+        call.assert(now < Number(listing.fields.expires_at), EListingExpired);
+        assertValidPrice(call, newPrice);
+
+        const oldPrice = listing.fields.price;
+        listing.fields.price = newPrice;
+
+        call.emit('marketplace::ListingPriceUpdated', {
+          listing_id: listing.objectId,
+          seller: listing.fields.seller,
+          old_price: oldPrice,
+          new_price: newPrice,
+          updated_at: String(now)
+        });
+        return [];
+      }
+    }
+  }
+};
+
+function createItem(
+  call: MoveCallContext,
+  itemType: number,
+  rarity: number,
+  name: string,
+  description: string,
+  stats: string[]
+): MoveObject {
+  const forge = call.borrowMut<ItemForgeFields>(0, 'items::ItemForge');
+  const EInvalidRarity = 0;
+  const EInvalidItemType = 1;
+  const EInvalidStatsLength = 3;
+
+  call.assert(itemType >= ITEM_TYPES.WEAPON && itemType <= ITEM_TYPES.RESOURCE, EInvalidItemType);
+  call.assert(rarity >= 1 && rarity <= 4, EInvalidRarity);
+  call.assert(stats.length <= 5, EInvalidStatsLength);
+
+  const item = call.newObject(call.structType('items::GameItem'), {
+    item_id: forge.fields.next_item_id,
+    item_type: itemType,
+    rarity,
+    name,
+    description,
+    stats,
+    minted_by: call.sender,
+    mint_timestamp: String(call.timestampMs),
+    owner_history: []
+  });
+
+  forge.fields.next_item_id = call.addU64(forge.fields.next_item_id, 1);
+  forge.fields.total_items_created = call.addU64(forge.fields.total_items_created, 1);
+
+  call.emit('items::ItemMinted', {
+    item_id: item.fields.item_id,
+    owner: call.sender,
+    item_type: itemType,
+    rarity,
+    name
+  });
+  return item;
+}
+
+function createEquipment(call: MoveCallContext, struct: 'Weapon' | 'Armor', statField: string, itemType: number): MoveObject {
+  const stat = call.u64(4);
+  const maxDurability = call.u64(5);
+  const base = createItem(call, itemType, call.u8(1), call.string(2), call.string(3), [stat, maxDurability]);
+
+  return call.newObject(call.structType(`items::${struct}`), {
+    base: call.wrap(base),
+    [statField]: stat,
+    durability: maxDurability,
+    max_durability: maxDurability
+  });
+}
+
+function emitTradeEvent(call: MoveCallContext, from: string, to: string, itemId: string, itemType: number): void {
+  call.emit('items::ItemTraded', {
+    from,
+    to,
+    item_id: itemId,
+    item_type: itemType,
+    trade_timestamp: String(call.timestampMs)
+  });
+}
+
+function unlock(call: MoveCallContext, lockedIndex: number, keyIndex: number): MoveObject {
+  const locked = call.take<LockedFields>(lockedIndex, call.structType('lock::Locked', call.typeArgument(0)));
+  const key = call.take(keyIndex, 'lock::Key');
+  return unlockValues(call, locked, key);
+}
+
+function unlockValues(call: MoveCallContext, locked: MoveObject<LockedFields>, key: MoveObject): MoveObject {
+  const ELockKeyMismatch = 0;
+  call.assert(locked.fields.key === key.objectId, ELockKeyMismatch, 'lock', 'unlock');
+  return call.unwrap(locked.fields.obj);
+}
+
+function assertValidPrice(call: MoveCallContext, price: string): void {
+  const EPriceTooLow = 0;
+  const EPriceTooHigh = 1;
+  call.assert(Number(price) >= MARKETPLACE_CONFIG.MIN_LISTING_PRICE, EPriceTooLow, 'marketplace', 'assert_valid_price');
+  call.assert(Number(price) <= MARKETPLACE_CONFIG.MAX_LISTING_PRICE, EPriceTooHigh, 'marketplace', 'assert_valid_price');
+}
+
+function addressOwner(owner: ObjectOwner): string | null {
+  return typeof owner === 'object' && 'AddressOwner' in owner ? owner.AddressOwner : null;
+}
+
+/**
+ * Deterministic random bytes (mulberry32)
+ */
+class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  bytes(length: number): Uint8Array {
+    return Uint8Array.from({ length }, () => Math.floor(this.next() * 256));
+  }
+}
+
+export class LocalLedger {
+  private static instance: LocalLedger;
+
+  private readonly packageId: string;
+  private readonly marketplaceId: string;
+  private readonly now: () => number;
+  private readonly random: SeededRandom;
+
+  private objects: Map<string, LedgerObject> = new Map();
+  private tombstones: Map<string, { version: string; digest: string }> = new Map();
+  private balances: Map<string, number> = new Map();
+  private transactions: Map<string, SuiTransactionBlockResponse> = new Map();
+  private events: SuiEvent[] = [];
+  private lamportVersion = 1;
+  private checkpoint = 0;
+
+  constructor(options: LocalLedgerOptions = {}) {
+    this.packageId = normalizeSuiAddress(options.packageId ?? ONECHAIN_CONTRACTS.PACKAGE_ID);
+    this.now = options.now ?? (() => Date.now());
+    this.random = new SeededRandom(options.seed ?? LOCAL_LEDGER_CONFIG.SEED);
+
+    const deployer = normalizeSuiAddress(options.deployer ?? LOCAL_LEDGER_CONFIG.PLAYER_ADDRESS);
+    const genesis = this.nextDigest();
+
+    this.createGenesisObject(genesis, {
+      objectId: normalizeSuiAddress(options.itemForgeId ?? ONECHAIN_CONTRACTS.ITEM_FORGE),
+      type: `${this.packageId}::items::ItemForge`,
+      fields: { next_item_id: '1', total_items_created: '0' }
+    }, { AddressOwner: deployer });
+
+    this.createGenesisObject(genesis, {
+      objectId: normalizeSuiAddress(options.gameCustodianId ?? ONECHAIN_CONTRACTS.GAME_CUSTODIAN),
+      type: `${this.packageId}::trading::GameCustodian`,
+      fields: { total_trades: '0', active_escrows: '0', owner: deployer }
+    }, { Shared: { initial_shared_version: '1' } });
+
+    this.marketplaceId = normalizeSuiAddress(
+      options.marketplaceId ?? (ONECHAIN_CONTRACTS.MARKETPLACE || LOCAL_LEDGER_CONFIG.MARKETPLACE_ID)
+    );
+    this.createGenesisObject(genesis, {
+      objectId: this.marketplaceId,
+      type: `${this.packageId}::marketplace::Marketplace`,
+      fields: { admin: deployer, fees: '0', active_listings: '0', total_sales: '0', total_volume: '0' }
+    }, { Shared: { initial_shared_version: '1' } });
+
+    // Reads of the Clock use the transaction timestamp
+    this.createGenesisObject(genesis, { objectId: CLOCK_ID, type: CLOCK_TYPE, fields: {} }, {
+      Shared: { initial_shared_version: '1' }
+    });
+  }
+
+  /**
+   * Shared ledger for the offline game, with the local player funded
+   */
+  static getInstance(): LocalLedger {
+    if (!LocalLedger.instance) {
+      LocalLedger.instance = new LocalLedger();
+      LocalLedger.instance.fund(LOCAL_LEDGER_CONFIG.PLAYER_ADDRESS, LOCAL_LEDGER_CONFIG.STARTING_BALANCE_MIST);
+    }
+    return LocalLedger.instance;
+  }
+
+  getPackageId(): string {
+    return this.packageId;
+  }
+
+  getMarketplaceId(): string {
+    return this.marketplaceId;
+  }
+
+  /**
+   * Add native coin to an address
+   */
+  fund(address: string, amountMist: number): void {
+    const owner = normalizeSuiAddress(address);
+    this.balances.set(owner, (this.balances.get(owner) ?? 0) + amountMist);
+  }
+
+  /**
+   * Signer that executes transactions on this ledger as `address`
+   */
+  createSigner(address: string): Signer {
+    return {
+      signAndExecuteTransaction: async ({ transaction }) => {
+        const result = this.execute(address, transaction);
+        return {
+          digest: result.digest,
+          effects: result.effects ? { status: result.effects.status } : undefined,
+          events: result.events ?? [],
+          objectChanges: (result.objectChanges ?? []).flatMap(change =>
+            change.type === 'published'
+              ? []
+              : [{
+                  type: change.type,
+                  objectId: change.objectId,
+                  objectType: change.objectType,
+                  sender: change.sender,
+                  owner: 'owner' in change && addressOwner(change.owner) ? { AddressOwner: addressOwner(change.owner)! } : undefined
+                }]
+          )
+        };
+      }
+    };
+  }
+
+  /**
+   * Execute a transaction as `sender`; throws if the transaction is rejected
+   * before execution, returns a failed response if it aborts
+   */
+  execute(sender: string, transaction: Transaction): SuiTransactionBlockResponse {
+    const data = transaction.getData();
+    const state: ExecutionState = {
+      sender: normalizeSuiAddress(sender),
+      digest: this.nextDigest(),
+      timestampMs: this.now(),
+      data,
+      results: [],
+      movedInputs: new Set(),
+      movedShared: new Set(),
+      touched: new Set(),
+      created: new Set(),
+      wrapped: new Set(),
+      unwrapped: new Set(),
+      events: []
+    };
+
+    this.validate(state);
+
+    const snapshot = this.snapshot();
+    const balances = new Map(this.balances);
+    let error: string | null = null;
+
+    try {
+      data.commands.forEach((command, index) => {
+        state.results[index] = this.runCommand(state, command, index);
+      });
+      state.results.forEach((values, resultIndex) => values.forEach((value, secondaryIndex) => {
+        if (value) {
+          throw new ExecutionFailure(`UnusedValueWithoutDrop { result_idx: ${resultIndex}, secondary_idx: ${secondaryIndex} }`);
+        }
+      }));
+    } catch (failure) {
+      if (!(failure instanceof ExecutionFailure)) throw failure;
+      this.objects = snapshot;
+      this.balances = balances;
+      error = failure.message;
+    }
+
+    return this.commit(state, snapshot, error);
+  }
+
+  // ===== RPC READ API =====
+
+  async getOwnedObjects(input: GetOwnedObjectsParams): Promise<PaginatedObjectsResponse> {
+    const owner = normalizeSuiAddress(input.owner);
+    const owned = Array.from(this.objects.values()).filter(obj =>
+      addressOwner(obj.owner) === owner && (!input.filter || this.matchesObjectFilter(obj, input.filter))
+    );
+
+    const page = this.paginate(owned, obj => obj.objectId === input.cursor, input.cursor, input.limit);
+    return {
+      data: page.data.map(obj => ({ data: this.toObjectData(obj, input.options) })),
+      hasNextPage: page.hasNextPage,
+      nextCursor: page.data.length > 0 ? page.data[page.data.length - 1].objectId : input.cursor ?? null
+    };
+  }
+
+  async getObject(input: GetObjectParams): Promise<SuiObjectResponse> {
+    const objectId = normalizeSuiAddress(input.id);
+    const obj = this.objects.get(objectId);
+    if (obj) {
+      return { data: this.toObjectData(obj, input.options) };
+    }
+
+    const tombstone = this.tombstones.get(objectId);
+    return tombstone
+      ? { error: { code: 'deleted', object_id: objectId, version: tombstone.version, digest: tombstone.digest } }
+      : { error: { code: 'notExists', object_id: objectId } };
+  }
+
+  async queryEvents(input: QueryEventsParams): Promise<PaginatedEvents> {
+    const matching = this.events.filter(event => this.matchesEventFilter(event, input.query));
+    if (input.order === 'descending') matching.reverse();
+
+    const cursor = input.cursor;
+    const page = this.paginate(
+      matching,
+      event => !!cursor && event.id.txDigest === cursor.txDigest && event.id.eventSeq === cursor.eventSeq,
+      cursor,
+      input.limit
+    );
+    return {
+      data: page.data.map(event => this.clone(event)),
+      hasNextPage: page.hasNextPage,
+      nextCursor: page.data.length > 0 ? page.data[page.data.length - 1].id : (cursor ?? null) as EventId | null
+    };
+  }
+
+  async getTransactionBlock(input: GetTransactionBlockParams): Promise<SuiTransactionBlockResponse> {
+    const response = this.transactions.get(input.digest);
+    if (!response) {
+      throw new Error(`Could not find the referenced transaction [TransactionDigest(${input.digest})].`);
+    }
+
+    const options = input.options ?? {};
+    return this.clone({
+      digest: response.digest,
+      timestampMs: response.timestampMs,
+      checkpoint: response.checkpoint,
+      ...(options.showEffects ? { effects: response.effects } : {}),
+      ...(options.showEvents ? { events: response.events } : {}),
+      ...(options.showObjectChanges ? { objectChanges: response.objectChanges } : {}),
+      ...(options.showBalanceChanges ? { balanceChanges: [] } : {})
+    });
+  }
+
+  // Every executed transaction is final immediately
+  async waitForTransaction(input: Parameters<SuiClient['waitForTransaction']>[0]): Promise<SuiTransactionBlockResponse> {
+    return this.getTransactionBlock({ digest: input.digest, options: input.options });
+  }
+
+  async getBalance(input: GetBalanceParams): Promise<CoinBalance> {
+    const coinType = input.coinType ?? LOCAL_LEDGER_CONFIG.NATIVE_COIN_TYPE;
+    const balance = normalizeStructTag(coinType) === normalizeStructTag(LOCAL_LEDGER_CONFIG.NATIVE_COIN_TYPE)
+      ? this.balances.get(normalizeSuiAddress(input.owner)) ?? 0
+      : 0;
+
+    return {
+      coinType,
+      coinObjectCount: balance > 0 ? 1 : 0,
+      totalBalance: String(balance),
+      lockedBalance: {}
+    };
+  }
+
+  // ===== EXECUTION =====
+
+  /**
+   * Checks the chain makes before executing; failing any rejects the transaction
+   */
+  private validate(state: ExecutionState): void {
+    state.data.inputs.forEach(input => {
+      if (input.$kind === 'Pure') return;
+
+      const objectId = this.inputObjectId(input);
+      if (!objectId) {
+        throw new Error(`LocalLedger does not support ${input.$kind} inputs`);
+      }
+
+      const obj = this.objects.get(objectId);
+      if (!obj) {
+        throw new Error(`Transaction was rejected: object ${objectId} does not exist`);
+      }
+      const owner = addressOwner(obj.owner);
+      if (owner !== null ? owner !== state.sender : typeof obj.owner === 'object' && 'ObjectOwner' in obj.owner) {
+        throw new Error(`Transaction was rejected: object ${objectId} is not owned by ${state.sender}`);
+      }
+    });
+
+    state.data.commands.forEach(command => {
+      if (command.$kind === 'TransferObjects') return;
+      if (command.$kind === 'SplitCoins' && command.SplitCoins) {
+        if (command.SplitCoins.coin.$kind !== 'GasCoin') {
+          throw new Error('LocalLedger only supports SplitCoins on the gas coin');
+        }
+        return;
+      }
+      if (command.$kind !== 'MoveCall' || !command.MoveCall) {
+        throw new Error(`LocalLedger does not support ${command.$kind} commands`);
+      }
+
+      const { package: packageId, module, function: name, typeArguments, arguments: args } = command.MoveCall;
+      if (normalizeSuiAddress(packageId) !== this.packageId) {
+        throw new Error(`Transaction was rejected: package object does not exist with ID ${packageId}`);
+      }
+
+      const fn = MODULES[module]?.[name];
+      if (!fn) {
+        throw new Error(`Transaction was rejected: could not resolve function '${name}' in module ${packageId}::${module}`);
+      }
+      if (typeArguments.length !== fn.typeParams) {
+        throw new Error(`Transaction was rejected: expected ${fn.typeParams} type arguments calling '${module}::${name}', but found ${typeArguments.length}`);
+      }
+      if (args.length !== fn.params) {
+        throw new Error(`Transaction was rejected: expected ${fn.params} arguments calling '${module}::${name}', but found ${args.length}`);
+      }
+    });
+  }
+
+  private runCommand(state: ExecutionState, command: TransactionCommand, index: number): Array<MoveObject | null> {
+    if (command.$kind === 'TransferObjects' && command.TransferObjects) {
+      const { objects, address } = command.TransferObjects;
+      const call = new MoveCallContext(this, state, index, 'transfer', 'transfer', [...objects, address], []);
+      const recipient = call.address(objects.length);
+
+      objects.forEach((_, argIndex) => {
+        const obj = call.take(argIndex);
+        if (!STRUCTS_WITH_STORE.has(this.structName(obj.type))) {
+          throw new ExecutionFailure(`CommandArgumentError { arg_idx: ${argIndex}, kind: InvalidTransferObject } in command ${index}`);
+        }
+        call.transfer(obj, recipient);
+      });
+      return [];
+    }
+
+    if (command.$kind === 'SplitCoins' && command.SplitCoins) {
+      const { amounts } = command.SplitCoins;
+      const call = new MoveCallContext(this, state, index, 'coin', 'split', amounts, []);
+      const coins = amounts.map((_, argIndex) => call.newObject<CoinFields>(NATIVE_COIN_OBJECT_TYPE, { balance: call.u64(argIndex) }));
+      const total = coins.reduce((sum, coin) => sum + Number(coin.fields.balance), 0);
+      const balance = this.balances.get(state.sender) ?? 0;
+
+      if (total > balance) {
+        throw new ExecutionFailure(`InsufficientCoinBalance in command ${index}`);
+      }
+      this.balances.set(state.sender, balance - total);
+      return coins;
+    }
+
+    const { module, function: name, typeArguments, arguments: args } = command.MoveCall!;
+    const call = new MoveCallContext(this, state, index, module, name, args, typeArguments.map(type => normalizeStructTag(type)));
+    return MODULES[module][name].call(call);
+  }
+
+  private commit(state: ExecutionState, before: Map<string, LedgerObject>, error: string | null): SuiTransactionBlockResponse {
+    const version = String(++this.lamportVersion);
+    const objectChanges: SuiObjectChange[] = [];
+    const effects = {
+      created: [] as OwnedObjectRef[],
+      mutated: [] as OwnedObjectRef[],
+      unwrapped: [] as OwnedObjectRef[],
+      deleted: [] as SuiObjectRef[],
+      wrapped: [] as SuiObjectRef[]
+    };
+
+    if (!error) {
+      new Set([...state.touched, ...state.created]).forEach(objectId => {
+        const obj = this.objects.get(objectId);
+        const previous = before.get(objectId);
+
+        if (obj) {
+          obj.version = version;
+          obj.digest = this.nextDigest();
+          obj.previousTransaction = state.digest;
+          this.tombstones.delete(objectId);
+
+          const ref = { owner: obj.owner, reference: { objectId, version, digest: obj.digest } };
+          if (previous) {
+            objectChanges.push({
+              type: 'mutated', sender: state.sender, owner: obj.owner, objectType: obj.type,
+              objectId, version, previousVersion: previous.version, digest: obj.digest
+            });
+            effects.mutated.push(ref);
+          } else {
+            // Unwrapped objects show up as created, like on chain
+            objectChanges.push({
+              type: 'created', sender: state.sender, owner: obj.owner, objectType: obj.type,
+              objectId, version, digest: obj.digest
+            });
+            (state.unwrapped.has(objectId) ? effects.unwrapped : effects.created).push(ref);
+          }
+        } else if (previous) {
+          const wrapped = state.wrapped.has(objectId);
+          const digest = wrapped ? WRAPPED_OBJECT_DIGEST : DELETED_OBJECT_DIGEST;
+          this.tombstones.set(objectId, { version, digest });
+
+          objectChanges.push({ type: wrapped ? 'wrapped' : 'deleted', sender: state.sender, objectType: previous.type, objectId, version });
+          (wrapped ? effects.wrapped : effects.deleted).push({ objectId, version, digest });
+        }
+      });
+
+      this.events.push(...state.events);
+    }
+
+    const response: SuiTransactionBlockResponse = {
+      digest: state.digest,
+      timestampMs: String(state.timestampMs),
+      checkpoint: String(++this.checkpoint),
+      confirmedLocalExecution: true,
+      effects: {
+        messageVersion: 'v1',
+        status: error ? { status: 'failure', error } : { status: 'success' },
+        executedEpoch: '0',
+        transactionDigest: state.digest,
+        gasObject: {
+          owner: { AddressOwner: state.sender },
+          reference: { objectId: normalizeSuiAddress('0x0'), version, digest: state.digest }
+        },
+        gasUsed: { computationCost: '0', storageCost: '0', storageRebate: '0', nonRefundableStorageFee: '0' },
+        ...effects
+      },
+      events: error ? [] : state.events,
+      objectChanges
+    };
+
+    this.transactions.set(state.digest, response);
+    return this.clone(response);
+  }
+
+  /** @internal Used by MoveCallContext */
+  inputObjectId(input: TransactionData['inputs'][number]): string | null {
+    if (input.UnresolvedObject) return normalizeSuiAddress(input.UnresolvedObject.objectId);
+    if (input.Object?.ImmOrOwnedObject) return normalizeSuiAddress(input.Object.ImmOrOwnedObject.objectId);
+    if (input.Object?.SharedObject) return normalizeSuiAddress(input.Object.SharedObject.objectId);
+    return null;
+  }
+
+  /** @internal Used by MoveCallContext */
+  getStoredObject(objectId: string): LedgerObject | undefined {
+    return this.objects.get(objectId);
+  }
+
+  /** @internal Used by MoveCallContext */
+  removeObject(objectId: string): LedgerObject | undefined {
+    const obj = this.objects.get(objectId);
+    this.objects.delete(objectId);
+    return obj;
+  }
+
+  /** @internal Used by MoveCallContext */
+  storeObject(obj: MoveObject, owner: ObjectOwner): void {
+    const existing = this.objects.get(obj.objectId);
+    this.objects.delete(obj.objectId);
+    this.objects.set(obj.objectId, {
+      objectId: obj.objectId,
+      type: obj.type,
+      fields: obj.fields,
+      owner,
+      version: existing?.version ?? '0',
+      digest: existing?.digest ?? '',
+      previousTransaction: existing?.previousTransaction ?? ''
+    });
+  }
+
+  /** @internal Used by MoveCallContext */
+  creditNativeCoin(coin: MoveObject, recipient: string): void {
+    this.fund(recipient, Number(coin.fields.balance));
+  }
+
+  /** @internal Used by MoveCallContext; the version the running transaction commits at */
+  pendingVersion(): string {
+    return String(this.lamportVersion + 1);
+  }
+
+  /** @internal Used by MoveCallContext */
+  newObjectId(): string {
+    const hex = Array.from(this.random.bytes(32), byte => byte.toString(16).padStart(2, '0')).join('');
+    return normalizeSuiAddress(hex);
+  }
+
+  /** @internal Used by MoveCallContext */
+  structName(type: string): string {
+    const [, module, name] = type.split('<')[0].split('::');
+    return `${module}::${name}`;
+  }
+
+  // ===== HELPERS =====
+
+  private createGenesisObject(digest: string, obj: { objectId: string; type: string; fields: MoveFields }, owner: ObjectOwner): void {
+    this.objects.set(obj.objectId, {
+      ...obj,
+      fields: { id: { id: obj.objectId }, ...obj.fields },
+      owner,
+      version: '1',
+      digest: this.nextDigest(),
+      previousTransaction: digest
+    });
+  }
+
+  private nextDigest(): string {
+    return toBase58(this.random.bytes(32));
+  }
+
+  private snapshot(): Map<string, LedgerObject> {
+    return new Map(Array.from(this.objects, ([id, obj]) => [id, this.clone(obj)]));
+  }
+
+  private clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+  }
+
+  private paginate<T>(
+    items: T[],
+    isCursor: (item: T) => boolean,
+    cursor: unknown,
+    limit?: number | null
+  ): { data: T[]; hasNextPage: boolean } {
+    const start = cursor ? items.findIndex(isCursor) + 1 : 0;
+    const pageSize = Math.min(limit ?? LOCAL_LEDGER_CONFIG.QUERY_MAX_RESULT_LIMIT, LOCAL_LEDGER_CONFIG.QUERY_MAX_RESULT_LIMIT);
+    const data = items.slice(start, start + pageSize);
+    return { data, hasNextPage: start + pageSize < items.length };
+  }
+
+  private toObjectData(obj: LedgerObject, options?: SuiObjectDataOptions | null): SuiObjectData {
+    return this.clone({
+      objectId: obj.objectId,
+      version: obj.version,
+      digest: obj.digest,
+      ...(options?.showType ? { type: obj.type } : {}),
+      ...(options?.showOwner ? { owner: obj.owner } : {}),
+      ...(options?.showPreviousTransaction ? { previousTransaction: obj.previousTransaction } : {}),
+      ...(options?.showContent
+        ? {
+            content: {
+              dataType: 'moveObject' as const,
+              type: obj.type,
+              hasPublicTransfer: STRUCTS_WITH_STORE.has(this.structName(obj.type)),
+              fields: obj.fields
+            }
+          }
+        : {})
+    });
+  }
+
+  private matchesObjectFilter(obj: LedgerObject, filter: SuiObjectDataFilter): boolean {
+    if ('MatchAll' in filter) return filter.MatchAll.every(inner => this.matchesObjectFilter(obj, inner));
+    if ('MatchAny' in filter) return filter.MatchAny.some(inner => this.matchesObjectFilter(obj, inner));
+    if ('MatchNone' in filter) return !filter.MatchNone.some(inner => this.matchesObjectFilter(obj, inner));
+    if ('Package' in filter) return obj.type.startsWith(`${normalizeSuiAddress(filter.Package)}::`);
+    if ('MoveModule' in filter) {
+      return obj.type.startsWith(`${normalizeSuiAddress(filter.MoveModule.package)}::${filter.MoveModule.module}::`);
+    }
+    if ('StructType' in filter) {
+      const structType = normalizeStructTag(filter.StructType);
+      return structType.includes('<') ? obj.type === structType : obj.type.split('<')[0] === structType;
+    }
+    if ('AddressOwner' in filter) return addressOwner(obj.owner) === normalizeSuiAddress(filter.AddressOwner);
+    if ('ObjectOwner' in filter) {
+      return typeof obj.owner === 'object' && 'ObjectOwner' in obj.owner &&
+        obj.owner.ObjectOwner === normalizeSuiAddress(filter.ObjectOwner);
+    }
+    if ('ObjectId' in filter) return obj.objectId === normalizeSuiAddress(filter.ObjectId);
+    if ('ObjectIds' in filter) return filter.ObjectIds.map(id => normalizeSuiAddress(id)).includes(obj.objectId);
+    if ('Version' in filter) return obj.version === String(filter.Version);
+
+    throw new Error(`LocalLedger does not support the object filter ${JSON.stringify(filter)}`);
+  }
+
+  private matchesEventFilter(event: SuiEvent, filter: SuiEventFilter): boolean {
+    if ('All' in filter) return filter.All.every(inner => this.matchesEventFilter(event, inner));
+    if ('Any' in filter) return filter.Any.some(inner => this.matchesEventFilter(event, inner));
+    if ('Sender' in filter) return event.sender === normalizeSuiAddress(filter.Sender);
+    if ('Transaction' in filter) return event.id.txDigest === filter.Transaction;
+    if ('MoveModule' in filter) {
+      return event.packageId === normalizeSuiAddress(filter.MoveModule.package) &&
+        event.transactionModule === filter.MoveModule.module;
+    }
+    if ('MoveEventType' in filter) return event.type === normalizeStructTag(filter.MoveEventType);
+    if ('MoveEventModule' in filter) {
+      return event.type.startsWith(`${normalizeSuiAddress(filter.MoveEventModule.package)}::${filter.MoveEventModule.module}::`);
+    }
+    if ('TimeRange' in filter) {
+      const timestamp = Number(event.timestampMs);
+      return timestamp >= Number(filter.TimeRange.startTime) && timestamp < Number(filter.TimeRange.endTime);
+    }
+
+    throw new Error(`LocalLedger does not support the event filter ${JSON.stringify(filter)}`);
+  }
+}
+
+/**
+ * Arguments, object access and side effects for one command
+ */
+class MoveCallContext {
+  constructor(
+    private readonly ledger: LocalLedger,
+    private readonly state: ExecutionState,
+    private readonly commandIndex: number,
+    private readonly module: string,
+    private readonly functionName: string,
+    private readonly args: CommandArgument[],
+    private readonly typeArgs: string[]
+  ) {}
+
+  get sender(): string {
+    return this.state.sender;
+  }
+
+  get timestampMs(): number {
+    return this.state.timestampMs;
+  }
+
+  typeArgument(index: number): string {
+    return this.typeArgs[index];
+  }
+
+  structType(struct: string, typeArgument?: string): string {
+    const base = `${this.ledger.getPackageId()}::${struct}`;
+    return typeArgument ? `${base}<${typeArgument}>` : base;
+  }
+
+  u8(index: number): number {
+    return this.pure(index, bcs.u8());
+  }
+
+  u64(index: number): string {
+    return this.pure(index, bcs.u64());
+  }
+
+  string(index: number): string {
+    return this.pure(index, bcs.string());
+  }
+
+  address(index: number): string {
+    return this.pure(index, bcs.Address);
+  }
+
+  u64Vector(index: number): string[] {
+    return this.pure(index, bcs.vector(bcs.u64()));
+  }
+
+  addU64(value: string, delta: number): string {
+    const result = Number(value) + delta;
+    if (result < 0) {
+      throw new ExecutionFailure(`MovePrimitiveRuntimeError(ArithmeticError) in command ${this.commandIndex}`);
+    }
+    return String(result);
+  }
+
+  /**
+   * Move an object argument out of its input or result slot. `F` is the
+   * field shape of `expectedType`, which the argument's type is checked against
+   */
+  take<F extends MoveFields = MoveFields>(index: number, expectedType?: string): MoveObject<F> {
+    const arg = this.args[index];
+    let value: MoveObject | null | undefined;
+
+    if (arg.$kind === 'Input') {
+      const inputIndex = arg.Input!;
+      const objectId = this.ledger.inputObjectId(this.state.data.inputs[inputIndex]);
+      if (!objectId) this.argumentError(index, 'TypeMismatch');
+      if (this.state.movedInputs.has(inputIndex)) this.argumentError(index, 'ArgumentWithoutValue');
+
+      // Shared objects can be taken by value only to be deleted
+      const stored = this.ledger.getStoredObject(objectId!);
+      const shared = !!stored && typeof stored.owner === 'object' && 'Shared' in stored.owner;
+      if (!stored || (addressOwner(stored.owner) === null && !shared)) this.argumentError(index, 'InvalidObjectByValue');
+
+      if (shared) this.state.movedShared.add(objectId!);
+      this.state.movedInputs.add(inputIndex);
+      this.state.touched.add(objectId!);
+      const { owner, version, digest, previousTransaction, ...obj } = this.ledger.removeObject(objectId!)!;
+      value = obj;
+    } else {
+      const [resultIndex, secondaryIndex] = this.resultSlot(index, arg);
+      const results = this.state.results[resultIndex];
+      if (!results || (arg.$kind === 'Result' && results.length !== 1)) this.argumentError(index, 'InvalidResultArity');
+
+      value = results[secondaryIndex];
+      if (!value) this.argumentError(index, 'ArgumentWithoutValue');
+      results[secondaryIndex] = null;
+    }
+
+    this.checkType(index, value!, expectedType);
+    return value as MoveObject<F>;
+  }
+
+  /**
+   * Borrow an object argument mutably; changes to its fields are kept
+   */
+  borrowMut<F extends MoveFields = MoveFields>(index: number, expectedType: string): MoveObject<F> {
+    const value = this.borrow<F>(index, expectedType);
+    const arg = this.args[index];
+    if (arg.$kind === 'Input') {
+      this.state.touched.add(value.objectId);
+    }
+    return value;
+  }
+
+  /**
+   * Timestamp read through the shared Clock argument
+   */
+  clock(index: number): number {
+    this.borrow(index, CLOCK_TYPE);
+    return this.state.timestampMs;
+  }
+
+  private borrow<F extends MoveFields = MoveFields>(index: number, expectedType: string): MoveObject<F> {
+    const arg = this.args[index];
+    let value: MoveObject | null | undefined;
+
+    if (arg.$kind === 'Input') {
+      const objectId = this.ledger.inputObjectId(this.state.data.inputs[arg.Input!]);
+      if (!objectId) this.argumentError(index, 'TypeMismatch');
+      if (this.state.movedInputs.has(arg.Input!)) this.argumentError(index, 'ArgumentWithoutValue');
+
+      value = this.ledger.getStoredObject(objectId!);
+    } else {
+      const [resultIndex, secondaryIndex] = this.resultSlot(index, arg);
+      value = this.state.results[resultIndex]?.[secondaryIndex];
+    }
+
+    if (!value) this.argumentError(index, 'ArgumentWithoutValue');
+    this.checkType(index, value!, expectedType);
+    return value as MoveObject<F>;
+  }
+
+  newObject<F extends MoveFields>(type: string, fields: F): MoveObject<F> {
+    const objectId = this.ledger.newObjectId();
+    this.state.created.add(objectId);
+    return { objectId, type, fields: { id: { id: objectId }, ...fields } };
+  }
+
+  wrap(obj: MoveObject): WrappedValue {
+    this.assertNotShared(obj);
+    this.state.wrapped.add(obj.objectId);
+    this.state.unwrapped.delete(obj.objectId);
+    return { type: obj.type, fields: obj.fields };
+  }
+
+  unwrap(value: WrappedValue): MoveObject {
+    const objectId = value.fields.id.id;
+    this.state.wrapped.delete(objectId);
+    this.state.unwrapped.add(objectId);
+    return { objectId, type: value.type, fields: value.fields };
+  }
+
+  transfer(obj: MoveObject, recipient: string): void {
+    this.assertNotShared(obj);
+    if (obj.type === NATIVE_COIN_OBJECT_TYPE) {
+      this.ledger.creditNativeCoin(obj, recipient);
+      return;
+    }
+    this.ledger.storeObject(obj, { AddressOwner: normalizeSuiAddress(recipient) });
+    this.state.touched.add(obj.objectId);
+  }
+
+  share(obj: MoveObject): void {
+    this.assertNotShared(obj);
+    this.ledger.storeObject(obj, { Shared: { initial_shared_version: this.ledger.pendingVersion() } });
+    this.state.touched.add(obj.objectId);
+  }
+
+  emit(struct: string, parsedJson: Record<string, unknown>): void {
+    const packageId = this.ledger.getPackageId();
+    this.state.events.push({
+      id: { txDigest: this.state.digest, eventSeq: String(this.state.events.length) },
+      packageId,
+      transactionModule: this.module,
+      sender: this.state.sender,
+      type: `${packageId}::${struct}`,
+      parsedJson,
+      bcs: '',
+      bcsEncoding: 'base64',
+      timestampMs: String(this.state.timestampMs)
+    });
+  }
+
+  assert(condition: boolean, code: number, module: string = this.module, fn: string = this.functionName): void {
+    if (condition) return;
+    const location = `MoveLocation { module: ModuleId { address: ${this.ledger.getPackageId().slice(2)}, name: Identifier("${module}") }, function_name: Some("${fn}") }`;
+    throw new ExecutionFailure(`MoveAbort(${location}, ${code}) in command ${this.commandIndex}`);
+  }
+
+  private pure<T>(index: number, schema: { parse(bytes: Uint8Array): T }): T {
+    const arg = this.args[index];
+    const input = arg.$kind === 'Input' ? this.state.data.inputs[arg.Input!] : undefined;
+    if (!input || input.$kind !== 'Pure' || !input.Pure) this.argumentError(index, 'TypeMismatch');
+
+    try {
+      return schema.parse(fromBase64(input!.Pure!.bytes));
+    } catch {
+      return this.argumentError(index, 'InvalidBCSBytes');
+    }
+  }
+
+  private assertNotShared(obj: MoveObject): void {
+    if (this.state.movedShared.has(obj.objectId)) {
+      throw new ExecutionFailure(`SharedObjectOperationNotAllowed in command ${this.commandIndex}`);
+    }
+  }
+
+  private resultSlot(index: number, arg: CommandArgument): [number, number] {
+    if (arg.$kind === 'Result') return [arg.Result, 0];
+    if (arg.$kind === 'NestedResult') return arg.NestedResult;
+    return this.argumentError(index, 'TypeMismatch');
+  }
+
+  private checkType(index: number, value: MoveObject, expectedType?: string): void {
+    if (!expectedType) return;
+    const matches = expectedType.includes('0x')
+      ? value.type === expectedType
+      : value.type.split('<')[0] === this.structType(expectedType);
+    if (!matches) this.argumentError(index, 'TypeMismatch');
+  }
+
+  private argumentError(index: number, kind: string): never {
+    throw new ExecutionFailure(`CommandArgumentError { arg_idx: ${index}, kind: ${kind} } in command ${this.commandIndex}`);
+  }
+}
@@ -5,14 +5,14 @@
  * Connects the farming game mechanics with OneChain Move contracts.
  */
 
-import { SuiClient } from '@onelabs/sui/client';
+import { ChainBackend, getChainBackend } from './ChainBackend';
 import { Transaction } from '@onelabs/sui/transactions';
 import { Signer } from './OneChainTransactionService';
 import OneChainTransactionFlow, { TransactionType, TransactionFlow } from './OneChainTransactionFlow';
 
 import {
   ONECHAIN_CONTRACTS,
-  ONECHAIN_MODULES,
+  OBJECT_TYPES,
   CONTRACT_FUNCTIONS,
   ONECHAIN_NETWORK,
   GAS_CONFIG,
@@ -46,12 +46,12 @@ export interface HarvestedItem {
 }
 
 export class OneChainHarvester {
-  private client: SuiClient;
+  private client: ChainBackend;
   private signer: Signer | null = null;
   private currentAddress: string | null = null;
   private transactionFlow: OneChainTransactionFlow;
 
-  constructor(client: SuiClient) {
+  constructor(client: ChainBackend = getChainBackend()) {
     this.client = client;
     this.transactionFlow = OneChainTransactionFlow.getInstance();
   }
@@ -229,7 +229,7 @@ export class OneChainHarvester {
         filter: {
           MatchAll: [
             {
-              StructType: ONECHAIN_MODULES.ITEMS
+              StructType: OBJECT_TYPES.GAME_ITEM
             }
           ]
         },
@@ -243,7 +243,7 @@ export class OneChainHarvester {
 
       for (const object of objects.data) {
         if (object.data?.content && 'type' in object.data.content &&
-            object.data.content.type === `${ONECHAIN_MODULES.ITEMS}::GameItem` &&
+            object.data.content.type === OBJECT_TYPES.GAME_ITEM &&
             'fields' in object.data.content) {
 
           const fields = object.data.content.fields as any;
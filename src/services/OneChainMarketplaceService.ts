@@ -6,7 +6,8 @@
  */
 
 import { Transaction } from '@onelabs/sui/transactions';
-import { SuiClient } from '@onelabs/sui/client';
+import { ChainBackend, getChainBackend, isLocalChain } from './ChainBackend';
+import { IndexedListing, ListingIndexer, ListingStats } from './ListingIndexer';
 import { Signer } from './OneChainTransactionService';
 
 import {
@@ -28,14 +29,14 @@ import {
 import {
   ONECHAIN_CONTRACTS,
   ONECHAIN_MODULES,
-  ONECHAIN_NETWORK,
   GAS_CONFIG,
   MARKETPLACE_CONFIG,
-  EVENT_TYPES,
   OBJECT_TYPES,
   CONTRACT_FUNCTIONS,
   ERROR_CODES,
   getTransactionUrl,
+  getAddressUrl,
+  getObjectUrl,
   formatSuiAmount
 } from '@/config/contracts';
 
@@ -47,6 +48,7 @@ export interface MarketplaceListing {
   seller: string;
   price: number;
   listed_at: number;
+  expires_at: number;
   transaction_hash: string;
   status: 'active' | 'sold' | 'cancelled';
   buyer?: string;
@@ -91,12 +93,14 @@ export interface MarketplaceError extends Error {
 
 class OneChainMarketplaceService {
   private static instance: OneChainMarketplaceService;
-  private client: SuiClient;
+  private client: ChainBackend;
+  private listingIndexer: ListingIndexer;
   private signer: Signer | null = null;
   private currentAddress: string | null = null;
 
   private constructor() {
-    this.client = new SuiClient({ url: ONECHAIN_NETWORK.RPC_URL });
+    this.client = getChainBackend();
+    this.listingIndexer = new ListingIndexer(this.client);
   }
 
   static getInstance(): OneChainMarketplaceService {
@@ -137,6 +141,65 @@ class OneChainMarketplaceService {
     return error;
   }
 
+  /**
+   * Check a listing price against the bounds marketplace.move enforces
+   */
+  private validatePrice(price: number): void {
+    if (price < MARKETPLACE_CONFIG.MIN_LISTING_PRICE) {
+      throw this.createError(
+        ERROR_CODES.INVALID_PRICE,
+        `Price must be at least ${MARKETPLACE_CONFIG.MIN_LISTING_PRICE}`
+      );
+    }
+
+    if (price > MARKETPLACE_CONFIG.MAX_LISTING_PRICE) {
+      throw this.createError(
+        ERROR_CODES.INVALID_PRICE,
+        `Price cannot exceed ${MARKETPLACE_CONFIG.MAX_LISTING_PRICE}`
+      );
+    }
+  }
+
+  /**
+   * Shared Marketplace object; throws on networks where it isn't published.
+   * The LocalLedger creates its own at genesis
+   */
+  private getMarketplaceId(): string {
+    if (isLocalChain(this.client)) {
+      return this.client.getMarketplaceId();
+    }
+    if (!ONECHAIN_CONTRACTS.MARKETPLACE) {
+      throw this.createError(
+        ERROR_CODES.NETWORK_ERROR,
+        'The marketplace is not deployed on this network'
+      );
+    }
+    return ONECHAIN_CONTRACTS.MARKETPLACE;
+  }
+
+  /**
+   * Price and item type of a Listing<T> object
+   */
+  private async getListing(listingId: string): Promise<{ price: number; itemType: string }> {
+    const listing = await this.client.getObject({
+      id: listingId,
+      options: { showType: true, showContent: true }
+    });
+
+    const type = listing.data?.type;
+    if (!type || !listing.data?.content || !('fields' in listing.data.content)) {
+      throw this.createError(
+        ERROR_CODES.LISTING_NOT_FOUND,
+        `Listing ${listingId} was not found; it may have been sold or cancelled`
+      );
+    }
+
+    return {
+      price: Number((listing.data.content.fields as any).price),
+      itemType: type.slice(type.indexOf('<') + 1, type.lastIndexOf('>'))
+    };
+  }
+
   /**
    * Execute transaction with proper error handling
    */
@@ -242,7 +305,33 @@ class OneChainMarketplaceService {
   }
 
   /**
-   * Query marketplace listings from blockchain
+   * Item details for an indexed listing, or null when they can't be read.
+   * While the listing is active the item is wrapped inside it; after a sale
+   * or cancellation the new owner may have wrapped or re-listed it, so the
+   * lookup is best effort
+   */
+  private async fetchListingItem(listing: IndexedListing): Promise<FrontendItem | null> {
+    try {
+      const object = await this.client.getObject({
+        id: listing.status === 'active' ? listing.listing_id : listing.item_id,
+        options: { showContent: true }
+      });
+
+      if (!object.data?.content || !('fields' in object.data.content)) {
+        return null;
+      }
+
+      const fields = object.data.content.fields as any;
+      const itemFields = listing.status === 'active' ? fields.item?.fields : fields;
+      return itemFields ? this.convertToFrontendItem(itemFields, listing.item_id) : null;
+    } catch (error) {
+      console.error('Error fetching item for listing:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Query marketplace listings from the listing index
    */
   private async queryListings(filter?: {
     category?: ItemType;
@@ -250,56 +339,37 @@ class OneChainMarketplaceService {
     maxPrice?: number;
     seller?: string;
     status?: 'active' | 'sold' | 'cancelled';
+    includeExpired?: boolean;
   }): Promise<MarketplaceListing[]> {
     try {
-      // Query listing objects from the marketplace contract
-      const listings = await this.client.queryEvents({
-        query: { MoveEventType: EVENT_TYPES.ITEM_LISTED }
+      await this.listingIndexer.sync();
+      const listings = this.listingIndexer.getListings({
+        status: filter?.status,
+        seller: filter?.seller,
+        minPrice: filter?.minPrice,
+        maxPrice: filter?.maxPrice,
+        includeExpired: filter?.includeExpired
       });
 
       const results: MarketplaceListing[] = [];
 
-      for (const event of listings.data) {
-        if (event.parsedJson) {
-          const listingData = event.parsedJson as any;
-
-          // Apply filters
-          if (filter?.category && listingData.item_type !== filter.category) continue;
-          if (filter?.minPrice && listingData.price < filter.minPrice) continue;
-          if (filter?.maxPrice && listingData.price > filter.maxPrice) continue;
-          if (filter?.seller && listingData.seller !== filter.seller) continue;
-
-          // Get item details
-          let item: FrontendItem | null = null;
-          try {
-            const itemObject = await this.client.getObject({
-              id: listingData.item_id,
-              options: { showContent: true }
-            });
-
-            if (itemObject.data?.content && 'fields' in itemObject.data.content) {
-              item = this.convertToFrontendItem(
-                itemObject.data.content.fields,
-                listingData.item_id
-              );
-            }
-          } catch (error) {
-            console.error('Error fetching item for listing:', error);
-            continue;
-          }
-
-          if (item) {
-            results.push({
-              id: listingData.listing_id || event.id.txDigest + '_' + Math.random().toString(36).substr(2, 9),
-              item,
-              seller: listingData.seller,
-              price: Number(listingData.price),
-              listed_at: Number(listingData.listed_at) || (event.timestampMs ? Number(event.timestampMs) : Date.now()),
-              transaction_hash: event.id.txDigest,
-              status: 'active', // Would need to check for sold/cancelled events
-            });
-          }
-        }
+      for (const listing of listings) {
+        // Rows come from the index; item details are added when readable
+        const item = await this.fetchListingItem(listing);
+        if (filter?.category && item?.item_type !== filter.category) continue;
+
+        results.push({
+          id: listing.listing_id,
+          item: item ?? this.convertToFrontendItem({}, listing.item_id),
+          seller: listing.seller,
+          price: listing.price,
+          listed_at: listing.listed_at,
+          expires_at: listing.expires_at,
+          transaction_hash: listing.listed_tx,
+          status: listing.status,
+          buyer: listing.buyer,
+          sold_at: listing.sold_at,
+        });
       }
 
       return results;
@@ -435,10 +505,11 @@ class OneChainMarketplaceService {
       if (kioskObject.data?.content && 'fields' in kioskObject.data.content) {
         const fields = kioskObject.data.content.fields as any;
 
-        // Get listed items for this kiosk
+        // Get listed items for this kiosk, including expired ones the seller can still cancel
         const listedItems = await this.queryListings({
           seller: address,
-          status: 'active'
+          status: 'active',
+          includeExpired: true
         });
 
         // Get sales history
@@ -470,49 +541,25 @@ class OneChainMarketplaceService {
    */
   private async querySalesHistory(address: string): Promise<MarketplaceSale[]> {
     try {
-      // Query sold events for this player
-      const soldEvents = await this.client.queryEvents({
-        query: { MoveEventType: EVENT_TYPES.ITEM_SOLD }
-      });
+      await this.listingIndexer.sync();
+      const soldListings = this.listingIndexer.getListings({ status: 'sold', seller: address });
 
       const sales: MarketplaceSale[] = [];
 
-      for (const event of soldEvents.data) {
-        if (event.parsedJson && typeof event.parsedJson === 'object' && 'seller' in event.parsedJson && (event.parsedJson as any).seller === address) {
-          const saleData = event.parsedJson as any;
-
-          // Get item details
-          let item: FrontendItem | null = null;
-          try {
-            const itemObject = await this.client.getObject({
-              id: saleData.item_id,
-              options: { showContent: true }
-            });
-
-            if (itemObject.data?.content && 'fields' in itemObject.data.content) {
-              item = this.convertToFrontendItem(
-                itemObject.data.content.fields,
-                saleData.item_id
-              );
-            }
-          } catch (error) {
-            console.error('Error fetching item for sale:', error);
-            continue;
-          }
-
-          if (item) {
-            sales.push({
-              id: event.id.txDigest + '_' + Math.random().toString(36).substr(2, 9),
-              item,
-              seller: saleData.seller,
-              buyer: saleData.buyer,
-              price: Number(saleData.price),
-              sold_at: Number(saleData.sold_at) || (event.timestampMs ? Number(event.timestampMs) : Date.now()),
-              transaction_hash: event.id.txDigest,
-              escrow_id: saleData.escrow_id || '',
-            });
-          }
-        }
+      for (const listing of soldListings) {
+        // The sale itself comes from the index; the item may have moved on since
+        const item = await this.fetchListingItem(listing);
+
+        sales.push({
+          id: listing.listing_id,
+          item: item ?? this.convertToFrontendItem({}, listing.item_id),
+          seller: listing.seller,
+          buyer: listing.buyer ?? '',
+          price: listing.price,
+          sold_at: listing.sold_at ?? listing.listed_at,
+          transaction_hash: listing.sold_tx ?? listing.listed_tx,
+          escrow_id: '',
+        });
       }
 
       return sales;
@@ -536,41 +583,29 @@ class OneChainMarketplaceService {
       );
     }
 
-    // Validate price
-    if (price < MARKETPLACE_CONFIG.MIN_LISTING_PRICE) {
-      throw this.createError(
-        ERROR_CODES.INVALID_PRICE,
-        `Price must be at least ${MARKETPLACE_CONFIG.MIN_LISTING_PRICE}`
-      );
-    }
-
-    if (price > MARKETPLACE_CONFIG.MAX_LISTING_PRICE) {
-      throw this.createError(
-        ERROR_CODES.INVALID_PRICE,
-        `Price cannot exceed ${MARKETPLACE_CONFIG.MAX_LISTING_PRICE}`
-      );
-    }
+    this.validatePrice(price);
 
     try {
-      const tx = new Transaction();
+      const marketplaceId = this.getMarketplaceId();
+      const item = await this.client.getObject({ id: itemId, options: { showType: true } });
+      if (!item.data?.type) {
+        throw this.createError(ERROR_CODES.ITEM_NOT_FOUND, `Item ${itemId} was not found`);
+      }
 
-      // Calculate marketplace fee
-      const marketplaceFee = Math.floor(price * MARKETPLACE_CONFIG.FEE_RATE);
-      const sellerProceeds = price - marketplaceFee;
+      const tx = new Transaction();
 
-      // Call the marketplace contract to list the item
-      const listing = tx.moveCall({
+      // List the item; the contract shares the listing itself
+      tx.moveCall({
         target: `${ONECHAIN_MODULES.MARKETPLACE}::${CONTRACT_FUNCTIONS.LIST_ITEM}`,
+        typeArguments: [item.data.type],
         arguments: [
+          tx.object(marketplaceId),
           tx.object(itemId),
           tx.pure.u64(price),
-          tx.object(ONECHAIN_CONTRACTS.GAME_CUSTODIAN)
+          tx.object.clock()
         ]
       });
 
-      // Transfer the listing to the marketplace contract
-      tx.transferObjects([listing], ONECHAIN_CONTRACTS.MARKETPLACE);
-
       // Set gas budget
       tx.setGasBudget(GAS_CONFIG.MARKETPLACE_LISTING_GAS);
 
@@ -606,14 +641,22 @@ class OneChainMarketplaceService {
     }
 
     try {
+      const marketplaceId = this.getMarketplaceId();
+      const listing = await this.getListing(listingId);
       const tx = new Transaction();
 
+      // The contract takes a coin worth exactly the listing price
+      const [payment] = tx.splitCoins(tx.gas, [tx.pure.u64(listing.price)]);
+
       // Call the marketplace contract to purchase the item
       const purchasedItem = tx.moveCall({
         target: `${ONECHAIN_MODULES.MARKETPLACE}::${CONTRACT_FUNCTIONS.PURCHASE_ITEM}`,
+        typeArguments: [listing.itemType],
         arguments: [
+          tx.object(marketplaceId),
           tx.object(listingId),
-          tx.object(ONECHAIN_CONTRACTS.GAME_CUSTODIAN)
+          payment,
+          tx.object.clock()
         ]
       });
 
@@ -655,13 +698,18 @@ class OneChainMarketplaceService {
     }
 
     try {
+      const marketplaceId = this.getMarketplaceId();
+      const listing = await this.getListing(listingId);
       const tx = new Transaction();
 
       // Call the marketplace contract to cancel the listing
       const returnedItem = tx.moveCall({
         target: `${ONECHAIN_MODULES.MARKETPLACE}::${CONTRACT_FUNCTIONS.CANCEL_LISTING}`,
+        typeArguments: [listing.itemType],
         arguments: [
-          tx.object(listingId)
+          tx.object(marketplaceId),
+          tx.object(listingId),
+          tx.object.clock()
         ]
       });
 
@@ -691,6 +739,54 @@ class OneChainMarketplaceService {
     }
   }
 
+  /**
+   * Change the price of one of your active listings
+   */
+  async updateListingPrice(listingId: string, newPrice: number): Promise<TransactionResult> {
+    if (!this.currentAddress) {
+      throw this.createError(
+        ERROR_CODES.NOT_OWNER,
+        'No wallet address connected'
+      );
+    }
+
+    this.validatePrice(newPrice);
+
+    try {
+      const listing = await this.getListing(listingId);
+      const tx = new Transaction();
+
+      tx.moveCall({
+        target: `${ONECHAIN_MODULES.MARKETPLACE}::${CONTRACT_FUNCTIONS.UPDATE_PRICE}`,
+        typeArguments: [listing.itemType],
+        arguments: [
+          tx.object(listingId),
+          tx.pure.u64(newPrice),
+          tx.object.clock()
+        ]
+      });
+
+      // Set gas budget
+      tx.setGasBudget(GAS_CONFIG.MARKETPLACE_LISTING_GAS);
+
+      // Execute transaction
+      return await this.executeTransaction(tx, {
+        showObjectChanges: true,
+        showEvents: true
+      });
+    } catch (error) {
+      console.error('Error updating listing price:', error);
+      if (error instanceof Error && 'code' in error) {
+        throw error;
+      }
+      throw this.createError(
+        ERROR_CODES.TRANSACTION_FAILED,
+        'Failed to update listing price',
+        error
+      );
+    }
+  }
+
   // === Utility Methods ===
 
   /**
@@ -747,14 +843,14 @@ class OneChainMarketplaceService {
    * Get address URL for blockchain explorer
    */
   getAddressUrl(address: string): string {
-    return `${ONECHAIN_NETWORK.EXPLORER_URL}/address/${address}`;
+    return getAddressUrl(address);
   }
 
   /**
    * Get object URL for blockchain explorer
    */
   getObjectUrl(objectId: string): string {
-    return `${ONECHAIN_NETWORK.EXPLORER_URL}/object/${objectId}`;
+    return getObjectUrl(objectId);
   }
 
   /**
@@ -804,42 +900,10 @@ class OneChainMarketplaceService {
   /**
    * Get marketplace statistics
    */
-  async getMarketplaceStats(): Promise<{
-    totalListings: number;
-    activeListings: number;
-    totalVolume: number;
-    totalSales: number;
-  }> {
+  async getMarketplaceStats(): Promise<ListingStats> {
     try {
-      // Get all listing events
-      const [listedEvents, soldEvents] = await Promise.all([
-        this.client.queryEvents({
-          query: { MoveEventType: EVENT_TYPES.ITEM_LISTED }
-        }),
-        this.client.queryEvents({
-          query: { MoveEventType: EVENT_TYPES.ITEM_SOLD }
-        })
-      ]);
-
-      const totalListings = listedEvents.data.length;
-      const totalSales = soldEvents.data.length;
-      const totalVolume = soldEvents.data.reduce((sum, event) => {
-        if (event.parsedJson && typeof event.parsedJson === 'object' && 'price' in event.parsedJson) {
-          return sum + Number((event.parsedJson as any).price);
-        }
-        return sum;
-      }, 0);
-
-      // For active listings, we'd need to check which ones haven't been sold or cancelled
-      // This is a simplified calculation
-      const activeListings = Math.max(0, totalListings - totalSales);
-
-      return {
-        totalListings,
-        activeListings,
-        totalVolume,
-        totalSales
-      };
+      await this.listingIndexer.sync();
+      return this.listingIndexer.getStats();
     } catch (error) {
       console.error('Error getting marketplace stats:', error);
       return {
@@ -5,8 +5,8 @@
  */
 
 import { Transaction } from '@onelabs/sui/transactions';
-import { SuiClient } from '@onelabs/sui/client';
-import { ONECHAIN_CONTRACTS, ONECHAIN_MODULES } from '../config/contracts';
+import { ChainBackend, getChainBackend } from './ChainBackend';
+import { OBJECT_TYPES, ONECHAIN_CONTRACTS, ONECHAIN_MODULES } from '../config/contracts';
 
 // Item types from items.move
 export const ITEM_TYPES = {
@@ -50,11 +50,11 @@ export interface Signer {
 }
 
 export class OneChainMintingService {
-  private client: SuiClient;
+  private client: ChainBackend;
   private signer: Signer | null = null;
   private currentAddress: string | null = null;
 
-  constructor(client: SuiClient) {
+  constructor(client: ChainBackend = getChainBackend()) {
     this.client = client;
   }
 
@@ -318,7 +318,7 @@ export class OneChainMintingService {
     const objects = await this.client.getOwnedObjects({
       owner: this.currentAddress,
       filter: {
-        StructType: `${ONECHAIN_CONTRACTS.PACKAGE_ID}::items::GameItem`,
+        StructType: OBJECT_TYPES.GAME_ITEM,
       },
       options: {
         showContent: true,
@@ -6,7 +6,7 @@
  */
 
 import { Transaction } from '@onelabs/sui/transactions';
-import { SuiClient } from '@onelabs/sui/client';
+import { ChainBackend, getChainBackend } from './ChainBackend';
 import { Signer } from './OneChainTransactionService';
 import OneChainMarketplaceService, { TransactionResult } from './OneChainMarketplaceService';
 
@@ -354,13 +354,13 @@ class OneChainTransactionFlow {
   private static instance: OneChainTransactionFlow;
   private activeFlows: Map<string, TransactionFlow> = new Map();
   private flowCallbacks: Map<string, (flow: TransactionFlow) => void> = new Map();
-  private client: SuiClient;
+  private client: ChainBackend;
   private signer: Signer | null = null;
   private marketplaceService: OneChainMarketplaceService;
   private readonly BLOCK_TIME = 2000; // 2 seconds average block time
 
   private constructor() {
-    this.client = new SuiClient({ url: ONECHAIN_NETWORK.RPC_URL });
+    this.client = getChainBackend();
     this.marketplaceService = OneChainMarketplaceService.getInstance();
   }
 
@@ -6,8 +6,9 @@
  */
 
 import { Transaction } from '@onelabs/sui/transactions';
-import { SuiClient } from '@onelabs/sui/client';
+import { ChainBackend, getChainBackend } from './ChainBackend';
 import { fromB64 } from '@onelabs/sui/utils';
+import { OBJECT_TYPES, ONECHAIN_CONTRACTS, ONECHAIN_MODULES } from '@/config/contracts';
 
 // OneChain wallet SDK types
 export interface Signer {
@@ -26,8 +27,12 @@ export interface Signer {
         error?: string;
       };
     };
+    events?: Array<{
+      type: string;
+      parsedJson?: unknown;
+    }>;
     objectChanges?: Array<{
-      type: 'created' | 'mutated' | 'deleted' | 'transferred';
+      type: 'created' | 'mutated' | 'deleted' | 'wrapped' | 'transferred';
       objectId: string;
       objectType: string;
       sender?: string;
@@ -38,15 +43,6 @@ export interface Signer {
   }>;
 }
 
-// OneValley Move contract addresses (deployed on devnet)
-const ONEVALLEY_PACKAGE_ID = '0x9d3d2c56c66134068a6be7ded289cf1915939f0b65a46483d3414a6da5f3ef89';
-const GAME_CUSTODIAN_ID = '0xf70caa11d1b82cfeeef2f5385e4798d95f1f829dd3dcf81535af5ce7e24d24cd';
-
-// Move module targets
-const LOCK_MODULE = `${ONEVALLEY_PACKAGE_ID}::lock`;
-const ITEMS_MODULE = `${ONEVALLEY_PACKAGE_ID}::items`;
-const TRADING_MODULE = `${ONEVALLEY_PACKAGE_ID}::trading`;
-
 export interface ItemLockResult {
   lockedItemId: string;
   keyId: string;
@@ -88,11 +84,11 @@ export interface EscrowedItem {
 }
 
 export class OneChainTransactionService {
-  private client: SuiClient;
+  private client: ChainBackend;
   private signer: Signer | null = null;
   private currentAddress: string | null = null;
 
-  constructor(client: SuiClient) {
+  constructor(client: ChainBackend = getChainBackend()) {
     this.client = client;
   }
 
@@ -144,6 +140,44 @@ export class OneChainTransactionService {
     return /^[0-9a-fA-F]{64}$/.test(hexPart);
   }
 
+  /**
+   * Move type of an object, for the type arguments of generic calls
+   */
+  private async getObjectType(objectId: string): Promise<string> {
+    const object = await this.client.getObject({ id: objectId, options: { showType: true } });
+    if (!object.data?.type) {
+      throw new Error(`Could not resolve the type of object ${objectId}`);
+    }
+    return object.data.type;
+  }
+
+  /**
+   * Inner type of a generic wrapper, e.g. the item type of Locked<T>
+   */
+  private getTypeArgument(type: string): string {
+    const start = type.indexOf('<');
+    if (start === -1) {
+      throw new Error(`Type ${type} has no type argument`);
+    }
+    return type.slice(start + 1, type.lastIndexOf('>'));
+  }
+
+  /**
+   * Address that operates the GameCustodian. Escrows are sent to it and only
+   * it can execute swaps
+   */
+  private async getCustodianOperator(): Promise<string> {
+    const custodian = await this.client.getObject({
+      id: ONECHAIN_CONTRACTS.GAME_CUSTODIAN,
+      options: { showContent: true }
+    });
+    const content = custodian.data?.content;
+    if (!content || !('fields' in content)) {
+      throw new Error(`Could not read the GameCustodian ${ONECHAIN_CONTRACTS.GAME_CUSTODIAN}`);
+    }
+    return (content.fields as any).owner;
+  }
+
   /**
    * Lock an item for trading using the lock.move module
    */
@@ -175,10 +209,11 @@ export class OneChainTransactionService {
     // Call the lock function from lock.move
     try {
       const [lockedItem, key] = tx.moveCall({
-        target: `${LOCK_MODULE}::lock`,
+        target: `${ONECHAIN_MODULES.LOCK}::lock`,
         arguments: [tx.object(itemId)],
-        typeArguments: [] // Type will be inferred from the item
+        typeArguments: [await this.getObjectType(itemId)]
       });
+      tx.transferObjects([lockedItem, key], this.currentAddress);
     } catch (error) {
       console.error('Failed to create moveCall:', error);
       throw new Error(`Failed to create lock transaction: ${error instanceof Error ? error.message : String(error)}`);
@@ -268,20 +303,21 @@ export class OneChainTransactionService {
 
     // Call initiate_trade from trading.move
     const escrow = tx.moveCall({
-      target: `${TRADING_MODULE}::initiate_trade`,
+      target: `${ONECHAIN_MODULES.TRADING}::initiate_trade`,
+      typeArguments: [this.getTypeArgument(await this.getObjectType(lockedItemId))],
       arguments: [
         tx.object(keyId),
         tx.object(lockedItemId),
         tx.pure.address(exchangeKeyId),
         tx.pure.address(recipientAddress),
-        tx.pure.address(GAME_CUSTODIAN_ID)
+        tx.pure.address(await this.getCustodianOperator())
       ]
     });
 
     // Also increment active escrows counter
     tx.moveCall({
-      target: `${TRADING_MODULE}::increment_active_escrows`,
-      arguments: [tx.object(GAME_CUSTODIAN_ID)]
+      target: `${ONECHAIN_MODULES.TRADING}::increment_active_escrows`,
+      arguments: [tx.object(ONECHAIN_CONTRACTS.GAME_CUSTODIAN)]
     });
 
     const result = await this.signer.signAndExecuteTransaction({
@@ -330,9 +366,13 @@ export class OneChainTransactionService {
 
     // Call execute_swap from trading.move
     tx.moveCall({
-      target: `${TRADING_MODULE}::execute_swap`,
+      target: `${ONECHAIN_MODULES.TRADING}::execute_swap`,
+      typeArguments: [
+        this.getTypeArgument(await this.getObjectType(escrow1Id)),
+        this.getTypeArgument(await this.getObjectType(escrow2Id))
+      ],
       arguments: [
-        tx.object(GAME_CUSTODIAN_ID),
+        tx.object(ONECHAIN_CONTRACTS.GAME_CUSTODIAN),
         tx.object(escrow1Id),
         tx.object(escrow2Id)
       ]
@@ -370,7 +410,8 @@ export class OneChainTransactionService {
 
     // Call cancel_escrow from trading.move
     const returnedItem = tx.moveCall({
-      target: `${TRADING_MODULE}::cancel_escrow`,
+      target: `${ONECHAIN_MODULES.TRADING}::cancel_escrow`,
+      typeArguments: [this.getTypeArgument(await this.getObjectType(escrowId))],
       arguments: [tx.object(escrowId)]
     });
 
@@ -412,7 +453,7 @@ export class OneChainTransactionService {
         filter: {
           MatchAll: [
             {
-              StructType: `${ITEMS_MODULE}::GameItem`
+              StructType: OBJECT_TYPES.GAME_ITEM
             }
           ]
         },
@@ -426,7 +467,7 @@ export class OneChainTransactionService {
 
       for (const object of objects.data) {
         if (object.data?.content && 'type' in object.data.content &&
-            object.data.content.type === `${ITEMS_MODULE}::GameItem` &&
+            object.data.content.type === OBJECT_TYPES.GAME_ITEM &&
             'fields' in object.data.content) {
           const fields = object.data.content.fields as any;
           items.push({
@@ -455,13 +496,13 @@ export class OneChainTransactionService {
    */
   async getActiveEscrows(): Promise<EscrowedItem[]> {
     try {
-      // Get escrow objects (these would be owned by the custodian)
+      // Escrows are held by the custodian's operator until swapped
       const escrows = await this.client.getOwnedObjects({
-        owner: GAME_CUSTODIAN_ID,
+        owner: await this.getCustodianOperator(),
         filter: {
           MatchAll: [
             {
-              StructType: `${TRADING_MODULE}::TradeEscrow`
+              StructType: OBJECT_TYPES.ESCROW
             }
           ]
         },
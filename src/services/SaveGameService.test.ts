@@ -0,0 +1,146 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CURRENT_SAVE_VERSION, FarmSaveData, migrateSave, SaveGameService, SaveStorage } from './SaveGameService';
+
+const SAVED_AT = 1_700_000_000_000;
+
+class MemorySaveStorage implements SaveStorage {
+  values = new Map<string, string>();
+  failing = false;
+
+  async read(key: string): Promise<string | null> {
+    if (this.failing) throw new Error('storage unavailable');
+    return this.values.get(key) ?? null;
+  }
+
+  async write(key: string, value: string): Promise<void> {
+    if (this.failing) throw new Error('quota exceeded');
+    this.values.set(key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+}
+
+function saveData(gold: number): Omit<FarmSaveData, 'version' | 'savedAt'> {
+  return { ...migrateSave({ version: 0 }), gold };
+}
+
+describe('migrateSave', () => {
+  it('brings an unversioned save up to date and hands out the starter tools', () => {
+    const save = migrateSave({ savedAt: SAVED_AT, gold: 40, inventory: { itemBar: [], backpack: [] } });
+
+    expect(save.version).toBe(CURRENT_SAVE_VERSION);
+    expect(save.gold).toBe(40);
+    expect(save).toMatchObject({ crops: [], chests: [], placements: [], buffs: [], clock: null, progression: null });
+
+    const backpack = save.inventory!.backpack;
+    expect(backpack.map(slot => slot.itemId)).toEqual([
+      'tool_hoe', 'tool_watering_can', 'tool_axe', 'seeds_carrot', 'tool_pickaxe', 'tool_fishing_rod'
+    ]);
+    expect(backpack.filter(slot => slot.itemId.startsWith('tool_')).every(slot => slot.instanceId)).toBe(true);
+    expect(backpack.find(slot => slot.itemId === 'seeds_carrot')?.instanceId).toBeUndefined();
+  });
+
+  it('restarts growth and the wilt count of crops from a v1 save', () => {
+    const save = migrateSave({
+      version: 1,
+      savedAt: SAVED_AT,
+      crops: [{ x: 3, y: 4, type: 'carrot', growthStage: 9, plantedTime: SAVED_AT - 60 * 60 * 1000 }],
+      droppedCarrots: [{ x: 1, y: 1 }],
+      harvestedCarrotCount: 6,
+      animals: [],
+      inventory: null,
+      gold: 0
+    });
+
+    expect(save.crops).toHaveLength(1);
+    expect(save.crops[0]).toMatchObject({ plantedTime: SAVED_AT, lastWateredTime: null, lastUpdateTime: SAVED_AT, wilted: false });
+    expect(save.crops[0].growthStage).toBeLessThan(9);
+    expect(save.droppedCrops).toEqual([{ x: 1, y: 1, type: 'carrot' }]);
+    expect(save.harvestedCropCount).toBe(6);
+    expect(save).not.toHaveProperty('droppedCarrots');
+  });
+
+  it('gives v16 tools instance ids and keeps each old condition on the first copy', () => {
+    const save = migrateSave({
+      ...saveData(0),
+      version: 16,
+      inventory: {
+        itemBar: [{ index: 0, itemId: 'seeds_carrot', itemType: 'seed', count: 3 }],
+        backpack: [{ index: 4, itemId: 'tool_axe', itemType: 'tool', count: 1 }]
+      },
+      chests: [{ x: 2, y: 2, slots: [{ index: 0, itemId: 'tool_axe', itemType: 'tool', count: 1 }, { index: 1, itemId: 'bow_01a', itemType: 'weapon', count: 1 }] }],
+      toolConditions: [
+        { itemId: 'tool_axe', tier: 2, durability: 40 },
+        { itemId: 'bow_01a', tier: 1, durability: 5 },
+        { itemId: 'tool_hoe', tier: 4, durability: 180 }
+      ]
+    });
+
+    const [backpackAxe] = save.inventory!.backpack;
+    const [chestAxe, chestBow] = save.chests[0].slots;
+    expect(save.inventory!.itemBar[0]).not.toHaveProperty('instanceId');
+    expect(new Set([backpackAxe.instanceId, chestAxe.instanceId, chestBow.instanceId]).size).toBe(3);
+    expect(save.toolConditions).toEqual([
+      { instanceId: backpackAxe.instanceId, tier: 2, durability: 40 },
+      { instanceId: chestBow.instanceId, tier: 1, durability: 5 }
+    ]);
+  });
+
+  it('refuses saves from a newer version', () => {
+    expect(() => migrateSave({ version: CURRENT_SAVE_VERSION + 1 })).toThrow(/newer than supported/);
+  });
+});
+
+describe('SaveGameService storage', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function serviceWithStores() {
+    const primary = new MemorySaveStorage();
+    const fallback = new MemorySaveStorage();
+    return { primary, fallback, service: new SaveGameService({ primary, fallback }) };
+  }
+
+  it('loads a fallback save written after a failed primary write', async () => {
+    const { primary, service } = serviceWithStores();
+    vi.useFakeTimers();
+
+    vi.setSystemTime(SAVED_AT);
+    expect(await service.save(saveData(10))).toBe(true);
+
+    primary.failing = true;
+    vi.setSystemTime(SAVED_AT + 1000);
+    expect(await service.save(saveData(20))).toBe(true);
+    primary.failing = false;
+
+    expect(await service.load()).toMatchObject({ gold: 20, savedAt: SAVED_AT + 1000 });
+  });
+
+  it('prefers the primary save once it is newer than the fallback copy', async () => {
+    const { primary, service } = serviceWithStores();
+    vi.useFakeTimers();
+
+    primary.failing = true;
+    vi.setSystemTime(SAVED_AT);
+    await service.save(saveData(10));
+    primary.failing = false;
+
+    vi.setSystemTime(SAVED_AT + 1000);
+    await service.save(saveData(30));
+
+    expect((await service.load())?.gold).toBe(30);
+  });
+
+  it('reads the fallback when the primary store cannot be read, and nothing when both are empty', async () => {
+    const { primary, fallback, service } = serviceWithStores();
+    expect(await service.load()).toBeNull();
+
+    await fallback.write('onevalley-save:farm', JSON.stringify({ ...saveData(70), version: CURRENT_SAVE_VERSION, savedAt: SAVED_AT }));
+    primary.failing = true;
+
+    expect((await service.load())?.gold).toBe(70);
+  });
+});
@@ -0,0 +1,562 @@
+/**
+ * Save Game Service
+ *
+ * Persists FarmScene world state between sessions.
+ * Saves are versioned JSON documents stored in IndexedDB (with a
+ * localStorage fallback) and upgraded through SAVE_MIGRATIONS on load.
+ * A save IndexedDB fails to write lands in localStorage, so loading reads
+ * both stores and keeps the newer copy.
+ */
+
+import type { BuildableId } from '../game/building/BuildableRegistry';
+import { getCropSpecies, getMatureStage } from '../game/crops/CropRegistry';
+import { createItemInstanceId, hasDurability } from '../game/items/ToolDurability';
+import { RarityLevel } from '../types/onechain';
+
+export const CURRENT_SAVE_VERSION = 17;
+
+const DEFAULT_SLOT = 'farm';
+const STORAGE_PREFIX = 'onevalley-save';
+const IDB_DATABASE = 'onevalley';
+const IDB_STORE = 'saves';
+const BACKPACK_SLOT_COUNT = 25;
+
+export type AnimalKind = 'chicken' | 'cow' | 'sheep';
+
+export interface SavedCrop {
+  x: number;
+  y: number;
+  growthStage: number;
+  type: string;
+  plantedTime: number; // epoch ms
+  growthProgress: number; // watered growth time, ms
+  lastWateredTime: number | null;
+  hydrationMs: number | null; // length of the last watering; null = species default
+  lastUpdateTime: number;
+  wilted: boolean;
+}
+
+export interface SavedDrop {
+  x: number;
+  y: number;
+  type: string;
+  gameItemId?: string;
+}
+
+export interface SavedLootDrop {
+  x: number;
+  y: number;
+  itemId: string;
+  count: number;
+  rarity: RarityLevel;
+  autoMint: boolean;
+}
+
+export interface SavedTreeTile {
+  layer: string;
+  x: number;
+  y: number;
+}
+
+export interface SavedPlacement {
+  buildableId: BuildableId;
+  x: number;
+  y: number;
+  rotation: number;
+}
+
+export interface SavedResourceNode {
+  id: string;
+  kind: 'tree' | 'rock' | 'ore';
+  hp: number;
+  depletedDay: number | null; // In-game day index
+  layer?: string;
+  tiles?: { x: number; y: number; index: number }[];
+}
+
+export interface SavedAnimal {
+  type: AnimalKind;
+  x: number;
+  y: number;
+  health: number;
+  fenceBounds: { minX: number; maxX: number; minY: number; maxY: number };
+  livestock: SavedLivestock | null;
+}
+
+export interface SavedLivestock {
+  name: string;
+  hunger: number;
+  happiness: number;
+  affection: number;
+  ageDays: number;
+  fedToday: boolean;
+  produceReady: number;
+}
+
+export interface SavedInventorySlot {
+  index: number;
+  itemId: string;
+  itemType?: string;
+  count: number;
+  instanceId?: string; // Tools and weapons only
+}
+
+export interface SavedInventory {
+  itemBar: SavedInventorySlot[];
+  backpack: SavedInventorySlot[];
+}
+
+export interface SavedChest {
+  x: number;
+  y: number;
+  slots: SavedInventorySlot[];
+}
+
+export interface SavedToolCondition {
+  instanceId: string;
+  tier: number;
+  durability: number;
+}
+
+export interface SavedClock {
+  totalMinutes: number;
+}
+
+export interface SavedProgression {
+  level: number;
+  experience: number;
+}
+
+export interface SavedBuff {
+  type: 'speed' | 'harvest';
+  amount: number;
+  sourceItemId: string;
+  expiresAt: number; // Total game minutes
+}
+
+export interface SavedQuestState {
+  id: string;
+  status: 'locked' | 'active' | 'completed';
+  progress: number[];
+}
+
+export interface FarmSaveData {
+  version: number;
+  savedAt: number;
+  crops: SavedCrop[];
+  droppedCrops: SavedDrop[];
+  lootDrops: SavedLootDrop[];
+  harvestedCropCount: number;
+  removedTreeTiles: SavedTreeTile[]; // Pre-v11 felled trees; turned into regrowing resource nodes on load
+  resourceNodes: SavedResourceNode[];
+  placements: SavedPlacement[];
+  chests: SavedChest[];
+  animals: SavedAnimal[];
+  inventory: SavedInventory | null;
+  gold: number;
+  clock: SavedClock | null;
+  tilledTiles: { x: number; y: number }[];
+  wateringCanLevel: number;
+  toolConditions: SavedToolCondition[];
+  quests: SavedQuestState[];
+  progression: SavedProgression | null;
+  energy: number | null;
+  buffs: SavedBuff[];
+}
+
+/**
+ * Upgrades a save document from version N to N + 1.
+ * Register a new entry here whenever CURRENT_SAVE_VERSION is bumped.
+ */
+export type SaveMigration = (data: any) => any;
+
+export const SAVE_MIGRATIONS: Record<number, SaveMigration> = {
+  // Pre-release saves were written without a version field
+  0: (data) => ({
+    crops: [],
+    droppedCarrots: [],
+    harvestedCarrotCount: 0,
+    removedTreeTiles: [],
+    animals: [],
+    inventory: null,
+    gold: 0,
+    savedAt: Date.now(),
+    ...data,
+    version: 1,
+  }),
+  // v2: time-based crop growth and multiple crop species. Unwatered crops
+  // wilt counting from plantedTime, so older crops restart that count at
+  // the save time instead of wilting on their first update
+  1: ({ droppedCarrots, harvestedCarrotCount, ...data }) => ({
+    ...data,
+    crops: (data.crops ?? []).map((crop: any) => {
+      const species = getCropSpecies(crop.type);
+      const stage = Math.min(crop.growthStage ?? 0, getMatureStage(species));
+      const migratedAt = data.savedAt ?? Date.now();
+      return {
+        ...crop,
+        growthStage: stage,
+        growthProgress: (species.growthDurationMs / getMatureStage(species)) * stage,
+        plantedTime: migratedAt,
+        lastWateredTime: null,
+        lastUpdateTime: migratedAt,
+        wilted: false,
+      };
+    }),
+    droppedCrops: (droppedCarrots ?? []).map((drop: any) => ({ ...drop, type: 'carrot' })),
+    harvestedCropCount: harvestedCarrotCount ?? 0,
+    version: 2,
+  }),
+  // v3: game clock and calendar
+  2: (data) => ({
+    ...data,
+    clock: null,
+    version: 3,
+  }),
+  // v4: tool-driven farming; older inventories get the starter farming kit
+  3: (data) => ({
+    ...data,
+    tilledTiles: [],
+    wateringCanLevel: 10,
+    inventory: data.inventory ? addStarterFarmKit(data.inventory) : null,
+    version: 4,
+  }),
+  // v5: tool and weapon durability
+  4: (data) => ({
+    ...data,
+    toolConditions: [],
+    version: 5,
+  }),
+  // v6: quest progress
+  5: (data) => ({
+    ...data,
+    quests: [],
+    version: 6,
+  }),
+  // v7: player level and experience
+  6: (data) => ({
+    ...data,
+    progression: null,
+    version: 7,
+  }),
+  // v8: player energy
+  7: (data) => ({
+    ...data,
+    energy: null,
+    version: 8,
+  }),
+  // v9: uncollected loot drops
+  8: (data) => ({
+    ...data,
+    lootDrops: [],
+    version: 9,
+  }),
+  // v10: livestock husbandry (older animals get fresh names and moods)
+  9: (data) => ({
+    ...data,
+    animals: (data.animals ?? []).map((animal: any) => ({ ...animal, livestock: null })),
+    version: 10,
+  }),
+  // v11: regrowing resource nodes; older inventories get a pickaxe
+  10: (data) => ({
+    ...data,
+    resourceNodes: [],
+    inventory: data.inventory
+      ? addMissingItems(data.inventory, [{ itemId: 'tool_pickaxe', itemType: 'tool', count: 1 }])
+      : data.inventory,
+    version: 11,
+  }),
+  // v12: structures placed in build mode
+  11: (data) => ({
+    ...data,
+    placements: [],
+    version: 12,
+  }),
+  // v13: sprinkler watering lasts until the next morning
+  12: (data) => ({
+    ...data,
+    crops: (data.crops ?? []).map((crop: any) => ({ ...crop, hydrationMs: null })),
+    version: 13,
+  }),
+  // v14: storage chest contents
+  13: (data) => ({
+    ...data,
+    chests: [],
+    version: 14,
+  }),
+  // v15: fishing; existing players get a fishing rod
+  14: (data) => ({
+    ...data,
+    inventory: data.inventory
+      ? addMissingItems(data.inventory, [{ itemId: 'tool_fishing_rod', itemType: 'tool', count: 1 }])
+      : data.inventory,
+    version: 15,
+  }),
+  // v16: timed buffs from cooked dishes
+  15: (data) => ({
+    ...data,
+    buffs: [],
+    version: 16,
+  }),
+  // v17: tool and weapon condition per inventory instance
+  16: (data) => ({
+    ...assignToolInstances(data),
+    version: 17,
+  }),
+};
+
+// Give every tool and weapon stack an instance id. Conditions used to be
+// shared by all copies of an item; the first copy (item bar, then backpack,
+// then chests) keeps that condition and the other copies start new.
+function assignToolInstances(data: any): any {
+  const legacy = new Map<string, any>((data.toolConditions ?? []).map((condition: any) => [condition.itemId, condition]));
+  const toolConditions: SavedToolCondition[] = [];
+
+  const withInstance = (slot: SavedInventorySlot): SavedInventorySlot => {
+    if (!hasDurability(slot.itemId)) return slot;
+
+    const instanceId = createItemInstanceId(slot.itemId);
+    const condition = legacy.get(slot.itemId);
+    if (condition) {
+      toolConditions.push({ instanceId, tier: condition.tier, durability: condition.durability });
+      legacy.delete(slot.itemId);
+    }
+    return { ...slot, instanceId };
+  };
+
+  const inventory: SavedInventory | null = data.inventory
+    ? { itemBar: data.inventory.itemBar.map(withInstance), backpack: data.inventory.backpack.map(withInstance) }
+    : data.inventory;
+  const chests: SavedChest[] = (data.chests ?? []).map((chest: SavedChest) => ({ ...chest, slots: chest.slots.map(withInstance) }));
+
+  return { ...data, inventory, chests, toolConditions };
+}
+
+function addStarterFarmKit(inventory: SavedInventory): SavedInventory {
+  return addMissingItems(inventory, [
+    { itemId: 'tool_hoe', itemType: 'tool', count: 1 },
+    { itemId: 'tool_watering_can', itemType: 'tool', count: 1 },
+    { itemId: 'tool_axe', itemType: 'tool', count: 1 },
+    { itemId: 'seeds_carrot', itemType: 'seed', count: 10 },
+  ]);
+}
+
+// Put items the player doesn't own yet into free backpack slots
+function addMissingItems(inventory: SavedInventory, items: Omit<SavedInventorySlot, 'index'>[]): SavedInventory {
+  const owned = new Set([...inventory.itemBar, ...inventory.backpack].map(slot => slot.itemId));
+  const used = new Set(inventory.backpack.map(slot => slot.index));
+  const backpack = [...inventory.backpack];
+
+  items.filter(item => !owned.has(item.itemId)).forEach(item => {
+    let index = 0;
+    while (used.has(index)) index++;
+    if (index >= BACKPACK_SLOT_COUNT) return;
+    used.add(index);
+    backpack.push({ ...item, index });
+  });
+
+  return { ...inventory, backpack };
+}
+
+/**
+ * Bring a raw save document up to CURRENT_SAVE_VERSION
+ */
+export function migrateSave(raw: any): FarmSaveData {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Save data is not an object');
+  }
+
+  let data = raw;
+  let version = typeof data.version === 'number' ? data.version : 0;
+
+  if (version > CURRENT_SAVE_VERSION) {
+    throw new Error(`Save version ${version} is newer than supported version ${CURRENT_SAVE_VERSION}`);
+  }
+
+  while (version < CURRENT_SAVE_VERSION) {
+    const migration = SAVE_MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`No migration registered for save version ${version}`);
+    }
+    data = migration(data);
+    version = data.version;
+  }
+
+  return data as FarmSaveData;
+}
+
+// === Storage backends ===
+
+export interface SaveStorage {
+  read(key: string): Promise<string | null>;
+  write(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+class LocalStorageSaveStorage implements SaveStorage {
+  async read(key: string): Promise<string | null> {
+    return window.localStorage.getItem(key);
+  }
+
+  async write(key: string, value: string): Promise<void> {
+    window.localStorage.setItem(key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    window.localStorage.removeItem(key);
+  }
+}
+
+class IndexedDBSaveStorage implements SaveStorage {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = window.indexedDB.open(IDB_DATABASE, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(IDB_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction(IDB_STORE, mode).objectStore(IDB_STORE));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async read(key: string): Promise<string | null> {
+    const value = await this.run<string | undefined>('readonly', store => store.get(key));
+    return value ?? null;
+  }
+
+  async write(key: string, value: string): Promise<void> {
+    await this.run('readwrite', store => store.put(value, key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+  }
+}
+
+export interface SaveStores {
+  primary: SaveStorage | null;
+  fallback: SaveStorage | null;
+}
+
+/**
+ * IndexedDB with a localStorage fallback, or localStorage alone
+ */
+function getBrowserSaveStores(): SaveStores {
+  if (typeof window === 'undefined') return { primary: null, fallback: null };
+
+  const fallback = window.localStorage ? new LocalStorageSaveStorage() : null;
+  return { primary: window.indexedDB ? new IndexedDBSaveStorage() : fallback, fallback };
+}
+
+export class SaveGameService {
+  private static instance: SaveGameService;
+  private primary: SaveStorage | null;
+  private fallback: SaveStorage | null;
+
+  constructor(stores: SaveStores = getBrowserSaveStores()) {
+    this.primary = stores.primary;
+    this.fallback = stores.fallback;
+  }
+
+  static getInstance(): SaveGameService {
+    if (!SaveGameService.instance) {
+      SaveGameService.instance = new SaveGameService();
+    }
+    return SaveGameService.instance;
+  }
+
+  /**
+   * Persist a save document for the given slot
+   */
+  async save(data: Omit<FarmSaveData, 'version' | 'savedAt'>, slot: string = DEFAULT_SLOT): Promise<boolean> {
+    const document: FarmSaveData = {
+      ...data,
+      version: CURRENT_SAVE_VERSION,
+      savedAt: Date.now(),
+    };
+    const serialized = JSON.stringify(document);
+    const key = this.storageKey(slot);
+
+    try {
+      if (!this.primary) return false;
+      await this.primary.write(key, serialized);
+      return true;
+    } catch (error) {
+      console.warn('⚠️ Primary save storage failed, falling back to localStorage:', error);
+    }
+
+    try {
+      if (!this.fallback || this.fallback === this.primary) return false;
+      await this.fallback.write(key, serialized);
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to write save:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Load and migrate the save document for the given slot
+   * Returns null when no save exists or it cannot be read
+   */
+  async load(slot: string = DEFAULT_SLOT): Promise<FarmSaveData | null> {
+    const key = this.storageKey(slot);
+    const stores = this.fallback !== this.primary ? [this.primary, this.fallback] : [this.primary];
+
+    // A failed primary write leaves the newest save in the fallback, so read both and keep the latest
+    const saves = await Promise.all(stores.map(store => this.readSave(store, key)));
+    return saves.reduce<FarmSaveData | null>(
+      (latest, save) => (save && (!latest || save.savedAt > latest.savedAt) ? save : latest),
+      null
+    );
+  }
+
+  /**
+   * Delete the save document for the given slot
+   */
+  async clear(slot: string = DEFAULT_SLOT): Promise<void> {
+    const key = this.storageKey(slot);
+    await Promise.allSettled([this.primary?.remove(key), this.fallback?.remove(key)]);
+  }
+
+  private async readSave(store: SaveStorage | null, key: string): Promise<FarmSaveData | null> {
+    if (!store) return null;
+
+    let serialized: string | null;
+    try {
+      serialized = await store.read(key);
+    } catch (error) {
+      console.warn('⚠️ Save storage unavailable:', error);
+      return null;
+    }
+
+    if (!serialized) return null;
+
+    try {
+      return migrateSave(JSON.parse(serialized));
+    } catch (error) {
+      console.error('❌ Failed to load save:', error);
+      return null;
+    }
+  }
+
+  private storageKey(slot: string): string {
+    return `${STORAGE_PREFIX}:${slot}`;
+  }
+}
+
+export default SaveGameService;
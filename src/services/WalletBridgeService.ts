@@ -9,8 +9,9 @@ import { OneChainHarvester } from './OneChainHarvester';
 import { OneChainTransactionFlow } from './OneChainTransactionFlow';
 import { OneChainTransactionService } from './OneChainTransactionService';
 import OneChainMintingService from './OneChainMintingService';
-import { SuiClient } from '@onelabs/sui/client';
-import { ONECHAIN_NETWORK } from '@/config/contracts';
+import { ChainBackend, getChainBackend, isLocalChain } from './ChainBackend';
+import { LOCAL_LEDGER_CONFIG } from './LocalLedger';
+import { getAddressUrl, getTransactionUrl } from '@/config/contracts';
 
 // Global signer interface that matches OneChain SDK
 export interface GlobalSigner {
@@ -29,8 +30,12 @@ export interface GlobalSigner {
         error?: string;
       };
     };
+    events?: Array<{
+      type: string;
+      parsedJson?: unknown;
+    }>;
     objectChanges?: Array<{
-      type: 'created' | 'mutated' | 'deleted' | 'transferred';
+      type: 'created' | 'mutated' | 'deleted' | 'wrapped' | 'transferred';
       objectId: string;
       objectType: string;
       sender?: string;
@@ -46,7 +51,7 @@ class WalletBridgeService {
   private signer: GlobalSigner | null = null;
   private currentAddress: string | null = null;
   private isConnected: boolean = false;
-  private suiClient: SuiClient;
+  private chain: ChainBackend;
   private oneChainHarvester: OneChainHarvester | null = null;
   private transactionFlow: OneChainTransactionFlow | null = null;
   private transactionService: OneChainTransactionService | null = null;
@@ -56,7 +61,7 @@ class WalletBridgeService {
   private connectionListeners: Array<(connected: boolean, address?: string) => void> = [];
 
   private constructor() {
-    this.suiClient = new SuiClient({ url: ONECHAIN_NETWORK.RPC_URL });
+    this.chain = getChainBackend();
   }
 
   static getInstance(): WalletBridgeService {
@@ -83,6 +88,20 @@ class WalletBridgeService {
     console.log('WalletBridge initialized with address:', address);
   }
 
+  /**
+   * Connect the local player account when running on the LocalLedger
+   * (no wallet extension needed); returns the player address
+   */
+  initializeLocal(): string {
+    if (!isLocalChain(this.chain)) {
+      throw new Error('initializeLocal() requires the local chain backend');
+    }
+
+    const address = LOCAL_LEDGER_CONFIG.PLAYER_ADDRESS;
+    this.initialize(this.chain.createSigner(address), address);
+    return address;
+  }
+
   /**
    * Initialize OneChain services with the connected wallet
    */
@@ -94,7 +113,7 @@ class WalletBridgeService {
 
     try {
       // Initialize harvester
-      this.oneChainHarvester = new OneChainHarvester(this.suiClient);
+      this.oneChainHarvester = new OneChainHarvester(this.chain);
       this.oneChainHarvester.setSigner(this.signer);
       this.oneChainHarvester.setCurrentAddress(this.currentAddress);
 
@@ -104,12 +123,12 @@ class WalletBridgeService {
       this.transactionFlow.setCurrentAddress(this.currentAddress);
 
       // Initialize transaction service
-      this.transactionService = new OneChainTransactionService(this.suiClient);
+      this.transactionService = new OneChainTransactionService(this.chain);
       this.transactionService.setSigner(this.signer);
       this.transactionService.setCurrentAddress(this.currentAddress);
 
       // Initialize minting service
-      this.mintingService = new OneChainMintingService(this.suiClient);
+      this.mintingService = new OneChainMintingService(this.chain);
       this.mintingService.setSigner(this.signer);
       this.mintingService.setCurrentAddress(this.currentAddress);
 
@@ -198,7 +217,7 @@ class WalletBridgeService {
     }
 
     try {
-      const balance = await this.suiClient.getBalance({
+      const balance = await this.chain.getBalance({
         owner: this.currentAddress
       });
 
@@ -263,7 +282,7 @@ class WalletBridgeService {
    */
   async getTransactionDetails(transactionHash: string) {
     try {
-      return await this.suiClient.getTransactionBlock({
+      return await this.chain.getTransactionBlock({
         digest: transactionHash,
         options: {
           showEffects: true,
@@ -281,7 +300,7 @@ class WalletBridgeService {
    * Wait for transaction confirmation
    */
   async waitForTransaction(transactionHash: string): Promise<void> {
-    await this.suiClient.waitForTransaction({
+    await this.chain.waitForTransaction({
       digest: transactionHash,
       options: {
         showEffects: true
@@ -293,14 +312,14 @@ class WalletBridgeService {
    * Get blockchain explorer URL for transaction
    */
   getTransactionExplorerUrl(transactionHash: string): string {
-    return `${ONECHAIN_NETWORK.EXPLORER_URL}/tx/${transactionHash}`;
+    return getTransactionUrl(transactionHash);
   }
 
   /**
    * Get address explorer URL
    */
   getAddressExplorerUrl(address: string): string {
-    return `${ONECHAIN_NETWORK.EXPLORER_URL}/address/${address}`;
+    return getAddressUrl(address);
   }
 }
 
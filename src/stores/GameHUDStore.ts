@@ -14,6 +14,14 @@ export interface PlayerStats {
   experienceToNextLevel: number;
 }
 
+export interface GameTimeState {
+  hour: number;
+  minute: number;
+  day: number;
+  season: string;
+  year: number;
+}
+
 export interface GameNotification {
   id: string;
   timestamp: number;
@@ -23,9 +31,17 @@ export interface GameNotification {
   duration?: number;
 }
 
+export interface ActiveBuffState {
+  type: string;
+  label: string;
+  icon: string;
+  remainingMinutes: number; // In-game minutes
+}
+
 interface HUDDataState {
   playerStats: PlayerStats;
   goldCount: number;
+  gameTime: GameTimeState;
   selectedSlot: number;
   isBackpackOpen: boolean;
   isMarketplaceOpen: boolean;
@@ -33,6 +49,7 @@ interface HUDDataState {
   isGuideOpen: boolean;
   currentScene: string;
   notifications: GameNotification[];
+  activeBuffs: ActiveBuffState[];
 }
 
 interface HUDActions {
@@ -41,6 +58,8 @@ interface HUDActions {
   setEnergy: (energy: number) => void;
   setSelectedSlot: (slot: number) => void;
   setGoldCount: (gold: number) => void;
+  setGameTime: (time: GameTimeState) => void;
+  setActiveBuffs: (buffs: ActiveBuffState[]) => void;
   toggleBackpack: (open?: boolean) => void;
   toggleMarketplace: (open?: boolean) => void;
   toggleSettings: (open?: boolean) => void;
@@ -69,9 +88,18 @@ const createInitialPlayerStats = (): PlayerStats => ({
   experienceToNextLevel: 100,
 });
 
+const createInitialGameTime = (): GameTimeState => ({
+  hour: 6,
+  minute: 0,
+  day: 1,
+  season: 'spring',
+  year: 1,
+});
+
 const createInitialDataState = (): HUDDataState => ({
   playerStats: createInitialPlayerStats(),
   goldCount: 0,
+  gameTime: createInitialGameTime(),
   selectedSlot: 0,
   isBackpackOpen: false,
   isMarketplaceOpen: false,
@@ -79,6 +107,7 @@ const createInitialDataState = (): HUDDataState => ({
   isGuideOpen: false,
   currentScene: 'menu',
   notifications: [],
+  activeBuffs: [],
 });
 
 let state: HUDStore; // defined after actions
@@ -135,6 +164,12 @@ const actions: HUDActions = {
   setGoldCount: (gold) => {
     setState({ goldCount: Math.max(0, Math.floor(gold)) });
   },
+  setGameTime: (time) => {
+    setState({ gameTime: { ...time } });
+  },
+  setActiveBuffs: (buffs) => {
+    setState({ activeBuffs: buffs.map(buff => ({ ...buff })) });
+  },
   toggleBackpack: (open) => {
     setState(prev => ({ isBackpackOpen: typeof open === 'boolean' ? open : !prev.isBackpackOpen }));
   },
@@ -301,7 +301,7 @@ export interface TradingError {
 // === Configuration Types ===
 
 export interface OneChainConfig {
-  network: 'mainnet' | 'testnet' | 'devnet';
+  network: 'mainnet' | 'testnet' | 'devnet' | 'localnet';
   package_id: string;
   custodian_id: string;
   forge_id?: string;